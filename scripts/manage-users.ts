@@ -0,0 +1,146 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import { isRole, USER_ROLES } from "../src/lib/auth-session";
+import { userStore } from "../src/lib/user-store";
+
+// Usage: tsx scripts/manage-users.ts <command> [username] [--role=r] [--password=p] [--name=n] [--customers=id,id]
+//   list                  List local accounts and their roles
+//   add <username>        Create an account (--role defaults to viewer)
+//   role <username>       Change an account's role (--role)
+//   customers <username>  Restrict an account to customer ids (--customers; empty clears)
+//   password <username>   Reset an account's password (--password)
+//   disable <username>    Block sign-in without deleting the account
+//   enable <username>     Allow sign-in again
+//   delete <username>     Remove the account
+// Passwords can also be passed as USER_PASSWORD to keep them out of shell history.
+
+function getFlag(args: string[], name: string): string | undefined {
+  const match = args.find((arg) => arg.startsWith(`--${name}=`));
+  return match ? match.split("=").slice(1).join("=") : undefined;
+}
+
+function requireUsername(username: string | undefined): string {
+  if (!username) {
+    console.error("❌ A username is required");
+    process.exit(1);
+  }
+  return username;
+}
+
+function requireRole(value: string | undefined): (typeof USER_ROLES)[number] {
+  if (!isRole(value)) {
+    console.error(`❌ --role must be one of: ${USER_ROLES.join(", ")}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function requirePassword(args: string[]): string {
+  const password = getFlag(args, "password") || process.env.USER_PASSWORD;
+  if (!password) {
+    console.error("❌ Pass --password=... or set USER_PASSWORD");
+    process.exit(1);
+  }
+  return password;
+}
+
+function parseCustomerIds(value: string | undefined): number[] {
+  return (value || "")
+    .split(",")
+    .map((id) => parseInt(id.trim(), 10))
+    .filter(Number.isFinite);
+}
+
+function reportResult(username: string, found: boolean, action: string) {
+  if (!found) {
+    console.error(`❌ No user named ${username}`);
+    process.exit(1);
+  }
+  console.log(`✅ ${action} ${username}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const [command = "list", username] = args.filter(
+    (arg) => !arg.startsWith("--")
+  );
+
+  console.log("👤 User Management");
+  console.log(`📋 Command: ${command}\n`);
+
+  switch (command) {
+    case "list": {
+      const users = userStore.listUsers();
+      console.log(`👥 ${users.length} users`);
+      users.forEach((user) => {
+        const stored = userStore.getUser(user.username);
+        console.log(
+          `   ${user.username} (${user.displayName}) - ${user.role}${
+            user.customerIds ? ` customers ${user.customerIds.join(",")}` : ""
+          }${stored?.disabled ? " [disabled]" : ""}`
+        );
+      });
+      break;
+    }
+    case "add": {
+      const user = userStore.createUser(
+        requireUsername(username),
+        requirePassword(args),
+        requireRole(getFlag(args, "role") || "viewer"),
+        getFlag(args, "name"),
+        parseCustomerIds(getFlag(args, "customers"))
+      );
+      console.log(`✅ Added ${user.username} as ${user.role}`);
+      break;
+    }
+    case "role": {
+      const name = requireUsername(username);
+      const role = requireRole(getFlag(args, "role"));
+      reportResult(name, !!userStore.setRole(name, role), `Set ${role} for`);
+      break;
+    }
+    case "customers": {
+      const name = requireUsername(username);
+      const ids = parseCustomerIds(getFlag(args, "customers"));
+      const user = userStore.setCustomerIds(name, ids);
+      reportResult(
+        name,
+        !!user,
+        ids.length > 0 ? `Scoped to customers ${ids.join(",")}:` : "Unscoped"
+      );
+      break;
+    }
+    case "password": {
+      const name = requireUsername(username);
+      const user = userStore.setPassword(name, requirePassword(args));
+      reportResult(name, !!user, "Reset password for");
+      break;
+    }
+    case "disable":
+    case "enable": {
+      const name = requireUsername(username);
+      const user = userStore.setDisabled(name, command === "disable");
+      reportResult(name, !!user, command === "disable" ? "Disabled" : "Enabled");
+      break;
+    }
+    case "delete": {
+      const name = requireUsername(username);
+      reportResult(name, userStore.deleteUser(name), "Deleted");
+      break;
+    }
+    default:
+      console.error(`❌ Unknown command: ${command}`);
+      console.log(
+        "Available commands: list, add, role, customers, password, disable, enable, delete"
+      );
+      process.exit(1);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ User management failed:", error);
+    process.exit(1);
+  });
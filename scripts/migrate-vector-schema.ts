@@ -0,0 +1,127 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import {
+  vectorSchemaMigrator,
+  SchemaMigrationProgress,
+  SchemaMigrationReport,
+} from "../src/lib/vector-schema-migration";
+import {
+  CURRENT_SCHEMA_VERSION,
+  METADATA_SCHEMAS,
+} from "../src/lib/vector-metadata-schema";
+
+// Usage: tsx scripts/migrate-vector-schema.ts [scan|migrate|schemas] [--rederive] [--prune] [--page-size=n]
+//   scan     Count vectors per stored schema version (no writes)
+//   migrate  Re-shape stale vectors in place; jobs that cannot be re-shaped
+//            are re-fetched from the API and re-indexed
+//   --rederive  Re-fetch every stale job instead of re-shaping in place
+//   --prune     Delete vectors whose job is gone from the API or unknown
+
+function getFlag(args: string[], name: string): string | undefined {
+  const match = args.find((arg) => arg.startsWith(`--${name}=`));
+  return match ? match.split("=").slice(1).join("=") : undefined;
+}
+
+function logProgress(progress: SchemaMigrationProgress) {
+  if (progress.phase === "scan") {
+    console.log(
+      `🔍 Scanned ${progress.scanned} vectors (${progress.jobsToRederive} jobs queued for re-derivation)`
+    );
+  } else if (progress.phase === "rederive") {
+    const percent = Math.round(
+      (progress.jobsRederived / progress.jobsToRederive) * 100
+    );
+    console.log(
+      `📥 Re-derived ${progress.jobsRederived}/${progress.jobsToRederive} jobs (${percent}%)`
+    );
+  }
+}
+
+function printReport(report: SchemaMigrationReport) {
+  console.log(
+    `\n📊 Schema Migration ${report.dryRun ? "Scan" : "Results"} (target v${
+      report.targetVersion
+    }):`
+  );
+  console.log(`⏱️  Duration: ${(report.processingTime / 1000).toFixed(2)} seconds`);
+  console.log(`📦 Vectors Scanned: ${report.scanned}`);
+  Object.entries(report.versions)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .forEach(([version, count]) => {
+      console.log(`   v${version}: ${count}`);
+    });
+  console.log(`✅ Already Current: ${report.current}`);
+
+  if (report.dryRun) {
+    console.log(`🔧 Re-shapeable In Place: ${report.reshaped}`);
+    console.log(`📥 Jobs Needing Re-derivation: ${report.staleJobs}`);
+  } else {
+    console.log(`🔧 Re-shaped: ${report.reshaped} (${report.rekeyed} re-keyed)`);
+    console.log(`📥 Jobs Re-derived: ${report.rederivedJobs}/${report.staleJobs}`);
+    console.log(`🗑️  Vectors Deleted: ${report.deletedVectors}`);
+  }
+
+  if (report.missingJobs.length > 0) {
+    console.log(
+      `⚠️  Jobs Missing From API: ${report.missingJobs.length} (${report.missingJobs
+        .slice(0, 10)
+        .join(", ")}${report.missingJobs.length > 10 ? ", ..." : ""})`
+    );
+  }
+  if (report.orphaned > 0) {
+    console.log(`⚠️  Vectors Without Job Number: ${report.orphaned}`);
+  }
+  if (report.errors.length > 0) {
+    console.log(`⚠️  Errors: ${report.errors.length}`);
+    report.errors.slice(0, 20).forEach((error, index) => {
+      console.log(`   ${index + 1}. ${error}`);
+    });
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith("--")) || "scan";
+  const pageSize = parseInt(getFlag(args, "page-size") || "100", 10);
+
+  console.log("🚀 Vector Schema Migration");
+  console.log(`📋 Command: ${command}`);
+  console.log(`🏷️  Current schema: v${CURRENT_SCHEMA_VERSION}\n`);
+
+  switch (command) {
+    case "schemas":
+      METADATA_SCHEMAS.forEach((schema) => {
+        console.log(`v${schema.version}: ${schema.description}`);
+        console.log(`   Required: ${schema.requiredFields.join(", ")}`);
+      });
+      break;
+    case "scan":
+      printReport(
+        await vectorSchemaMigrator.scan({ pageSize, onProgress: logProgress })
+      );
+      break;
+    case "migrate": {
+      const report = await vectorSchemaMigrator.migrate({
+        pageSize,
+        rederive: args.includes("--rederive"),
+        prune: args.includes("--prune"),
+        onProgress: logProgress,
+      });
+      printReport(report);
+      if (report.errors.length > 0) process.exit(1);
+      break;
+    }
+    default:
+      console.error(`❌ Unknown command: ${command}`);
+      console.log("Available commands: scan, migrate, schemas");
+      process.exit(1);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Schema migration failed:", error);
+    process.exit(1);
+  });
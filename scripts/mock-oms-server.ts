@@ -0,0 +1,69 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import fs from "fs";
+import {
+  createMockOMSServer,
+  MockScenarioRule,
+} from "../src/lib/mock-oms-server";
+
+// Usage: tsx scripts/mock-oms-server.ts [port] [--latency=ms] [--scenario=file.json]
+//   [--username=user --password=pass] [--verbose]
+// With credentials the mock requires a login, like the real intranet
+// Scenario files hold an array of MockScenarioRule objects, e.g.
+//   [{ "bit": "get-joblines", "status": 503, "times": 2 },
+//    { "path": "JobStatusQueryAsync", "latencyMs": 1500 }]
+
+function getFlag(args: string[], name: string): string | undefined {
+  const match = args.find((arg) => arg.startsWith(`--${name}=`));
+  return match ? match.split("=").slice(1).join("=") : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const port = parseInt(args.find((arg) => !arg.startsWith("--")) || "4010", 10);
+  const latency = parseInt(getFlag(args, "latency") || "0", 10);
+  const scenarioPath = getFlag(args, "scenario");
+  const username = getFlag(args, "username");
+  const password = getFlag(args, "password");
+
+  let rules: MockScenarioRule[] = [];
+  if (scenarioPath) {
+    if (!fs.existsSync(scenarioPath)) {
+      console.error(`❌ Scenario file not found: ${scenarioPath}`);
+      process.exit(1);
+    }
+    rules = JSON.parse(fs.readFileSync(scenarioPath, "utf8"));
+    console.log(`📋 Loaded ${rules.length} scenario rules from ${scenarioPath}`);
+  }
+
+  const server = createMockOMSServer({
+    port,
+    defaultLatencyMs: latency,
+    rules,
+    verbose: args.includes("--verbose"),
+    credentials: username && password ? { username, password } : null,
+  });
+
+  const baseUrl = await server.start();
+  console.log(`\n✅ Set OMS_API_BASE_URL=${baseUrl} to use the mock`);
+  console.log(`🔧 Control API: ${baseUrl}/__mock/health | /__mock/rules | /__mock/requests | /__mock/sessions`);
+  if (username && password) {
+    console.log(`🔐 Login required: set OMS_USERNAME=${username} and OMS_PASSWORD`);
+  }
+
+  const shutdown = async () => {
+    const stats = server.getStats();
+    console.log(`\n📊 Served ${stats.totalRequests} requests (${stats.failedRequests} failed)`);
+    await server.stop();
+    process.exit(0);
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("❌ Mock OMS server failed to start:", error);
+  process.exit(1);
+});
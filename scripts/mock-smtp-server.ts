@@ -0,0 +1,46 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import { createMockSMTPServer } from "../src/lib/mock-smtp-server";
+
+// Usage: tsx scripts/mock-smtp-server.ts [port] [--dir=data/mock-mail] [--verbose]
+// Receives alert emails locally; point ALERT_SMTP_HOST/ALERT_SMTP_PORT at it.
+
+function getFlag(args: string[], name: string): string | undefined {
+  const match = args.find((arg) => arg.startsWith(`--${name}=`));
+  return match ? match.split("=").slice(1).join("=") : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const port = parseInt(
+    args.find((arg) => !arg.startsWith("--")) || "2525",
+    10
+  );
+  const mailDir = getFlag(args, "dir");
+
+  const server = createMockSMTPServer({
+    port,
+    ...(mailDir ? { mailDir } : {}),
+    verbose: args.includes("--verbose"),
+  });
+
+  await server.start();
+  console.log(
+    `\n✅ Set ALERT_SMTP_HOST=127.0.0.1 ALERT_SMTP_PORT=${server.getPort()} to use the mock`
+  );
+
+  const shutdown = async () => {
+    console.log(`\n📊 Received ${server.getMessages().length} messages`);
+    await server.stop();
+    process.exit(0);
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("❌ Mock SMTP server failed to start:", error);
+  process.exit(1);
+});
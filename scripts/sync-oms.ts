@@ -0,0 +1,107 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import {
+  omsSyncEngine,
+  SyncProgress,
+  SyncReport,
+} from "../src/lib/oms-sync-engine";
+
+// Usage: tsx scripts/sync-oms.ts [sync|status|tombstones|reset] [--page-size=n] [--max-pages=n] [--fresh] [--since=iso]
+//   sync        Sync new, changed and removed jobs; resumes an interrupted run
+//   status      Show the checkpoint and any interrupted run
+//   tombstones  List jobs removed from the active list (--since filters)
+//   reset       Forget the checkpoint; the next sync treats every job as new
+
+function getFlag(args: string[], name: string): string | undefined {
+  const match = args.find((arg) => arg.startsWith(`--${name}=`));
+  return match ? match.split("=").slice(1).join("=") : undefined;
+}
+
+function logProgress(progress: SyncProgress) {
+  console.log(
+    `📄 Page ${progress.page}/${progress.totalPages}: ${progress.seenJobs} jobs seen (+${progress.newJobs} new, ~${progress.changedJobs} changed)`
+  );
+}
+
+function printReport(report: SyncReport) {
+  console.log(
+    `\n📊 Sync ${report.runId} ${report.completed ? "Completed" : "Paused"}${
+      report.resumed ? " (resumed)" : ""
+    }:`
+  );
+  console.log(`⏱️  Duration: ${(report.processingTime / 1000).toFixed(2)} seconds`);
+  console.log(
+    `📄 Pages: ${report.pagesProcessed} this run, ${report.lastCompletedPage}/${report.totalPages} complete`
+  );
+  console.log(`📦 Jobs Seen: ${report.seenJobs}`);
+  console.log(`🆕 New: ${report.newJobs}`);
+  console.log(`🔄 Changed: ${report.changedJobs}`);
+  console.log(`✅ Unchanged: ${report.unchangedJobs}`);
+  console.log(`🪦 Removed: ${report.tombstones.length}`);
+  report.tombstones.slice(0, 20).forEach((tombstone) => {
+    console.log(
+      `   - Job ${tombstone.jobNumber}: ${tombstone.reason} (last status ${tombstone.lastStatus})`
+    );
+  });
+  console.log(
+    `🧠 Vectors: ${report.upsertedVectors} upserted, ${report.deletedVectors} deleted`
+  );
+
+  if (report.errors.length > 0) {
+    console.log(`⚠️  Errors: ${report.errors.length}`);
+    report.errors.slice(0, 20).forEach((error, index) => {
+      console.log(`   ${index + 1}. ${error}`);
+    });
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith("--")) || "sync";
+
+  console.log("🚀 OMS Sync");
+  console.log(`📋 Command: ${command}\n`);
+
+  switch (command) {
+    case "sync": {
+      const maxPages = getFlag(args, "max-pages");
+      const report = await omsSyncEngine.sync({
+        pageSize: parseInt(getFlag(args, "page-size") || "200", 10),
+        maxPages: maxPages ? parseInt(maxPages, 10) : undefined,
+        fresh: args.includes("--fresh"),
+        onProgress: logProgress,
+      });
+      printReport(report);
+      if (!report.completed && !maxPages) process.exit(1);
+      break;
+    }
+    case "status":
+      console.log(JSON.stringify(omsSyncEngine.getStatus(), null, 2));
+      break;
+    case "tombstones": {
+      const tombstones = omsSyncEngine.getTombstones(getFlag(args, "since"));
+      console.log(`🪦 ${tombstones.length} tombstones`);
+      tombstones.forEach((tombstone) => {
+        console.log(
+          `   ${tombstone.removedAt} Job ${tombstone.jobNumber}: ${tombstone.reason} (last status ${tombstone.lastStatus})`
+        );
+      });
+      break;
+    }
+    case "reset":
+      omsSyncEngine.reset();
+      break;
+    default:
+      console.error(`❌ Unknown command: ${command}`);
+      console.log("Available commands: sync, status, tombstones, reset");
+      process.exit(1);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ OMS sync failed:", error);
+    process.exit(1);
+  });
@@ -15,6 +15,11 @@ async function makeRequest(endpoint, method = "GET") {
       headers: {
         "Content-Type": "application/json",
         "User-Agent": "AdminDashboardTest/1.0",
+        // Admin routes need an admin session: the jobsight_session cookie
+        // set by /api/auth/login
+        ...(process.env.ADMIN_TOKEN
+          ? { Authorization: `Bearer ${process.env.ADMIN_TOKEN}` }
+          : {}),
       },
     };
 
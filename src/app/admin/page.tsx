@@ -11,11 +11,23 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { MetricChart } from "@/components/metric-chart";
+import { TraceWaterfall } from "@/components/trace-waterfall";
+import type { MetricSample } from "@/lib/metrics-store";
+import type { AlertState } from "@/lib/alert-manager";
+import type { AdminNotification } from "@/lib/alert-channels";
+import type { TraceRecord, TraceSummary } from "@/lib/tracer";
+import type { OMSAuthStatus } from "@/lib/oms-authenticator";
 
 interface SystemHealth {
   overall: boolean;
   components: {
-    api: { healthy: boolean; responseTime: number; error?: string };
+    api: {
+      healthy: boolean;
+      responseTime: number;
+      auth?: OMSAuthStatus;
+      error?: string;
+    };
     vectors: { healthy: boolean; stats?: any; error?: string };
     cache: { healthy: boolean; hitRate: number; totalEntries: number };
     rag: { healthy: boolean; error?: string };
@@ -62,6 +74,15 @@ export default function AdminDashboard() {
     useState<PerformanceMetrics | null>(null);
   const [systemLogs, setSystemLogs] = useState<SystemLogs[]>([]);
   const [configuration, setConfiguration] = useState<ConfigurationItem[]>([]);
+  const [metricsHistory, setMetricsHistory] = useState<MetricSample[]>([]);
+  const [historyRange, setHistoryRange] = useState("24h");
+  const [traces, setTraces] = useState<TraceSummary[]>([]);
+  const [selectedTrace, setSelectedTrace] = useState<TraceRecord | null>(null);
+  const [alertStates, setAlertStates] = useState<AlertState[]>([]);
+  const [alertNotifications, setAlertNotifications] = useState<
+    AdminNotification[]
+  >([]);
+  const [alertsEnabled, setAlertsEnabled] = useState(false);
   const [loading, setLoading] = useState(true);
   const [refreshInterval, setRefreshInterval] = useState(30); // seconds
   const [autoRefresh, setAutoRefresh] = useState(true);
@@ -88,6 +109,17 @@ export default function AdminDashboard() {
     }
   };
 
+  // Fetch sampled metrics for the history charts
+  const fetchMetricsHistory = async (range: string) => {
+    try {
+      const response = await fetch(`/api/admin/metrics/history?range=${range}`);
+      const data = await response.json();
+      setMetricsHistory(data.samples || []);
+    } catch (error) {
+      console.error("Failed to fetch metrics history:", error);
+    }
+  };
+
   // Fetch system logs
   const fetchSystemLogs = async () => {
     try {
@@ -99,6 +131,54 @@ export default function AdminDashboard() {
     }
   };
 
+  // Fetch recent request traces
+  const fetchTraces = async () => {
+    try {
+      const response = await fetch("/api/admin/traces?limit=20");
+      const data = await response.json();
+      setTraces(data.traces || []);
+    } catch (error) {
+      console.error("Failed to fetch traces:", error);
+    }
+  };
+
+  // Fetch one trace's spans for the waterfall
+  const selectTrace = async (traceId: string) => {
+    try {
+      const response = await fetch(`/api/admin/traces?traceId=${traceId}`);
+      const data = await response.json();
+      setSelectedTrace(data.trace || null);
+    } catch (error) {
+      console.error("Failed to fetch trace:", error);
+    }
+  };
+
+  // Fetch alert rule states and admin notifications
+  const fetchAlerts = async () => {
+    try {
+      const response = await fetch("/api/admin/alerts?limit=20");
+      const data = await response.json();
+      setAlertStates(data.states || []);
+      setAlertNotifications(data.notifications || []);
+      setAlertsEnabled(Boolean(data.enabled));
+    } catch (error) {
+      console.error("Failed to fetch alerts:", error);
+    }
+  };
+
+  const updateAlerts = async (body: Record<string, string>) => {
+    try {
+      await fetch("/api/admin/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      await fetchAlerts();
+    } catch (error) {
+      console.error("Failed to update alerts:", error);
+    }
+  };
+
   // Fetch configuration
   const fetchConfiguration = async () => {
     try {
@@ -118,6 +198,8 @@ export default function AdminDashboard() {
         fetchSystemHealth(),
         fetchPerformanceMetrics(),
         fetchSystemLogs(),
+        fetchTraces(),
+        fetchAlerts(),
         fetchConfiguration(),
       ]);
       setLoading(false);
@@ -126,6 +208,11 @@ export default function AdminDashboard() {
     loadData();
   }, []);
 
+  // History for the selected range
+  useEffect(() => {
+    fetchMetricsHistory(historyRange);
+  }, [historyRange]);
+
   // Auto-refresh setup
   useEffect(() => {
     if (!autoRefresh) return;
@@ -134,12 +221,15 @@ export default function AdminDashboard() {
       await Promise.all([
         fetchSystemHealth(),
         fetchPerformanceMetrics(),
+        fetchMetricsHistory(historyRange),
         fetchSystemLogs(),
+        fetchTraces(),
+        fetchAlerts(),
       ]);
     }, refreshInterval * 1000);
 
     return () => clearInterval(interval);
-  }, [autoRefresh, refreshInterval]);
+  }, [autoRefresh, refreshInterval, historyRange]);
 
   const getHealthBadge = (healthy: boolean) => (
     <Badge variant={healthy ? "default" : "destructive"}>
@@ -223,7 +313,10 @@ export default function AdminDashboard() {
                 Promise.all([
                   fetchSystemHealth(),
                   fetchPerformanceMetrics(),
+                  fetchMetricsHistory(historyRange),
                   fetchSystemLogs(),
+                  fetchTraces(),
+                  fetchAlerts(),
                 ])
               }
               variant="outline"
@@ -333,6 +426,16 @@ export default function AdminDashboard() {
                         {component === "api" && status.responseTime && (
                           <p>Response: {formatDuration(status.responseTime)}</p>
                         )}
+                        {component === "api" &&
+                          systemHealth.components.api.auth && (
+                            <p>
+                              OMS Session:{" "}
+                              {systemHealth.components.api.auth.state}
+                              {systemHealth.components.api.auth.canRefresh
+                                ? " (auto-renew)"
+                                : ""}
+                            </p>
+                          )}
                         {component === "cache" && (
                           <>
                             <p>
@@ -409,6 +512,194 @@ export default function AdminDashboard() {
           </CardContent>
         </Card>
 
+        {/* Alerts */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Alerts</CardTitle>
+                <CardDescription>
+                  {alertsEnabled
+                    ? "Rules evaluated on the health check interval"
+                    : "Alerting is disabled; evaluate manually to check rules"}
+                </CardDescription>
+              </div>
+              <Button
+                onClick={() => updateAlerts({ action: "evaluate" })}
+                variant="outline"
+                size="sm"
+              >
+                Evaluate now
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                {alertStates.map((state) => (
+                  <div
+                    key={state.ruleId}
+                    className="flex items-start justify-between p-2 rounded border"
+                  >
+                    <div>
+                      <p className="text-sm font-medium">{state.ruleName}</p>
+                      <p className="text-xs text-gray-600">{state.message}</p>
+                    </div>
+                    <Badge
+                      variant={
+                        state.status === "firing"
+                          ? "destructive"
+                          : state.status === "pending"
+                          ? "secondary"
+                          : "default"
+                      }
+                    >
+                      {state.status.toUpperCase()}
+                    </Badge>
+                  </div>
+                ))}
+                {alertStates.length === 0 && (
+                  <p className="text-center text-gray-500 py-4">
+                    No alert rules evaluated yet
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {alertNotifications.map((notification) => (
+                  <div
+                    key={notification.id}
+                    className={`p-2 rounded border-l-4 ${
+                      notification.event.status === "firing"
+                        ? "border-l-red-500"
+                        : "border-l-green-500"
+                    } ${notification.acknowledged ? "opacity-60" : ""}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium">
+                        {notification.event.ruleName}{" "}
+                        {notification.event.status}
+                      </p>
+                      {!notification.acknowledged && (
+                        <Button
+                          onClick={() =>
+                            updateAlerts({
+                              action: "acknowledge",
+                              id: notification.id,
+                            })
+                          }
+                          variant="outline"
+                          size="sm"
+                        >
+                          Acknowledge
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-600">
+                      {notification.event.message}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {new Date(notification.event.timestamp).toLocaleString()}
+                      {notification.acknowledgedBy &&
+                        ` · acknowledged by ${notification.acknowledgedBy}`}
+                    </p>
+                  </div>
+                ))}
+                {alertNotifications.length === 0 && (
+                  <p className="text-center text-gray-500 py-4">
+                    No alert notifications
+                  </p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Metrics History */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Metrics History</CardTitle>
+                <CardDescription>
+                  Sampled router, cache, OMS API and vector metrics
+                </CardDescription>
+              </div>
+              <select
+                value={historyRange}
+                onChange={(e) => setHistoryRange(e.target.value)}
+                className="px-3 py-1 border rounded text-sm"
+              >
+                <option value="1h">Last hour</option>
+                <option value="6h">Last 6 hours</option>
+                <option value="24h">Last 24 hours</option>
+                <option value="7d">Last 7 days</option>
+              </select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <MetricChart
+                title="Query Latency"
+                timestamps={metricsHistory.map((sample) => sample.timestamp)}
+                series={[
+                  {
+                    label: "p50",
+                    color: "#2563eb",
+                    values: metricsHistory.map((sample) => sample.latencyP50),
+                  },
+                  {
+                    label: "p95",
+                    color: "#f59e0b",
+                    values: metricsHistory.map((sample) => sample.latencyP95),
+                  },
+                  {
+                    label: "p99",
+                    color: "#dc2626",
+                    values: metricsHistory.map((sample) => sample.latencyP99),
+                  },
+                ]}
+                format={(value) => formatDuration(Math.round(value))}
+              />
+              <MetricChart
+                title="Cache Hit Rate"
+                timestamps={metricsHistory.map((sample) => sample.timestamp)}
+                series={[
+                  {
+                    label: "hit rate",
+                    color: "#16a34a",
+                    values: metricsHistory.map((sample) => sample.cacheHitRate),
+                  },
+                ]}
+                format={(value) => `${(value * 100).toFixed(0)}%`}
+              />
+              <MetricChart
+                title="OMS Error Rate"
+                timestamps={metricsHistory.map((sample) => sample.timestamp)}
+                series={[
+                  {
+                    label: "error rate",
+                    color: "#dc2626",
+                    values: metricsHistory.map((sample) => sample.omsErrorRate),
+                  },
+                ]}
+                format={(value) => `${(value * 100).toFixed(1)}%`}
+              />
+              <MetricChart
+                title="Vector Count"
+                timestamps={metricsHistory.map((sample) => sample.timestamp)}
+                series={[
+                  {
+                    label: "vectors",
+                    color: "#7c3aed",
+                    values: metricsHistory.map((sample) => sample.vectorCount),
+                  },
+                ]}
+                format={(value) => Math.round(value).toLocaleString()}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
         {/* System Logs */}
         <Card>
           <CardHeader>
@@ -454,6 +745,76 @@ export default function AdminDashboard() {
           </CardContent>
         </Card>
 
+        {/* Request Traces */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Request Traces</CardTitle>
+            <CardDescription>
+              Where time went in recent chat requests
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {traces.map((trace) => (
+                  <button
+                    key={trace.traceId}
+                    onClick={() => selectTrace(trace.traceId)}
+                    className={`w-full text-left p-2 rounded border text-sm ${
+                      selectedTrace?.traceId === trace.traceId
+                        ? "border-blue-500 bg-blue-50"
+                        : "border-gray-200"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        {formatDuration(Math.round(trace.durationMs))}
+                      </span>
+                      <Badge
+                        variant={
+                          trace.status === "error" ? "destructive" : "default"
+                        }
+                      >
+                        {trace.spanCount} spans
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                      {new Date(trace.startTime).toLocaleString()}
+                    </p>
+                  </button>
+                ))}
+                {traces.length === 0 && (
+                  <p className="text-center text-gray-500 py-4">
+                    No traces recorded yet
+                  </p>
+                )}
+              </div>
+              <div className="lg:col-span-2">
+                {selectedTrace ? (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <p className="text-xs font-mono text-gray-500">
+                        {selectedTrace.traceId}
+                      </p>
+                      <a
+                        href={`/api/admin/traces?traceId=${selectedTrace.traceId}&format=otlp`}
+                        className="text-sm text-blue-600 hover:underline"
+                      >
+                        Export OTLP
+                      </a>
+                    </div>
+                    <TraceWaterfall trace={selectedTrace} />
+                  </div>
+                ) : (
+                  <p className="text-center text-gray-500 py-4">
+                    Select a trace to see its spans
+                  </p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Quick Actions */}
         <Card>
           <CardHeader>
@@ -0,0 +1,88 @@
+// Admin Alerts API - Alert rule states, recent transitions and notifications
+import { NextRequest, NextResponse } from "next/server";
+import { alertManager } from "@/lib/alert-manager";
+import { adminAlertChannel } from "@/lib/alert-channels";
+import { configManager } from "@/lib/config-manager";
+import { authService } from "@/lib/auth-service";
+
+export async function GET(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limit = parseInt(searchParams.get("limit") || "50", 10) || 50;
+
+  try {
+    const monitoring = configManager.getCategory("monitoring");
+
+    return NextResponse.json({
+      success: true,
+      enabled: monitoring.enableAlerts,
+      thresholds: monitoring.alertThresholds,
+      rules: alertManager.getRules(),
+      channels: alertManager.getChannels(),
+      states: alertManager.getStates(),
+      events: alertManager.getEvents(limit),
+      notifications: adminAlertChannel.getNotifications().slice(0, limit),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("❌ Failed to load alerts:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load alerts",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// { action: "acknowledge", id } marks an admin notification as seen;
+// { action: "evaluate" } runs every rule now, even with alerts disabled
+export async function POST(request: NextRequest) {
+  const user = authService.getActiveUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { action, id } = await request.json();
+
+    if (action === "acknowledge") {
+      if (!id) {
+        return NextResponse.json(
+          { error: "Missing required field: id" },
+          { status: 400 }
+        );
+      }
+      if (!adminAlertChannel.acknowledge(id, user.username)) {
+        return NextResponse.json(
+          { error: "Notification not found or already acknowledged" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, id });
+    }
+
+    if (action === "evaluate") {
+      const states = await alertManager.evaluate();
+      return NextResponse.json({ success: true, states });
+    }
+
+    return NextResponse.json(
+      { error: "Unknown action", details: "Use acknowledge or evaluate" },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error("❌ Failed to update alerts:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update alerts",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// Admin Audit API - Search and export the chat audit trail
+import { NextRequest, NextResponse } from "next/server";
+import { auditLog } from "@/lib/audit-log";
+import { authService } from "@/lib/auth-service";
+
+// Filters: user, sessionId, jobNumber, strategy, q (message text), since,
+// until, limit; format=csv downloads the matches instead
+export async function GET(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format") || "json";
+
+  try {
+    const entries = auditLog.search({
+      user: searchParams.get("user") || undefined,
+      sessionId: searchParams.get("sessionId") || undefined,
+      jobNumber: searchParams.get("jobNumber") || undefined,
+      strategy: searchParams.get("strategy") || undefined,
+      text: searchParams.get("q") || undefined,
+      since: searchParams.get("since") || undefined,
+      until: searchParams.get("until") || undefined,
+      limit: searchParams.has("limit")
+        ? parseInt(searchParams.get("limit") || "0", 10) || undefined
+        : format === "csv"
+        ? undefined
+        : 100,
+    });
+
+    if (format === "csv") {
+      const date = new Date().toISOString().split("T")[0];
+      return new NextResponse(auditLog.toCsv(entries), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="audit-log-${date}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      stats: auditLog.getStats(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("❌ Failed to search audit log:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to search audit log",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
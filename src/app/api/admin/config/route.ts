@@ -1,5 +1,8 @@
 // Admin Configuration API - System configuration management
+// Changes are persisted as overrides and applied to running services
 import { NextRequest, NextResponse } from "next/server";
+import { configManager } from "@/lib/config-manager";
+import { authService } from "@/lib/auth-service";
 
 interface ConfigurationItem {
   key: string;
@@ -8,153 +11,169 @@ interface ConfigurationItem {
   description: string;
   category: "api" | "vector" | "cache" | "rag" | "general";
   editable: boolean;
+  overridden: boolean;
 }
 
-export async function GET(request: NextRequest) {
-  try {
-    console.log("⚙️ Fetching system configuration...");
+// Settings shown in the admin dashboard; keys are SystemConfig paths
+const CONFIG_ITEMS: Array<
+  Pick<ConfigurationItem, "key" | "description" | "category" | "editable">
+> = [
+  // API Configuration
+  {
+    key: "api.baseUrl",
+    description: "Base URL for OMS API endpoints",
+    category: "api",
+    editable: false,
+  },
+  {
+    key: "api.timeout",
+    description: "API request timeout in milliseconds",
+    category: "api",
+    editable: true,
+  },
+  {
+    key: "api.maxRetries",
+    description: "Maximum number of retry attempts for failed requests",
+    category: "api",
+    editable: true,
+  },
+  {
+    key: "api.retryDelay",
+    description: "Base delay between retries in milliseconds",
+    category: "api",
+    editable: true,
+  },
+  {
+    key: "api.rateLimitPerMinute",
+    description: "Maximum API requests per minute",
+    category: "api",
+    editable: true,
+  },
+  {
+    key: "api.circuitFailureThreshold",
+    description: "Consecutive failures before an OMS endpoint's circuit opens",
+    category: "api",
+    editable: true,
+  },
+  {
+    key: "api.circuitResetTimeout",
+    description: "Milliseconds an open circuit waits before probing again",
+    category: "api",
+    editable: true,
+  },
 
-    // System configuration items
-    const configuration: ConfigurationItem[] = [
-      // API Configuration
-      {
-        key: "api.baseUrl",
-        value: "https://intranet.decopress.com",
-        type: "string",
-        description: "Base URL for OMS API endpoints",
-        category: "api",
-        editable: false,
-      },
-      {
-        key: "api.timeout",
-        value: "30000",
-        type: "number",
-        description: "API request timeout in milliseconds",
-        category: "api",
-        editable: true,
-      },
-      {
-        key: "api.maxRetries",
-        value: "3",
-        type: "number",
-        description: "Maximum number of retry attempts for failed requests",
-        category: "api",
-        editable: true,
-      },
-      {
-        key: "api.rateLimitPerMinute",
-        value: "60",
-        type: "number",
-        description: "Maximum API requests per minute",
-        category: "api",
-        editable: true,
-      },
+  // Vector Configuration
+  {
+    key: "vector.embeddingModel",
+    description: "OpenAI embedding model for vector generation",
+    category: "vector",
+    editable: false,
+  },
+  {
+    key: "vector.updateInterval",
+    description: "Vector update interval in milliseconds",
+    category: "vector",
+    editable: false,
+  },
+  {
+    key: "vector.batchSize",
+    description: "Number of orders to process in each vector update batch",
+    category: "vector",
+    editable: false,
+  },
 
-      // Vector Configuration
-      {
-        key: "vector.embeddingModel",
-        value: "text-embedding-3-small",
-        type: "string",
-        description: "OpenAI embedding model for vector generation",
-        category: "vector",
-        editable: true,
-      },
-      {
-        key: "vector.updateInterval",
-        value: "1800000",
-        type: "number",
-        description: "Vector update interval in milliseconds (30 minutes)",
-        category: "vector",
-        editable: true,
-      },
-      {
-        key: "vector.batchSize",
-        value: "10",
-        type: "number",
-        description: "Number of orders to process in each vector update batch",
-        category: "vector",
-        editable: true,
-      },
+  // Cache Configuration
+  {
+    key: "cache.defaultTTL",
+    description: "Default cache TTL in milliseconds",
+    category: "cache",
+    editable: true,
+  },
+  {
+    key: "cache.maxSize",
+    description: "Maximum cache size in bytes",
+    category: "cache",
+    editable: true,
+  },
+  {
+    key: "cache.evictionPolicy",
+    description: "Cache eviction policy (lru/lfu/intelligent)",
+    category: "cache",
+    editable: true,
+  },
 
-      // Cache Configuration
-      {
-        key: "cache.defaultTTL",
-        value: "300000",
-        type: "number",
-        description: "Default cache TTL in milliseconds (5 minutes)",
-        category: "cache",
-        editable: true,
-      },
-      {
-        key: "cache.maxSize",
-        value: "157286400",
-        type: "number",
-        description: "Maximum cache size in bytes (150MB)",
-        category: "cache",
-        editable: true,
-      },
-      {
-        key: "cache.enableIntelligentEviction",
-        value: "true",
-        type: "boolean",
-        description:
-          "Enable intelligent cache eviction based on usage patterns",
-        category: "cache",
-        editable: true,
-      },
+  // RAG Configuration
+  {
+    key: "rag.openaiModel",
+    description: "OpenAI model used to plan and answer queries",
+    category: "rag",
+    editable: true,
+  },
+  {
+    key: "rag.temperature",
+    description: "Sampling temperature for answers",
+    category: "rag",
+    editable: true,
+  },
+  {
+    key: "rag.maxTokens",
+    description: "Maximum tokens per answer",
+    category: "rag",
+    editable: true,
+  },
+  {
+    key: "rag.minConfidenceThreshold",
+    description: "Minimum confidence threshold for vector search results",
+    category: "rag",
+    editable: false,
+  },
+  {
+    key: "rag.maxResults",
+    description: "Maximum number of search results to include in context",
+    category: "rag",
+    editable: false,
+  },
 
-      // RAG Configuration
-      {
-        key: "rag.maxContextLength",
-        value: "4000",
-        type: "number",
-        description: "Maximum context length for RAG responses",
-        category: "rag",
-        editable: true,
-      },
-      {
-        key: "rag.minConfidenceThreshold",
-        value: "0.7",
-        type: "number",
-        description: "Minimum confidence threshold for vector search results",
-        category: "rag",
-        editable: true,
-      },
-      {
-        key: "rag.maxResults",
-        value: "10",
-        type: "number",
-        description: "Maximum number of search results to include in context",
-        category: "rag",
-        editable: true,
-      },
+  // General Configuration
+  {
+    key: "environment",
+    description: "Current environment (development/production)",
+    category: "general",
+    editable: false,
+  },
+  {
+    key: "logging.level",
+    description: "Logging level (debug/info/warn/error)",
+    category: "general",
+    editable: true,
+  },
+  {
+    key: "monitoring.enableHealthChecks",
+    description: "Enable automatic health checks for all components",
+    category: "general",
+    editable: false,
+  },
+];
 
-      // General Configuration
-      {
-        key: "general.environment",
-        value: process.env.NODE_ENV || "development",
-        type: "string",
-        description: "Current environment (development/production)",
-        category: "general",
-        editable: false,
-      },
-      {
-        key: "general.logLevel",
-        value: "info",
-        type: "string",
-        description: "Logging level (debug/info/warn/error)",
-        category: "general",
-        editable: true,
-      },
-      {
-        key: "general.enableHealthChecks",
-        value: "true",
-        type: "boolean",
-        description: "Enable automatic health checks for all components",
-        category: "general",
-        editable: true,
-      },
-    ];
+export async function GET(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    console.log("⚙️ Fetching system configuration...");
+
+    const overrides = configManager.getOverrides();
+    const configuration: ConfigurationItem[] = CONFIG_ITEMS.map((item) => {
+      const value = configManager.get(item.key);
+      const type = getValueType(value);
+      return {
+        ...item,
+        value: type === "json" ? JSON.stringify(value) : String(value),
+        type,
+        overridden: item.key in overrides,
+      };
+    });
 
     // Get category summary
     const categorySummary = configuration.reduce((summary, item) => {
@@ -171,8 +190,10 @@ export async function GET(request: NextRequest) {
         total: configuration.length,
         editable: editableCount,
         readonly: configuration.length - editableCount,
+        overridden: Object.keys(overrides).length,
         byCategory: categorySummary,
       },
+      history: configManager.getHistory(20),
       lastUpdated: new Date().toISOString(),
     });
   } catch (error) {
@@ -192,6 +213,11 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const user = authService.getActiveUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   try {
     const { key, value } = await request.json();
 
@@ -204,16 +230,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`⚙️ Updating configuration: ${key} = ${value}`);
+    const validation = configManager.validate(key, value);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: "Invalid configuration value", details: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const change = configManager.set(key, validation.value, user.username);
 
-    // In a real implementation, this would update the configuration store
-    // For now, we'll just acknowledge the update
     return NextResponse.json({
       success: true,
       message: `Configuration ${key} updated successfully`,
       key,
-      value,
-      updatedAt: new Date().toISOString(),
+      value: change.newValue,
+      previousValue: change.oldValue,
+      updatedAt: change.changedAt,
     });
   } catch (error) {
     console.error("❌ Failed to update configuration:", error);
@@ -227,3 +260,51 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+// Remove an override (?key=...) so the environment value applies again
+export async function DELETE(request: NextRequest) {
+  const user = authService.getActiveUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const key = new URL(request.url).searchParams.get("key");
+  if (!key) {
+    return NextResponse.json({ error: "key is required" }, { status: 400 });
+  }
+
+  try {
+    const change = configManager.reset(key, user.username);
+    if (!change) {
+      return NextResponse.json(
+        { error: `No override set for ${key}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      key,
+      value: configManager.get(key),
+      previousValue: change.oldValue,
+      updatedAt: change.changedAt,
+    });
+  } catch (error) {
+    console.error("❌ Failed to reset configuration:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to reset configuration",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function getValueType(value: unknown): ConfigurationItem["type"] {
+  if (typeof value === "number") return "number";
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "string") return "string";
+  return "json";
+}
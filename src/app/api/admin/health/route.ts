@@ -5,8 +5,13 @@ import { enhancedVectorPipeline } from "@/lib/enhanced-vector-pipeline";
 import { advancedCacheService } from "@/lib/advanced-cache-service";
 import { intelligentQueryRouter } from "@/lib/query-router";
 import { enhancedRAGPipeline } from "@/lib/enhanced-rag-pipeline";
+import { authService } from "@/lib/auth-service";
 
 export async function GET(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   const startTime = Date.now();
 
   try {
@@ -88,6 +93,42 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// { action: "resetCircuits" } closes every OMS circuit so requests go
+// through again without waiting for a probe, e.g. once an outage is fixed
+export async function POST(request: NextRequest) {
+  const user = authService.getActiveUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { action } = await request.json();
+
+    if (action === "resetCircuits") {
+      enhancedAPIClient.resetCircuits();
+      console.log(`🔌 ${user.username} reset the OMS circuits`);
+      return NextResponse.json({
+        success: true,
+        circuits: enhancedAPIClient.getCircuitStates(),
+      });
+    }
+
+    return NextResponse.json(
+      { error: "Unknown action", details: "Use resetCircuits" },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error("❌ Failed to reset circuits:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to reset circuits",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
 // API Health Check
 async function checkAPIHealth() {
   const startTime = Date.now();
@@ -2,60 +2,45 @@
 import { NextRequest, NextResponse } from "next/server";
 import fs from "fs";
 import path from "path";
+import { logger, LogEntry, LogLevel } from "@/lib/logger";
+import { authService } from "@/lib/auth-service";
 
-interface LogEntry {
-  level: "info" | "warn" | "error" | "debug";
-  message: string;
-  timestamp: string;
-  component: string;
-  details?: any;
-}
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
 
+// Filters: level, minLevel, component, correlationId, q (message text),
+// since, until, limit
 export async function GET(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   const { searchParams } = new URL(request.url);
   const limit = parseInt(searchParams.get("limit") || "50");
-  const level = searchParams.get("level") as
-    | "info"
-    | "warn"
-    | "error"
-    | "debug"
-    | null;
+  const level = parseLevel(searchParams.get("level"));
+  const minLevel = parseLevel(searchParams.get("minLevel"));
   const component = searchParams.get("component");
+  const correlationId = searchParams.get("correlationId");
+  const text = searchParams.get("q");
   const since = searchParams.get("since"); // ISO date string
+  const until = searchParams.get("until");
 
   try {
-    console.log("📋 Collecting system logs...");
-
-    // Collect logs from various sources
-    const logs = await collectSystemLogs();
-
-    // Filter logs based on parameters
-    let filteredLogs = logs;
-
-    if (level) {
-      filteredLogs = filteredLogs.filter((log) => log.level === level);
-    }
-
-    if (component) {
-      filteredLogs = filteredLogs.filter((log) =>
-        log.component.toLowerCase().includes(component.toLowerCase())
-      );
-    }
-
-    if (since) {
-      const sinceDate = new Date(since);
-      filteredLogs = filteredLogs.filter(
-        (log) => new Date(log.timestamp) >= sinceDate
-      );
-    }
+    const query = {
+      level,
+      minLevel,
+      component: component || undefined,
+      correlationId: correlationId || undefined,
+      text: text || undefined,
+      since: since || undefined,
+      until: until || undefined,
+    };
 
-    // Sort by timestamp (newest first) and limit
-    const sortedLogs = filteredLogs
-      .sort(
-        (a, b) =>
-          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      )
-      .slice(0, limit);
+    // Application logs plus the vector updater's own log file
+    const filteredLogs = [
+      ...logger.query(query),
+      ...filterLogs(getVectorUpdaterLogs(), query),
+    ].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    const sortedLogs = filteredLogs.slice(0, limit);
 
     // Get summary statistics
     const summary = {
@@ -79,7 +64,16 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       logs: sortedLogs,
       summary,
-      filters: { limit, level, component, since },
+      filters: {
+        limit,
+        level,
+        minLevel,
+        component,
+        correlationId,
+        q: text,
+        since,
+        until,
+      },
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -98,89 +92,41 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// Collect logs from various system sources
-async function collectSystemLogs(): Promise<LogEntry[]> {
-  const logs: LogEntry[] = [];
-
-  // Add recent application logs
-  logs.push(...getRecentApplicationLogs());
-
-  // Add vector updater logs
-  logs.push(...(await getVectorUpdaterLogs()));
-
-  // Add API client logs
-  logs.push(...getAPIClientLogs());
-
-  // Add cache operation logs
-  logs.push(...getCacheOperationLogs());
-
-  // Add system health logs
-  logs.push(...getSystemHealthLogs());
-
-  return logs;
+function parseLevel(value: string | null): LogLevel | undefined {
+  return LOG_LEVELS.find((level) => level === value);
 }
 
-// Get recent application logs (simulated for demo)
-function getRecentApplicationLogs(): LogEntry[] {
-  const now = new Date();
-  const logs: LogEntry[] = [];
-
-  // Generate some sample application logs
-  const events = [
-    {
-      level: "info" as const,
-      message: "Application started successfully",
-      component: "application",
-    },
-    {
-      level: "info" as const,
-      message: "Database connection established",
-      component: "database",
-    },
-    {
-      level: "warn" as const,
-      message: "High memory usage detected",
-      component: "system",
-    },
-    {
-      level: "info" as const,
-      message: "Cache warmed up with initial data",
-      component: "cache",
-    },
-    {
-      level: "error" as const,
-      message: "Failed to connect to external API",
-      component: "api-client",
-    },
-    {
-      level: "info" as const,
-      message: "Vector pipeline initialized",
-      component: "vectors",
-    },
-    {
-      level: "warn" as const,
-      message: "Query timeout exceeded for complex search",
-      component: "query-router",
-    },
-    {
-      level: "info" as const,
-      message: "RAG pipeline processing completed",
-      component: "rag",
-    },
-  ];
-
-  events.forEach((event, index) => {
-    logs.push({
-      ...event,
-      timestamp: new Date(now.getTime() - index * 300000).toISOString(), // 5 min intervals
-    });
+// The logger's own filter, applied to entries from other sources
+function filterLogs(
+  logs: LogEntry[],
+  query: Parameters<typeof logger.query>[0] = {}
+): LogEntry[] {
+  const since = query.since ? new Date(query.since).getTime() : -Infinity;
+  const until = query.until ? new Date(query.until).getTime() : Infinity;
+  const component = query.component?.toLowerCase();
+  const text = query.text?.toLowerCase();
+
+  return logs.filter((log) => {
+    const timestamp = Date.parse(log.timestamp);
+    if (timestamp < since || timestamp > until) return false;
+    if (query.level && log.level !== query.level) return false;
+    if (
+      query.minLevel &&
+      LOG_LEVELS.indexOf(log.level) < LOG_LEVELS.indexOf(query.minLevel)
+    ) {
+      return false;
+    }
+    if (component && !log.component.toLowerCase().includes(component)) {
+      return false;
+    }
+    // Vector updater lines carry no correlation ID
+    if (query.correlationId) return false;
+    return !text || log.message.toLowerCase().includes(text);
   });
-
-  return logs;
 }
 
 // Get vector updater logs
-async function getVectorUpdaterLogs(): Promise<LogEntry[]> {
+function getVectorUpdaterLogs(): LogEntry[] {
   const logs: LogEntry[] = [];
   const logFile = path.join(
     process.cwd(),
@@ -193,10 +139,7 @@ async function getVectorUpdaterLogs(): Promise<LogEntry[]> {
       const logContent = fs.readFileSync(logFile, "utf8");
       const lines = logContent.split("\n").filter((line) => line.trim());
 
-      // Parse recent log lines (last 20)
-      const recentLines = lines.slice(-20);
-
-      recentLines.forEach((line) => {
+      lines.forEach((line) => {
         const parsed = parseLogLine(line);
         if (parsed) {
           logs.push({
@@ -215,79 +158,10 @@ async function getVectorUpdaterLogs(): Promise<LogEntry[]> {
   return logs;
 }
 
-// Get API client logs (simulated)
-function getAPIClientLogs(): LogEntry[] {
-  const now = new Date();
-  return [
-    {
-      level: "info",
-      message: "API connection pool initialized with 10 connections",
-      timestamp: new Date(now.getTime() - 600000).toISOString(),
-      component: "api-client",
-    },
-    {
-      level: "warn",
-      message: "API rate limit approaching threshold",
-      timestamp: new Date(now.getTime() - 300000).toISOString(),
-      component: "api-client",
-    },
-    {
-      level: "info",
-      message: "Successfully fetched order data batch",
-      timestamp: new Date(now.getTime() - 120000).toISOString(),
-      component: "api-client",
-    },
-  ];
-}
-
-// Get cache operation logs (simulated)
-function getCacheOperationLogs(): LogEntry[] {
-  const now = new Date();
-  return [
-    {
-      level: "info",
-      message: "Cache optimization completed",
-      timestamp: new Date(now.getTime() - 900000).toISOString(),
-      component: "cache",
-    },
-    {
-      level: "warn",
-      message: "Cache eviction triggered due to memory pressure",
-      timestamp: new Date(now.getTime() - 450000).toISOString(),
-      component: "cache",
-    },
-    {
-      level: "info",
-      message: "Cache hit rate improved to 87%",
-      timestamp: new Date(now.getTime() - 180000).toISOString(),
-      component: "cache",
-    },
-  ];
-}
-
-// Get system health logs (simulated)
-function getSystemHealthLogs(): LogEntry[] {
-  const now = new Date();
-  return [
-    {
-      level: "info",
-      message: "System health check completed - all components healthy",
-      timestamp: new Date(now.getTime() - 60000).toISOString(),
-      component: "health-monitor",
-    },
-    {
-      level: "warn",
-      message: "Query router response time elevated",
-      timestamp: new Date(now.getTime() - 240000).toISOString(),
-      component: "health-monitor",
-    },
-  ];
-}
-
 // Parse log line format: "2024-01-01T00:00:00.000Z [LEVEL] message"
 function parseLogLine(
   line: string
-): { level: LogEntry["level"]; message: string; timestamp: string } | null {
+): { level: LogLevel; message: string; timestamp: string } | null {
   const regex =
     /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{3})?Z)\s+\[(\w+)\]\s+(.+)$/;
   const match = line.match(regex);
@@ -296,7 +170,7 @@ function parseLogLine(
     const [, timestamp, level, message] = match;
     return {
       timestamp,
-      level: level.toLowerCase() as LogEntry["level"],
+      level: parseLevel(level.toLowerCase()) || "info",
       message: message.trim(),
     };
   }
@@ -0,0 +1,55 @@
+// Admin Metrics History API - Sampled metrics over a time range
+import { NextRequest, NextResponse } from "next/server";
+import { metricsStore } from "@/lib/metrics-store";
+import { configManager } from "@/lib/config-manager";
+import { authService } from "@/lib/auth-service";
+
+const RANGES: Record<string, number> = {
+  "1h": 60 * 60 * 1000,
+  "6h": 6 * 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+};
+
+// range (1h, 6h, 24h, 7d; default 24h) or since/until, and maxPoints
+// (default 200) to average long ranges down for charting
+export async function GET(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const range = searchParams.get("range") || "24h";
+  const since =
+    searchParams.get("since") ||
+    new Date(Date.now() - (RANGES[range] || RANGES["24h"])).toISOString();
+  const until = searchParams.get("until") || undefined;
+
+  try {
+    const monitoring = configManager.getCategory("monitoring");
+    const samples = metricsStore.getRange({
+      since,
+      until,
+      maxPoints: parseInt(searchParams.get("maxPoints") || "200", 10) || 200,
+    });
+
+    return NextResponse.json({
+      success: true,
+      samples,
+      since,
+      until: until || new Date().toISOString(),
+      sampleInterval: monitoring.metricsInterval,
+      retention: monitoring.metricsRetention,
+      enabled: monitoring.enableMetrics,
+    });
+  } catch (error) {
+    console.error("❌ Failed to load metrics history:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load metrics history",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
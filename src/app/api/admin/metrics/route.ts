@@ -4,8 +4,13 @@ import { intelligentQueryRouter } from "@/lib/query-router";
 import { advancedCacheService } from "@/lib/advanced-cache-service";
 import { enhancedAPIClient } from "@/lib/enhanced-api-client";
 import { enhancedVectorPipeline } from "@/lib/enhanced-vector-pipeline";
+import { authService } from "@/lib/auth-service";
 
 export async function GET(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   const startTime = Date.now();
 
   try {
@@ -0,0 +1,74 @@
+// Admin Traces API - Recent chat request traces and OTLP export
+import { NextRequest, NextResponse } from "next/server";
+import { tracer, TraceRecord } from "@/lib/tracer";
+import { authService } from "@/lib/auth-service";
+
+// traceId returns one trace with its spans; otherwise traces are listed
+// with filters name, status, minDurationMs, since, limit. format=otlp
+// downloads the selected traces as OTLP JSON.
+export async function GET(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const traceId = searchParams.get("traceId");
+  const format = searchParams.get("format") || "json";
+
+  try {
+    if (traceId) {
+      const trace = tracer.getTrace(traceId);
+      if (!trace) {
+        return NextResponse.json({ error: "Trace not found" }, { status: 404 });
+      }
+      return format === "otlp"
+        ? otlpResponse([trace], `trace-${traceId}`)
+        : NextResponse.json({ success: true, trace });
+    }
+
+    const status = searchParams.get("status");
+    const traces = tracer.listTraces({
+      name: searchParams.get("name") || undefined,
+      status: status === "ok" || status === "error" ? status : undefined,
+      minDurationMs: searchParams.has("minDurationMs")
+        ? Number(searchParams.get("minDurationMs"))
+        : undefined,
+      since: searchParams.get("since") || undefined,
+      limit: parseInt(searchParams.get("limit") || "50", 10) || undefined,
+    });
+
+    if (format === "otlp") {
+      const date = new Date().toISOString().split("T")[0];
+      return otlpResponse(
+        traces
+          .map((trace) => tracer.getTrace(trace.traceId))
+          .filter((trace): trace is TraceRecord => trace !== null),
+        `traces-${date}`
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      traces,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("❌ Failed to load traces:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load traces",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function otlpResponse(traces: TraceRecord[], filename: string) {
+  return new NextResponse(JSON.stringify(tracer.toOtlp(traces)), {
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Disposition": `attachment; filename="${filename}.json"`,
+    },
+  });
+}
@@ -0,0 +1,78 @@
+// Auth Login API - Exchanges credentials for a signed session cookie
+// Repeated failures lock the username and the client out for a while
+import { NextRequest, NextResponse } from "next/server";
+import { authService } from "../../../../lib/auth-service";
+import {
+  getSessionSecret,
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  signSessionToken,
+} from "../../../../lib/auth-session";
+
+export async function POST(request: NextRequest) {
+  try {
+    const secret = getSessionSecret();
+    if (!secret) {
+      return NextResponse.json(
+        {
+          error: "Authentication is not configured",
+          details: "Set AUTH_SECRET in the environment",
+        },
+        { status: 500 }
+      );
+    }
+
+    const { username, password } = await request.json().catch(() => ({}));
+    if (typeof username !== "string" || typeof password !== "string") {
+      return NextResponse.json(
+        { error: "username and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const client =
+      request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const retryAfter = authService.getLockout(username, client);
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        {
+          error: "Too many failed sign-ins",
+          details: `Try again in ${Math.ceil(retryAfter / 60)} minutes`,
+        },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    const user = await authService.authenticate(username, password);
+    authService.recordSignIn(username, client, !!user);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Invalid username or password" },
+        { status: 401 }
+      );
+    }
+
+    // The token only travels in the httpOnly cookie
+    const token = await signSessionToken(user, secret);
+    const response = NextResponse.json({ success: true, user });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: SESSION_TTL_MS / 1000,
+    });
+    return response;
+  } catch (error) {
+    console.error("❌ Sign-in failed:", error);
+    return NextResponse.json(
+      {
+        error: "Sign-in failed",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
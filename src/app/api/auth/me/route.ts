@@ -0,0 +1,11 @@
+// Auth Me API - The signed-in user, as the account stands now
+import { NextRequest, NextResponse } from "next/server";
+import { authService } from "../../../../lib/auth-service";
+
+export async function GET(request: NextRequest) {
+  const user = authService.getActiveUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return NextResponse.json({ success: true, user });
+}
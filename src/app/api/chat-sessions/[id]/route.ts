@@ -0,0 +1,91 @@
+// Chat Session API - Get, rename and delete a persisted chat session
+import { NextRequest, NextResponse } from "next/server";
+import {
+  chatSessionStore,
+  getSessionViewer,
+} from "../../../../lib/chat-session-store";
+import { authService } from "../../../../lib/auth-service";
+import { getDataScope, scopeOrders } from "../../../../lib/data-scope";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Sessions another user started answer as not found, except to admins,
+// and so does every session once the account is disabled
+function isAccessible(request: NextRequest, id: string): boolean {
+  const user = authService.getActiveUser(request);
+  return !!user && chatSessionStore.canAccess(id, getSessionViewer(user));
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const session = chatSessionStore.getSession(id);
+  if (!session || !isAccessible(request, id)) {
+    return NextResponse.json(
+      { error: "Chat session not found" },
+      { status: 404 }
+    );
+  }
+
+  // Assignments can change after a session was recorded
+  const scope = getDataScope(authService.getActiveUser(request));
+  return NextResponse.json({
+    success: true,
+    session: scope
+      ? {
+          ...session,
+          messages: session.messages.map((message) => ({
+            ...message,
+            orders: message.orders && scopeOrders(message.orders, scope),
+          })),
+        }
+      : session,
+  });
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { title } = await request.json();
+    if (typeof title !== "string") {
+      return NextResponse.json(
+        { error: "Title is required" },
+        { status: 400 }
+      );
+    }
+
+    const session = isAccessible(request, id)
+      ? chatSessionStore.renameSession(id, title)
+      : null;
+    if (!session) {
+      return NextResponse.json(
+        { error: "Chat session not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, session });
+  } catch (error) {
+    console.error("❌ Failed to rename chat session:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to rename chat session",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const deleted =
+    isAccessible(request, id) && chatSessionStore.deleteSession(id);
+  if (!deleted) {
+    return NextResponse.json(
+      { error: "Chat session not found" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,61 @@
+// Chat Sessions API - List and create persisted chat sessions
+import { NextRequest, NextResponse } from "next/server";
+import {
+  chatSessionStore,
+  getSessionViewer,
+} from "../../../lib/chat-session-store";
+import { authService } from "../../../lib/auth-service";
+
+export async function GET(request: NextRequest) {
+  const user = authService.getActiveUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const sessions = chatSessionStore.listSessions(getSessionViewer(user));
+    return NextResponse.json({ success: true, sessions });
+  } catch (error) {
+    console.error("❌ Failed to list chat sessions:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to list chat sessions",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = authService.getActiveUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const viewer = getSessionViewer(user);
+    if (body.id && !chatSessionStore.canAccess(body.id, viewer)) {
+      return NextResponse.json(
+        { error: "Chat session not found" },
+        { status: 404 }
+      );
+    }
+    const session = chatSessionStore.createSession(
+      body.id,
+      body.title,
+      viewer?.id
+    );
+    return NextResponse.json({ success: true, session });
+  } catch (error) {
+    console.error("❌ Failed to create chat session:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to create chat session",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
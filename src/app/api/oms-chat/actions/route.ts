@@ -0,0 +1,117 @@
+// Chat Actions API - Confirm or cancel OMS writes the chat has proposed
+import { NextRequest, NextResponse } from "next/server";
+import { authService } from "../../../../lib/auth-service";
+import { auditLog } from "../../../../lib/audit-log";
+import { chatSessionStore } from "../../../../lib/chat-session-store";
+import {
+  ActionConfirmation,
+  pendingActionStore,
+} from "../../../../lib/pending-actions";
+import { writeActionService } from "../../../../lib/write-actions";
+
+// Actions proposed in a chat session, newest first
+export async function GET(request: NextRequest) {
+  const user = authService.getActiveUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const sessionId = request.nextUrl.searchParams.get("sessionId");
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "sessionId is required" },
+        { status: 400 }
+      );
+    }
+
+    const actions = pendingActionStore
+      .list({ sessionId })
+      .filter(
+        (action) =>
+          user.role === "admin" || action.requestedBy.userId === user.id
+      );
+    return NextResponse.json({ success: true, actions });
+  } catch (error) {
+    console.error("❌ Failed to list chat actions:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to list chat actions",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { id, decision: "confirm" | "cancel", idempotencyKey? }
+// Repeating a confirmation with the same idempotencyKey returns the action
+// as applied the first time instead of writing again
+export async function POST(request: NextRequest) {
+  const user = authService.getActiveUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const action = body.id ? pendingActionStore.get(body.id) : null;
+  if (!action) {
+    return NextResponse.json({ error: "Action not found" }, { status: 404 });
+  }
+  if (body.decision !== "confirm" && body.decision !== "cancel") {
+    return NextResponse.json(
+      { error: 'decision must be "confirm" or "cancel"' },
+      { status: 400 }
+    );
+  }
+
+  const repeated =
+    Boolean(body.idempotencyKey) && action.confirmKey === body.idempotencyKey;
+
+  try {
+    // Recorded like a chat turn so the writes sit in the audit log
+    const resolved = await auditLog.track(
+      {
+        user,
+        sessionId: action.sessionId || undefined,
+        message: `${body.decision}: ${action.summary}`,
+      },
+      () =>
+        body.decision === "confirm"
+          ? writeActionService.confirm(
+              action.id,
+              user,
+              body.idempotencyKey ? String(body.idempotencyKey) : undefined
+            )
+          : writeActionService.cancel(action.id, user)
+    );
+
+    // The decision becomes part of the conversation
+    const confirmation: ActionConfirmation = {
+      actionId: resolved.id,
+      decision: body.decision,
+      summary: resolved.summary,
+      status: resolved.status,
+    };
+    if (action.sessionId && !repeated) {
+      chatSessionStore.appendMessage(action.sessionId, {
+        role: "user",
+        content: `${body.decision === "confirm" ? "Confirmed" : "Cancelled"}: ${
+          resolved.summary
+        }`,
+        type: "confirmation",
+        confirmation,
+      });
+    }
+    return NextResponse.json({ success: true, action: resolved, confirmation });
+  } catch (error) {
+    console.error(`❌ Failed to ${body.decision} action ${action.id}:`, error);
+    return NextResponse.json(
+      {
+        error: `Failed to ${body.decision} action`,
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 400 }
+    );
+  }
+}
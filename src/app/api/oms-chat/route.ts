@@ -2,11 +2,49 @@ import { NextRequest, NextResponse } from "next/server";
 import { intelligentQueryRouter } from "../../../lib/query-router";
 // Cleaned up - now uses only GPT-powered semantic search via intelligentQueryRouter
 import { EnhancedRAGPipeline } from "../../../lib/enhanced-rag-pipeline";
+import {
+  chatSessionStore,
+  getSessionViewer,
+} from "../../../lib/chat-session-store";
+import { contextManagerService } from "../../../lib/context-manager-service";
+import { authService } from "../../../lib/auth-service";
+import { DataScope, getDataScope, scopeOrders } from "../../../lib/data-scope";
+import { auditLog, AuditRequest } from "../../../lib/audit-log";
+import { logger } from "../../../lib/logger";
+import { tracer } from "../../../lib/tracer";
+import { pendingActionStore } from "../../../lib/pending-actions";
+import {
+  parseTagCommand,
+  WriteCommand,
+  writeActionService,
+} from "../../../lib/write-actions";
 
 // Initialize enhanced RAG pipeline for intelligent responses
 const ragPipeline = new EnhancedRAGPipeline();
+const chatLog = logger.child("oms-chat");
 
+// Each request gets a correlation ID that tags its log lines and audit
+// entry; it is returned as x-request-id for support. The request's trace ID
+// is the same value without dashes.
 export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const response = await logger.withCorrelationId(requestId, () =>
+    tracer.trace(
+      "POST /api/oms-chat",
+      { kind: "server", traceId: requestId.replace(/-/g, "") },
+      () => handleChatRequest(request)
+    )
+  );
+  response.headers.set("x-request-id", requestId);
+  return response;
+}
+
+async function handleChatRequest(request: NextRequest): Promise<Response> {
+  const user = authService.getActiveUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   try {
     // Add logging to see what's being received
     const rawBody = await request.text();
@@ -15,11 +53,13 @@ export async function POST(request: NextRequest) {
     let message: string;
     let sessionId: string;
     let conversationContext: string;
+    let stream: boolean;
     try {
       const parsedBody = JSON.parse(rawBody);
       message = parsedBody.message;
       sessionId = parsedBody.sessionId;
       conversationContext = parsedBody.context;
+      stream = parsedBody.stream === true;
     } catch (parseError) {
       console.error("[OMS-CHAT] JSON parse error:", parseError);
       console.error("[OMS-CHAT] Raw body that failed to parse:", rawBody);
@@ -44,9 +84,56 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`[OMS-CHAT] Incoming message: '${message}'`);
-    console.log(`[OMS-CHAT] Session ID: '${sessionId}'`);
-    console.log(`[OMS-CHAT] Conversation context: '${conversationContext}'`);
+    // Customer-scoped users only see their own customers' orders, and
+    // only admins continue sessions someone else started
+    const scope = getDataScope(user);
+    const viewer = getSessionViewer(user);
+    if (sessionId && !chatSessionStore.canAccess(sessionId, viewer)) {
+      return NextResponse.json(
+        { error: "Chat session not found" },
+        { status: 404 }
+      );
+    }
+
+    // Clients that only send a session ID get the context from its history
+    if (!conversationContext && sessionId) {
+      conversationContext = chatSessionStore.getRecentContext(sessionId);
+    }
+
+    chatLog.info("Incoming message", {
+      message,
+      sessionId,
+      user: user.username,
+      conversationContext,
+    });
+    tracer.setAttributes({
+      "user.name": user.username,
+      "session.id": sessionId || "",
+      stream,
+    });
+
+    if (sessionId) {
+      chatSessionStore.appendMessage(
+        sessionId,
+        { role: "user", content: message },
+        user.id
+      );
+    }
+
+    // Every answer is recorded with who asked and which orders it returned
+    const audit: AuditRequest = { user, sessionId, message };
+
+    // Tag changes are only proposed here; the user applies them from the
+    // confirmation card. Roles that can't change tags get an ordinary answer
+    const tagCommand = parseTagCommand(message);
+    if (
+      tagCommand &&
+      writeActionService.isAllowed(tagCommand.kind, user.role)
+    ) {
+      return await auditLog.track(audit, () =>
+        handleWriteCommand(tagCommand, sessionId, scope)
+      );
+    }
 
     // Check if this is a follow-up calculation query
     const isFollowUpCalculation = isFollowUpCalculationQuery(
@@ -58,58 +145,117 @@ export async function POST(request: NextRequest) {
       console.log(
         "🧮 Detected follow-up calculation query, processing with context..."
       );
-      return await handleFollowUpCalculation(message, conversationContext);
+      return await auditLog.track(audit, () =>
+        handleFollowUpCalculation(message, sessionId, scope)
+      );
     }
 
-    // Step 1: Use intelligent query router to get data
-    const routerResult = await intelligentQueryRouter.routeQuery(message);
-    console.log("[OMS-CHAT] Router strategy:", routerResult.strategy);
-    console.log(
-      "[OMS-CHAT] Direct orders:",
-      routerResult.results?.orders?.length || 0
-    );
-    console.log(
-      "[OMS-CHAT] Vector results:",
-      routerResult.results?.vectorResults?.length || 0
+    if (stream) {
+      return streamChatResponse(message, sessionId, scope, audit);
+    }
+
+    return NextResponse.json(
+      await auditLog.track(audit, () =>
+        tracer.span("chat.respond", () =>
+          buildChatResponse(message, sessionId, scope)
+        )
+      )
     );
-    console.log(
-      "[OMS-CHAT] Router result:",
-      JSON.stringify(routerResult, null, 2)
+  } catch (error) {
+    chatLog.error("OMS chat API error", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to process query",
+        message:
+          "I'm having trouble processing your request. Please try again or rephrase your question.",
+        analytics: {
+          totalResults: 0,
+          dataSource: "error",
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
     );
+  }
+}
 
-    // Step 2: Process based on router strategy
-    let finalOrders: any[] = [];
-    let responseMessage: string = "";
-    let confidence: "high" | "medium" | "low" = "medium";
-    let dataFreshness = routerResult.dataFreshness;
-    let totalProcessingTime = routerResult.processingTime;
-    let ragResult: any = null; // Declare at higher scope
-
-    // For API strategy (specific job lookups), check if it's pricing-related
-    if (routerResult.strategy === "api") {
-      console.log("🎯 Using API strategy - direct router results");
-      finalOrders = routerResult.results?.orders || [];
-
-      // Check if the query is pricing-related
-      const isPricingQuery =
-        message.toLowerCase().includes("cost") ||
-        message.toLowerCase().includes("price") ||
-        message.toLowerCase().includes("pricing") ||
-        message.toLowerCase().includes("value") ||
-        message.toLowerCase().includes("total") ||
-        message.toLowerCase().includes("amount") ||
-        message.toLowerCase().includes("$") ||
-        message.toLowerCase().includes("expensive") ||
-        message.toLowerCase().includes("cheap") ||
-        message.toLowerCase().includes("how much");
-
-      if (isPricingQuery && finalOrders.length > 0) {
-        // Use RAG pipeline for pricing-related queries to get detailed pricing info
-        console.log(
-          "💰 Pricing-related query detected, using RAG pipeline for detailed response"
-        );
+// Optional callbacks for streaming mode; each fires as soon as its part of
+// the response is ready. The signal aborts when the client goes away
+interface ChatStreamHandlers {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  onOrders?: (orders: any[], strategy: string) => void;
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
 
-        ragResult = await ragPipeline.queryWithContext({
+// Route the query, generate the answer and assemble the chat response body
+async function buildChatResponse(
+  message: string,
+  sessionId: string,
+  scope?: DataScope,
+  handlers: ChatStreamHandlers = {}
+) {
+  // Step 1: Use intelligent query router to get data
+  const routerResult = await tracer.span("router.routeQuery", () =>
+    intelligentQueryRouter.routeQuery(message, { sessionId, scope })
+  );
+  // A "sort those by ..." follow-up keeps the order the router chose
+  const keepRouterOrder = routerResult.followUp?.refinement === "sort";
+  const previewOrders = [...(routerResult.results?.orders || [])];
+  handlers.onOrders?.(
+    (keepRouterOrder ? previewOrders : sortByDaysToDue(previewOrders)).slice(
+      0,
+      10
+    ),
+    routerResult.strategy
+  );
+  handlers.signal?.throwIfAborted();
+  chatLog.info("Query routed", {
+    strategy: routerResult.strategy,
+    orders: routerResult.results?.orders?.length || 0,
+    vectorResults: routerResult.results?.vectorResults?.length || 0,
+  });
+  console.log(
+    "[OMS-CHAT] Router result:",
+    JSON.stringify(routerResult, null, 2)
+  );
+
+  // Step 2: Process based on router strategy
+  let finalOrders: any[] = [];
+  let responseMessage: string = "";
+  let confidence: "high" | "medium" | "low" = "medium";
+  let dataFreshness = routerResult.dataFreshness;
+  let totalProcessingTime = routerResult.processingTime;
+  let ragResult: any = null; // Declare at higher scope
+
+  // For API strategy (specific job lookups), check if it's pricing-related
+  if (routerResult.strategy === "api") {
+    console.log("🎯 Using API strategy - direct router results");
+    finalOrders = routerResult.results?.orders || [];
+
+    // Check if the query is pricing-related
+    const isPricingQuery =
+      message.toLowerCase().includes("cost") ||
+      message.toLowerCase().includes("price") ||
+      message.toLowerCase().includes("pricing") ||
+      message.toLowerCase().includes("value") ||
+      message.toLowerCase().includes("total") ||
+      message.toLowerCase().includes("amount") ||
+      message.toLowerCase().includes("$") ||
+      message.toLowerCase().includes("expensive") ||
+      message.toLowerCase().includes("cheap") ||
+      message.toLowerCase().includes("how much");
+
+    if (isPricingQuery && finalOrders.length > 0) {
+      // Use RAG pipeline for pricing-related queries to get detailed pricing info
+      console.log(
+        "💰 Pricing-related query detected, using RAG pipeline for detailed response"
+      );
+
+      ragResult = await ragPipeline.queryWithContext(
+        {
           userQuery: message,
           context: {
             includeLineItems: true,
@@ -117,21 +263,26 @@ export async function POST(request: NextRequest) {
             includeFiles: true,
             maxOrders: 10,
             preferFreshData: true,
+            sessionId,
+            scope,
           },
-        });
+        },
+        { onToken: handlers.onToken, signal: handlers.signal }
+      );
 
-        // Use the RAG result for pricing queries
-        responseMessage = ragResult.answer;
-        confidence = ragResult.confidence;
-        dataFreshness = ragResult.dataFreshness;
-        totalProcessingTime += ragResult.processingTime;
-      } else {
-        // Use RAG pipeline for all non-pricing API queries to generate proper structured responses
-        console.log(
-          "🧠 Using RAG pipeline for API strategy response generation..."
-        );
+      // Use the RAG result for pricing queries
+      responseMessage = ragResult.answer;
+      confidence = ragResult.confidence;
+      dataFreshness = ragResult.dataFreshness;
+      totalProcessingTime += ragResult.processingTime;
+    } else {
+      // Use RAG pipeline for all non-pricing API queries to generate proper structured responses
+      console.log(
+        "🧠 Using RAG pipeline for API strategy response generation..."
+      );
 
-        ragResult = await ragPipeline.queryWithContext({
+      ragResult = await ragPipeline.queryWithContext(
+        {
           userQuery: message,
           context: {
             includeLineItems: true,
@@ -139,41 +290,46 @@ export async function POST(request: NextRequest) {
             includeFiles: true,
             maxOrders: 10,
             preferFreshData: true,
+            sessionId,
+            scope,
           },
-        });
+        },
+        { onToken: handlers.onToken, signal: handlers.signal }
+      );
 
-        // Use the RAG result for all queries
-        responseMessage = ragResult.answer;
-        confidence = ragResult.confidence;
-        dataFreshness = ragResult.dataFreshness;
-        totalProcessingTime += ragResult.processingTime;
-      }
+      // Use the RAG result for all queries
+      responseMessage = ragResult.answer;
+      confidence = ragResult.confidence;
+      dataFreshness = ragResult.dataFreshness;
+      totalProcessingTime += ragResult.processingTime;
+    }
+  } else {
+    // For other strategies (vector, hybrid), use RAG pipeline
+    console.log("🧠 Using RAG pipeline for enhanced response generation...");
+
+    // Check if this is a constraint query that needs special processing
+    const isConstraintQuery =
+      message.toLowerCase().includes("add up to") ||
+      message.toLowerCase().includes("total") ||
+      message.toLowerCase().includes("sum") ||
+      message.toLowerCase().includes("value");
+
+    if (isConstraintQuery) {
+      console.log(
+        "🔍 Detected constraint query, using processQuery method..."
+      );
+      ragResult = await ragPipeline.processQuery(message, undefined, scope);
+
+      // For constraint queries, use the orders from the RAG result
+      finalOrders = ragResult.sources?.orders || [];
+      responseMessage = ragResult.answer || "No response generated";
+      confidence = ragResult.confidence;
+      dataFreshness = ragResult.dataFreshness;
+      totalProcessingTime += ragResult.processingTime;
     } else {
-      // For other strategies (vector, hybrid), use RAG pipeline
-      console.log("🧠 Using RAG pipeline for enhanced response generation...");
-
-      // Check if this is a constraint query that needs special processing
-      const isConstraintQuery =
-        message.toLowerCase().includes("add up to") ||
-        message.toLowerCase().includes("total") ||
-        message.toLowerCase().includes("sum") ||
-        message.toLowerCase().includes("value");
-
-      if (isConstraintQuery) {
-        console.log(
-          "🔍 Detected constraint query, using processQuery method..."
-        );
-        ragResult = await ragPipeline.processQuery(message);
-
-        // For constraint queries, use the orders from the RAG result
-        finalOrders = ragResult.sources?.orders || [];
-        responseMessage = ragResult.answer || "No response generated";
-        confidence = ragResult.confidence;
-        dataFreshness = ragResult.dataFreshness;
-        totalProcessingTime += ragResult.processingTime;
-      } else {
-        // For regular queries, use queryWithContext
-        ragResult = await ragPipeline.queryWithContext({
+      // For regular queries, use queryWithContext
+      ragResult = await ragPipeline.queryWithContext(
+        {
           userQuery: message,
           context: {
             includeLineItems: true,
@@ -181,165 +337,261 @@ export async function POST(request: NextRequest) {
             includeFiles: true,
             maxOrders: 10,
             preferFreshData: true,
+            sessionId,
+            scope,
           },
-        });
+        },
+        { onToken: handlers.onToken, signal: handlers.signal }
+      );
 
-        // Combine RAG orders with router orders
-        finalOrders = [
-          ...(ragResult.sources?.orders || []),
-          ...(routerResult.results?.orders || []),
-        ];
-        responseMessage = ragResult.answer;
-        confidence = ragResult.confidence;
-        dataFreshness = ragResult.dataFreshness;
-        totalProcessingTime += ragResult.processingTime;
-      }
+      // Combine RAG orders with router orders
+      finalOrders = [
+        ...(ragResult.sources?.orders || []),
+        ...(routerResult.results?.orders || []),
+      ];
+      responseMessage = ragResult.answer;
+      confidence = ragResult.confidence;
+      dataFreshness = ragResult.dataFreshness;
+      totalProcessingTime += ragResult.processingTime;
     }
+  }
 
-    console.log("[OMS-CHAT] Final orders for response:", finalOrders.length);
+  console.log("[OMS-CHAT] Final orders for response:", finalOrders.length);
+
+  // Sort orders by DaysToDueDate (ascending - most urgent first)
+  if (!keepRouterOrder) sortByDaysToDue(finalOrders);
+
+  console.log(
+    `[OMS-CHAT] Orders sorted by due date. First order due in ${
+      finalOrders[0]?.dates?.daysToDueDate ??
+      finalOrders[0]?.DaysToDueDate ??
+      "unknown"
+    } days`
+  );
 
-    // Sort orders by DaysToDueDate (ascending - most urgent first)
-    finalOrders.sort((a, b) => {
-      const aDays = a.dates?.daysToDueDate ?? a.DaysToDueDate ?? Infinity;
-      const bDays = b.dates?.daysToDueDate ?? b.DaysToDueDate ?? Infinity;
-      return aDays - bDays;
+  // Step 3: Prepare response
+  try {
+    const response = {
+      success: true,
+      message: responseMessage,
+      orders: finalOrders.slice(0, 10),
+      analytics: {
+        totalResults: finalOrders.length,
+        dataSource: routerResult.strategy,
+        processingTime: totalProcessingTime,
+        confidence: confidence,
+        searchStrategy: routerResult.strategy,
+      },
+      metadata: {
+        queryProcessed: message,
+        timestamp: new Date().toISOString(),
+        strategy: routerResult.strategy, // Use actual router strategy
+        dataFreshness: dataFreshness,
+        totalOrdersAnalyzed: finalOrders.length,
+      },
+      context: {
+        lastQuery: routerResult.strategy,
+        shownOrders: finalOrders
+          .slice(0, 10)
+          .map((order) => order.jobNumber || order.JobNumber || "unknown"),
+        orders: finalOrders.slice(0, 10), // Add the actual order data for our components
+        focusedCustomer:
+          finalOrders.length === 1
+            ? finalOrders[0].customer?.company || finalOrders[0].Client
+            : undefined,
+        focusedJob:
+          finalOrders.length === 1
+            ? finalOrders[0].jobNumber || finalOrders[0].JobNumber
+            : undefined,
+      },
+      // Add structured response if available from RAG pipeline
+      structuredResponse: ragResult?.structuredResponse || null,
+    };
+
+    chatLog.info("Response prepared", {
+      strategy: routerResult.strategy,
+      orders: finalOrders.length,
+      confidence,
+      processingTime: totalProcessingTime,
     });
 
+    // Log the actual response sent to the user
     console.log(
-      `[OMS-CHAT] Orders sorted by due date. First order due in ${
-        finalOrders[0]?.dates?.daysToDueDate ??
-        finalOrders[0]?.DaysToDueDate ??
-        "unknown"
-      } days`
+      "[OMS-CHAT] Final response to user:",
+      JSON.stringify(response, null, 2)
     );
 
-    // Step 3: Store orders in session cache for follow-up queries
-    // Store the orders that match the user's query (not just the first 10 shown)
-    if (finalOrders.length > 0 && sessionId) {
-      sessionCache.set(sessionId, finalOrders);
-      console.log(
-        `💾 Stored ${finalOrders.length} orders in session cache for session: ${sessionId}`
-      );
-      console.log(
-        `💾 Session cache now contains: ${Array.from(sessionCache.keys()).join(
-          ", "
-        )}`
-      );
-    } else {
-      console.log(
-        `⚠️ Not storing orders in cache: finalOrders=${finalOrders.length}, sessionId=${sessionId}`
-      );
-    }
+    // Store the orders that match the user's query (not just the first 10
+    // shown) with the reply so follow-ups survive restarts
+    recordAssistantTurn(sessionId, response, finalOrders);
+    auditLog.annotate({
+      strategy: routerResult.strategy,
+      jobNumbers: getJobNumbers(finalOrders),
+    });
 
-    // Step 3: Prepare response
-    try {
-      const response = {
-        success: true,
-        message: responseMessage,
-        orders: finalOrders.slice(0, 10),
-        analytics: {
-          totalResults: finalOrders.length,
-          dataSource: routerResult.strategy,
-          processingTime: totalProcessingTime,
-          confidence: confidence,
-          searchStrategy: routerResult.strategy,
-        },
-        metadata: {
-          queryProcessed: message,
-          timestamp: new Date().toISOString(),
-          strategy: routerResult.strategy, // Use actual router strategy
-          dataFreshness: dataFreshness,
-          totalOrdersAnalyzed: finalOrders.length,
-        },
-        context: {
-          lastQuery: routerResult.strategy,
-          shownOrders: finalOrders
-            .slice(0, 10)
-            .map((order) => order.jobNumber || order.JobNumber || "unknown"),
-          orders: finalOrders.slice(0, 10), // Add the actual order data for our components
-          focusedCustomer:
-            finalOrders.length === 1
-              ? finalOrders[0].customer?.company || finalOrders[0].Client
-              : undefined,
-          focusedJob:
-            finalOrders.length === 1
-              ? finalOrders[0].jobNumber || finalOrders[0].JobNumber
-              : undefined,
-        },
-        // Add structured response if available from RAG pipeline
-        structuredResponse: ragResult?.structuredResponse || null,
-      };
+    // Writes the model proposed through function calls while answering
+    const correlationId = logger.getCorrelationId();
+    const pendingActions = correlationId
+      ? pendingActionStore.list({ correlationId })
+      : [];
+    return pendingActions.length > 0
+      ? { ...response, pendingActions }
+      : response;
+  } catch (ragError) {
+    console.warn(
+      "⚠️ RAG pipeline failed, falling back to basic response:",
+      ragError
+    );
 
-      console.log(
-        `[OMS-CHAT] Response prepared. Strategy: ${routerResult.strategy}, Orders: ${finalOrders.length}, Confidence: ${confidence}`
-      );
+    // Fallback to basic response if RAG fails - prioritize router results
+    const finalOrders = routerResult.results?.orders || [];
+    const basicSummary = generateBasicSummary(finalOrders, message);
 
-      // Log the actual response sent to the user
-      console.log(
-        "[OMS-CHAT] Final response to user:",
-        JSON.stringify(response, null, 2)
-      );
+    const fallbackResponse = {
+      success: true,
+      message: basicSummary,
+      orders: finalOrders,
+      analytics: {
+        totalResults: finalOrders.length,
+        dataSource: routerResult.strategy, // Use router strategy (includes GPT)
+        processingTime: routerResult.processingTime,
+        confidence: routerResult.confidence,
+        searchStrategy: routerResult.strategy, // Router includes GPT semantic search
+      },
+      metadata: {
+        queryProcessed: message,
+        timestamp: new Date().toISOString(),
+        strategy: "basic_fallback",
+        fallbackReason: "RAG pipeline unavailable",
+      },
+    };
 
-      return NextResponse.json(response);
-    } catch (ragError) {
-      console.warn(
-        "⚠️ RAG pipeline failed, falling back to basic response:",
-        ragError
-      );
+    console.log(
+      `[OMS-CHAT] Basic fallback response. Orders found: ${finalOrders.length}, Strategy: ${routerResult.strategy}, Processing time: ${routerResult.processingTime}ms`
+    );
+
+    // Log the fallback response sent to the user
+    console.log(
+      "[OMS-CHAT] Fallback response to user:",
+      JSON.stringify(fallbackResponse, null, 2)
+    );
 
-      // Fallback to basic response if RAG fails - prioritize router results
-      const finalOrders = routerResult.results?.orders || [];
-      const basicSummary = generateBasicSummary(finalOrders, message);
+    recordAssistantTurn(sessionId, fallbackResponse, finalOrders);
+    auditLog.annotate({
+      strategy: routerResult.strategy,
+      jobNumbers: getJobNumbers(finalOrders),
+    });
 
-      const fallbackResponse = {
-        success: true,
-        message: basicSummary,
-        orders: finalOrders,
-        analytics: {
-          totalResults: finalOrders.length,
-          dataSource: routerResult.strategy, // Use router strategy (includes GPT)
-          processingTime: routerResult.processingTime,
-          confidence: routerResult.confidence,
-          searchStrategy: routerResult.strategy, // Router includes GPT semantic search
-        },
-        metadata: {
-          queryProcessed: message,
-          timestamp: new Date().toISOString(),
-          strategy: "basic_fallback",
-          fallbackReason: "RAG pipeline unavailable",
-        },
+    return fallbackResponse;
+  }
+}
+
+// Streaming mode: Server-Sent Events with order cards as soon as the router
+// returns them ("orders"), then answer tokens ("token"), then the complete
+// response body ("done"); failures arrive as an "error" event. A client that
+// disconnects cancels the stream, which aborts the work still in flight
+function streamChatResponse(
+  message: string,
+  sessionId: string,
+  scope: DataScope | undefined,
+  audit: AuditRequest
+): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
       };
 
-      console.log(
-        `[OMS-CHAT] Basic fallback response. Orders found: ${finalOrders.length}, Strategy: ${routerResult.strategy}, Processing time: ${routerResult.processingTime}ms`
-      );
+      try {
+        // Runs past the handler's return; the trace stays open until done
+        const response = await auditLog.track(audit, () =>
+          tracer.span("chat.respond", () =>
+            buildChatResponse(message, sessionId, scope, {
+              onOrders: (orders, strategy) =>
+                send("orders", { orders, strategy }),
+              onToken: (text) => send("token", { text }),
+              signal: abort.signal,
+            })
+          )
+        );
+        send("done", response);
+      } catch (error) {
+        if (abort.signal.aborted) {
+          console.log("🔌 OMS chat stream cancelled by the client");
+          return;
+        }
+        console.error("❌ OMS chat stream error:", error);
+        send("error", {
+          error: "Failed to process query",
+          message:
+            "I'm having trouble processing your request. Please try again or rephrase your question.",
+          details: error instanceof Error ? error.message : "Unknown error",
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      abort.abort();
+    },
+  });
 
-      // Log the fallback response sent to the user
-      console.log(
-        "[OMS-CHAT] Fallback response to user:",
-        JSON.stringify(fallbackResponse, null, 2)
-      );
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
 
-      return NextResponse.json(fallbackResponse);
-    }
-  } catch (error) {
-    console.error("❌ OMS chat API error:", error);
+// Persist the assistant reply and the orders it returned to the session
+function recordAssistantTurn(
+  sessionId: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  response: { message: string; structuredResponse?: any },
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  orders: any[]
+): void {
+  if (!sessionId) return;
+
+  chatSessionStore.appendMessage(sessionId, {
+    role: "assistant",
+    content: response.message,
+    orders,
+    structuredResponse: response.structuredResponse || undefined,
+  });
+  console.log(
+    `💾 Stored reply with ${orders.length} orders in chat session ${sessionId}`
+  );
+}
 
-    return NextResponse.json(
-      {
-        success: false,
-        error: "Failed to process query",
-        message:
-          "I'm having trouble processing your request. Please try again or rephrase your question.",
-        analytics: {
-          totalResults: 0,
-          dataSource: "error",
-          error: error instanceof Error ? error.message : "Unknown error",
-        },
-      },
-      { status: 500 }
-    );
-  }
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getJobNumbers(orders: any[]): string[] {
+  return orders
+    .map((order) => String(order.jobNumber || order.JobNumber || ""))
+    .filter(Boolean);
+}
+
+// Sort orders by DaysToDueDate (ascending - most urgent first)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function sortByDaysToDue(orders: any[]): any[] {
+  return orders.sort((a, b) => {
+    const aDays = a.dates?.daysToDueDate ?? a.DaysToDueDate ?? Infinity;
+    const bDays = b.dates?.daysToDueDate ?? b.DaysToDueDate ?? Infinity;
+    return aDays - bDays;
+  });
 }
 
 // Basic fallback summary generation when RAG is unavailable
@@ -619,6 +871,9 @@ function isFollowUpCalculationQuery(
 ): boolean {
   if (!conversationContext) return false;
 
+  // "sort those by value" refines the results; the router handles it
+  if (contextManagerService.detectRefinement(message)) return false;
+
   const calculationKeywords = [
     "sum",
     "total",
@@ -648,51 +903,33 @@ function isFollowUpCalculationQuery(
   return hasCalculationKeyword && hasPreviousOrders;
 }
 
-// Simple in-memory session storage for demonstration
-// In production, use Redis, database, or proper session management
-const sessionCache = new Map<string, any>();
-
 // Handle follow-up calculation queries using conversation context
 async function handleFollowUpCalculation(
   message: string,
-  conversationContext: string
+  requestSessionId?: string,
+  scope?: DataScope
 ): Promise<NextResponse> {
   try {
     console.log("🧮 Processing follow-up calculation query...");
 
-    // Extract session ID from context to get previous orders
-    // Try multiple patterns to extract session ID
-    let sessionId = "default";
+    // Only the request's own session, whose access the POST handler checked;
+    // without one there are no previous orders to add up
+    const sessionId = requestSessionId || "";
 
-    // Pattern 1: sessionId: value
-    const sessionMatch1 = conversationContext.match(/sessionId[:\s]+([^\s|]+)/);
-    if (sessionMatch1) {
-      sessionId = sessionMatch1[1];
-    } else {
-      // Pattern 2: Look for session ID in the context string
-      const sessionMatch2 = conversationContext.match(/(\d{10,})/);
-      if (sessionMatch2) {
-        sessionId = sessionMatch2[1];
-      }
-    }
+    console.log(`🔍 [FOLLOW-UP] Session ID: ${sessionId}`);
 
-    console.log(`🔍 [FOLLOW-UP] Extracted session ID: ${sessionId}`);
-    console.log(
-      `🔍 [FOLLOW-UP] Available sessions: ${Array.from(
-        sessionCache.keys()
-      ).join(", ")}`
+    // Get the orders from the previous turn of the persisted session
+    const previousOrders = scopeOrders(
+      chatSessionStore.getLastOrders(sessionId),
+      scope
     );
 
-    // Get previous orders from session cache
-    const previousOrders = sessionCache.get(sessionId) || [];
-
     console.log(
       `🔍 [FOLLOW-UP] Found ${previousOrders.length} orders for session ${sessionId}`
     );
 
     if (previousOrders.length === 0) {
       console.log(`❌ [FOLLOW-UP] No orders found for session ${sessionId}`);
-      console.log(`❌ [FOLLOW-UP] Session cache contents:`, sessionCache);
 
       return NextResponse.json(
         {
@@ -700,11 +937,6 @@ async function handleFollowUpCalculation(
           message:
             "I don't have the previous orders in memory. Please ask about the orders again first.",
           error: "No previous orders found",
-          debug: {
-            sessionId: sessionId,
-            availableSessions: Array.from(sessionCache.keys()),
-            conversationContext: conversationContext.substring(0, 200) + "...",
-          },
         },
         { status: 400 }
       );
@@ -722,6 +954,13 @@ async function handleFollowUpCalculation(
       { minimumFractionDigits: 2, maximumFractionDigits: 2 }
     )}**.`;
 
+    // No orders on this turn, so the next follow-up still finds the ones above
+    recordAssistantTurn(sessionId, { message: responseMessage }, []);
+    auditLog.annotate({
+      strategy: "follow-up-calculation",
+      jobNumbers: getJobNumbers(previousOrders),
+    });
+
     // Return ONLY the calculation response - no order cards
     return NextResponse.json({
       success: true,
@@ -745,7 +984,7 @@ async function handleFollowUpCalculation(
       },
       analytics: {
         totalResults: previousOrders.length,
-        dataSource: "session-cache",
+        dataSource: "chat-session",
         processingTime: 0,
         confidence: "high",
         searchStrategy: "follow-up-calculation",
@@ -769,3 +1008,52 @@ async function handleFollowUpCalculation(
     );
   }
 }
+
+// Propose a write and return its preview for confirmation; refusals (role,
+// unknown jobs, nothing to change) are answered as a chat message
+async function handleWriteCommand(
+  command: WriteCommand,
+  sessionId: string,
+  scope?: DataScope
+): Promise<NextResponse> {
+  auditLog.annotate({ strategy: "write-proposal" });
+
+  let responseMessage: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let pendingActions: any[] = [];
+  try {
+    const action = await writeActionService.propose(command, scope);
+    const skipped = action.skipped.map(
+      (skip) => `- ${skip.jobNumber}: ${skip.reason}`
+    );
+    responseMessage = [
+      `${action.summary}? Nothing changes in the OMS until you confirm.`,
+      ...(skipped.length > 0 ? ["", "Skipped:", ...skipped] : []),
+    ].join("\n");
+    pendingActions = [action];
+  } catch (error) {
+    responseMessage = `I can't make that change. ${
+      error instanceof Error ? error.message : "Unknown error"
+    }`;
+  }
+
+  recordAssistantTurn(sessionId, { message: responseMessage }, []);
+  return NextResponse.json({
+    success: true,
+    message: responseMessage,
+    response: responseMessage,
+    pendingActions,
+    analytics: {
+      totalResults: 0,
+      dataSource: "pending-actions",
+      processingTime: 0,
+      confidence: "high",
+      searchStrategy: "write-proposal",
+    },
+    metadata: {
+      timestamp: new Date().toISOString(),
+      queryType: "write-proposal",
+      sessionId,
+    },
+  });
+}
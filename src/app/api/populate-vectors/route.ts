@@ -1,83 +1,31 @@
 // API endpoint to populate vector database
-// Call this once to load all your order data into Pinecone
+// Call this once to load all orders from the local order store into the vector index
+// Restricted to admins by the auth middleware
 
 import { NextRequest, NextResponse } from "next/server";
-import { vectorDBService, type VectorMetadata } from "@/lib/vector-db";
+import { vectorDBService } from "@/lib/vector-db";
 import { embeddingService } from "@/lib/embeddings";
-import fs from "fs";
-import path from "path";
-
-// Basic interface for order data
-interface Order {
-  jobNumber: string;
-  orderNumber?: string;
-  customer?: {
-    company?: string;
-    customerId?: string;
-  };
-  description?: string;
-  comment?: string;
-  lineItems?: Array<{
-    description?: string;
-    category?: string;
-    comment?: string;
-  }>;
-  production?: {
-    productionNotes?: string[];
-  };
-  workflow?: {
-    isRush?: boolean;
-  };
-  shipments?: Array<{
-    shipToAddress?: {
-      company?: string;
-      city?: string;
-      state?: string;
-    };
-    specialInstructions?: string;
-  }>;
-  metadata?: {
-    tags?: string[];
-    department?: string;
-    complexity?: string;
-  };
-  status?: string;
-  dateEntered?: string;
-  priority?: string;
-  pricing?: {
-    totalDue?: number;
-  };
-}
+import { orderStore } from "@/lib/order-store";
+import { orderVectorIndex } from "@/lib/order-vector-index";
+import { authService } from "@/lib/auth-service";
 
 export async function POST(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   console.log("🚀 Starting Vector Database Population...");
 
   try {
-    // Check authorization (simple protection)
-    const { authorization } = await request.json().catch(() => ({}));
-    if (authorization !== "populate-vectors-2024") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // 1. Load order data
-    console.log("📥 Loading existing order data...");
-    const dataPath = path.join(process.cwd(), "data", "orders.json");
-
-    if (!fs.existsSync(dataPath)) {
-      return NextResponse.json(
-        { error: "Orders data file not found" },
-        { status: 404 }
-      );
-    }
-
-    const ordersData = fs.readFileSync(dataPath, "utf8");
-    const orders: Order[] = JSON.parse(ordersData);
+    // 1. Load orders from the local order store
+    console.log("📥 Loading orders from local order store...");
+    const orders = orderStore.getAllOrders();
     console.log(`✅ Loaded ${orders.length} orders`);
 
     if (orders.length === 0) {
       return NextResponse.json(
-        { error: "No orders found in data file" },
-        { status: 400 }
+        { error: "No orders in local order store" },
+        { status: 404 }
       );
     }
 
@@ -100,75 +48,14 @@ export async function POST(request: NextRequest) {
       );
 
       try {
-        // Convert orders to searchable text
-        const searchTexts = batch.map((order) => {
-          const parts = [
-            `Job ${order.jobNumber}`,
-            `Order ${order.orderNumber || order.jobNumber}`,
-            `Customer ${order.customer?.company || "Unknown"}`,
-            order.description || "",
-            order.comment || "",
-            ...(order.lineItems || []).map((item) =>
-              `${item.description || ""} ${item.category || ""} ${
-                item.comment || ""
-              }`.trim()
-            ),
-            ...(order.production?.productionNotes || []),
-            order.workflow?.isRush ? "rush urgent priority" : "",
-            ...(order.shipments || []).map((ship) =>
-              `${ship.shipToAddress?.company || ""} ${
-                ship.shipToAddress?.city || ""
-              } ${ship.shipToAddress?.state || ""} ${
-                ship.specialInstructions || ""
-              }`.trim()
-            ),
-            ...(order.metadata?.tags || []),
-            order.metadata?.department || "",
-            order.metadata?.complexity || "",
-          ].filter(Boolean);
-
-          return parts.join(" ").trim();
-        });
-
-        // Create embeddings
+        // Only new or changed orders are re-embedded
+        const stats = await orderVectorIndex.indexOrders(batch);
+        if (stats.errors.length > 0) {
+          throw new Error(stats.errors.join("; "));
+        }
         console.log(
-          `  🧠 Creating embeddings for ${searchTexts.length} orders...`
-        );
-        const embeddingResponse = await embeddingService.createBatchEmbeddings(
-          searchTexts
+          `  ✅ Batch ${batchNumber} complete (${stats.upsertedVectors} vectors upserted, ${stats.unchangedOrders} unchanged)`
         );
-        console.log(`  ✅ Created ${embeddingResponse.processed} embeddings`);
-
-        // Prepare vectors for upsert
-        const vectors = batch.map((order, index) => {
-          const metadata: VectorMetadata = {
-            jobNumber: order.jobNumber,
-            customerCompany: order.customer?.company || "Unknown",
-            status: order.status || "Unknown",
-            dateEntered: order.dateEntered || new Date().toISOString(),
-            description: (order.description || "").substring(0, 500),
-            orderNumber: order.orderNumber || order.jobNumber,
-            dataSource: "scraped" as const,
-            lastUpdated: new Date().toISOString(),
-            // Add optional fields
-            customerId: order.customer?.customerId
-              ? Number(order.customer.customerId)
-              : undefined,
-            priority: order.priority,
-            totalDue: order.pricing?.totalDue,
-          };
-
-          return {
-            id: `order-${order.jobNumber}`,
-            values: embeddingResponse.embeddings[index],
-            metadata,
-          };
-        });
-
-        // Upsert to Pinecone
-        console.log(`  📤 Upserting ${vectors.length} vectors to Pinecone...`);
-        await vectorDBService.upsertVectors(vectors);
-        console.log(`  ✅ Batch ${batchNumber} complete`);
 
         processedCount += batch.length;
       } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { enhancedAPIClient } from "@/lib/enhanced-api-client";
+import { authService } from "@/lib/auth-service";
 
 interface PriceBandResponse {
   CategoryCode?: string;
@@ -14,6 +15,10 @@ interface PriceBandResponse {
 }
 
 export async function POST(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   let body: any = {};
 
   try {
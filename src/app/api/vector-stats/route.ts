@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { vectorDBService } from "@/lib/vector-db";
 import { apiFirstDataService } from "@/lib/api-first-data-service";
+import { authService } from "@/lib/auth-service";
 
 export async function GET(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const action = searchParams.get("action");
@@ -231,6 +236,10 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  if (!authService.getActiveUser(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   try {
     const body = await request.json();
     const { action } = body;
@@ -6,13 +6,17 @@ import OMSChatInput from "../components/oms-chat-input";
 import OMSMessage from "../components/oms-message";
 import { Button } from "@/components/ui/button";
 import { useChat } from "../components/chat-context";
+import { readOMSChatStream } from "@/lib/oms-chat-stream";
+import type { ActionConfirmation } from "@/lib/pending-actions";
 
 function ChatPageContent() {
   const [isLoading, setIsLoading] = useState(false);
   const searchParams = useSearchParams();
   const router = useRouter();
   const hasInitialized = useRef(false);
-  const { getCurrentChat, addMessage, currentChatId } = useChat();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { getCurrentChat, addMessage, updateMessage, currentChatId } =
+    useChat();
 
   const currentChat = getCurrentChat();
 
@@ -28,8 +32,47 @@ function ChatPageContent() {
       addMessage(currentChatId, userMessage);
       setIsLoading(true);
 
+      // Placeholder the stream fills in: order cards first, then the answer
+      const assistantId = (Date.now() + 1).toString();
+      addMessage(currentChatId, {
+        id: assistantId,
+        content: "",
+        role: "assistant",
+        timestamp: new Date(),
+        streaming: true,
+      });
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      let streamedContent = "";
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const finishMessage = (data: any) => {
+        updateMessage(currentChatId, assistantId, {
+          content: data.message || data.response || "No response received",
+          timestamp: (() => {
+            try {
+              // Try metadata.timestamp first, then fall back to data.timestamp
+              const timestamp = data.metadata?.timestamp || data.timestamp;
+              if (timestamp) {
+                const date = new Date(timestamp);
+                return isNaN(date.getTime()) ? new Date() : date;
+              }
+              return new Date();
+            } catch (error) {
+              console.warn("Error parsing timestamp from API response:", error);
+              return new Date();
+            }
+          })(),
+          context: data.context,
+          structuredResponse: data.structuredResponse,
+          pendingActions: data.pendingActions,
+          streaming: false,
+        });
+      };
+
       try {
-        // Call OMS chat API
+        // Call OMS chat API in streaming mode
         const response = await fetch("/api/oms-chat", {
           method: "POST",
           headers: {
@@ -42,55 +85,78 @@ function ChatPageContent() {
               .slice(-3)
               .map((m) => m.content)
               .join(" | "),
+            stream: true,
           }),
+          signal: controller.signal,
         });
 
         if (!response.ok) {
           throw new Error("Failed to get response from OMS API");
         }
 
-        const data = await response.json();
-
-        const assistantMessage = {
-          id: (Date.now() + 1).toString(),
-          content: data.message || data.response || "No response received",
-          role: "assistant" as const,
-          timestamp: (() => {
-            try {
-              // Try metadata.timestamp first, then fall back to data.timestamp
-              const timestamp = data.metadata?.timestamp || data.timestamp;
-              if (timestamp) {
-                const date = new Date(timestamp);
-                return isNaN(date.getTime()) ? new Date() : date;
-              }
-              return new Date();
-            } catch (error) {
-              console.warn("Error parsing timestamp from API response:", error);
-              return new Date();
-            }
-          })(),
-          context: data.context,
-          structuredResponse: data.structuredResponse,
-        };
+        // Some replies (e.g. follow-up calculations) come back as plain JSON
+        if (!response.headers.get("Content-Type")?.includes("event-stream")) {
+          finishMessage(await response.json());
+          return;
+        }
 
-        addMessage(currentChatId, assistantMessage);
+        await readOMSChatStream(response, {
+          onOrders: ({ orders, strategy }) =>
+            updateMessage(currentChatId, assistantId, {
+              context: { orders, strategy },
+            }),
+          onToken: (text) => {
+            streamedContent += text;
+            updateMessage(currentChatId, assistantId, {
+              content: streamedContent,
+            });
+          },
+          onDone: finishMessage,
+          onError: (data) =>
+            updateMessage(currentChatId, assistantId, {
+              content: data.message,
+              streaming: false,
+            }),
+        });
       } catch (error) {
-        console.error("Error sending message:", error);
-
-        const errorMessage = {
-          id: (Date.now() + 1).toString(),
-          content:
-            "Sorry, I'm having trouble accessing the OMS data right now. Please try again later.",
-          role: "assistant" as const,
-          timestamp: new Date(),
-        };
+        const stopped = error instanceof Error && error.name === "AbortError";
+        if (!stopped) {
+          console.error("Error sending message:", error);
+        }
 
-        addMessage(currentChatId, errorMessage);
+        updateMessage(currentChatId, assistantId, {
+          content: stopped
+            ? streamedContent || "Stopped."
+            : "Sorry, I'm having trouble accessing the OMS data right now. Please try again later.",
+          streaming: false,
+        });
       } finally {
+        abortControllerRef.current = null;
         setIsLoading(false);
       }
     },
-    [addMessage, currentChatId, currentChat?.messages]
+    [addMessage, updateMessage, currentChatId, currentChat?.messages]
+  );
+
+  const handleStop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // The server stores the decision in the session; show it here as well
+  const handleActionResolved = useCallback(
+    (confirmation: ActionConfirmation) => {
+      addMessage(currentChatId, {
+        id: `${Date.now()}-${confirmation.actionId}`,
+        content: `${
+          confirmation.decision === "confirm" ? "Confirmed" : "Cancelled"
+        }: ${confirmation.summary}`,
+        role: "user",
+        timestamp: new Date(),
+        type: "confirmation",
+        confirmation,
+      });
+    },
+    [addMessage, currentChatId]
   );
 
   // Handle initial message from URL parameter
@@ -141,30 +207,23 @@ function ChatPageContent() {
             timestampISO = new Date().toISOString(); // Fallback to current time
           }
 
-          return <OMSMessage key={message.id} message={message} />; // TODO: timestampISO
+          return (
+            <OMSMessage
+              key={message.id}
+              message={message}
+              onActionResolved={handleActionResolved}
+            />
+          ); // TODO: timestampISO
         })}
-
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="bg-muted rounded-lg px-4 py-2">
-              <div className="flex space-x-1">
-                <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"></div>
-                <div
-                  className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"
-                  style={{ animationDelay: "0.1s" }}
-                ></div>
-                <div
-                  className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"
-                  style={{ animationDelay: "0.2s" }}
-                ></div>
-              </div>
-            </div>
-          </div>
-        )}
       </div>
 
       {/* Chat Input */}
-      <OMSChatInput onSendMessage={handleSendMessage} disabled={isLoading} />
+      <OMSChatInput
+        onSendMessage={handleSendMessage}
+        onStop={handleStop}
+        disabled={isLoading}
+        isStreaming={isLoading}
+      />
     </div>
   );
 }
@@ -1,6 +1,14 @@
 "use client";
 
-import { createContext, useContext, useState, ReactNode } from "react";
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import type { ActionConfirmation } from "@/lib/pending-actions";
 
 interface Message {
   id: string;
@@ -8,6 +16,13 @@ interface Message {
   role: "user" | "assistant";
   timestamp: Date;
   context?: any; // Context data from API responses for enhanced message display
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  structuredResponse?: any;
+  streaming?: boolean; // Still receiving a streamed response
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  pendingActions?: any[]; // OMS writes awaiting the user's confirmation
+  type?: "confirmation"; // The user confirmed or cancelled a proposed write
+  confirmation?: ActionConfirmation;
 }
 
 interface Chat {
@@ -15,8 +30,58 @@ interface Chat {
   messages: Message[];
   title: string;
   timestamp: Date;
+  preview?: string; // From the server summary until messages are loaded
+  loaded?: boolean; // false while the stored messages have not been fetched
 }
 
+interface StoredChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  orders?: any[];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  structuredResponse?: any;
+  type?: "confirmation";
+  confirmation?: ActionConfirmation;
+}
+
+interface StoredChatSummary {
+  id: string;
+  title: string;
+  updatedAt: string;
+  preview: string;
+}
+
+const greetingMessage = (): Message => ({
+  id: "1",
+  content: "Hello! How can I help you today?",
+  role: "assistant",
+  timestamp: new Date(),
+});
+
+// Local chats get a server session once their first message is sent
+const createNewChat = (): Chat => ({
+  id: Date.now().toString(),
+  messages: [greetingMessage()],
+  title: "New Chat",
+  timestamp: new Date(),
+});
+
+const toMessage = (stored: StoredChatMessage): Message => ({
+  id: stored.id,
+  content: stored.content,
+  role: stored.role,
+  timestamp: new Date(stored.timestamp),
+  context: stored.orders?.length
+    ? { orders: stored.orders.slice(0, 10) }
+    : undefined,
+  structuredResponse: stored.structuredResponse,
+  type: stored.type,
+  confirmation: stored.confirmation,
+});
+
 interface ChatContextType {
   chats: Chat[];
   currentChatId: string;
@@ -24,7 +89,13 @@ interface ChatContextType {
   addChat: (chat: Chat) => void;
   updateChat: (chatId: string, updates: Partial<Chat>) => void;
   deleteChat: (chatId: string) => void;
+  renameChat: (chatId: string, title: string) => void;
   addMessage: (chatId: string, message: Message) => void;
+  updateMessage: (
+    chatId: string,
+    messageId: string,
+    updates: Partial<Message>
+  ) => void;
   getCurrentChat: () => Chat | undefined;
 }
 
@@ -43,22 +114,60 @@ interface ChatProviderProps {
 }
 
 export function ChatProvider({ children }: ChatProviderProps) {
-  const [chats, setChats] = useState<Chat[]>([
-    {
-      id: "current",
-      messages: [
-        {
-          id: "1",
-          content: "Hello! How can I help you today?",
-          role: "assistant",
-          timestamp: new Date(),
-        },
-      ],
-      title: "New Chat",
-      timestamp: new Date(),
-    },
-  ]);
-  const [currentChatId, setCurrentChatId] = useState("current");
+  const [chats, setChats] = useState<Chat[]>(() => [createNewChat()]);
+  const [currentChatId, setCurrentChatId] = useState(() => chats[0].id);
+  const loadingChatIds = useRef(new Set<string>());
+
+  // Load the persisted session list; local chats not yet on the server stay
+  useEffect(() => {
+    fetch("/api/chat-sessions")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data?.sessions) return;
+        setChats((prev) => {
+          const localIds = new Set(prev.map((chat) => chat.id));
+          const stored: Chat[] = (data.sessions as StoredChatSummary[])
+            .filter((session) => !localIds.has(session.id))
+            .map((session) => ({
+              id: session.id,
+              title: session.title,
+              timestamp: new Date(session.updatedAt),
+              preview: session.preview,
+              messages: [],
+              loaded: false,
+            }));
+          return [...prev, ...stored];
+        });
+      })
+      .catch((error) => console.warn("Failed to load chat sessions:", error));
+  }, []);
+
+  // Fetch a stored session's messages the first time it is opened
+  useEffect(() => {
+    const chat = chats.find((c) => c.id === currentChatId);
+    if (!chat || chat.loaded !== false) return;
+    if (loadingChatIds.current.has(chat.id)) return;
+    loadingChatIds.current.add(chat.id);
+
+    fetch(`/api/chat-sessions/${encodeURIComponent(chat.id)}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        const messages: StoredChatMessage[] = data?.session?.messages || [];
+        setChats((prev) =>
+          prev.map((c) =>
+            c.id === chat.id
+              ? {
+                  ...c,
+                  messages: [greetingMessage(), ...messages.map(toMessage)],
+                  loaded: true,
+                }
+              : c
+          )
+        );
+      })
+      .catch((error) => console.warn("Failed to load chat session:", error))
+      .finally(() => loadingChatIds.current.delete(chat.id));
+  }, [chats, currentChatId]);
 
   const addChat = (chat: Chat) => {
     setChats((prev) => [...prev, chat]);
@@ -72,31 +181,44 @@ export function ChatProvider({ children }: ChatProviderProps) {
 
   const deleteChat = (chatId: string) => {
     setChats((prev) => prev.filter((chat) => chat.id !== chatId));
+    fetch(`/api/chat-sessions/${encodeURIComponent(chatId)}`, {
+      method: "DELETE",
+    }).catch((error) => console.warn("Failed to delete chat session:", error));
     if (currentChatId === chatId) {
       const remainingChats = chats.filter((chat) => chat.id !== chatId);
       if (remainingChats.length > 0) {
         setCurrentChatId(remainingChats[0].id);
       } else {
         // Create a new chat if all are deleted
-        const newChat: Chat = {
-          id: Date.now().toString(),
-          messages: [
-            {
-              id: "1",
-              content: "Hello! How can I help you today?",
-              role: "assistant",
-              timestamp: new Date(),
-            },
-          ],
-          title: "New Chat",
-          timestamp: new Date(),
-        };
+        const newChat = createNewChat();
         addChat(newChat);
         setCurrentChatId(newChat.id);
       }
     }
   };
 
+  const renameChat = (chatId: string, title: string) => {
+    updateChat(chatId, { title });
+
+    // A chat with no messages yet has no session; create it with the title
+    const url = `/api/chat-sessions/${encodeURIComponent(chatId)}`;
+    fetch(url, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title }),
+    })
+      .then((response) =>
+        response.status === 404
+          ? fetch("/api/chat-sessions", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ id: chatId, title }),
+            })
+          : response
+      )
+      .catch((error) => console.warn("Failed to rename chat session:", error));
+  };
+
   const addMessage = (chatId: string, message: Message) => {
     setChats((prev) =>
       prev.map((chat) =>
@@ -114,6 +236,25 @@ export function ChatProvider({ children }: ChatProviderProps) {
     );
   };
 
+  const updateMessage = (
+    chatId: string,
+    messageId: string,
+    updates: Partial<Message>
+  ) => {
+    setChats((prev) =>
+      prev.map((chat) =>
+        chat.id === chatId
+          ? {
+              ...chat,
+              messages: chat.messages.map((message) =>
+                message.id === messageId ? { ...message, ...updates } : message
+              ),
+            }
+          : chat
+      )
+    );
+  };
+
   const getCurrentChat = () => {
     return chats.find((chat) => chat.id === currentChatId);
   };
@@ -125,7 +266,9 @@ export function ChatProvider({ children }: ChatProviderProps) {
     addChat,
     updateChat,
     deleteChat,
+    renameChat,
     addMessage,
+    updateMessage,
     getCurrentChat,
   };
 
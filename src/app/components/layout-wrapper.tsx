@@ -32,8 +32,14 @@ export function LayoutWrapper({
   showSidebar = false,
 }: LayoutWrapperProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const { chats, currentChatId, setCurrentChatId, addChat, deleteChat } =
-    useChat();
+  const {
+    chats,
+    currentChatId,
+    setCurrentChatId,
+    addChat,
+    deleteChat,
+    renameChat,
+  } = useChat();
 
   const toggleSidebar = () => setSidebarOpen(!sidebarOpen);
 
@@ -73,6 +79,10 @@ export function LayoutWrapper({
     deleteChat(chatId);
   };
 
+  const handleRenameChat = (chatId: string, title: string) => {
+    renameChat(chatId, title);
+  };
+
   // Convert chats to sidebar format
   const chatHistory = chats.map((chat) => ({
     id: chat.id,
@@ -81,7 +91,7 @@ export function LayoutWrapper({
     preview:
       chat.messages.length > 1
         ? chat.messages[1]?.content.slice(0, 50) + "..."
-        : "New conversation",
+        : chat.preview || "New conversation",
   }));
 
   return (
@@ -98,6 +108,7 @@ export function LayoutWrapper({
               onNewChat={handleNewChat}
               onSelectChat={handleSelectChat}
               onDeleteChat={handleDeleteChat}
+              onRenameChat={handleRenameChat}
               selectedChatId={currentChatId}
               chatHistory={chatHistory}
             />
@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Send } from "lucide-react";
+import { Send, Square } from "lucide-react";
 import {
   filterSuggestions,
   QUICK_ACTIONS,
@@ -12,12 +12,16 @@ import {
 
 interface OMSChatInputProps {
   onSendMessage: (message: string) => void;
+  onStop?: () => void; // Cancels the response currently streaming in
   disabled?: boolean;
+  isStreaming?: boolean;
 }
 
 export default function OMSChatInput({
   onSendMessage,
+  onStop,
   disabled,
+  isStreaming,
 }: OMSChatInputProps) {
   const [message, setMessage] = useState("");
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -123,7 +127,11 @@ export default function OMSChatInput({
             value={message}
             onChange={(e) => setMessage(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Ask about orders, jobs, or shipments... e.g., 'Show overdue jobs' or 'What's due this week?'"
+            placeholder={
+              isStreaming
+                ? "Answering..."
+                : "Ask about orders, jobs, or shipments... e.g., 'Show overdue jobs' or 'What's due this week?'"
+            }
             disabled={disabled}
             className="w-full min-h-[120px] max-h-[120px] rounded-lg resize-none pr-12 text-base leading-relaxed"
             autoComplete="off"
@@ -222,15 +230,26 @@ export default function OMSChatInput({
             )}
         </div>
 
-        <Button
-          onClick={handleSend}
-          disabled={disabled || !message.trim()}
-          size="icon"
-          className="h-12 w-12 shrink-0 bg-blue-600 hover:bg-blue-700 text-white"
-          aria-label="Send message"
-        >
-          <Send className="h-5 w-5" />
-        </Button>
+        {isStreaming && onStop ? (
+          <Button
+            onClick={onStop}
+            size="icon"
+            className="h-12 w-12 shrink-0 bg-gray-700 hover:bg-gray-800 text-white"
+            aria-label="Stop response"
+          >
+            <Square className="h-5 w-5" />
+          </Button>
+        ) : (
+          <Button
+            onClick={handleSend}
+            disabled={disabled || !message.trim()}
+            size="icon"
+            className="h-12 w-12 shrink-0 bg-blue-600 hover:bg-blue-700 text-white"
+            aria-label="Send message"
+          >
+            <Send className="h-5 w-5" />
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,6 @@
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
 import {
   User,
   Bot,
@@ -8,6 +8,8 @@ import {
   Clock,
   CheckCircle,
   Package,
+  ShieldAlert,
+  XCircle,
 } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import {
@@ -15,10 +17,19 @@ import {
   transformAPIOrderToOrderSummary,
   transformLineItemsArray,
 } from "@/components/order-display";
+import { Button } from "@/components/ui/button";
+import type {
+  ActionConfirmation,
+  PendingAction,
+} from "@/lib/pending-actions";
 
 interface ExtendedMessage {
   role: "user" | "assistant" | "system";
   content: string;
+  streaming?: boolean; // Orders and answer tokens are still arriving
+  pendingActions?: PendingAction[]; // OMS writes awaiting confirmation
+  type?: "confirmation"; // The user's decision on a proposed write
+  confirmation?: ActionConfirmation;
   context?: {
     strategy?: string;
     confidence?: string;
@@ -430,6 +441,178 @@ function OrderCard({ order }: { order: ParsedOrder }) {
   );
 }
 
+// A proposed OMS write, shown as the dry run's before/after per job;
+// nothing is changed until the user confirms here
+function PendingActionCard({
+  action,
+  onResolved,
+}: {
+  action: PendingAction;
+  onResolved?: (confirmation: ActionConfirmation) => void;
+}) {
+  const [current, setCurrent] = useState(action);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Sent with every confirm click, so a retry after a dropped response
+  // can't apply the writes twice
+  const [confirmKey] = useState(() => crypto.randomUUID());
+
+  const decide = async (decision: "confirm" | "cancel") => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/oms-chat/actions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: current.id,
+          decision,
+          idempotencyKey: decision === "confirm" ? confirmKey : undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.details || data.error);
+      setCurrent(data.action);
+      if (data.confirmation) onResolved?.(data.confirmation);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const failures = (current.results || []).filter((r) => !r.success);
+  const statusClass =
+    current.status === "applied"
+      ? "bg-green-100 text-green-700"
+      : current.status === "pending" || current.status === "applying"
+      ? "bg-yellow-100 text-yellow-700"
+      : current.status === "failed"
+      ? "bg-red-100 text-red-700"
+      : "bg-gray-100 text-gray-700";
+
+  return (
+    <div className="border border-yellow-300 rounded-lg p-4 bg-yellow-50 shadow-sm">
+      <div className="flex items-start justify-between mb-2">
+        <div className="flex items-center gap-2 font-medium text-gray-900">
+          <ShieldAlert className="w-4 h-4 text-yellow-600" />
+          {current.summary}
+        </div>
+        <span
+          className={`px-2 py-1 text-xs rounded-full font-medium ${statusClass}`}
+        >
+          {current.status.toUpperCase()}
+        </span>
+      </div>
+
+      {current.status === "pending" && (
+        <p className="text-xs text-gray-600 mb-2">
+          Preview only: nothing has been written to the OMS yet.
+        </p>
+      )}
+      <table className="w-full text-xs mb-2">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="pr-2 font-medium">Job</th>
+            <th className="pr-2 font-medium">Before</th>
+            <th className="font-medium">After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {current.changes.map((change) => (
+            <tr key={change.jobNumber} className="align-top text-gray-700">
+              <td className="pr-2 font-mono">{change.jobNumber}</td>
+              <td className="pr-2 whitespace-pre-line">{change.before}</td>
+              <td className="whitespace-pre-line">{change.after}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {current.skipped.length > 0 && (
+        <p className="text-xs text-gray-500 mb-2">
+          Skipped:{" "}
+          {current.skipped
+            .map((skip) => `${skip.jobNumber} (${skip.reason})`)
+            .join(", ")}
+        </p>
+      )}
+      {failures.length > 0 && (
+        <p className="text-xs text-red-600 mb-2">
+          Failed:{" "}
+          {failures
+            .map((result) => `${result.jobNumber} (${result.error})`)
+            .join(", ")}
+        </p>
+      )}
+      <details className="text-xs text-gray-600 mb-2">
+        <summary className="cursor-pointer">To undo</summary>
+        <ul className="mt-1 list-disc pl-4">
+          {current.changes.map((change) => (
+            <li key={change.jobNumber}>
+              {change.jobNumber}: {change.rollback}
+            </li>
+          ))}
+        </ul>
+      </details>
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {current.status === "pending" && (
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            disabled={submitting}
+            onClick={() => decide("confirm")}
+          >
+            Confirm
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={submitting}
+            onClick={() => decide("cancel")}
+          >
+            Cancel
+          </Button>
+          <span className="text-xs text-gray-500">
+            Expires {new Date(current.expiresAt).toLocaleTimeString()}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The user's confirm or cancel decision, shown in place of a chat bubble
+function ConfirmationMessage({
+  confirmation,
+}: {
+  confirmation: ActionConfirmation;
+}) {
+  const confirmed = confirmation.decision === "confirm";
+  const Icon = confirmed ? CheckCircle : XCircle;
+
+  return (
+    <div className="w-full flex justify-end mb-4">
+      <div
+        className="flex items-center justify-end gap-2 w-full text-xs text-gray-600"
+        style={{ maxWidth: 700, margin: "0 auto" }}
+      >
+        <Icon
+          className={`w-4 h-4 ${
+            confirmed ? "text-green-600" : "text-gray-400"
+          }`}
+        />
+        <span>
+          {confirmed ? "Confirmed" : "Cancelled"}: {confirmation.summary}
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-gray-100 font-medium">
+          {confirmation.status.toUpperCase()}
+        </span>
+      </div>
+    </div>
+  );
+}
+
 function groupOrdersByDaysToDue(orders: ParsedOrder[]) {
   const groups = {
     overdue: orders.filter((o) => o.daysToDue < 0),
@@ -484,7 +667,17 @@ function extractJobNumbersFromRequest(message: string): string[] {
   return Array.from(jobNumbers);
 }
 
-export default function OMSMessage({ message }: { message: ExtendedMessage }) {
+export default function OMSMessage({
+  message,
+  onActionResolved,
+}: {
+  message: ExtendedMessage;
+  onActionResolved?: (confirmation: ActionConfirmation) => void;
+}) {
+  if (message.type === "confirmation" && message.confirmation) {
+    return <ConfirmationMessage confirmation={message.confirmation} />;
+  }
+
   const isUser = message.role === "user";
   const context = message.context;
 
@@ -582,22 +775,53 @@ export default function OMSMessage({ message }: { message: ExtendedMessage }) {
                 isUser ? "prose-invert" : ""
               }`}
             >
-              <ReactMarkdown>
-                {hasOrderData &&
-                !isUser &&
-                message.structuredResponse?.introText
-                  ? message.structuredResponse.introText
-                  : message.content}
-              </ReactMarkdown>
+              {message.streaming && !message.content ? (
+                <div className="flex space-x-1 py-1">
+                  <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"></div>
+                  <div
+                    className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"
+                    style={{ animationDelay: "0.1s" }}
+                  ></div>
+                  <div
+                    className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"
+                    style={{ animationDelay: "0.2s" }}
+                  ></div>
+                </div>
+              ) : (
+                <ReactMarkdown>
+                  {hasOrderData &&
+                  !isUser &&
+                  message.structuredResponse?.introText
+                    ? message.structuredResponse.introText
+                    : message.content}
+                </ReactMarkdown>
+              )}
+              {message.streaming && message.content && (
+                <span
+                  className="inline-block w-2 h-4 bg-gray-400 animate-pulse align-middle"
+                  aria-hidden="true"
+                />
+              )}
             </div>
 
-            {context && !isUser && (
+            {context && !isUser && !message.streaming && (
               <div className="mt-3 pt-3 border-t border-gray-200 text-xs text-gray-500">
                 Strategy: {context.strategy} • Confidence: {context.confidence}
               </div>
             )}
           </div>
 
+          {/* Proposed OMS writes awaiting confirmation */}
+          {!isUser &&
+            message.pendingActions?.map((action) => (
+              <div key={action.id} className="mt-4">
+                <PendingActionCard
+                  action={action}
+                  onResolved={onActionResolved}
+                />
+              </div>
+            ))}
+
           {/* Detailed Order Display for specific order requests */}
           {(shouldShowDetailedView || forceDetailedView) &&
             !isUser &&
@@ -1,9 +1,17 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { MessageSquare, Plus, Search, Trash2, Sparkles } from "lucide-react";
+import {
+  LogOut,
+  MessageSquare,
+  Pencil,
+  Plus,
+  Search,
+  Trash2,
+  Sparkles,
+} from "lucide-react";
 
 interface ChatHistory {
   id: string;
@@ -12,10 +20,16 @@ interface ChatHistory {
   preview: string;
 }
 
+interface SignedInUser {
+  displayName: string;
+  role: string;
+}
+
 interface SidebarProps {
   onNewChat: () => void;
   onSelectChat: (chatId: string) => void;
   onDeleteChat: (chatId: string) => void;
+  onRenameChat?: (chatId: string, title: string) => void;
   selectedChatId?: string;
   chatHistory: ChatHistory[];
 }
@@ -24,10 +38,26 @@ export function Sidebar({
   onNewChat,
   onSelectChat,
   onDeleteChat,
+  onRenameChat,
   selectedChatId,
   chatHistory,
 }: SidebarProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [editingChatId, setEditingChatId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const [user, setUser] = useState<SignedInUser | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setUser(data?.user || null))
+      .catch(() => setUser(null));
+  }, []);
+
+  const handleSignOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => null);
+    window.location.href = "/login";
+  };
 
   const filteredChats = chatHistory.filter(
     (chat) =>
@@ -40,6 +70,21 @@ export function Sidebar({
     onDeleteChat(chatId);
   };
 
+  const handleStartRename = (chat: ChatHistory, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditingChatId(chat.id);
+    setEditingTitle(chat.title);
+  };
+
+  const handleFinishRename = () => {
+    const title = editingTitle.trim();
+    const chat = chatHistory.find((c) => c.id === editingChatId);
+    if (chat && title && title !== chat.title) {
+      onRenameChat?.(chat.id, title);
+    }
+    setEditingChatId(null);
+  };
+
   const formatTimestamp = (timestamp: Date) => {
     const now = new Date();
     const diff = now.getTime() - timestamp.getTime();
@@ -100,15 +145,31 @@ export function Sidebar({
               >
                 <div className="flex items-start justify-between">
                   <div className="flex-1 min-w-0">
-                    <h3
-                      className={`font-medium text-sm truncate ${
-                        selectedChatId === chat.id
-                          ? "text-primary-foreground"
-                          : "text-foreground"
-                      }`}
-                    >
-                      {chat.title}
-                    </h3>
+                    {editingChatId === chat.id ? (
+                      <Input
+                        value={editingTitle}
+                        onChange={(e) => setEditingTitle(e.target.value)}
+                        onClick={(e) => e.stopPropagation()}
+                        onBlur={handleFinishRename}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleFinishRename();
+                          if (e.key === "Escape") setEditingChatId(null);
+                        }}
+                        className="h-7 text-sm text-foreground"
+                        aria-label="Chat title"
+                        autoFocus
+                      />
+                    ) : (
+                      <h3
+                        className={`font-medium text-sm truncate ${
+                          selectedChatId === chat.id
+                            ? "text-primary-foreground"
+                            : "text-foreground"
+                        }`}
+                      >
+                        {chat.title}
+                      </h3>
+                    )}
                     <p
                       className={`text-xs mt-1 truncate ${
                         selectedChatId === chat.id
@@ -128,18 +189,35 @@ export function Sidebar({
                       {formatTimestamp(chat.timestamp)}
                     </p>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className={`opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6 p-0 ${
-                      selectedChatId === chat.id
-                        ? "text-primary-foreground hover:bg-primary-foreground/20"
-                        : ""
-                    }`}
-                    onClick={(e) => handleDeleteChat(chat.id, e)}
-                  >
-                    <Trash2 className="h-3 w-3" />
-                  </Button>
+                  <div className="flex items-center gap-1">
+                    {onRenameChat && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={`opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6 p-0 ${
+                          selectedChatId === chat.id
+                            ? "text-primary-foreground hover:bg-primary-foreground/20"
+                            : ""
+                        }`}
+                        onClick={(e) => handleStartRename(chat, e)}
+                        aria-label="Rename chat"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={`opacity-0 group-hover:opacity-100 transition-opacity h-6 w-6 p-0 ${
+                        selectedChatId === chat.id
+                          ? "text-primary-foreground hover:bg-primary-foreground/20"
+                          : ""
+                      }`}
+                      onClick={(e) => handleDeleteChat(chat.id, e)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
                 </div>
               </div>
             ))
@@ -148,11 +226,24 @@ export function Sidebar({
       </div>
 
       {/* Footer */}
-      <div className="p-4 border-t">
-        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-          <Sparkles className="h-4 w-4" />
-          <span>AI Assistant</span>
+      <div className="p-4 border-t flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground min-w-0">
+          <Sparkles className="h-4 w-4 shrink-0" />
+          <span className="truncate">
+            {user ? `${user.displayName} (${user.role})` : "AI Assistant"}
+          </span>
         </div>
+        {user && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={handleSignOut}
+            aria-label="Sign out"
+          >
+            <LogOut className="h-3 w-3" />
+          </Button>
+        )}
       </div>
     </div>
   );
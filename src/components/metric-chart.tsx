@@ -0,0 +1,149 @@
+"use client";
+
+import React from "react";
+
+export interface ChartSeries {
+  label: string;
+  color: string; // Any SVG stroke color
+  values: Array<number | null>; // Gaps where null
+}
+
+interface MetricChartProps {
+  title: string;
+  timestamps: string[];
+  series: ChartSeries[];
+  format?: (value: number) => string;
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 8, right: 8, bottom: 20, left: 56 };
+
+// Line chart of one or more series on a shared time axis
+export function MetricChart({
+  title,
+  timestamps,
+  series,
+  format = (value) => value.toLocaleString(),
+  height = 160,
+}: MetricChartProps) {
+  const values = series.flatMap((line) =>
+    line.values.filter((value): value is number => value !== null)
+  );
+  const max = Math.max(...values, 0) || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left +
+    (timestamps.length > 1 ? (index / (timestamps.length - 1)) * plotWidth : 0);
+  const y = (value: number) =>
+    PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  // Separate path segments so gaps stay visible
+  const toPath = (points: Array<number | null>) =>
+    points
+      .map((value, index) => {
+        if (value === null) return "";
+        const command = index > 0 && points[index - 1] !== null ? "L" : "M";
+        return `${command}${x(index).toFixed(1)},${y(value).toFixed(1)}`;
+      })
+      .join(" ");
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-sm font-medium">{title}</h4>
+        <div className="flex items-center space-x-3 text-xs text-gray-600">
+          {series.map((line) => (
+            <span key={line.label} className="flex items-center space-x-1">
+              <span
+                className="inline-block w-3 h-0.5"
+                style={{ backgroundColor: line.color }}
+              />
+              <span>{line.label}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+      {values.length === 0 ? (
+        <p className="text-center text-gray-500 text-sm py-8">
+          No data in this range
+        </p>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${height}`}
+          className="w-full"
+          role="img"
+          aria-label={title}
+        >
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={PADDING.top + plotHeight}
+            y2={PADDING.top + plotHeight}
+            stroke="#e5e7eb"
+          />
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={PADDING.top}
+            y2={PADDING.top}
+            stroke="#f3f4f6"
+          />
+          <text
+            x={PADDING.left - 6}
+            y={PADDING.top + 4}
+            textAnchor="end"
+            className="fill-gray-500 text-[10px]"
+          >
+            {format(max)}
+          </text>
+          <text
+            x={PADDING.left - 6}
+            y={PADDING.top + plotHeight}
+            textAnchor="end"
+            className="fill-gray-500 text-[10px]"
+          >
+            {format(0)}
+          </text>
+          <text
+            x={PADDING.left}
+            y={height - 4}
+            className="fill-gray-500 text-[10px]"
+          >
+            {formatTime(timestamps[0])}
+          </text>
+          <text
+            x={WIDTH - PADDING.right}
+            y={height - 4}
+            textAnchor="end"
+            className="fill-gray-500 text-[10px]"
+          >
+            {formatTime(timestamps[timestamps.length - 1])}
+          </text>
+          {series.map((line) => (
+            <path
+              key={line.label}
+              d={toPath(line.values)}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={1.5}
+            />
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+}
+
+function formatTime(timestamp?: string): string {
+  return timestamp
+    ? new Date(timestamp).toLocaleString([], {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "";
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import type { SpanRecord, TraceRecord } from "@/lib/tracer";
+
+// Spans of one trace as bars on a shared timeline, children under parents
+export function TraceWaterfall({ trace }: { trace: TraceRecord }) {
+  const traceStart = trace.spans[0]?.startTime || 0;
+  const total = Math.max(trace.durationMs, 1);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-gray-500 pb-1 border-b">
+        <span>Span</span>
+        <span>{formatMs(trace.durationMs)}</span>
+      </div>
+      {orderSpans(trace.spans).map(({ span, depth }) => {
+        const offset = ((span.startTime - traceStart) / total) * 100;
+        const width = Math.max(((span.durationMs || 0) / total) * 100, 0.5);
+        const attributes = Object.entries(span.attributes)
+          .map(([key, value]) => `${key}=${value}`)
+          .join(" ");
+
+        return (
+          <div
+            key={span.spanId}
+            className="flex items-center text-xs"
+            title={span.error || attributes}
+          >
+            <div
+              className="w-64 shrink-0 truncate font-mono"
+              style={{ paddingLeft: depth * 12 }}
+            >
+              {span.name}
+            </div>
+            <div className="relative flex-1 h-4 bg-gray-100 rounded">
+              <div
+                className={`absolute h-4 rounded ${
+                  span.status === "error"
+                    ? "bg-red-500"
+                    : span.kind === "client"
+                    ? "bg-purple-500"
+                    : "bg-blue-500"
+                }`}
+                style={{ left: `${offset}%`, width: `${width}%` }}
+              />
+            </div>
+            <div className="w-20 shrink-0 text-right text-gray-600">
+              {formatMs(span.durationMs || 0)}
+            </div>
+          </div>
+        );
+      })}
+      {trace.droppedSpans > 0 && (
+        <Badge variant="secondary">{trace.droppedSpans} spans dropped</Badge>
+      )}
+    </div>
+  );
+}
+
+// Depth-first, so each span is followed by its children in start order
+function orderSpans(
+  spans: SpanRecord[]
+): Array<{ span: SpanRecord; depth: number }> {
+  const children = new Map<string | undefined, SpanRecord[]>();
+  spans.forEach((span) => {
+    const siblings = children.get(span.parentSpanId) || [];
+    siblings.push(span);
+    children.set(span.parentSpanId, siblings);
+  });
+
+  const ordered: Array<{ span: SpanRecord; depth: number }> = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    (children.get(parentId) || [])
+      .sort((a, b) => a.startTime - b.startTime)
+      .forEach((span) => {
+        ordered.push({ span, depth });
+        visit(span.spanId, depth + 1);
+      });
+  };
+  visit(undefined, 0);
+  return ordered;
+}
+
+function formatMs(ms: number): string {
+  return ms < 1000 ? `${ms.toFixed(1)}ms` : `${(ms / 1000).toFixed(2)}s`;
+}
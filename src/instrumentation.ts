@@ -0,0 +1,12 @@
+// Instrumentation - Runs once when the Next.js server starts
+
+export async function register() {
+  // Node-only services; the edge runtime (middleware) has no filesystem
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { metricsStore } = await import("./lib/metrics-store");
+    metricsStore.start();
+
+    const { alertManager } = await import("./lib/alert-manager");
+    alertManager.start();
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { AdvancedCacheService } from "../advanced-cache-service";
+import { diffOrderSnapshots, orderEventBus } from "../order-event-bus";
+import { makeOrder } from "./fixtures";
+
+describe("AdvancedCacheService order invalidation", () => {
+  test("drops only the entries that include a changed job", async (t) => {
+    t.mock.method(console, "log", () => {});
+    const cache = new AdvancedCacheService();
+    const previous = makeOrder("51094");
+
+    await cache.cacheOrderData([previous, makeOrder("51039")], "api", {
+      customer: "acme",
+    });
+    await cache.cacheOrderData([makeOrder("50948")], "api", { rush: true });
+    await cache.set("rag:late orders", {
+      answer: "2 late orders",
+      sources: {
+        strategy: "api",
+        vectorResults: [{ metadata: { jobNumber: "51094" } }],
+      },
+    });
+    await cache.set("rag:totals", { answer: "No orders" });
+
+    orderEventBus.publish(
+      diffOrderSnapshots(
+        previous,
+        makeOrder("51094", { description: "Hoodies" })
+      )
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(await cache.get("rag:late orders"), null);
+    assert.notEqual(await cache.get("rag:totals"), null);
+    assert.equal(cache.getStats().totalEntries, 2);
+  });
+});
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AuditLog, type AuditEntry } from "../audit-log";
+import type { SessionUser } from "../auth-session";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const csr: SessionUser = {
+  id: "u-7",
+  username: "pat",
+  displayName: "Pat Lee",
+  role: "csr",
+};
+
+function readLines(filePath: string): AuditEntry[] {
+  return fs
+    .readFileSync(filePath, "utf8")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+function entry(id: string, daysAgo: number): AuditEntry {
+  return {
+    id,
+    timestamp: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+    userId: "u-7",
+    username: "pat",
+    role: "csr",
+    sessionId: null,
+    correlationId: null,
+    message: `question ${id}`,
+    strategy: null,
+    functionCalls: [],
+    jobNumbers: [],
+    outcome: "answered",
+    durationMs: 1,
+  };
+}
+
+describe("AuditLog", () => {
+  let dir = "";
+  let logPath = "";
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-log-"));
+    logPath = path.join(dir, "audit-log.jsonl");
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("appends one line per request with what it touched", async () => {
+    const log = new AuditLog(logPath);
+    const answer = await log.track(
+      { user: csr, sessionId: "s-1", message: "where is 51094?" },
+      async () => {
+        log.annotate({ strategy: "api", jobNumbers: ["51094"] });
+        log.recordFunctionCall({
+          name: "getJobDetails",
+          parameters: { jobNumber: "51094" },
+          success: true,
+        });
+        return "shipped";
+      }
+    );
+    await log.track({ user: null, message: "hello" }, async () => "hi");
+    await log.flush();
+
+    assert.equal(answer, "shipped");
+    const lines = readLines(logPath);
+    assert.equal(lines.length, 2);
+    assert.equal(lines[0].username, "pat");
+    assert.equal(lines[0].strategy, "api");
+    assert.deepEqual(lines[0].jobNumbers, ["51094"]);
+    assert.equal(lines[0].functionCalls[0].name, "getJobDetails");
+    assert.equal(lines[1].userId, null);
+
+    const reloaded = new AuditLog(logPath);
+    assert.deepEqual(
+      reloaded.search({ jobNumber: "51094" }).map((e) => e.message),
+      ["where is 51094?"]
+    );
+    assert.equal(reloaded.search({ user: "PAT" }).length, 1);
+    assert.deepEqual(
+      reloaded.search().map((e) => e.message),
+      ["hello", "where is 51094?"]
+    );
+  });
+
+  test("records a failed request and rethrows", async () => {
+    const log = new AuditLog(logPath);
+    await assert.rejects(
+      log.track({ user: csr, message: "boom" }, async () => {
+        throw new Error("OMS unavailable");
+      }),
+      /OMS unavailable/
+    );
+    await log.flush();
+
+    const [line] = readLines(logPath);
+    assert.equal(line.outcome, "error");
+    assert.equal(line.error, "OMS unavailable");
+  });
+
+  test("skips partial lines and entries past retention", () => {
+    fs.writeFileSync(
+      logPath,
+      `${JSON.stringify(entry("old", 10))}\n` +
+        `${JSON.stringify(entry("recent", 1))}\n` +
+        `{"id":"torn","timest`
+    );
+    const log = new AuditLog(logPath, 5);
+    assert.deepEqual(log.search().map((e) => e.id), ["recent"]);
+  });
+
+  test("compaction rewrites the file without expired lines", async () => {
+    fs.writeFileSync(
+      logPath,
+      [entry("old", 10), entry("recent", 1)]
+        .map((e) => `${JSON.stringify(e)}\n`)
+        .join("")
+    );
+    const log = new AuditLog(logPath, 5);
+
+    // An append within the hour leaves the expired line on disk
+    await log.track({ user: csr, message: "first" }, async () => null);
+    await log.flush();
+    assert.equal(readLines(logPath).length, 3);
+
+    const later = Date.now() + 2 * 60 * 60 * 1000;
+    mock.method(Date, "now", () => later);
+    await log.track({ user: csr, message: "second" }, async () => null);
+    await log.flush();
+
+    assert.deepEqual(
+      readLines(logPath).map((e) => e.message),
+      ["question recent", "first", "second"]
+    );
+    assert.deepEqual(
+      fs.readdirSync(dir),
+      ["audit-log.jsonl"],
+      "no temp file is left behind"
+    );
+  });
+
+  test("moves the legacy JSON log into the JSONL file", () => {
+    fs.writeFileSync(
+      path.join(dir, "audit-log.json"),
+      JSON.stringify({
+        lastUpdate: new Date().toISOString(),
+        entries: [entry("a", 2), entry("b", 1)],
+      })
+    );
+    mock.method(console, "log", () => {});
+
+    const log = new AuditLog(logPath);
+    assert.equal(log.getStats().totalEntries, 2);
+    assert.deepEqual(readLines(logPath).map((e) => e.id), ["a", "b"]);
+  });
+
+  test("exports CSV with formula-like cells defused", () => {
+    const log = new AuditLog(logPath);
+    const csv = log.toCsv([
+      {
+        ...entry("a", 0),
+        message: '=HYPERLINK("x"), please',
+        jobNumbers: ["51094", "51095"],
+      },
+    ]);
+    const [header, row] = csv.split("\n");
+    assert.match(header, /^timestamp,username,role,/);
+    assert.match(row, /,"'=HYPERLINK\(""x""\), please",/);
+    assert.match(row, /,51094 51095,answered,1$/);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getAllowedRoles,
+  getRequestUser,
+  isPublicPath,
+  signSessionToken,
+  verifySessionToken,
+  USER_HEADERS,
+  type SessionUser,
+} from "../auth-session";
+
+const SECRET = "test-secret";
+
+const csr: SessionUser = {
+  id: "u-7",
+  username: "pat",
+  displayName: "Pat Lee",
+  role: "csr",
+};
+
+describe("session tokens", () => {
+  test("a signed token verifies back to its user", async () => {
+    const customer = { ...csr, role: "customer" as const, customerIds: [1021] };
+    const token = await signSessionToken(customer, SECRET);
+    assert.deepEqual(await verifySessionToken(token, SECRET), customer);
+  });
+
+  test("rejects a token signed with another secret", async () => {
+    const token = await signSessionToken(csr, "other-secret");
+    assert.equal(await verifySessionToken(token, SECRET), null);
+  });
+
+  test("rejects a token whose payload was changed", async () => {
+    const [, signature] = (await signSessionToken(csr, SECRET)).split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ ...csr, role: "admin", exp: Date.now() + 60_000 })
+    ).toString("base64url");
+    assert.equal(
+      await verifySessionToken(`${forged}.${signature}`, SECRET),
+      null
+    );
+  });
+
+  test("rejects expired and malformed tokens", async () => {
+    const expired = await signSessionToken(csr, SECRET, -1000);
+    assert.equal(await verifySessionToken(expired, SECRET), null);
+    assert.equal(await verifySessionToken("not-a-token", SECRET), null);
+    assert.equal(await verifySessionToken("abc.%%%", SECRET), null);
+  });
+
+  test("rejects a signed payload with an unknown role", async () => {
+    const token = await signSessionToken(
+      { ...csr, role: "owner" as SessionUser["role"] },
+      SECRET
+    );
+    assert.equal(await verifySessionToken(token, SECRET), null);
+  });
+});
+
+describe("route access", () => {
+  test("admin routes are admin only", () => {
+    assert.deepEqual(getAllowedRoles("/api/admin/config"), ["admin"]);
+    assert.deepEqual(getAllowedRoles("/admin"), ["admin"]);
+    assert.deepEqual(getAllowedRoles("/api/data/update"), ["admin"]);
+  });
+
+  test("the first matching prefix wins", () => {
+    assert.deepEqual(getAllowedRoles("/api/oms-chat/actions/abc/confirm"), [
+      "csr",
+      "production",
+      "admin",
+    ]);
+    assert.ok(getAllowedRoles("/api/oms-chat")?.includes("customer"));
+    assert.ok(!getAllowedRoles("/api/orders")?.includes("customer"));
+  });
+
+  test("prefixes match whole path segments", () => {
+    assert.equal(getAllowedRoles("/administrator"), null);
+    assert.ok(!getAllowedRoles("/api/admin-tools")?.includes("customer"));
+    assert.ok(getAllowedRoles("/api/admin-tools")?.includes("viewer"));
+  });
+
+  test("pages not listed are open and login is public", () => {
+    assert.equal(getAllowedRoles("/"), null);
+    assert.ok(isPublicPath("/login"));
+    assert.ok(isPublicPath("/api/auth/login"));
+    assert.ok(!isPublicPath("/api/auth/me"));
+  });
+});
+
+describe("getRequestUser", () => {
+  test("reads the user the middleware forwarded", () => {
+    const headers = new Headers({
+      [USER_HEADERS.id]: "u-7",
+      [USER_HEADERS.username]: "pat",
+      [USER_HEADERS.displayName]: encodeURIComponent("Pat Lée"),
+      [USER_HEADERS.role]: "customer",
+      [USER_HEADERS.customerIds]: "1021,x,1022",
+    });
+    assert.deepEqual(getRequestUser(headers), {
+      id: "u-7",
+      username: "pat",
+      displayName: "Pat Lée",
+      role: "customer",
+      customerIds: [1021, 1022],
+    });
+  });
+
+  test("returns null without a valid role", () => {
+    const headers = new Headers({
+      [USER_HEADERS.id]: "u-7",
+      [USER_HEADERS.role]: "owner",
+    });
+    assert.equal(getRequestUser(headers), null);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { CircuitBreaker, CircuitBreakerConfig } from "../circuit-breaker";
+
+// resetTimeout is switched to 0 to skip the wait before a probe
+function breaker(failureThreshold: number = 3) {
+  const config: CircuitBreakerConfig = {
+    failureThreshold,
+    resetTimeout: 60000,
+  };
+  return { circuit: new CircuitBreaker("test", () => config), config };
+}
+
+describe("CircuitBreaker", () => {
+  test("opens after the threshold of consecutive failures", () => {
+    const { circuit } = breaker(3);
+    circuit.recordFailure(new Error("timeout"));
+    circuit.recordFailure(new Error("timeout"));
+    assert.equal(circuit.getState(), "closed");
+    assert.equal(circuit.canRequest(), true);
+
+    circuit.recordFailure(new Error("timeout"));
+    assert.equal(circuit.getState(), "open");
+    assert.equal(circuit.canRequest(), false);
+    assert.ok(circuit.getRetryAfter() > 0);
+
+    const snapshot = circuit.getSnapshot();
+    assert.equal(snapshot.rejected, 1);
+    assert.equal(snapshot.lastFailure, "timeout");
+    assert.ok(snapshot.retryAt);
+  });
+
+  test("a success resets the consecutive count", () => {
+    const { circuit } = breaker(2);
+    circuit.recordFailure();
+    circuit.recordSuccess();
+    circuit.recordFailure();
+    assert.equal(circuit.getState(), "closed");
+    assert.equal(circuit.getSnapshot().totalFailures, 2);
+  });
+
+  test("lets a single probe through once the timeout passes", () => {
+    const { circuit, config } = breaker(1);
+    circuit.recordFailure();
+    config.resetTimeout = 0;
+
+    assert.equal(circuit.getState(), "half-open");
+    assert.equal(circuit.canRequest(), true);
+    assert.equal(circuit.canRequest(), false);
+
+    circuit.recordSuccess();
+    assert.equal(circuit.getState(), "closed");
+    assert.equal(circuit.canRequest(), true);
+  });
+
+  test("a failed probe opens the circuit again", () => {
+    const { circuit, config } = breaker(1);
+    circuit.recordFailure();
+    config.resetTimeout = 0;
+    assert.equal(circuit.canRequest(), true);
+
+    config.resetTimeout = 60000;
+    circuit.recordFailure();
+    assert.equal(circuit.getState(), "open");
+    assert.equal(circuit.canRequest(), false);
+  });
+
+  test("reset closes an open circuit", () => {
+    const { circuit } = breaker(1);
+    circuit.recordFailure();
+    circuit.reset();
+    assert.equal(circuit.getState(), "closed");
+    assert.equal(circuit.getRetryAfter(), 0);
+  });
+});
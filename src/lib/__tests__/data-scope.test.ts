@@ -0,0 +1,100 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { SessionUser } from "../auth-session";
+import {
+  getDataScope,
+  getScopeKey,
+  isCustomerInScope,
+  isOrderInScope,
+  scopeOrders,
+  scopeVectorResults,
+} from "../data-scope";
+
+function user(
+  role: SessionUser["role"],
+  customerIds?: number[]
+): SessionUser {
+  return { id: role, username: role, displayName: role, role, customerIds };
+}
+
+describe("getDataScope", () => {
+  test("always scopes customer logins", () => {
+    assert.deepEqual(getDataScope(user("customer", [1021])), {
+      customerIds: [1021],
+    });
+    assert.deepEqual(getDataScope(user("customer")), { customerIds: [] });
+  });
+
+  test("scopes staff only when customers are assigned", () => {
+    assert.equal(getDataScope(user("csr")), undefined);
+    assert.equal(getDataScope(user("admin", [])), undefined);
+    assert.deepEqual(getDataScope(user("viewer", [7, 8])), {
+      customerIds: [7, 8],
+    });
+    assert.equal(getDataScope(null), undefined);
+  });
+});
+
+describe("scope checks", () => {
+  const scope = { customerIds: [1021, 1044] };
+
+  test("match customer ids given as numbers or strings", () => {
+    assert.equal(isCustomerInScope(1021, scope), true);
+    assert.equal(isCustomerInScope("1044", scope), true);
+    assert.equal(isCustomerInScope(9, scope), false);
+    assert.equal(isCustomerInScope(undefined, scope), false);
+    assert.equal(isCustomerInScope("", scope), false);
+    assert.equal(isCustomerInScope(undefined, undefined), true);
+  });
+
+  test("withhold orders without a customer", () => {
+    assert.equal(isOrderInScope({ customer: { id: 1021 } }, scope), true);
+    assert.equal(isOrderInScope({}, scope), false);
+    assert.equal(isOrderInScope(null, scope), false);
+    assert.equal(isOrderInScope(null, undefined), true);
+  });
+
+  test("an empty scope sees nothing", () => {
+    const orders = [{ customer: { id: 1021 } }];
+    assert.deepEqual(scopeOrders(orders, { customerIds: [] }), []);
+  });
+});
+
+describe("scopeOrders and scopeVectorResults", () => {
+  const orders = [
+    { jobNumber: "1", customer: { id: 1021 } },
+    { jobNumber: "2", customer: { id: 9 } },
+    { jobNumber: "3" },
+  ];
+
+  test("keep only orders of customers in scope", () => {
+    assert.deepEqual(
+      scopeOrders(orders, { customerIds: [1021] }).map((o) => o.jobNumber),
+      ["1"]
+    );
+    assert.equal(scopeOrders(orders, undefined), orders);
+  });
+
+  test("filter vector matches on their customerId metadata", () => {
+    const results = [
+      { id: "a", metadata: { customerId: 9 } },
+      { id: "b", metadata: { customerId: 1021 } },
+      { id: "c", metadata: {} },
+    ];
+    assert.deepEqual(
+      scopeVectorResults(results, { customerIds: [1021] }).map((r) => r.id),
+      ["b"]
+    );
+  });
+});
+
+describe("getScopeKey", () => {
+  test("is the same for the same customers in any order", () => {
+    assert.equal(
+      getScopeKey({ customerIds: [1044, 1021] }),
+      getScopeKey({ customerIds: [1021, 1044] })
+    );
+    assert.notEqual(getScopeKey({ customerIds: [1021] }), getScopeKey());
+    assert.equal(getScopeKey(), "all");
+  });
+});
@@ -0,0 +1,211 @@
+import { after, before, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { MockOMSServer } from "../mock-oms-server";
+import { EnhancedOMSAPIClient } from "../enhanced-api-client";
+
+const JOB_LIST = "/jobstatuslist/ajax/JobStatusQueryAsync.ashx";
+
+// The server and client log every request; keep that out of the test report
+before(() => {
+  mock.method(console, "log", () => {});
+  mock.method(console, "error", () => {});
+  mock.method(console, "warn", () => {});
+});
+after(() => mock.restoreAll());
+
+// The authenticator reads its credentials from the environment
+function withCredentials<T>(username: string, password: string, fn: () => T) {
+  const saved = { ...process.env };
+  process.env.OMS_USERNAME = username;
+  process.env.OMS_PASSWORD = password;
+  try {
+    return fn();
+  } finally {
+    process.env = saved;
+  }
+}
+
+describe("EnhancedOMSAPIClient circuits", () => {
+  const server = new MockOMSServer({
+    port: 0,
+    credentials: { username: "mock", password: "secret" },
+  });
+  let baseUrl = "";
+
+  before(async () => {
+    baseUrl = await server.start();
+  });
+
+  after(() => server.stop());
+
+  test("a failed login counts against the endpoint's circuit", async () => {
+    const client = withCredentials(
+      "mock",
+      "wrong",
+      () =>
+        new EnhancedOMSAPIClient({
+          baseUrl,
+          maxRetries: 0,
+          circuitFailureThreshold: 1,
+          circuitResetTimeout: 60000,
+        })
+    );
+
+    await assert.rejects(
+      client.getJobList({}, { skipCache: true }),
+      /OMS login rejected/
+    );
+    const circuit = client.getCircuitStates()[JOB_LIST];
+    assert.equal(circuit.state, "open");
+    assert.match(circuit.lastFailure || "", /OMS login rejected/);
+
+    await assert.rejects(
+      client.getJobList({}, { skipCache: true }),
+      /unavailable \(circuit open\)/
+    );
+  });
+
+  test("a half-open probe whose login fails frees the circuit", async () => {
+    const client = withCredentials(
+      "mock",
+      "wrong",
+      () =>
+        new EnhancedOMSAPIClient({
+          baseUrl,
+          maxRetries: 0,
+          circuitFailureThreshold: 1,
+          circuitResetTimeout: 0, // Every call after a failure is a probe
+        })
+    );
+
+    await assert.rejects(client.getJobList({}, { skipCache: true }));
+    // The probe fails at login; the next call gets its own probe instead of
+    // being refused behind one that never finished
+    await assert.rejects(
+      client.getJobList({}, { skipCache: true }),
+      /login failed recently/
+    );
+    await assert.rejects(
+      client.getJobList({}, { skipCache: true }),
+      /login failed recently/
+    );
+    assert.equal(client.getCircuitStates()[JOB_LIST].totalFailures, 3);
+  });
+
+  test("resetCircuits lets requests through again", async () => {
+    const client = withCredentials(
+      "mock",
+      "secret",
+      () =>
+        new EnhancedOMSAPIClient({
+          baseUrl,
+          maxRetries: 0,
+          circuitFailureThreshold: 1,
+          circuitResetTimeout: 60000,
+        })
+    );
+    server.setRules([{ path: "JobStatusQueryAsync", status: 503, times: 1 }]);
+
+    await assert.rejects(client.getJobList({}, { skipCache: true }), /503/);
+    assert.equal(client.getCircuitStates()[JOB_LIST].state, "open");
+
+    client.resetCircuits();
+    const list = await client.getJobList({}, { skipCache: true });
+    assert.equal(list.isSuccess, true);
+    assert.equal(client.getCircuitStates()[JOB_LIST].state, "closed");
+  });
+});
+
+describe("EnhancedOMSAPIClient request sharing", () => {
+  const server = new MockOMSServer({ port: 0, defaultLatencyMs: 20 });
+  let baseUrl = "";
+
+  before(async () => {
+    baseUrl = await server.start();
+  });
+
+  after(() => server.stop());
+
+  const requestsFor = (bit: string) =>
+    server.getRequestLog().filter((entry) => entry.bit === bit).length;
+
+  test("concurrent identical requests make one call", async () => {
+    server.clearRequestLog();
+    const client = new EnhancedOMSAPIClient({ baseUrl, maxRetries: 0 });
+
+    const [first, second] = await Promise.all([
+      client.getJobLines("51094"),
+      client.getJobLines("51094"),
+    ]);
+    assert.equal(first, second);
+    assert.equal(requestsFor("get-joblines"), 1);
+    assert.equal(client.getStats().coalescedRequests, 1);
+
+    // Reads that skip the cache always go to the OMS
+    await Promise.all([
+      client.getJobHistory("51094", { skipCache: true }),
+      client.getJobHistory("51094", { skipCache: true }),
+    ]);
+    assert.equal(requestsFor("get-job-history"), 2);
+  });
+
+  test("a shared request that fails rejects every caller", async () => {
+    server.clearRequestLog();
+    server.setRules([{ bit: "get-job-shipments", status: 404, times: 1 }]);
+    const client = new EnhancedOMSAPIClient({ baseUrl, maxRetries: 0 });
+
+    const results = await Promise.allSettled([
+      client.getJobShipments("51094"),
+      client.getJobShipments("51094"),
+    ]);
+    assert.deepEqual(
+      results.map((result) => result.status),
+      ["rejected", "rejected"]
+    );
+    assert.equal(requestsFor("get-job-shipments"), 1);
+
+    // Nothing is left in flight; the next call goes out again
+    await client.getJobShipments("51094");
+    assert.equal(requestsFor("get-job-shipments"), 2);
+  });
+
+  test("bulk fetch returns requested parts and isolates failures", async () => {
+    server.clearRequestLog();
+    server.setRules([
+      { bit: "get-job-shipments", jobNumber: "51039", status: 404 },
+    ]);
+    const client = new EnhancedOMSAPIClient({ baseUrl, maxRetries: 0 });
+
+    const results = await client.getJobDetailsBulk(
+      ["51094", "51039", "51094"],
+      ["lines", "shipments"],
+      { concurrency: 1 }
+    );
+    server.clearRules();
+
+    assert.deepEqual(Array.from(results.keys()), ["51094", "51039"]);
+    const ok = results.get("51094")!;
+    assert.ok((ok.lines || []).length > 0);
+    assert.ok(Array.isArray(ok.shipments));
+    assert.deepEqual(ok.errors, {});
+    assert.equal(ok.job, undefined, "parts not asked for are not fetched");
+
+    const failed = results.get("51039")!;
+    assert.ok(Array.isArray(failed.lines));
+    assert.equal(failed.shipments, undefined);
+    assert.match(failed.errors.shipments || "", /HTTP 404/);
+    assert.equal(requestsFor("get-joblines"), 2);
+  });
+
+  test("bulk fetches share requests with callers already waiting", async () => {
+    server.clearRequestLog();
+    const client = new EnhancedOMSAPIClient({ baseUrl, maxRetries: 0 });
+
+    const [, bulk] = await Promise.all([
+      client.getJobLines("50948"),
+      client.getJobDetailsBulk(["50948"], ["lines"]),
+    ]);
+    assert.ok((bulk.get("50948")?.lines || []).length > 0);
+    assert.equal(requestsFor("get-joblines"), 1);
+  });
+});
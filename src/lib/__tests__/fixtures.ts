@@ -0,0 +1,93 @@
+// Test fixtures - Minimal ModernOrders for store, event and history tests
+
+import type { ModernOrder } from "../api-first-data-service";
+
+type Shipment = ModernOrder["shipments"][number];
+
+export function makeOrder(
+  jobNumber: string,
+  overrides: Partial<ModernOrder> = {}
+): ModernOrder {
+  return {
+    jobNumber,
+    orderNumber: `PO-${jobNumber}`,
+    customer: { id: 1021, company: "Acme Apparel" },
+    description: "Team shirts",
+    comments: "",
+    jobQuantity: 100,
+    status: {
+      master: "Approved",
+      masterStatusId: 4,
+      stock: "Stock Complete",
+      stockComplete: 2,
+      statusLine: "Approved - Stock Complete",
+      statusLineHtml: "",
+    },
+    dates: {
+      dateEntered: "2025-05-01T00:00:00.000Z",
+      dateEnteredUtc: "2025-05-01T00:00:00.000Z",
+      dateDue: "2025-06-10T00:00:00.000Z",
+      dateDueUtc: "2025-06-10T00:00:00.000Z",
+      dateDueFactory: "2025-06-09T00:00:00.000Z",
+      daysToDueDate: 5,
+    },
+    location: { code: "US", name: "US", deliveryOption: "Ship" },
+    production: {
+      processes: [],
+      gangCodes: [],
+      timeSensitive: false,
+      mustDate: false,
+      isReprint: false,
+      isDupe: false,
+      canSuggestMachines: false,
+      canPrintJobLineLabels: false,
+      hasScheduleableJobLines: false,
+    },
+    lineItems: [],
+    shipments: [],
+    files: [],
+    tags: [],
+    workflow: {
+      hasScheduleableJobLines: false,
+      canPrintJobLineLabels: false,
+      hasJobFiles: false,
+      hasProof: false,
+    },
+    metadata: {
+      lastAPIUpdate: "2025-06-01T00:00:00.000Z",
+      dataSource: "api",
+      dataFreshness: "fresh",
+      bitVal: 0,
+      sortKey: jobNumber,
+    },
+    ...overrides,
+  };
+}
+
+export function makeShipment(id: number, shipped: boolean): Shipment {
+  return {
+    id,
+    index: id,
+    title: `Shipment ${id}`,
+    shipped,
+    canShip: !shipped,
+    address: {
+      contactName: "Pat Lee",
+      organisation: "Acme Apparel",
+      streetAddress: "1 Main St",
+      city: "Portland",
+      state: "OR",
+      zipCode: "97201",
+      validated: true,
+    },
+    method: { label: "UPS Ground", value: "ups-ground" },
+  };
+}
+
+export function makeTag(tag: string) {
+  return {
+    tag,
+    enteredBy: "csr",
+    dateEntered: "2025-06-01T00:00:00.000Z",
+  };
+}
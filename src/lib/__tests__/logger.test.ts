@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Logger } from "../logger";
+import type { LoggingConfig } from "../config-manager";
+
+describe("Logger", () => {
+  let dir = "";
+  let config: LoggingConfig;
+
+  const fileNames = () => fs.readdirSync(dir).sort();
+  const linesIn = (name: string) =>
+    fs
+      .readFileSync(path.join(dir, name), "utf8")
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line).message);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "logger-"));
+    config = {
+      level: "debug",
+      enableConsole: false,
+      enableFile: true,
+      maxFileSize: 400,
+      maxFiles: 3,
+      enableStructuredLogging: false,
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("rotates by bytes and keeps maxFiles files", async () => {
+    const logger = new Logger(dir, () => config);
+    for (let i = 0; i < 16; i++) {
+      logger.write("info", "test", `message ${i}`);
+    }
+    await logger.flush();
+
+    assert.deepEqual(fileNames(), ["app.1.log", "app.2.log", "app.log"]);
+    for (const name of fileNames()) {
+      const size = fs.statSync(path.join(dir, name)).size;
+      assert.ok(size <= config.maxFileSize, `${name}: ${size}`);
+    }
+    // Oldest lines were dropped with app.3.log; the rest stay in order
+    const kept = [
+      ...linesIn("app.2.log"),
+      ...linesIn("app.1.log"),
+      ...linesIn("app.log"),
+    ];
+    assert.equal(kept.at(-1), "message 15");
+    assert.ok(kept.length < 16);
+    assert.deepEqual(
+      kept,
+      kept.slice().sort((a, b) => a.localeCompare(b, "en", { numeric: true }))
+    );
+    assert.deepEqual(
+      logger.query().map((entry) => entry.message),
+      kept.slice().reverse()
+    );
+  });
+
+  test("counts multi-byte characters toward the size limit", async () => {
+    const logger = new Logger(dir, () => config);
+    for (let i = 0; i < 4; i++) {
+      logger.write("info", "test", "é".repeat(60));
+    }
+    await logger.flush();
+
+    // Each line is about 200 bytes but only about 140 characters
+    assert.deepEqual(fileNames(), ["app.1.log", "app.2.log", "app.log"]);
+    for (const name of fileNames()) {
+      const size = fs.statSync(path.join(dir, name)).size;
+      assert.ok(size <= config.maxFileSize, `${name}: ${size}`);
+    }
+  });
+
+  test("picks up the size of an existing file", async () => {
+    fs.writeFileSync(path.join(dir, "app.log"), "x".repeat(390) + "\n");
+    const logger = new Logger(dir, () => config);
+    logger.write("warn", "test", "after restart");
+    await logger.flush();
+
+    assert.deepEqual(fileNames(), ["app.1.log", "app.log"]);
+    assert.deepEqual(linesIn("app.log"), ["after restart"]);
+  });
+
+  test("drops lines below the configured level", async () => {
+    config.level = "warn";
+    const logger = new Logger(dir, () => config);
+    logger.write("info", "test", "quiet");
+    logger.write("error", "test", "loud");
+    await logger.flush();
+
+    assert.deepEqual(linesIn("app.log"), ["loud"]);
+    assert.deepEqual(
+      logger.query({ minLevel: "error" }).map((entry) => entry.message),
+      ["loud"]
+    );
+  });
+});
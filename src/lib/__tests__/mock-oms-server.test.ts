@@ -0,0 +1,185 @@
+import { after, before, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { MockOMSServer, OMSEnvelope } from "../mock-oms-server";
+
+const JOB_HANDLER = "/Jobs/ajax/JobHandler.ashx";
+const JOB_LIST = "/jobstatuslist/ajax/JobStatusQueryAsync.ashx";
+
+// The server logs every request; keep that out of the test report
+before(() => mock.method(console, "log", () => {}));
+after(() => mock.restoreAll());
+
+describe("MockOMSServer", () => {
+  const server = new MockOMSServer({ port: 0 });
+  let baseUrl = "";
+
+  before(async () => {
+    baseUrl = await server.start();
+  });
+
+  after(() => server.stop());
+
+  async function call(
+    pathname: string,
+    params: Record<string, string>,
+    cookie?: string
+  ): Promise<Response> {
+    return fetch(`${baseUrl}${pathname}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        ...(cookie && { Cookie: cookie }),
+      },
+      body: new URLSearchParams(params),
+      redirect: "manual",
+    });
+  }
+
+  async function envelope(
+    pathname: string,
+    params: Record<string, string>
+  ): Promise<OMSEnvelope> {
+    return (await call(pathname, params)).json();
+  }
+
+  async function findJob(jobNumber: string) {
+    const list = await envelope(JOB_LIST, {
+      bit: "get-job-list",
+      "text-filter": jobNumber,
+    });
+    const entities = (list.data as { Entities: Record<string, unknown>[] })
+      .Entities;
+    return entities.find((job) => String(job.JobNumber) === jobNumber);
+  }
+
+  test("serves recorded job lines for a known job", async () => {
+    const lines = await envelope(JOB_HANDLER, {
+      bit: "get-joblines",
+      jobNumber: "51094",
+    });
+    assert.equal(lines.isSuccess, true);
+    assert.ok(Array.isArray(lines.data) && lines.data.length > 0);
+  });
+
+  test("answers reads of an unknown job with a not-found error", async () => {
+    const lines = await envelope(JOB_HANDLER, {
+      bit: "get-joblines",
+      jobNumber: "99999999",
+    });
+    assert.equal(lines.isError, true);
+    assert.match(JSON.stringify(lines.error), /Job 99999999 not found/);
+  });
+
+  test("requires a bit on the job handler", async () => {
+    const response = await envelope(JOB_HANDLER, { jobNumber: "51094" });
+    assert.equal(response.isError, true);
+  });
+
+  test("filters the job list by text", async () => {
+    const job = await findJob("51094");
+    assert.equal(String(job?.JobNumber), "51094");
+  });
+
+  test("applies scenario rules for the given number of requests", async () => {
+    server.addRule({ bit: "get-job-history", status: 503, times: 1 });
+    const params = { bit: "get-job-history", jobNumber: "50948" };
+
+    assert.equal((await call(JOB_HANDLER, params)).status, 503);
+    const retried = await call(JOB_HANDLER, params);
+    assert.equal(retried.status, 200);
+    assert.equal(((await retried.json()) as OMSEnvelope).isSuccess, true);
+    assert.equal(server.getRules().length, 0);
+  });
+
+  test("writes change later reads and repeat keys apply once", async () => {
+    const write = {
+      bit: "add-job-tag",
+      jobNumber: "51039",
+      tag: "mock-test",
+      "idempotency-key": "test-key-1",
+    };
+    assert.equal((await envelope(JOB_HANDLER, write)).isSuccess, true);
+    assert.equal((await envelope(JOB_HANDLER, write)).isSuccess, true);
+
+    const tags = (await findJob("51039"))?.JobTags as { Tag: string }[];
+    assert.equal(tags.filter((tag) => tag.Tag === "mock-test").length, 1);
+
+    await envelope(JOB_HANDLER, {
+      ...write,
+      bit: "remove-job-tag",
+      "idempotency-key": "test-key-2",
+    });
+    const after = (await findJob("51039"))?.JobTags as { Tag: string }[];
+    assert.ok(!after.some((tag) => tag.Tag === "mock-test"));
+  });
+
+  test("rejects writes to unknown jobs and invalid values", async () => {
+    const unknown = await envelope(JOB_HANDLER, {
+      bit: "add-job-comment",
+      jobNumber: "99999999",
+      comment: "hello",
+    });
+    assert.equal(unknown.isError, true);
+
+    const badDate = await envelope(JOB_HANDLER, {
+      bit: "update-job-due-date",
+      jobNumber: "51039",
+      "date-due": "next week",
+    });
+    assert.equal(badDate.isError, true);
+  });
+});
+
+describe("MockOMSServer with credentials", () => {
+  const server = new MockOMSServer({
+    port: 0,
+    credentials: { username: "mock", password: "secret" },
+  });
+  let baseUrl = "";
+
+  before(async () => {
+    baseUrl = await server.start();
+  });
+
+  after(() => server.stop());
+
+  const jobLines = (cookie?: string) =>
+    fetch(`${baseUrl}${JOB_HANDLER}?bit=get-joblines&jobNumber=51094`, {
+      headers: cookie ? { Cookie: cookie } : {},
+      redirect: "manual",
+    });
+
+  async function login(password: string): Promise<string | undefined> {
+    const response = await fetch(`${baseUrl}/login.aspx`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        __VIEWSTATE: "mock-viewstate",
+        username: "mock",
+        password,
+      }),
+      redirect: "manual",
+    });
+    return response.headers
+      .getSetCookie()
+      .map((cookie) => cookie.split(";")[0])
+      .find((cookie) => cookie.startsWith(".ASPXAUTH="));
+  }
+
+  test("redirects to the login page without a session", async () => {
+    const response = await jobLines();
+    assert.equal(response.status, 302);
+    assert.match(response.headers.get("location") || "", /login\.aspx/);
+  });
+
+  test("serves data after logging in until sessions expire", async () => {
+    assert.equal(await login("wrong"), undefined);
+
+    const cookie = await login("secret");
+    assert.ok(cookie);
+    assert.equal((await jobLines(cookie)).status, 200);
+
+    server.expireSessions();
+    assert.equal((await jobLines(cookie)).status, 302);
+  });
+});
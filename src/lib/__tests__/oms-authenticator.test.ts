@@ -0,0 +1,139 @@
+import { after, before, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { MockOMSServer } from "../mock-oms-server";
+import { isAuthFailure, OMSAuthenticator } from "../oms-authenticator";
+
+const LOGIN_PAGE = "<!DOCTYPE html><html><form action='/login.aspx'>";
+
+// The server and authenticator log every login; keep that out of the report
+before(() => {
+  mock.method(console, "log", () => {});
+  mock.method(console, "error", () => {});
+});
+after(() => mock.restoreAll());
+
+describe("isAuthFailure", () => {
+  test("401s and redirects mean the session is gone", () => {
+    assert.equal(isAuthFailure({ status: 401 }), true);
+    assert.equal(isAuthFailure({ status: 302 }), true);
+    assert.equal(
+      isAuthFailure({
+        status: 200,
+        redirected: true,
+        url: "https://oms/login.aspx?ReturnUrl=%2FJobs",
+      }),
+      true
+    );
+  });
+
+  test("an HTML page instead of JSON is the login page", () => {
+    assert.equal(isAuthFailure({ status: 200 }, LOGIN_PAGE), true);
+    assert.equal(isAuthFailure({ status: 200 }, '{"isSuccess":true}'), false);
+  });
+
+  test("server errors are outages even with an HTML body", () => {
+    const errorPage = "<!DOCTYPE html><html><h1>Server Error</h1></html>";
+    assert.equal(isAuthFailure({ status: 500 }, errorPage), false);
+    assert.equal(isAuthFailure({ status: 503 }, errorPage), false);
+    assert.equal(isAuthFailure({ status: 502 }), false);
+  });
+
+  test("other client errors are not auth failures", () => {
+    assert.equal(isAuthFailure({ status: 404 }, "Not Found"), false);
+    assert.equal(isAuthFailure({ status: 400 }, '{"isError":true}'), false);
+  });
+});
+
+describe("OMSAuthenticator", () => {
+  const server = new MockOMSServer({
+    port: 0,
+    credentials: { username: "mock", password: "secret" },
+  });
+  let baseUrl = "";
+
+  const authenticator = (password: string, retryInterval = 30000) =>
+    new OMSAuthenticator({
+      baseUrl,
+      username: "mock",
+      password,
+      retryInterval,
+    });
+
+  before(async () => {
+    baseUrl = await server.start();
+  });
+
+  beforeEach(() => server.clearRequestLog());
+
+  after(() => server.stop());
+
+  const logins = () =>
+    server
+      .getRequestLog()
+      .filter(
+        (entry) => entry.path === "/login.aspx" && entry.method === "POST"
+      ).length;
+
+  test("logs in once for concurrent callers", async () => {
+    const auth = authenticator("secret");
+    const [first, second] = await Promise.all([
+      auth.ensureSession(),
+      auth.ensureSession(),
+    ]);
+
+    assert.match(first, /\.ASPXAUTH=/);
+    assert.equal(second, first);
+    assert.equal(logins(), 1);
+    assert.equal(auth.getStatus().state, "authenticated");
+    assert.equal(auth.getStatus().source, "login");
+
+    // A session already in hand is reused
+    assert.equal(await auth.ensureSession(), first);
+    assert.equal(logins(), 1);
+  });
+
+  test("a refresh with stale cookies reuses a newer session", async () => {
+    const auth = authenticator("secret");
+    const stale = await auth.ensureSession();
+    const renewed = await auth.refresh(stale);
+    assert.notEqual(renewed, stale);
+
+    // A second request sent with the stale cookies doesn't log in again
+    assert.equal(await auth.refresh(stale), renewed);
+    assert.equal(logins(), 2);
+    assert.equal(auth.getStatus().authFailures, 2);
+    assert.equal(auth.getStatus().refreshCount, 2);
+  });
+
+  test("rejected credentials are not retried right away", async () => {
+    const auth = authenticator("wrong");
+    await assert.rejects(auth.refresh(), /OMS login rejected/);
+    assert.equal(auth.getStatus().state, "failed");
+
+    await assert.rejects(auth.refresh(), /login failed recently/);
+    assert.equal(logins(), 1);
+
+    const retrying = authenticator("wrong", 0);
+    await assert.rejects(retrying.refresh(), /OMS login rejected/);
+    await assert.rejects(retrying.refresh(), /OMS login rejected/);
+    assert.equal(logins(), 3);
+  });
+
+  test("static cookies without credentials expire for good", async () => {
+    const auth = new OMSAuthenticator({
+      baseUrl,
+      username: "",
+      password: "",
+    });
+    auth.setCookies(".ASPXAUTH=pasted; ASP.NET_SessionId=abc");
+    assert.equal(await auth.ensureSession(), auth.getCookies());
+    assert.equal(auth.getStatus().source, "env");
+
+    await assert.rejects(
+      auth.refresh(auth.getCookies()),
+      /no OMS_USERNAME\/OMS_PASSWORD/
+    );
+    assert.equal(auth.getStatus().state, "expired");
+    assert.equal(logins(), 0);
+  });
+});
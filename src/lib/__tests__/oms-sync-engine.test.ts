@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { OMSSyncEngine } from "../oms-sync-engine";
+import {
+  EnhancedOMSAPIClient,
+  type APIJob,
+  type APIJobListResponse,
+} from "../enhanced-api-client";
+import {
+  apiFirstDataService,
+  type ModernOrder,
+} from "../api-first-data-service";
+import { orderStore } from "../order-store";
+import {
+  orderVectorIndex,
+  type OrderIndexUpdateStats,
+} from "../order-vector-index";
+
+function job(jobNumber: number, status = "Approved", description = "Shirts") {
+  return {
+    JobNumber: jobNumber,
+    MasterJobStatus: status,
+    Description: description,
+  } as APIJob;
+}
+
+describe("OMSSyncEngine", () => {
+  let dir = "";
+  let checkpointPath = "";
+  let pages: APIJob[][] = [];
+  let failPage: number | null = null;
+  let listOptions: Array<{ skipCache?: boolean }> = [];
+  let removed: Array<{ jobNumbers: string[]; reason?: string }> = [];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "oms-sync-"));
+    checkpointPath = path.join(dir, "checkpoint.json");
+    failPage = null;
+    listOptions = [];
+    removed = [];
+
+    mock.method(console, "log", () => {});
+    mock.method(console, "error", () => {});
+    // The exported client is a lazy proxy; mock the method it forwards to
+    mock.method(
+      EnhancedOMSAPIClient.prototype,
+      "getJobList",
+      async (
+        filters: Record<string, string>,
+        options: { skipCache?: boolean }
+      ) => {
+        listOptions.push(options);
+        const page = parseInt(filters["requested-page"], 10);
+        if (page === failPage) throw new Error("OMS unavailable");
+        return {
+          isSuccess: true,
+          isError: false,
+          data: {
+            Entities: pages[page - 1] || [],
+            HasNext: page < pages.length,
+            TotalPages: pages.length,
+          },
+        } as APIJobListResponse;
+      }
+    );
+    mock.method(
+      apiFirstDataService,
+      "convertAPIJobToModernOrder",
+      async (apiJob: APIJob) =>
+        ({
+          jobNumber: apiJob.JobNumber.toString(),
+          shipments: [],
+        }) as unknown as ModernOrder
+    );
+    mock.method(orderStore, "upsertOrders", (orders: ModernOrder[]) => {
+      return orders.length;
+    });
+    mock.method(
+      orderStore,
+      "removeOrders",
+      (jobNumbers: string[], reason?: string) => {
+        removed.push({ jobNumbers, reason });
+        return jobNumbers.length;
+      }
+    );
+    mock.method(orderStore, "markFullSync", () => 0);
+    mock.method(orderStore, "getOrder", () => null);
+    mock.method(
+      orderVectorIndex,
+      "indexOrders",
+      async (orders: ModernOrder[]) =>
+        ({
+          upsertedVectors: orders.length,
+          deletedVectors: 0,
+          errors: [],
+        }) as unknown as OrderIndexUpdateStats
+    );
+    mock.method(
+      orderVectorIndex,
+      "removeOrders",
+      async (jobNumbers: string[]) => jobNumbers.length
+    );
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("stores every job on first sync, reading pages uncached", async () => {
+    pages = [[job(1), job(2)], [job(3)]];
+    const report = await new OMSSyncEngine(checkpointPath).sync({
+      pageSize: 2,
+    });
+
+    assert.equal(report.completed, true);
+    assert.equal(report.pagesProcessed, 2);
+    assert.equal(report.newJobs, 3);
+    assert.equal(report.upsertedVectors, 3);
+    assert.ok(listOptions.every((options) => options.skipCache === true));
+
+    const checkpoint = JSON.parse(fs.readFileSync(checkpointPath, "utf8"));
+    assert.deepEqual(Object.keys(checkpoint.jobs).sort(), ["1", "2", "3"]);
+    assert.equal(checkpoint.run, null);
+  });
+
+  test("reindexes only changed jobs and tombstones missing ones", async () => {
+    pages = [[job(1), job(2), job(3, "Dispatched")]];
+    const engine = new OMSSyncEngine(checkpointPath);
+    await engine.sync();
+
+    pages = [[job(1), job(2, "Approved", "Hats")]];
+    const report = await engine.sync();
+
+    assert.equal(report.completed, true);
+    assert.equal(report.unchangedJobs, 1);
+    assert.equal(report.changedJobs, 1);
+    assert.equal(report.upsertedVectors, 1);
+    assert.deepEqual(
+      report.tombstones.map((t) => [t.jobNumber, t.reason]),
+      [["3", "shipped"]]
+    );
+    assert.deepEqual(removed, [
+      { jobNumbers: ["3"], reason: "shipped" },
+      { jobNumbers: [], reason: "closed" },
+    ]);
+    assert.deepEqual(
+      engine.getTombstones().map((t) => t.jobNumber),
+      ["3"]
+    );
+    assert.equal(engine.getStatus().trackedJobs, 2);
+  });
+
+  test("resumes an interrupted run from its checkpoint", async () => {
+    pages = [[job(1)], [job(2)], [job(3)]];
+    const first = await new OMSSyncEngine(checkpointPath).sync({
+      pageSize: 1,
+      maxPages: 2,
+    });
+    assert.equal(first.completed, false);
+    assert.equal(first.lastCompletedPage, 2);
+
+    const engine = new OMSSyncEngine(checkpointPath);
+    assert.equal(engine.getStatus().run?.lastCompletedPage, 2);
+
+    const resumed = await engine.sync({ pageSize: 1 });
+    assert.equal(resumed.resumed, true);
+    assert.equal(resumed.completed, true);
+    assert.equal(resumed.runId, first.runId);
+    // The last completed page is read again, then the rest
+    assert.equal(resumed.pagesProcessed, 2);
+    assert.equal(resumed.newJobs, 3);
+    assert.equal(engine.getStatus().trackedJobs, 3);
+  });
+
+  test("a failed page pauses the run without tombstoning", async () => {
+    pages = [[job(1)], [job(2)]];
+    const engine = new OMSSyncEngine(checkpointPath);
+    await engine.sync({ pageSize: 1 });
+
+    failPage = 2;
+    const report = await engine.sync({ pageSize: 1 });
+    assert.equal(report.completed, false);
+    assert.match(report.errors[0], /Page 2: OMS unavailable/);
+    assert.equal(report.tombstones.length, 0);
+    assert.equal(engine.getStatus().trackedJobs, 2);
+  });
+
+  test("refuses to tombstone most jobs at once", async () => {
+    pages = [[job(1), job(2), job(3), job(4)]];
+    const engine = new OMSSyncEngine(checkpointPath);
+    await engine.sync();
+
+    pages = [[job(1)]];
+    const report = await engine.sync();
+    assert.equal(report.tombstones.length, 0);
+    assert.match(report.errors[0], /Refusing to tombstone 3\/4 jobs/);
+    assert.equal(engine.getStatus().trackedJobs, 4);
+    assert.deepEqual(removed, []);
+  });
+});
@@ -0,0 +1,195 @@
+import { after, before, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  detectChangeField,
+  diffOrderFields,
+  OrderChangeHistory,
+  resolveChangeWindow,
+} from "../order-change-history";
+import { makeOrder, makeShipment, makeTag } from "./fixtures";
+
+const dueOn = (date: string) => ({
+  ...makeOrder("1").dates,
+  dateDue: `${date}T00:00:00.000Z`,
+});
+
+describe("diffOrderFields", () => {
+  test("describes due date moves with their direction in days", () => {
+    const previous = makeOrder("51094", { dates: dueOn("2025-06-10") });
+    const [pushed] = diffOrderFields(
+      previous,
+      makeOrder("51094", { dates: dueOn("2025-06-13") })
+    );
+    assert.equal(pushed.field, "dueDate");
+    assert.equal(pushed.deltaDays, 3);
+    assert.equal(
+      pushed.summary,
+      "Due date pushed 3 days later (2025-06-10 → 2025-06-13)"
+    );
+
+    const [pulled] = diffOrderFields(
+      previous,
+      makeOrder("51094", { dates: dueOn("2025-06-09") })
+    );
+    assert.equal(pulled.deltaDays, -1);
+    assert.match(pulled.summary, /pulled 1 day earlier/);
+  });
+
+  test("records status, quantity and tag changes", () => {
+    const previous = makeOrder("51094", { tags: [makeTag("rush")] });
+    const current = makeOrder("51094", {
+      status: { ...previous.status, master: "Completed" },
+      jobQuantity: 120,
+      tags: [makeTag("laser")],
+    });
+
+    assert.deepEqual(
+      diffOrderFields(previous, current).map((diff) => [
+        diff.field,
+        diff.from,
+        diff.to,
+      ]),
+      [
+        ["status", "Approved", "Completed"],
+        ["quantity", 100, 120],
+        ["tags", null, "laser"],
+        ["tags", "rush", null],
+      ]
+    );
+  });
+
+  test("ignores shipments and lines missing from the earlier snapshot", () => {
+    const previous = makeOrder("51094");
+    const current = makeOrder("51094", {
+      shipments: [makeShipment(1, false)],
+      lineItems: [{ lineId: 1, description: "Tee", quantity: 50 }],
+    });
+    assert.deepEqual(diffOrderFields(previous, current), []);
+  });
+
+  test("reports shipped, added and changed shipments and lines", () => {
+    const previous = makeOrder("51094", {
+      shipments: [makeShipment(1, false)],
+      lineItems: [{ lineId: 1, description: "Tee", quantity: 50 }],
+    });
+    const current = makeOrder("51094", {
+      shipments: [makeShipment(1, true), makeShipment(2, false)],
+      lineItems: [
+        { lineId: 1, description: "Tee", quantity: 60 },
+        { lineId: 2, description: "Cap", quantity: 10 },
+      ],
+    });
+
+    assert.deepEqual(
+      diffOrderFields(previous, current).map((diff) => diff.summary),
+      [
+        "Shipment 1 shipped",
+        "Shipment 2 added (UPS Ground)",
+        "Tee quantity changed from 50 to 60",
+        "Line item added: Cap (qty 10)",
+      ]
+    );
+  });
+});
+
+describe("OrderChangeHistory", () => {
+  let dir = "";
+  let historyPath = "";
+
+  before(() => {
+    mock.method(console, "log", () => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "change-history-"));
+    historyPath = path.join(dir, "history.json");
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("answers queries by job, field, direction and time", async () => {
+    const history = new OrderChangeHistory(historyPath);
+    const now = Date.now();
+    const at = (daysAgo: number) =>
+      new Date(now - daysAgo * 24 * 60 * 60 * 1000).toISOString();
+
+    const order = makeOrder("51094", { dates: dueOn("2025-06-10") });
+    history.record(
+      order,
+      makeOrder("51094", { dates: dueOn("2025-06-12") }),
+      "api",
+      at(3)
+    );
+    history.record(
+      makeOrder("51039", { dates: dueOn("2025-06-10") }),
+      makeOrder("51039", { dates: dueOn("2025-06-08"), jobQuantity: 90 }),
+      "api",
+      at(1)
+    );
+
+    assert.deepEqual(
+      history.getChanges().map((change) => change.field),
+      ["quantity", "dueDate", "dueDate"]
+    );
+    assert.deepEqual(
+      history
+        .getChanges({ direction: "pushed" })
+        .map((change) => change.jobNumber),
+      ["51094"]
+    );
+    assert.deepEqual(
+      history
+        .getChanges({ direction: "pulled" })
+        .map((change) => change.jobNumber),
+      ["51039"]
+    );
+    assert.equal(history.getChanges({ since: at(2) }).length, 2);
+    assert.equal(history.getChanges({ jobNumber: "51094" }).length, 1);
+    assert.equal(history.getChanges({ field: "quantity" }).length, 1);
+    assert.match(
+      history.summarize(history.getChanges({ jobNumber: "51094" })),
+      /^Job 51094 \(Acme Apparel\):\n {2}- \d{4}-\d{2}-\d{2}: Due date pushed/
+    );
+
+    // Written in the background; a new instance reads what was recorded
+    for (let i = 0; i < 100 && !fs.existsSync(historyPath); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    const reloaded = new OrderChangeHistory(historyPath);
+    assert.equal(reloaded.getStats().totalChanges, 3);
+    assert.equal(reloaded.getStats().jobs, 2);
+  });
+});
+
+describe("change questions", () => {
+  test("resolve 'since <weekday>' to the most recent one", () => {
+    const wednesday = new Date(2025, 5, 11, 15, 30);
+    const window = resolveChangeWindow(
+      "what changed since monday",
+      wednesday
+    );
+    assert.deepEqual(window.since, new Date(2025, 5, 9));
+    assert.equal(window.until, null);
+  });
+
+  test("resolve explicit dates and fall back to everything", () => {
+    assert.deepEqual(
+      resolveChangeWindow("changes since 2025-07-01").since,
+      new Date("2025-07-01T00:00:00")
+    );
+    assert.equal(
+      resolveChangeWindow("what changed on 51094").description,
+      "all recorded changes"
+    );
+  });
+
+  test("detect which field a question is about", () => {
+    assert.equal(detectChangeField("whose due date moved?"), "dueDate");
+    assert.equal(detectChangeField("any status changes today"), "status");
+    assert.equal(detectChangeField("which jobs shipped"), "shipments");
+    assert.equal(detectChangeField("what changed on 51094"), undefined);
+  });
+});
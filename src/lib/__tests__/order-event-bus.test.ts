@@ -0,0 +1,127 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { diffOrderSnapshots, OrderEventBus } from "../order-event-bus";
+import { makeOrder, makeShipment, makeTag } from "./fixtures";
+
+describe("diffOrderSnapshots", () => {
+  test("reports an order seen for the first time as created", () => {
+    const events = diffOrderSnapshots(null, makeOrder("51094"), "api");
+    assert.deepEqual(
+      events.map((event) => [event.type, event.jobNumber, event.source]),
+      [["order.created", "51094", "api"]]
+    );
+  });
+
+  test("a re-fetch that only moves daysToDueDate is not a change", () => {
+    const previous = makeOrder("51094");
+    const current = makeOrder("51094", {
+      dates: { ...previous.dates, daysToDueDate: 4 },
+      metadata: { ...previous.metadata, lastAPIUpdate: "2025-06-02" },
+    });
+    assert.deepEqual(diffOrderSnapshots(previous, current), []);
+  });
+
+  test("emits typed events for status and due date changes", () => {
+    const previous = makeOrder("51094");
+    const current = makeOrder("51094", {
+      status: { ...previous.status, master: "Running Late" },
+      dates: { ...previous.dates, dateDue: "2025-06-12T00:00:00.000Z" },
+    });
+    const events = diffOrderSnapshots(previous, current);
+
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ["order.statusChanged", "order.dueDateChanged", "order.updated"]
+    );
+    assert.deepEqual(events[0], {
+      ...events[0],
+      from: "Approved",
+      to: "Running Late",
+    });
+    assert.deepEqual(events[1], {
+      ...events[1],
+      from: "2025-06-10T00:00:00.000Z",
+      to: "2025-06-12T00:00:00.000Z",
+    });
+    const updated = events[2];
+    assert.ok(updated.type === "order.updated");
+    assert.deepEqual(updated.changedFields, ["status", "dates"]);
+    assert.equal(updated.previous, previous);
+  });
+
+  test("emits one event per tag added or removed", () => {
+    const previous = makeOrder("51094", {
+      tags: [makeTag("rush"), makeTag("laser")],
+    });
+    const current = makeOrder("51094", {
+      tags: [makeTag("laser"), makeTag("gamma")],
+    });
+    const events = diffOrderSnapshots(previous, current).filter(
+      (event) => event.type !== "order.updated"
+    );
+
+    assert.deepEqual(
+      events.map((event) => [event.type, "tag" in event && event.tag]),
+      [
+        ["order.tagAdded", "gamma"],
+        ["order.tagRemoved", "rush"],
+      ]
+    );
+  });
+
+  test("reports only shipments that newly shipped", () => {
+    const previous = makeOrder("51094", {
+      shipments: [makeShipment(1, true), makeShipment(2, false)],
+    });
+    const current = makeOrder("51094", {
+      shipments: [makeShipment(1, true), makeShipment(2, true)],
+    });
+    const shipped = diffOrderSnapshots(previous, current).filter(
+      (event) => event.type === "order.shipped"
+    );
+
+    assert.equal(shipped.length, 1);
+    assert.deepEqual(shipped[0], {
+      ...shipped[0],
+      shipmentId: 2,
+      method: "UPS Ground",
+    });
+  });
+});
+
+describe("OrderEventBus", () => {
+  test("delivers events by type and to every-event subscribers", () => {
+    const bus = new OrderEventBus();
+    const created: string[] = [];
+    const all: string[] = [];
+    const unsubscribe = bus.on("order.created", (event) => {
+      created.push(event.jobNumber);
+    });
+    bus.onAny((event) => {
+      all.push(event.type);
+    });
+
+    bus.publish(diffOrderSnapshots(null, makeOrder("1")));
+    unsubscribe();
+    bus.publish(diffOrderSnapshots(null, makeOrder("2")));
+
+    assert.deepEqual(created, ["1"]);
+    assert.deepEqual(all, ["order.created", "order.created"]);
+    assert.deepEqual(bus.getStats().counts, { "order.created": 2 });
+  });
+
+  test("a failing handler does not stop delivery", (t) => {
+    t.mock.method(console, "error", () => {});
+    const bus = new OrderEventBus();
+    const delivered: string[] = [];
+    bus.onAny(() => {
+      throw new Error("handler bug");
+    });
+    bus.onAny((event) => {
+      delivered.push(event.jobNumber);
+    });
+
+    bus.publish(diffOrderSnapshots(null, makeOrder("1")));
+    assert.deepEqual(delivered, ["1"]);
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PendingActionStore } from "../pending-actions";
+
+const MINUTE_MS = 60 * 1000;
+
+describe("PendingActionStore", () => {
+  let dir = "";
+  let store: PendingActionStore;
+
+  const propose = () =>
+    store.create({
+      kind: "add-job-tag",
+      summary: "Tag 51094 as rush",
+      jobNumbers: ["51094", "51039"],
+      params: { tag: "rush" },
+      changes: [],
+      fingerprint: "f",
+      skipped: [],
+      requestedBy: { userId: "u-1", username: "pat", role: "csr" },
+      sessionId: null,
+      correlationId: null,
+    });
+
+  const later = (ms: number) => {
+    const now = Date.now() + ms;
+    mock.method(Date, "now", () => now);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "pending-actions-"));
+    store = new PendingActionStore(
+      path.join(dir, "pending-actions.json"),
+      15 * MINUTE_MS,
+      10 * MINUTE_MS
+    );
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await store.flush();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("an action can only be claimed once", () => {
+    const action = propose();
+    assert.equal(store.begin(action.id, "key-1")?.status, "applying");
+    assert.equal(store.begin(action.id, "key-2"), null);
+    assert.equal(store.get(action.id)?.confirmKey, "key-1");
+  });
+
+  test("unconfirmed proposals expire", () => {
+    const action = propose();
+    later(16 * MINUTE_MS);
+    assert.equal(store.get(action.id)?.status, "expired");
+    assert.equal(store.begin(action.id, "key-1"), null);
+  });
+
+  test("writes that never finish are marked failed", () => {
+    const action = propose();
+    store.begin(action.id, "key-1");
+    later(5 * MINUTE_MS);
+    assert.equal(store.get(action.id)?.status, "applying");
+
+    later(11 * MINUTE_MS);
+    const stuck = store.get(action.id);
+    assert.equal(stuck?.status, "failed");
+    assert.deepEqual(
+      stuck?.results?.map((result) => [result.jobNumber, result.success]),
+      [
+        ["51094", false],
+        ["51039", false],
+      ]
+    );
+    assert.deepEqual(
+      store.list({ status: "failed" }).map((failed) => failed.id),
+      [action.id]
+    );
+  });
+
+  test("writes that finish after the timeout keep their results", () => {
+    const action = propose();
+    store.begin(action.id, "key-1");
+    later(11 * MINUTE_MS);
+
+    const resolved = store.resolve(action.id, {
+      status: "applied",
+      resolvedBy: "pat",
+      results: [
+        { jobNumber: "51094", success: true },
+        { jobNumber: "51039", success: true },
+      ],
+    });
+    assert.equal(resolved?.status, "applied");
+    assert.equal(store.resolve(action.id, { status: "cancelled" }), null);
+  });
+});
@@ -0,0 +1,136 @@
+import { after, before, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  IntelligentQueryRouter,
+  RoutedQueryResult,
+} from "../query-router";
+import { contextManagerService } from "../context-manager-service";
+import { EnhancedQueryService } from "../enhanced-query-service";
+import { apiFirstDataService } from "../api-first-data-service";
+import { enhancedVectorPipeline } from "../enhanced-vector-pipeline";
+import { makeOrder, makeTag } from "./fixtures";
+
+const jobNumbers = (result: RoutedQueryResult) =>
+  (result.results.orders || []).map((order) => order.jobNumber);
+
+describe("follow-up routing", () => {
+  let Router: typeof IntelligentQueryRouter;
+  let router: IntelligentQueryRouter;
+  let sessionId = "";
+  let sessionCount = 0;
+
+  before(async () => {
+    mock.method(console, "log", () => {});
+    mock.method(apiFirstDataService, "healthCheck", async () => ({
+      healthy: true,
+    }));
+    mock.method(enhancedVectorPipeline, "healthCheck", async () => ({
+      healthy: true,
+    }));
+    // Every router starts the vector population service, which reaches for
+    // the OMS and Pinecone; the module's own singleton is built on import
+    mock.method(EnhancedQueryService.prototype, "initialize", async () => {});
+    ({ IntelligentQueryRouter: Router } = await import("../query-router"));
+    router = new Router();
+  });
+
+  beforeEach(() => {
+    sessionId = `followup-test-${++sessionCount}`;
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  test("narrows the previous turn's orders and stores them", async () => {
+    contextManagerService.storeContext(
+      "orders due this week",
+      [
+        makeOrder("51094", { tags: [makeTag("rush")] }),
+        makeOrder("51095"),
+        makeOrder("51096", { tags: [makeTag("Rush")] }),
+      ],
+      sessionId
+    );
+
+    const result = await router.routeQuery("only the rush ones", {
+      sessionId,
+    });
+
+    assert.deepEqual(jobNumbers(result), ["51094", "51096"]);
+    assert.deepEqual(result.followUp, {
+      refinement: "filter",
+      description: "only rush",
+      basedOn: "orders due this week",
+    });
+    const latest = contextManagerService.getLatestContext(sessionId);
+    assert.equal(latest?.originalQuery, "orders due this week");
+    assert.deepEqual(
+      latest?.orders.map((order) => order.jobNumber),
+      ["51094", "51096"]
+    );
+  });
+
+  test("sorts and excludes without a new search", async () => {
+    contextManagerService.storeContext(
+      "open orders",
+      [
+        makeOrder("51094"),
+        makeOrder("51096"),
+        makeOrder("51095", { description: "Trucker hats" }),
+      ],
+      sessionId
+    );
+
+    const sorted = await router.routeQuery("sort those by job number", {
+      sessionId,
+    });
+    assert.deepEqual(jobNumbers(sorted), ["51094", "51095", "51096"]);
+    assert.equal(sorted.performanceMetrics.apiCalls, 0);
+
+    const excluded = await router.routeQuery("hide the hats ones", {
+      sessionId,
+    });
+    assert.deepEqual(jobNumbers(excluded), ["51094", "51096"]);
+  });
+
+  test("routing the same message again reuses the answer", async () => {
+    contextManagerService.storeContext(
+      "orders due this week",
+      [makeOrder("51094", { tags: [makeTag("rush")] }), makeOrder("51095")],
+      sessionId
+    );
+
+    const first = await router.routeQuery("only the rush ones", {
+      sessionId,
+    });
+    const stored = contextManagerService.getLatestContext(sessionId)?.id;
+    const again = await router.routeQuery("Only the  rush ones", {
+      sessionId,
+    });
+
+    assert.deepEqual(jobNumbers(again), jobNumbers(first));
+    assert.equal(contextManagerService.getLatestContext(sessionId)?.id, stored);
+  });
+
+  test("a later turn refines its own results", async () => {
+    contextManagerService.storeContext(
+      "orders due this week",
+      [makeOrder("51094", { tags: [makeTag("rush")] }), makeOrder("51095")],
+      sessionId
+    );
+    await router.routeQuery("only the rush ones", { sessionId });
+
+    contextManagerService.storeContext(
+      "orders for Acme",
+      [makeOrder("52001", { tags: [makeTag("rush")] }), makeOrder("52002")],
+      sessionId
+    );
+    const result = await router.routeQuery("only the rush ones", {
+      sessionId,
+    });
+
+    assert.deepEqual(jobNumbers(result), ["52001"]);
+    assert.equal(result.followUp?.basedOn, "orders for Acme");
+  });
+});
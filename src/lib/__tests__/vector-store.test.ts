@@ -0,0 +1,75 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  matchesFilter,
+  VectorFilter,
+  VectorStoreMetadata,
+} from "../vector-store";
+
+const metadata: VectorStoreMetadata = {
+  jobNumber: "51094",
+  customerId: 1021,
+  status: "Approved",
+  totalDue: 1250.5,
+  rush: true,
+  tags: ["laser", "gamma"],
+};
+
+const matches = (filter: VectorFilter) => matchesFilter(metadata, filter);
+
+describe("matchesFilter", () => {
+  test("treats bare values as $eq", () => {
+    assert.equal(matches({ customerId: 1021 }), true);
+    assert.equal(matches({ customerId: 1022 }), false);
+    assert.equal(matches({ rush: true, status: "Approved" }), true);
+  });
+
+  test("compares numbers with range operators", () => {
+    assert.equal(matches({ totalDue: { $gt: 1000, $lte: 1250.5 } }), true);
+    assert.equal(matches({ totalDue: { $lt: 1000 } }), false);
+    assert.equal(matches({ status: { $gte: 1 } }), false);
+  });
+
+  test("matches arrays by membership", () => {
+    assert.equal(matches({ tags: "laser" }), true);
+    assert.equal(matches({ tags: { $ne: "laser" } }), false);
+    assert.equal(matches({ tags: { $in: ["rush", "gamma"] } }), true);
+    assert.equal(matches({ tags: { $nin: ["gamma"] } }), false);
+  });
+
+  test("checks scalar values against $in and $nin lists", () => {
+    assert.equal(matches({ customerId: { $in: [7, 1021] } }), true);
+    assert.equal(matches({ customerId: { $nin: [7, 1021] } }), false);
+  });
+
+  test("checks whether a field exists", () => {
+    assert.equal(matches({ rush: { $exists: true } }), true);
+    assert.equal(matches({ dueDate: { $exists: false } }), true);
+    assert.equal(matches({ dueDate: "2025-01-01" }), false);
+  });
+
+  test("combines conditions with $and and $or", () => {
+    assert.equal(
+      matches({
+        $or: [{ customerId: 7 }, { tags: "gamma" }],
+        $and: [{ rush: true }, { totalDue: { $gt: 0 } }],
+      }),
+      true
+    );
+    assert.equal(
+      matches({ $or: [{ customerId: 7 }, { rush: false }] }),
+      false
+    );
+  });
+
+  test("an empty filter matches everything", () => {
+    assert.equal(matches({}), true);
+  });
+
+  test("rejects unsupported operators", () => {
+    assert.throws(
+      () => matches({ totalDue: { $regex: "12" } }),
+      /Unsupported filter operator: \$regex/
+    );
+  });
+});
@@ -0,0 +1,157 @@
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { configManager } from "../config-manager";
+import { pendingActionStore, type PendingAction } from "../pending-actions";
+import type { SessionUser } from "../auth-session";
+import {
+  MAX_JOBS_PER_ACTION,
+  parseJobNumbers,
+  parseTagCommand,
+  writeActionService,
+} from "../write-actions";
+
+describe("parseTagCommand", () => {
+  test("reads tag-as commands", () => {
+    assert.deepEqual(parseTagCommand("tag 51132 as rush"), {
+      kind: "add-job-tag",
+      jobNumbers: ["51132"],
+      params: { tag: "rush" },
+    });
+    assert.deepEqual(
+      parseTagCommand("Please tag jobs 51132 and 51140 with @laser."),
+      {
+        kind: "add-job-tag",
+        jobNumbers: ["51132", "51140"],
+        params: { tag: "laser" },
+      }
+    );
+  });
+
+  test("reads add and remove commands that name a tag", () => {
+    assert.deepEqual(parseTagCommand("add the rush tag to 51132"), {
+      kind: "add-job-tag",
+      jobNumbers: ["51132"],
+      params: { tag: "rush" },
+    });
+    assert.deepEqual(
+      parseTagCommand("remove tag gamma from jobs 51200-51202"),
+      {
+        kind: "remove-job-tag",
+        jobNumbers: ["51200", "51201", "51202"],
+        params: { tag: "gamma" },
+      }
+    );
+    assert.equal(
+      parseTagCommand("delete the rush tag from order 51094")?.kind,
+      "remove-job-tag"
+    );
+  });
+
+  test("leaves messages without the word tag to the LLM", () => {
+    assert.equal(parseTagCommand("add a comment to job 51132"), null);
+    assert.equal(parseTagCommand("remove 51132 from the list"), null);
+    assert.equal(parseTagCommand("delete rush from 51132"), null);
+    assert.equal(parseTagCommand("what tags are on 51132?"), null);
+  });
+
+  test("ignores commands that don't name only job numbers", () => {
+    assert.equal(parseTagCommand("tag the Acme order as rush"), null);
+    assert.equal(parseTagCommand("add the rush tag to everything"), null);
+  });
+});
+
+describe("parseJobNumbers", () => {
+  test("expands lists and ranges without duplicates", () => {
+    assert.deepEqual(
+      parseJobNumbers("51132, 51140 and 51200–51202 & 51140"),
+      ["51132", "51140", "51200", "51201", "51202"]
+    );
+    assert.deepEqual(parseJobNumbers("51200 through 51201"), [
+      "51200",
+      "51201",
+    ]);
+  });
+
+  test("refuses anything that is not a job number", () => {
+    assert.equal(parseJobNumbers("51132 and acme"), null);
+    assert.equal(parseJobNumbers("51210-51200"), null);
+    assert.equal(parseJobNumbers(""), null);
+  });
+
+  test("stops one past the per-action limit", () => {
+    const jobs = parseJobNumbers("10000-20000");
+    assert.equal(jobs?.length, MAX_JOBS_PER_ACTION + 1);
+  });
+});
+
+describe("writeActionService.isAllowed", () => {
+  const writesEnabled = configManager.getCategory("api").enableWrites;
+
+  test("never lets read-only roles change tags", () => {
+    for (const role of ["viewer", "customer", undefined]) {
+      assert.equal(writeActionService.isAllowed("add-job-tag", role), false);
+    }
+  });
+
+  test("follows API_ENABLE_WRITES for roles that may write", () => {
+    assert.equal(
+      writeActionService.isAllowed("add-job-tag", "csr"),
+      writesEnabled
+    );
+    assert.equal(writeActionService.isAllowed("unknown-kind", "admin"), false);
+  });
+});
+
+describe("writeActionService.confirm", () => {
+  const requester: SessionUser = {
+    id: "u-1",
+    username: "pat",
+    displayName: "Pat Lee",
+    role: "csr",
+  };
+  const applied = {
+    id: "act-1",
+    kind: "add-job-tag",
+    requestedBy: { userId: "u-1", username: "pat", role: "csr" },
+    status: "applied",
+    confirmKey: "key-1",
+  } as PendingAction;
+
+  afterEach(() => mock.restoreAll());
+
+  test("replays a repeat confirm for the requester or an admin", async () => {
+    mock.method(pendingActionStore, "get", () => applied);
+    assert.equal(
+      await writeActionService.confirm("act-1", requester, "key-1"),
+      applied
+    );
+    assert.equal(
+      await writeActionService.confirm(
+        "act-1",
+        { ...requester, id: "u-9", role: "admin" },
+        "key-1"
+      ),
+      applied
+    );
+  });
+
+  test("checks who is asking before replaying", async () => {
+    mock.method(pendingActionStore, "get", () => applied);
+    await assert.rejects(
+      writeActionService.confirm(
+        "act-1",
+        { ...requester, id: "u-2", username: "sam" },
+        "key-1"
+      ),
+      /Only the user who asked/
+    );
+  });
+
+  test("a new confirmation of a finished action is refused", async () => {
+    mock.method(pendingActionStore, "get", () => applied);
+    await assert.rejects(
+      writeActionService.confirm("act-1", requester, "key-2"),
+      /already applied/
+    );
+  });
+});
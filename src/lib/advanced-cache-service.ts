@@ -4,6 +4,8 @@
 import { ModernOrder } from "./api-first-data-service";
 import { EnhancedSearchResult } from "./enhanced-vector-pipeline";
 import { RoutedQueryResult } from "./query-router";
+import { orderEventBus, type OrderEvent } from "./order-event-bus";
+import { configManager } from "./config-manager";
 import crypto from "crypto";
 
 export interface CacheEntry<T = any> {
@@ -46,6 +48,13 @@ export interface CacheConfig {
   performanceTracking: boolean;
 }
 
+// Runtime config paths the cache honours, and the setting each one drives
+const CONFIG_OVERRIDE_PATHS: Record<string, keyof CacheConfig> = {
+  "cache.defaultTTL": "defaultTTL",
+  "cache.maxSize": "maxMemorySize",
+  "cache.evictionPolicy": "evictionPolicy",
+};
+
 export class AdvancedCacheService {
   private memoryCache: Map<string, CacheEntry> = new Map();
   private hitStats: Map<string, number> = new Map();
@@ -59,6 +68,8 @@ export class AdvancedCacheService {
   };
 
   private config: CacheConfig;
+  private baseConfig: CacheConfig;
+  private pendingOrderJobs = new Set<string>(); // Changed, not yet invalidated
 
   constructor(config: Partial<CacheConfig> = {}) {
     this.config = {
@@ -68,8 +79,10 @@ export class AdvancedCacheService {
       performanceTracking: true,
       ...config,
     };
+    this.baseConfig = { ...this.config };
 
     this.setupPeriodicMaintenance();
+    this.subscribeToOrderEvents();
   }
 
   // Main cache operations
@@ -120,7 +133,7 @@ export class AdvancedCacheService {
         hits: 0,
         lastAccessed: Date.now(),
         size,
-        tags: options.tags || [],
+        tags: [...(options.tags || []), ...this.getJobTags(value)],
         metadata: {
           source: "api",
           freshness: "fresh",
@@ -216,6 +229,26 @@ export class AdvancedCacheService {
     return invalidatedCount;
   }
 
+  // Drop the entries built from any of these jobs
+  async invalidateByJobNumbers(jobNumbers: string[]): Promise<number> {
+    const tags = new Set(jobNumbers.map((jobNumber) => `job:${jobNumber}`));
+    let invalidatedCount = 0;
+
+    for (const [key, entry] of this.memoryCache.entries()) {
+      if (entry.tags.some((tag) => tags.has(tag))) {
+        this.memoryCache.delete(key);
+        invalidatedCount++;
+      }
+    }
+
+    if (invalidatedCount > 0) {
+      console.log(
+        `🗑️ Invalidated ${invalidatedCount} cache entries for ${jobNumbers.length} changed jobs`
+      );
+    }
+    return invalidatedCount;
+  }
+
   async invalidateByPattern(pattern: string | RegExp): Promise<number> {
     let invalidatedCount = 0;
     const regex = typeof pattern === "string" ? new RegExp(pattern) : pattern;
@@ -250,6 +283,21 @@ export class AdvancedCacheService {
     return invalidatedCount;
   }
 
+  // Apply cache.* overrides; settings without one go back to the values the
+  // service was created with. A smaller size limit evicts straight away.
+  applyConfigOverrides(overrides: Record<string, unknown>): void {
+    const next: CacheConfig = { ...this.baseConfig };
+    Object.entries(CONFIG_OVERRIDE_PATHS).forEach(([path, setting]) => {
+      if (overrides[path] !== undefined) {
+        (next as unknown as Record<string, unknown>)[setting] = overrides[path];
+      }
+    });
+    this.config = next;
+    this.ensureCapacity(0).catch((error) =>
+      console.error("❌ Cache eviction after config change failed:", error)
+    );
+  }
+
   // Performance optimization
   async optimizeCache(): Promise<void> {
     console.log("⚡ Optimizing cache performance...");
@@ -415,12 +463,57 @@ export class AdvancedCacheService {
     // Clean up every 15 minutes
     setInterval(async () => {
       await this.invalidateStaleEntries();
-    }, 15 * 60 * 1000);
+    }, 15 * 60 * 1000).unref?.();
 
     // Optimize every hour
     setInterval(async () => {
       await this.optimizeCache();
-    }, 60 * 60 * 1000);
+    }, 60 * 60 * 1000).unref?.();
+  }
+
+  // Cached answers that include a changed order go stale. Entries are tagged
+  // with their jobs on set(); jobs new to the store show up once the entries
+  // they would join expire. A stored batch publishes many events, so
+  // invalidation runs once per batch.
+  private subscribeToOrderEvents(): void {
+    const scheduleInvalidation = (event: OrderEvent) => {
+      const scheduled = this.pendingOrderJobs.size > 0;
+      this.pendingOrderJobs.add(event.jobNumber);
+      if (scheduled) return;
+
+      queueMicrotask(async () => {
+        const jobNumbers = [...this.pendingOrderJobs];
+        this.pendingOrderJobs.clear();
+        await this.invalidateByJobNumbers(jobNumbers);
+      });
+    };
+
+    orderEventBus.on("order.created", scheduleInvalidation);
+    orderEventBus.on("order.updated", scheduleInvalidation);
+    orderEventBus.on("order.removed", scheduleInvalidation);
+  }
+
+  // job:<jobNumber> tags for the orders a value was built from: order lists,
+  // vector matches, routed query results and RAG answers
+  private getJobTags(value: unknown): string[] {
+    const jobNumbers = new Set<string>();
+    const collect = (items: unknown) => {
+      if (!Array.isArray(items)) return;
+      for (const item of items) {
+        const jobNumber = item?.jobNumber ?? item?.metadata?.jobNumber;
+        if (jobNumber) jobNumbers.add(String(jobNumber));
+      }
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const record = value as any;
+    collect(record);
+    collect(record?.results?.orders);
+    collect(record?.results?.vectorResults);
+    collect(record?.sources?.orders);
+    collect(record?.sources?.vectorResults);
+    collect(record?.structuredResponse?.orders);
+    return [...jobNumbers].map((jobNumber) => `job:${jobNumber}`);
   }
 
   private async ensureCapacity(newEntrySize: number): Promise<void> {
@@ -520,3 +613,11 @@ export class AdvancedCacheService {
 
 // Export singleton instance
 export const advancedCacheService = new AdvancedCacheService();
+
+// Admin config overrides apply now and whenever they change
+const applyCacheOverrides = () =>
+  advancedCacheService.applyConfigOverrides(
+    configManager.getOverrides("cache")
+  );
+applyCacheOverrides();
+configManager.watch("cache", applyCacheOverrides);
@@ -0,0 +1,266 @@
+// Alert Channels - Where firing and resolved alerts are delivered
+// Webhook (Slack-compatible JSON), email over SMTP and the admin UI inbox
+
+import net from "net";
+import os from "os";
+import path from "path";
+import fs from "fs";
+import type { AlertEvent } from "./alert-manager";
+
+export interface AlertChannel {
+  name: string;
+  send(event: AlertEvent): Promise<void>;
+}
+
+// ===== WEBHOOK =====
+
+export class WebhookChannel implements AlertChannel {
+  name = "webhook";
+
+  constructor(
+    private url: string,
+    private timeoutMs: number = 10000
+  ) {}
+
+  async send(event: AlertEvent): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: formatSummary(event), alert: event }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook returned ${response.status}`);
+    }
+  }
+}
+
+// ===== EMAIL =====
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  from: string;
+  to: string[];
+  timeoutMs: number;
+}
+
+// Plain SMTP without auth or TLS, meant for a local relay or the mock server
+export class EmailChannel implements AlertChannel {
+  name = "email";
+
+  constructor(private config: EmailChannelConfig) {}
+
+  async send(event: AlertEvent): Promise<void> {
+    // Headers must stay on one line
+    const subject = `[${event.severity.toUpperCase()}] ${formatSummary(
+      event
+    )}`.replace(/\s*[\r\n]+\s*/g, " ");
+    const body = [
+      `Alert: ${event.ruleName}`,
+      `Status: ${event.status}`,
+      `Message: ${event.message}`,
+      `Value: ${event.value ?? "n/a"}`,
+      `Threshold: ${event.threshold ?? "n/a"}`,
+      `Time: ${event.timestamp}`,
+    ]
+      .join("\n")
+      .replace(/\r?\n/g, "\r\n");
+
+    await this.deliver(
+      [
+        `From: ${this.config.from}`,
+        `To: ${this.config.to.join(", ")}`,
+        `Subject: ${subject}`,
+        `Date: ${new Date(event.timestamp).toUTCString()}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        body,
+      ].join("\r\n")
+    );
+  }
+
+  // One command at a time, each waiting for its reply code
+  private deliver(message: string): Promise<void> {
+    const steps: Array<{ command: string | null; expect: number }> = [
+      { command: null, expect: 220 }, // Greeting
+      { command: `EHLO ${os.hostname()}`, expect: 250 },
+      { command: `MAIL FROM:<${this.config.from}>`, expect: 250 },
+      ...this.config.to.map((to) => ({
+        command: `RCPT TO:<${to}>`,
+        expect: 250,
+      })),
+      { command: "DATA", expect: 354 },
+      // Dot-stuff lines that start with "." so they don't end the message
+      { command: `${message.replace(/^\./gm, "..")}\r\n.`, expect: 250 },
+      { command: "QUIT", expect: 221 },
+    ];
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.config.port, this.config.host);
+      let buffer = "";
+      let step = 0;
+
+      const fail = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+
+      socket.setEncoding("utf8");
+      socket.setTimeout(this.config.timeoutMs, () =>
+        fail(new Error("SMTP connection timed out"))
+      );
+      socket.on("error", fail);
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+        // A reply is complete on a "NNN " line; "NNN-" lines continue it
+        const lines = buffer.split("\r\n");
+        const last = lines
+          .slice(0, -1)
+          .find((line) => /^\d{3} /.test(line) || /^\d{3}$/.test(line));
+        if (!last) return;
+        buffer = "";
+
+        const code = parseInt(last.slice(0, 3), 10);
+        if (code !== steps[step].expect) {
+          fail(new Error(`SMTP error after step ${step}: ${last}`));
+          return;
+        }
+
+        step++;
+        if (step >= steps.length) {
+          socket.end();
+          resolve();
+          return;
+        }
+        socket.write(`${steps[step].command}\r\n`);
+      });
+    });
+  }
+}
+
+// ===== ADMIN UI =====
+
+export interface AdminNotification {
+  id: string;
+  event: AlertEvent;
+  acknowledged: boolean;
+  acknowledgedBy?: string;
+  acknowledgedAt?: string;
+}
+
+// Keeps notifications for the admin dashboard until acknowledged
+export class AdminChannel implements AlertChannel {
+  name = "admin";
+  private notifications: AdminNotification[] = []; // Newest first
+  private loaded = false;
+  private fileMtime = 0;
+  private readonly MAX_NOTIFICATIONS = 200;
+
+  constructor(
+    private notificationsPath: string = path.join(
+      process.cwd(),
+      "data",
+      "alert-notifications.json"
+    )
+  ) {}
+
+  async send(event: AlertEvent): Promise<void> {
+    this.ensureLoaded();
+    this.notifications.unshift({
+      id: event.id,
+      event,
+      acknowledged: false,
+    });
+    this.notifications = this.notifications.slice(0, this.MAX_NOTIFICATIONS);
+    this.save();
+  }
+
+  getNotifications(includeAcknowledged: boolean = true): AdminNotification[] {
+    this.ensureLoaded();
+    return includeAcknowledged
+      ? [...this.notifications]
+      : this.notifications.filter((notification) => !notification.acknowledged);
+  }
+
+  acknowledge(id: string, acknowledgedBy: string = "admin"): boolean {
+    this.ensureLoaded();
+    const notification = this.notifications.find((entry) => entry.id === id);
+    if (!notification || notification.acknowledged) return false;
+
+    notification.acknowledged = true;
+    notification.acknowledgedBy = acknowledgedBy;
+    notification.acknowledgedAt = new Date().toISOString();
+    this.save();
+    return true;
+  }
+
+  private save(): void {
+    try {
+      const dataDir = path.dirname(this.notificationsPath);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+      fs.writeFileSync(
+        this.notificationsPath,
+        JSON.stringify(this.notifications, null, 2)
+      );
+      this.fileMtime = fs.statSync(this.notificationsPath).mtimeMs;
+    } catch (error) {
+      console.error("❌ Failed to save alert notifications:", error);
+    }
+  }
+
+  // Reload when another module instance wrote the file
+  private ensureLoaded(): void {
+    try {
+      if (!fs.existsSync(this.notificationsPath)) return;
+      const mtime = fs.statSync(this.notificationsPath).mtimeMs;
+      if (this.loaded && mtime === this.fileMtime) return;
+      this.loaded = true;
+      this.fileMtime = mtime;
+      this.notifications = JSON.parse(
+        fs.readFileSync(this.notificationsPath, "utf8")
+      );
+    } catch (error) {
+      console.warn("⚠️ Failed to load alert notifications:", error);
+    }
+  }
+}
+
+// ===== HELPERS =====
+
+function formatSummary(event: AlertEvent): string {
+  const icon = event.status === "firing" ? "🚨" : "✅";
+  return `${icon} ${event.ruleName} ${event.status}: ${event.message}`;
+}
+
+// Channels enabled by the environment; the admin inbox is always on
+export function createChannelsFromEnv(): AlertChannel[] {
+  const channels: AlertChannel[] = [adminAlertChannel];
+
+  if (process.env.ALERT_WEBHOOK_URL) {
+    channels.push(new WebhookChannel(process.env.ALERT_WEBHOOK_URL));
+  }
+
+  const recipients = (process.env.ALERT_EMAIL_TO || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (recipients.length > 0) {
+    channels.push(
+      new EmailChannel({
+        host: process.env.ALERT_SMTP_HOST || "127.0.0.1",
+        port: parseInt(process.env.ALERT_SMTP_PORT || "2525"),
+        from: process.env.ALERT_EMAIL_FROM || "oms-chat-alerts@localhost",
+        to: recipients,
+        timeoutMs: 10000,
+      })
+    );
+  }
+
+  return channels;
+}
+
+// Export singleton instance
+export const adminAlertChannel = new AdminChannel();
@@ -0,0 +1,482 @@
+// Alert Manager - Evaluates alert rules over recent metrics and tracks state
+// Rules go pending -> firing -> resolved; transitions notify every channel
+
+import path from "path";
+import fs from "fs";
+import v8 from "v8";
+import { configManager, MonitoringConfig } from "./config-manager";
+import { metricsStore, MetricSample } from "./metrics-store";
+import { enhancedAPIClient } from "./enhanced-api-client";
+import { orderVectorIndex } from "./order-vector-index";
+import { AlertChannel, createChannelsFromEnv } from "./alert-channels";
+import { DataFileWriter } from "./data-file-writer";
+
+export type AlertSeverity = "warning" | "critical";
+export type AlertStatus = "ok" | "pending" | "firing";
+
+export interface AlertRuleContext {
+  now: number;
+  samples: MetricSample[]; // Oldest first, within the rule's window
+  thresholds: MonitoringConfig["alertThresholds"];
+}
+
+export interface AlertEvaluation {
+  firing: boolean;
+  value: number | null; // null when there was nothing to measure
+  threshold?: number;
+  message: string;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: AlertSeverity;
+  windowMs: number; // How far back samples reach
+  forMs?: number; // How long the condition must hold before firing
+  evaluate(
+    context: AlertRuleContext
+  ): AlertEvaluation | Promise<AlertEvaluation>;
+}
+
+export interface AlertState {
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  value: number | null;
+  threshold?: number;
+  message: string;
+  since: string; // When the current status began
+  lastEvaluatedAt: string;
+}
+
+// A firing or resolved transition, as sent to channels
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  status: "firing" | "resolved";
+  value: number | null;
+  threshold?: number;
+  message: string;
+  timestamp: string;
+  deliveries: Record<string, string>; // channel -> "sent" or the error
+}
+
+interface AlertsFile {
+  lastUpdate: string;
+  states: AlertState[];
+  events: AlertEvent[]; // Newest first
+}
+
+const MIN_ERROR_RATE_REQUESTS = 5; // Too few requests make the rate noise
+
+// ===== BUILT-IN RULES =====
+
+export const builtInAlertRules: AlertRule[] = [
+  {
+    id: "high-error-rate",
+    name: "High OMS error rate",
+    description: "OMS API error rate over 5 minutes above errorRate",
+    severity: "critical",
+    windowMs: 5 * 60 * 1000,
+    evaluate: ({ samples, thresholds }) => {
+      const requests = sum(samples.map((sample) => sample.omsRequests));
+      const errors = sum(samples.map((sample) => sample.omsErrors));
+      if (requests < MIN_ERROR_RATE_REQUESTS) {
+        return {
+          firing: false,
+          value: null,
+          threshold: thresholds.errorRate,
+          message: `Only ${requests} OMS requests in the window`,
+        };
+      }
+
+      const rate = errors / requests;
+      return {
+        firing: rate > thresholds.errorRate,
+        value: rate,
+        threshold: thresholds.errorRate,
+        message: `${(rate * 100).toFixed(1)}% of ${requests} OMS requests failed`,
+      };
+    },
+  },
+  {
+    id: "slow-responses",
+    name: "Slow responses",
+    description: "Average p95 query latency over 5 minutes above responseTime",
+    severity: "warning",
+    windowMs: 5 * 60 * 1000,
+    evaluate: ({ samples, thresholds }) => {
+      const p95 = average(samples.map((sample) => sample.latencyP95));
+      return {
+        firing: p95 !== null && p95 > thresholds.responseTime,
+        value: p95,
+        threshold: thresholds.responseTime,
+        message:
+          p95 === null
+            ? "No routed queries in the window"
+            : `p95 latency is ${Math.round(p95)}ms`,
+      };
+    },
+  },
+  {
+    id: "high-memory",
+    name: "High memory usage",
+    description: "Average memory over 5 minutes above memoryUsage of the heap limit",
+    severity: "warning",
+    windowMs: 5 * 60 * 1000,
+    forMs: 5 * 60 * 1000,
+    evaluate: ({ samples, thresholds }) => {
+      const memory = process.memoryUsage();
+      const used =
+        average(samples.map((sample) => sample.memoryUsage)) ??
+        memory.heapUsed + memory.external;
+      const ratio = used / v8.getHeapStatistics().heap_size_limit;
+      return {
+        firing: ratio > thresholds.memoryUsage,
+        value: ratio,
+        threshold: thresholds.memoryUsage,
+        message: `Using ${(ratio * 100).toFixed(1)}% of the heap limit`,
+      };
+    },
+  },
+  {
+    id: "oms-unreachable",
+    name: "OMS unreachable",
+    description: "Every OMS endpoint failed its health check",
+    severity: "critical",
+    windowMs: 0,
+    forMs: 2 * 60 * 1000,
+    evaluate: async () => {
+      const { endpoints } = await enhancedAPIClient.getHealthStatus();
+      const statuses = Object.values(endpoints);
+      const down = statuses.filter((healthy) => !healthy).length;
+      return {
+        firing: statuses.length > 0 && down === statuses.length,
+        value: down,
+        threshold: statuses.length,
+        message:
+          statuses.length === 0
+            ? "No health checks have run yet"
+            : `${down} of ${statuses.length} OMS endpoints unhealthy`,
+      };
+    },
+  },
+  {
+    id: "vector-index-empty",
+    name: "Vector index empty",
+    description: "The order vector index holds no records",
+    severity: "critical",
+    windowMs: 0,
+    forMs: 5 * 60 * 1000,
+    evaluate: async () => {
+      let count: number | null = null;
+      try {
+        count = (await orderVectorIndex.getIndexStats()).totalRecordCount;
+      } catch {
+        // Unreachable index is a different problem; don't call it empty
+      }
+      return {
+        firing: count === 0,
+        value: count,
+        threshold: 0,
+        message:
+          count === null
+            ? "Vector index stats unavailable"
+            : `Vector index holds ${count} records`,
+      };
+    },
+  },
+];
+
+// ===== MANAGER =====
+
+export class AlertManager {
+  private rules: AlertRule[];
+  private channels: AlertChannel[];
+  private states = new Map<string, AlertState>();
+  private events: AlertEvent[] = [];
+  private loaded = false;
+  private fileMtime = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private started = false; // start() was called, even if alerts were off
+  private evaluating: Promise<AlertState[]> | null = null;
+  private writer: DataFileWriter;
+  private readonly MAX_EVENTS = 500;
+
+  constructor(
+    rules: AlertRule[] = builtInAlertRules,
+    channels: AlertChannel[] = [],
+    private alertsPath: string = path.join(
+      process.cwd(),
+      "data",
+      "alerts.json"
+    ),
+    private config: () => MonitoringConfig = () =>
+      configManager.getCategory("monitoring")
+  ) {
+    this.rules = [...rules];
+    this.channels = [...channels];
+    this.writer = new DataFileWriter(
+      alertsPath,
+      () => {
+        const data: AlertsFile = {
+          lastUpdate: new Date().toISOString(),
+          states: Array.from(this.states.values()),
+          events: this.events,
+        };
+        return JSON.stringify(data, null, 2);
+      },
+      (mtime) => (this.fileMtime = mtime),
+      "alert state"
+    );
+  }
+
+  // Evaluate on the health check interval; a no-op when alerts are disabled
+  start(): void {
+    const config = this.config();
+    this.started = true;
+    if (this.timer || !config.enableAlerts) return;
+
+    this.timer = setInterval(() => {
+      this.evaluate().catch((error) =>
+        console.error("❌ Alert evaluation failed:", error)
+      );
+    }, config.healthCheckInterval);
+    this.timer.unref?.();
+    console.log(
+      `🚨 Evaluating ${this.rules.length} alert rules every ${Math.round(
+        config.healthCheckInterval / 1000
+      )}s (channels: ${this.channels.map((c) => c.name).join(", ")})`
+    );
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Pick up changed monitoring settings where evaluation was started
+  restart(): void {
+    if (!this.started) return;
+    this.stop();
+    this.start();
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  addRule(rule: AlertRule): void {
+    this.rules = [...this.rules.filter((r) => r.id !== rule.id), rule];
+  }
+
+  addChannel(channel: AlertChannel): void {
+    this.channels = [
+      ...this.channels.filter((c) => c.name !== channel.name),
+      channel,
+    ];
+  }
+
+  getRules(): Array<Omit<AlertRule, "evaluate">> {
+    return this.rules.map((rule) => ({
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      severity: rule.severity,
+      windowMs: rule.windowMs,
+      forMs: rule.forMs,
+    }));
+  }
+
+  getChannels(): string[] {
+    return this.channels.map((channel) => channel.name);
+  }
+
+  getStates(): AlertState[] {
+    this.ensureLoaded();
+    return Array.from(this.states.values());
+  }
+
+  getEvents(limit: number = 50): AlertEvent[] {
+    this.ensureLoaded();
+    return this.events.slice(0, limit);
+  }
+
+  // Overlapping calls (timer and admin) share one run
+  evaluate(): Promise<AlertState[]> {
+    if (!this.evaluating) {
+      this.evaluating = this.runEvaluation().finally(() => {
+        this.evaluating = null;
+      });
+    }
+    return this.evaluating;
+  }
+
+  private async runEvaluation(): Promise<AlertState[]> {
+    this.ensureLoaded();
+    const now = Date.now();
+    const thresholds = this.config().alertThresholds;
+    const longestWindow = Math.max(...this.rules.map((rule) => rule.windowMs));
+    const samples = metricsStore.getRange({
+      since: new Date(now - longestWindow),
+    });
+    const transitions: AlertEvent[] = [];
+
+    for (const rule of this.rules) {
+      const since = now - rule.windowMs;
+      let result: AlertEvaluation;
+      try {
+        result = await rule.evaluate({
+          now,
+          thresholds,
+          samples: samples.filter(
+            (sample) => Date.parse(sample.timestamp) >= since
+          ),
+        });
+      } catch (error) {
+        console.warn(`⚠️ Alert rule ${rule.id} failed:`, error);
+        continue; // Keep the previous state rather than guessing
+      }
+
+      const event = this.transition(rule, result, now);
+      if (event) transitions.push(event);
+    }
+
+    for (const event of transitions) {
+      await this.notify(event);
+    }
+    this.save();
+    return this.getStates();
+  }
+
+  private transition(
+    rule: AlertRule,
+    result: AlertEvaluation,
+    now: number
+  ): AlertEvent | null {
+    const timestamp = new Date(now).toISOString();
+    const previous = this.states.get(rule.id);
+    const state: AlertState = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      status: previous?.status || "ok",
+      value: result.value,
+      threshold: result.threshold,
+      message: result.message,
+      since: previous?.since || timestamp,
+      lastEvaluatedAt: timestamp,
+    };
+    this.states.set(rule.id, state);
+
+    let next: AlertStatus = state.status;
+    if (result.firing) {
+      if (state.status === "ok") next = rule.forMs ? "pending" : "firing";
+      if (
+        state.status === "pending" &&
+        now - Date.parse(state.since) >= (rule.forMs || 0)
+      ) {
+        next = "firing";
+      }
+    } else {
+      next = "ok";
+    }
+
+    if (next === state.status) return null;
+    const resolved = state.status === "firing";
+    state.status = next;
+    state.since = timestamp;
+
+    // Pending that clears before firing is not worth a notification
+    if (next !== "firing" && !resolved) return null;
+    return {
+      id: `${rule.id}-${now}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      status: next === "firing" ? "firing" : "resolved",
+      value: result.value,
+      threshold: result.threshold,
+      message: result.message,
+      timestamp,
+      deliveries: {},
+    };
+  }
+
+  private async notify(event: AlertEvent): Promise<void> {
+    console.log(
+      `${event.status === "firing" ? "🚨" : "✅"} Alert ${event.ruleId} ${
+        event.status
+      }: ${event.message}`
+    );
+
+    const results = await Promise.allSettled(
+      this.channels.map((channel) => channel.send(event))
+    );
+    results.forEach((result, index) => {
+      const name = this.channels[index].name;
+      if (result.status === "fulfilled") {
+        event.deliveries[name] = "sent";
+      } else {
+        const message =
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason);
+        event.deliveries[name] = message;
+        console.error(`❌ Alert channel ${name} failed:`, message);
+      }
+    });
+
+    this.events.unshift(event);
+    this.events = this.events.slice(0, this.MAX_EVENTS);
+  }
+
+  private save(): void {
+    this.writer.save();
+  }
+
+
+  // Load on first use and again whenever the file changed; the evaluator may
+  // run in another module instance
+  private ensureLoaded(): void {
+    if (this.writer.busy) return; // Memory is ahead of the file
+    try {
+      if (!fs.existsSync(this.alertsPath)) return;
+      const mtime = fs.statSync(this.alertsPath).mtimeMs;
+      if (this.loaded && mtime === this.fileMtime) return;
+      this.loaded = true;
+      this.fileMtime = mtime;
+
+      const data: AlertsFile = JSON.parse(
+        fs.readFileSync(this.alertsPath, "utf8")
+      );
+      this.states = new Map(data.states.map((state) => [state.ruleId, state]));
+      this.events = data.events || [];
+    } catch (error) {
+      console.warn("⚠️ Failed to load alert state:", error);
+    }
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function average(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? sum(present) / present.length : null;
+}
+
+// Export singleton instance
+export const alertManager = new AlertManager(
+  builtInAlertRules,
+  createChannelsFromEnv()
+);
+
+// Turning alerts on or off at runtime starts or stops evaluation
+configManager.watch("monitoring", () => alertManager.restart());
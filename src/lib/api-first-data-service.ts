@@ -8,8 +8,12 @@ import {
   APIJobShipment,
   APIJobFile,
   APIJobLinesCostDetails,
+  JobDetailPart,
+  JobDetailsBulkEntry,
 } from "./enhanced-api-client";
 import OpenAI from "openai";
+import { orderStore } from "./order-store";
+import { tracer } from "./tracer";
 import {
   intelligentEndpointMapper,
   EnrichedOrderData,
@@ -271,6 +275,14 @@ export interface ModernOrdersData {
   };
 }
 
+// Which job details an order is enriched with
+interface EnrichmentOptions {
+  includeLineItems?: boolean;
+  includeShipments?: boolean;
+  includeFiles?: boolean;
+  includeHistory?: boolean;
+}
+
 export interface OrderSearchOptions {
   // Filtering
   jobNumber?: string;
@@ -299,16 +311,49 @@ export interface OrderSearchOptions {
 
 class APIFirstDataService {
   private apiClient = enhancedAPIClient;
+  // Store-backed queries are served within this long of a full sync
+  private orderStoreMaxAge = 15 * 60 * 1000;
+
+  // Write fetched orders through to the local order store. An unfiltered
+  // listing that fits on one page covers every active job.
+  private storeOrders(
+    orders: ModernOrder[],
+    options: OrderSearchOptions,
+    hasNext: boolean,
+    included: { lineItems: boolean; shipments: boolean; files: boolean }
+  ): void {
+    orderStore.upsertOrders(orders, { included });
+
+    const unfiltered =
+      !options.jobNumber && !options.status && (options.page || 1) === 1;
+    // An empty listing is more likely a failed fetch than no active jobs,
+    // and marking it would remove every stored order
+    if (unfiltered && !hasNext && orders.length > 0) {
+      orderStore.markFullSync(orders.map((order) => order.jobNumber));
+    }
+  }
+
+  // Fetch the details convertAPIJobToModernOrder needs for many jobs at once
+  private fetchEnrichmentDetails(
+    jobNumbers: string[],
+    options: EnrichmentOptions
+  ): Promise<Map<string, JobDetailsBulkEntry>> {
+    const parts: JobDetailPart[] = [];
+    if (options.includeLineItems) parts.push("lines", "costDetails");
+    if (options.includeShipments) parts.push("shipments");
+    if (options.includeFiles) parts.push("files");
+
+    return this.apiClient.getJobDetailsBulk(jobNumbers, parts, {
+      includePriceBands: true,
+    });
+  }
 
-  // Convert API job to modern order format
-  private async convertAPIJobToModernOrder(
+  // Convert API job to modern order format; details prefetched with
+  // fetchEnrichmentDetails skip the per-job fetch
+  async convertAPIJobToModernOrder(
     apiJob: APIJob,
-    options: {
-      includeLineItems?: boolean;
-      includeShipments?: boolean;
-      includeFiles?: boolean;
-      includeHistory?: boolean;
-    } = {}
+    options: EnrichmentOptions = {},
+    details?: JobDetailsBulkEntry
   ): Promise<ModernOrder> {
     const order: ModernOrder = {
       jobNumber: apiJob.JobNumber.toString(),
@@ -402,15 +447,12 @@ class APIFirstDataService {
       options.includeFiles
     ) {
       try {
-        const jobDetails = await this.apiClient.getJobDetails(
-          apiJob.JobNumber.toString(),
-          {
-            includePriceBands: true,
-            includeHistory: options.includeHistory,
-            includeShipments: options.includeShipments,
-            includeFiles: options.includeFiles,
-          }
-        );
+        const jobNumber = apiJob.JobNumber.toString();
+        const fetched = details
+          ? null
+          : await this.fetchEnrichmentDetails([jobNumber], options);
+        const jobDetails: JobDetailsBulkEntry =
+          details || fetched?.get(jobNumber) || { jobNumber, errors: {} };
 
         if (options.includeLineItems && jobDetails.lines) {
           // Extract materials from tags for enrichment
@@ -532,13 +574,13 @@ class APIFirstDataService {
           });
         }
 
-        // Also fetch cost details for accurate pricing
+        // Cost details give accurate pricing
         if (options.includeLineItems) {
           try {
-            console.log(`💰 Fetching cost details for ${apiJob.JobNumber}...`);
-            const costDetails = await this.apiClient.getJobLinesCostDetails(
-              apiJob.JobNumber.toString()
-            );
+            const costDetails = jobDetails.costDetails;
+            if (!costDetails) {
+              throw new Error(jobDetails.errors.costDetails || "Not fetched");
+            }
 
             console.log(`💰 Cost details response for ${apiJob.JobNumber}:`, {
               isSuccess: costDetails.isSuccess,
@@ -733,6 +775,12 @@ class APIFirstDataService {
         `✅ Converted ${orders.length} API orders in ${processingTime}ms (no enrichment)`
       );
 
+      this.storeOrders(orders, options, apiResponse.data.HasNext, {
+        lineItems: false,
+        shipments: false,
+        files: false,
+      });
+
       return {
         orders,
         summary: {
@@ -803,14 +851,23 @@ class APIFirstDataService {
         throw new Error(`API request failed: ${apiResponse.error?.Message}`);
       }
 
-      // Convert API jobs to modern orders WITH enrichment
+      // Convert API jobs to modern orders WITH enrichment, fetched in bulk
+      const enrichment: EnrichmentOptions = {
+        includeLineItems: options.includeLineItems ?? true,
+        includeShipments: options.includeShipments ?? true,
+        includeFiles: options.includeFiles ?? false,
+      };
+      const details = await this.fetchEnrichmentDetails(
+        apiResponse.data.Entities.map((apiJob) => apiJob.JobNumber.toString()),
+        enrichment
+      );
       const orders = await Promise.all(
         apiResponse.data.Entities.map((apiJob) =>
-          this.convertAPIJobToModernOrder(apiJob, {
-            includeLineItems: options.includeLineItems ?? true,
-            includeShipments: options.includeShipments ?? true,
-            includeFiles: options.includeFiles ?? false,
-          })
+          this.convertAPIJobToModernOrder(
+            apiJob,
+            enrichment,
+            details.get(apiJob.JobNumber.toString())
+          )
         )
       );
 
@@ -819,6 +876,12 @@ class APIFirstDataService {
         `✅ Converted ${orders.length} API orders in ${processingTime}ms (WITH enrichment)`
       );
 
+      this.storeOrders(orders, options, apiResponse.data.HasNext, {
+        lineItems: options.includeLineItems ?? true,
+        shipments: options.includeShipments ?? true,
+        files: options.includeFiles ?? false,
+      });
+
       return {
         orders,
         summary: {
@@ -856,52 +919,43 @@ class APIFirstDataService {
     console.log(`🔍 Fetching order ${jobNumber} from API...`);
 
     try {
-      // Fetch job details and cost details in parallel
+      // Fetch the job and everything the order shows in one go
       console.log(
         `📡 Fetching job details and cost details for ${jobNumber}...`
       );
-      const [jobDetails, costDetails] = await Promise.allSettled([
-        this.apiClient.getJobDetails(jobNumber, {
-          includePriceBands: true, // Pre-fetch price bands for all line items
-          includeHistory: false,
-          includeShipments: true,
-          includeFiles: true,
-        }),
-        this.apiClient.getJobLinesCostDetails(jobNumber),
-      ]);
+      const jobDetails = (
+        await this.apiClient.getJobDetailsBulk(
+          [jobNumber],
+          ["job", "lines", "costDetails", "shipments", "files"],
+          { includePriceBands: true, priority: "high" }
+        )
+      ).get(jobNumber);
+      const costDetails = jobDetails?.costDetails;
 
       console.log(`📊 Cost details result:`, {
-        status: costDetails.status,
-        isSuccess:
-          costDetails.status === "fulfilled"
-            ? costDetails.value.isSuccess
-            : "N/A",
-        hasData:
-          costDetails.status === "fulfilled" ? !!costDetails.value.data : "N/A",
+        isSuccess: costDetails ? costDetails.isSuccess : "N/A",
+        hasData: costDetails ? !!costDetails.data : "N/A",
+        error: jobDetails?.errors.costDetails,
       });
 
-      if (jobDetails.status === "rejected" || !jobDetails.value.job) {
+      if (!jobDetails?.job) {
         console.warn(`⚠️ Order ${jobNumber} not found`);
         return null;
       }
 
       const order = await this.convertAPIJobToModernOrder(
-        jobDetails.value.job,
+        jobDetails.job,
         {
           includeLineItems: true,
           includeShipments: true,
           includeFiles: true,
-        }
+        },
+        jobDetails
       );
 
       // Add pricing from cost details if available
-      if (
-        costDetails.status === "fulfilled" &&
-        costDetails.value.isSuccess &&
-        costDetails.value.data
-      ) {
-        const costData = costDetails.value
-          .data as APIJobLinesCostDetails["data"];
+      if (costDetails?.isSuccess && costDetails.data) {
+        const costData = costDetails.data as APIJobLinesCostDetails["data"];
         console.log(`💰 Cost data for ${jobNumber}:`, costData);
         order.pricing = {
           total: costData.jobLinesTotalCost || 0,
@@ -929,12 +983,13 @@ class APIFirstDataService {
         console.log(`✅ Pricing added to order ${jobNumber}:`, order.pricing);
       } else {
         console.log(`⚠️ No cost details available for ${jobNumber}:`, {
-          status: costDetails.status,
-          value: costDetails.status === "fulfilled" ? costDetails.value : "N/A",
+          error: jobDetails.errors.costDetails,
+          value: costDetails ?? "N/A",
         });
       }
 
       console.log(`✅ Retrieved complete order details for ${jobNumber}`);
+      orderStore.upsertOrders([order]);
       return order;
     } catch (error) {
       console.error(`❌ Failed to fetch order ${jobNumber}:`, error);
@@ -1191,11 +1246,20 @@ class APIFirstDataService {
       }
 
       // Step 4: Enrich orders with additional endpoint data
-      const enrichedData =
-        await intelligentEndpointMapper.enrichOrdersWithEndpoints(
-          baseOrders.slice(0, 10), // Limit enrichment for performance
-          endpointAnalysis
-        );
+      const enrichedData = await tracer.span(
+        "endpoints.enrichOrdersWithEndpoints",
+        {
+          attributes: {
+            orders: Math.min(baseOrders.length, 10),
+            endpoints: endpointAnalysis.requiredEndpoints.length,
+          },
+        },
+        () =>
+          intelligentEndpointMapper.enrichOrdersWithEndpoints(
+            baseOrders.slice(0, 10), // Limit enrichment for performance
+            endpointAnalysis
+          )
+      );
 
       // Step 5: Convert enriched data back to ModernOrder format with additional context
       const enrichedOrders = enrichedData.map((enriched) =>
@@ -1318,6 +1382,10 @@ class APIFirstDataService {
 
   // Get orders by customer
   async getOrdersByCustomer(customerName: string): Promise<ModernOrder[]> {
+    if (orderStore.isFresh(this.orderStoreMaxAge)) {
+      return orderStore.getOrdersByCustomer(customerName);
+    }
+
     const allOrders = await this.getAllOrders({ pageSize: 500 });
     return allOrders.orders.filter((order) =>
       order.customer.company.toLowerCase().includes(customerName.toLowerCase())
@@ -1359,6 +1427,10 @@ class APIFirstDataService {
 
   // Get rush/urgent orders
   async getRushOrders(): Promise<ModernOrder[]> {
+    if (orderStore.isFresh(this.orderStoreMaxAge)) {
+      return orderStore.getRushOrders();
+    }
+
     const allOrders = await this.getAllOrders({ pageSize: 500 });
     return allOrders.orders.filter(
       (order) =>
@@ -1374,6 +1446,10 @@ class APIFirstDataService {
 
   // Get late orders
   async getLateOrders(): Promise<ModernOrder[]> {
+    if (orderStore.isFresh(this.orderStoreMaxAge)) {
+      return orderStore.getLateOrders();
+    }
+
     const allOrders = await this.getAllOrders({ pageSize: 500 });
     const now = new Date();
 
@@ -1461,6 +1537,7 @@ class APIFirstDataService {
       return {
         healthy: health.healthy,
         apiEndpoints: health.endpoints,
+        circuits: health.circuits,
         cache: health.cache,
         rateLimit: health.rateLimit,
         connections: health.connections,
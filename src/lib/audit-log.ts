@@ -0,0 +1,387 @@
+// Audit Log - Durable record of who asked what and which orders were exposed
+// One entry per chat request; function calls made while answering and OMS
+// writes made on confirmation are attached to the request that triggered them.
+// Appended to data/audit-log.jsonl, one entry per line
+
+import { AsyncLocalStorage } from "async_hooks";
+import path from "path";
+import fs from "fs";
+import { SessionUser } from "./auth-session";
+import { logger } from "./logger";
+
+export interface AuditFunctionCall {
+  name: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters: any;
+  success: boolean;
+  error?: string;
+  calledAt: string;
+}
+
+// One job changed by a confirmed write
+export interface AuditWrite {
+  actionId: string;
+  kind: string;
+  jobNumber: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters: any;
+  success: boolean;
+  error?: string;
+  rollback?: string; // How to undo it by hand
+  idempotencyKey?: string; // Sent with the write
+  writtenAt: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  userId: string | null;
+  username: string | null;
+  role: string | null;
+  sessionId: string | null;
+  correlationId: string | null; // Matches the request's log lines
+  message: string;
+  strategy: string | null;
+  functionCalls: AuditFunctionCall[];
+  writes?: AuditWrite[]; // Absent on entries without writes
+  jobNumbers: string[]; // Orders returned to the user or written to
+  outcome: "answered" | "error";
+  error?: string;
+  durationMs: number;
+}
+
+export interface AuditRequest {
+  user: SessionUser | null;
+  sessionId?: string;
+  message: string;
+}
+
+export interface AuditQuery {
+  user?: string; // Matches user id or username
+  sessionId?: string;
+  jobNumber?: string;
+  strategy?: string;
+  text?: string; // Substring of the message
+  since?: Date | string;
+  until?: Date | string;
+  limit?: number;
+}
+
+// The log before it was JSONL: one document, migrated on first load
+interface LegacyAuditLogFile {
+  lastUpdate: string;
+  entries: AuditEntry[]; // Oldest first
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COMPACT_INTERVAL = 60 * 60 * 1000; // Rewrite without expired lines hourly
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = [
+  "timestamp",
+  "username",
+  "role",
+  "sessionId",
+  "message",
+  "strategy",
+  "functionCalls",
+  "writes",
+  "jobNumbers",
+  "outcome",
+  "durationMs",
+];
+
+export class AuditLog {
+  private entries: AuditEntry[] = []; // On disk, oldest first
+  private loaded = false;
+  private fileMtime = 0;
+  private pending: AuditEntry[] = []; // Not written yet
+  private flushScheduled = false;
+  private writing: Promise<void> = Promise.resolve();
+  private lastCompaction = Date.now();
+  private current = new AsyncLocalStorage<AuditEntry>();
+  private readonly maxEntries = 50000;
+
+  constructor(
+    private logPath: string = path.join(
+      process.cwd(),
+      "data",
+      "audit-log.jsonl"
+    ),
+    // Entries older than this are dropped from memory on every write and
+    // from the file by the hourly compaction
+    readonly retentionDays: number = parseInt(
+      process.env.AUDIT_RETENTION_DAYS || "180",
+      10
+    )
+  ) {}
+
+  // Run the work for one request and record it, whether it answers or throws
+  async track<T>(request: AuditRequest, work: () => Promise<T>): Promise<T> {
+    const startTime = Date.now();
+    const entry: AuditEntry = {
+      id: `${startTime}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: new Date(startTime).toISOString(),
+      userId: request.user?.id || null,
+      username: request.user?.username || null,
+      role: request.user?.role || null,
+      sessionId: request.sessionId || null,
+      correlationId: logger.getCorrelationId() || null,
+      message: request.message,
+      strategy: null,
+      functionCalls: [],
+      jobNumbers: [],
+      outcome: "answered",
+      durationMs: 0,
+    };
+
+    try {
+      return await this.current.run(entry, work);
+    } catch (error) {
+      entry.outcome = "error";
+      entry.error = error instanceof Error ? error.message : "Unknown error";
+      throw error;
+    } finally {
+      entry.durationMs = Date.now() - startTime;
+      this.append(entry);
+    }
+  }
+
+  // Details of the request being tracked; ignored outside track()
+  annotate(details: { strategy?: string; jobNumbers?: string[] }): void {
+    const entry = this.current.getStore();
+    if (!entry) return;
+
+    if (details.strategy) entry.strategy = details.strategy;
+    if (details.jobNumbers) {
+      entry.jobNumbers = [
+        ...new Set([...entry.jobNumbers, ...details.jobNumbers]),
+      ];
+    }
+  }
+
+  recordFunctionCall(call: Omit<AuditFunctionCall, "calledAt">): void {
+    this.current.getStore()?.functionCalls.push({
+      ...call,
+      calledAt: new Date().toISOString(),
+    });
+  }
+
+  recordWrite(write: Omit<AuditWrite, "writtenAt">): void {
+    const entry = this.current.getStore();
+    if (!entry) return;
+
+    entry.writes = [
+      ...(entry.writes || []),
+      { ...write, writtenAt: new Date().toISOString() },
+    ];
+    this.annotate({ jobNumbers: [write.jobNumber] });
+  }
+
+  // The request being tracked, for work done on the requester's behalf
+  getCurrentEntry(): AuditEntry | undefined {
+    return this.current.getStore();
+  }
+
+  // Newest first
+  search(query: AuditQuery = {}): AuditEntry[] {
+    this.ensureLoaded();
+    const since = query.since ? new Date(query.since).getTime() : -Infinity;
+    const until = query.until ? new Date(query.until).getTime() : Infinity;
+    const text = query.text?.toLowerCase();
+
+    const matches = [...this.entries, ...this.pending]
+      .filter((entry) => {
+        const timestamp = Date.parse(entry.timestamp);
+        if (timestamp < since || timestamp > until) return false;
+        if (
+          query.user &&
+          entry.userId !== query.user &&
+          entry.username !== query.user.toLowerCase()
+        ) {
+          return false;
+        }
+        if (query.sessionId && entry.sessionId !== query.sessionId) {
+          return false;
+        }
+        if (query.jobNumber && !entry.jobNumbers.includes(query.jobNumber)) {
+          return false;
+        }
+        if (query.strategy && entry.strategy !== query.strategy) return false;
+        if (text && !entry.message.toLowerCase().includes(text)) return false;
+        return true;
+      })
+      .reverse();
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  toCsv(entries: AuditEntry[]): string {
+    const rows = entries.map((entry) =>
+      CSV_COLUMNS.map((column) => {
+        const value = entry[column];
+        if (column === "functionCalls") {
+          return csvCell(
+            entry.functionCalls.map((call) => call.name).join(" ")
+          );
+        }
+        if (column === "writes") {
+          return csvCell(
+            (entry.writes || [])
+              .map((write) => `${write.kind}:${write.jobNumber}`)
+              .join(" ")
+          );
+        }
+        return csvCell(Array.isArray(value) ? value.join(" ") : value);
+      }).join(",")
+    );
+    return [CSV_COLUMNS.join(","), ...rows].join("\n");
+  }
+
+  getStats(): {
+    totalEntries: number;
+    oldest: string | null;
+    retentionDays: number;
+  } {
+    this.ensureLoaded();
+    const all = [...this.entries, ...this.pending];
+    return {
+      totalEntries: all.length,
+      oldest: all[0]?.timestamp || null,
+      retentionDays: this.retentionDays,
+    };
+  }
+
+  // Resolves once every entry recorded so far is on disk
+  async flush(): Promise<void> {
+    await this.writing;
+    if (this.pending.length > 0) await this.write();
+  }
+
+  // Writes are batched per tick and appended off the request path
+  private append(entry: AuditEntry): void {
+    this.pending.push(entry);
+    if (this.flushScheduled) return;
+
+    this.flushScheduled = true;
+    queueMicrotask(() => {
+      this.flushScheduled = false;
+      this.write();
+    });
+  }
+
+  // Appends run one at a time so lines never interleave with a compaction
+  private write(): Promise<void> {
+    this.writing = this.writing.then(() => this.appendPending());
+    return this.writing;
+  }
+
+  private async appendPending(): Promise<void> {
+    this.ensureLoaded();
+    const batch = this.pending.slice();
+    if (batch.length === 0) return;
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.logPath), { recursive: true });
+      await fs.promises.appendFile(this.logPath, toJsonLines(batch), {
+        mode: 0o600,
+      });
+      this.pending.splice(0, batch.length);
+      this.entries = this.withinRetention([...this.entries, ...batch]);
+      this.fileMtime = (await fs.promises.stat(this.logPath)).mtimeMs;
+
+      if (Date.now() - this.lastCompaction > COMPACT_INTERVAL) {
+        await this.compact();
+      }
+    } catch (error) {
+      console.error("❌ Failed to save audit log:", error);
+    }
+  }
+
+  // Rewrite the file with only the entries still kept
+  private async compact(): Promise<void> {
+    const tempPath = `${this.logPath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, toJsonLines(this.entries), {
+      mode: 0o600,
+    });
+    await fs.promises.rename(tempPath, this.logPath);
+    this.fileMtime = (await fs.promises.stat(this.logPath)).mtimeMs;
+    this.lastCompaction = Date.now();
+  }
+
+  private withinRetention(entries: AuditEntry[]): AuditEntry[] {
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+    return entries
+      .filter((entry) => Date.parse(entry.timestamp) >= cutoff)
+      .slice(-this.maxEntries);
+  }
+
+  // Load on first use and again whenever another process appended
+  private ensureLoaded(): void {
+    try {
+      this.migrateLegacyFile();
+      if (!fs.existsSync(this.logPath)) {
+        this.loaded = true;
+        return;
+      }
+      const mtime = fs.statSync(this.logPath).mtimeMs;
+      if (this.loaded && mtime === this.fileMtime) return;
+
+      this.entries = this.withinRetention(
+        fs
+          .readFileSync(this.logPath, "utf8")
+          .split("\n")
+          .filter((line) => line.trim())
+          .flatMap((line) => {
+            try {
+              return [JSON.parse(line) as AuditEntry];
+            } catch {
+              return []; // Partial line from an interrupted write
+            }
+          })
+      );
+      this.fileMtime = mtime;
+    } catch (error) {
+      console.warn("⚠️ Failed to load audit log:", error);
+    }
+    this.loaded = true;
+  }
+
+  // audit-log.json from before the switch to JSONL becomes the first lines
+  // of the new file; the old file is left in place
+  private migrateLegacyFile(): void {
+    const legacyPath = this.logPath.replace(/\.jsonl$/, ".json");
+    if (
+      this.loaded ||
+      legacyPath === this.logPath ||
+      fs.existsSync(this.logPath) ||
+      !fs.existsSync(legacyPath)
+    ) {
+      return;
+    }
+
+    const data: LegacyAuditLogFile = JSON.parse(
+      fs.readFileSync(legacyPath, "utf8")
+    );
+    fs.writeFileSync(this.logPath, toJsonLines(data.entries || []), {
+      mode: 0o600,
+    });
+    console.log(
+      `📦 Moved ${data.entries?.length || 0} audit entries to ${this.logPath}`
+    );
+  }
+}
+
+function toJsonLines(entries: AuditEntry[]): string {
+  return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+}
+
+// Quoted as needed; messages that look like formulas are defused so the
+// export is safe to open in a spreadsheet
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Export singleton instance
+export const auditLog = new AuditLog();
@@ -0,0 +1,196 @@
+// Auth Service - Pluggable identity providers behind a single sign-in call
+// Local accounts are the default; other providers register by name
+
+import type { NextRequest } from "next/server";
+import {
+  getAllowedRoles,
+  getRequestUser,
+  isRole,
+  SessionUser,
+} from "./auth-session";
+import { userStore } from "./user-store";
+
+// Failed sign-ins allowed per username and per client address before they
+// are locked out for LOCKOUT_MS
+const MAX_FAILURES_PER_USER = 5;
+const MAX_FAILURES_PER_CLIENT = 20;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_TRACKED_FAILURES = 10000;
+
+interface FailedSignIns {
+  count: number;
+  since: number; // First failure in the current window
+}
+
+export interface IdentityProvider {
+  name: string;
+  authenticate(username: string, password: string): Promise<SessionUser | null>;
+}
+
+// Accounts from the local user store
+export class LocalIdentityProvider implements IdentityProvider {
+  name = "local";
+
+  async authenticate(
+    username: string,
+    password: string
+  ): Promise<SessionUser | null> {
+    return userStore.verifyCredentials(username, password);
+  }
+}
+
+// Delegates to an external service that answers a credentials POST with
+// { id, username, displayName, role, customerIds? } or a non-2xx status
+export class HttpIdentityProvider implements IdentityProvider {
+  name = "http";
+
+  constructor(private url: string = process.env.AUTH_PROVIDER_URL || "") {}
+
+  async authenticate(
+    username: string,
+    password: string
+  ): Promise<SessionUser | null> {
+    if (!this.url) {
+      console.warn("⚠️ AUTH_PROVIDER_URL is not set; http provider disabled");
+      return null;
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, password }),
+    });
+    if (!response.ok) return null;
+
+    const user = await response.json();
+    if (!user?.id || !isRole(user.role)) {
+      console.warn(`⚠️ Identity provider returned an unusable user for ${username}`);
+      return null;
+    }
+    return {
+      id: String(user.id),
+      username: user.username || username,
+      displayName: user.displayName || user.username || username,
+      role: user.role,
+      customerIds: Array.isArray(user.customerIds)
+        ? user.customerIds.map(Number).filter(Number.isFinite)
+        : undefined,
+    };
+  }
+}
+
+export class AuthService {
+  private providers = new Map<string, IdentityProvider>();
+  private failures = new Map<string, FailedSignIns>(); // user:/client: key ->
+
+  constructor() {
+    this.registerProvider(new LocalIdentityProvider());
+    this.registerProvider(new HttpIdentityProvider());
+  }
+
+  registerProvider(provider: IdentityProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  // Providers tried in order, from AUTH_PROVIDERS (comma separated)
+  getActiveProviders(): IdentityProvider[] {
+    const names = (process.env.AUTH_PROVIDERS || "local")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+    return names
+      .map((name) => this.providers.get(name))
+      .filter((provider): provider is IdentityProvider => !!provider);
+  }
+
+  async authenticate(
+    username: string,
+    password: string
+  ): Promise<SessionUser | null> {
+    for (const provider of this.getActiveProviders()) {
+      try {
+        const user = await provider.authenticate(username, password);
+        if (user) {
+          console.log(`🔐 ${user.username} signed in via ${provider.name}`);
+          return user;
+        }
+      } catch (error) {
+        console.error(`❌ Identity provider ${provider.name} failed:`, error);
+      }
+    }
+    console.warn(`🔐 Failed sign-in for ${username}`);
+    return null;
+  }
+
+  // Seconds until this username or client may try again, 0 when neither is
+  // locked out
+  getLockout(username: string, client: string): number {
+    const now = Date.now();
+    const lockedUntil = this.getFailureKeys(username, client)
+      .map(([key, limit]) => {
+        const failures = this.failures.get(key);
+        if (!failures || now - failures.since >= LOCKOUT_MS) return 0;
+        return failures.count >= limit ? failures.since + LOCKOUT_MS : 0;
+      })
+      .reduce((latest, until) => Math.max(latest, until), 0);
+    return lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+  }
+
+  recordSignIn(username: string, client: string, succeeded: boolean): void {
+    const now = Date.now();
+    if (this.failures.size > MAX_TRACKED_FAILURES) {
+      this.failures.forEach((failures, key) => {
+        if (now - failures.since >= LOCKOUT_MS) this.failures.delete(key);
+      });
+    }
+    for (const [key] of this.getFailureKeys(username, client)) {
+      if (succeeded) {
+        if (key.startsWith("user:")) this.failures.delete(key);
+        continue;
+      }
+      const failures = this.failures.get(key);
+      this.failures.set(
+        key,
+        failures && now - failures.since < LOCKOUT_MS
+          ? { count: failures.count + 1, since: failures.since }
+          : { count: 1, since: now }
+      );
+    }
+  }
+
+  /**
+   * The request's user as the account stands now. The middleware only sees
+   * the signed token, so API routes check here: null once a local account
+   * is disabled or deleted or its current role may no longer use the route.
+   * Users from other providers keep what they signed in with until the
+   * session expires.
+   */
+  getActiveUser(
+    request: Pick<NextRequest, "headers" | "nextUrl">
+  ): SessionUser | null {
+    const signed = getRequestUser(request.headers);
+    if (!signed) return null;
+
+    const user =
+      userStore.getUser(signed.username)?.id === signed.id
+        ? userStore.getActiveUser(signed.username)
+        : this.getActiveProviders().some((p) => p.name !== "local")
+        ? signed
+        : null;
+    const roles = getAllowedRoles(request.nextUrl.pathname);
+    return user && (!roles || roles.includes(user.role)) ? user : null;
+  }
+
+  private getFailureKeys(
+    username: string,
+    client: string
+  ): Array<[string, number]> {
+    return [
+      [`user:${username.trim().toLowerCase()}`, MAX_FAILURES_PER_USER],
+      [`client:${client}`, MAX_FAILURES_PER_CLIENT],
+    ];
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
@@ -0,0 +1,171 @@
+// Auth Session - Signed session tokens and role-based route access
+// Edge-safe (Web Crypto only) so the middleware can verify requests
+
+export const USER_ROLES = [
+  "customer",
+  "viewer",
+  "csr",
+  "production",
+  "admin",
+] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// Everyone except customer portal logins
+export const STAFF_ROLES: UserRole[] = ["viewer", "csr", "production", "admin"];
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  customerIds?: number[]; // Restricts the user to these customers' orders
+}
+
+interface SessionPayload extends SessionUser {
+  exp: number; // Expiry, epoch milliseconds
+}
+
+export const SESSION_COOKIE = "jobsight_session";
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+
+// Headers the middleware sets for route handlers after verifying a session
+export const USER_HEADERS = {
+  id: "x-user-id",
+  username: "x-user-name",
+  displayName: "x-user-display-name",
+  role: "x-user-role",
+  customerIds: "x-user-customer-ids",
+} as const;
+
+// First matching prefix wins; pages not listed are open to every
+// signed-in user. Customer logins only reach the chat.
+export const ROUTE_ACCESS_RULES: Array<{ prefix: string; roles: UserRole[] }> =
+  [
+    { prefix: "/api/admin", roles: ["admin"] },
+    { prefix: "/api/populate-vectors", roles: ["admin"] },
+    { prefix: "/api/data/update", roles: ["admin"] },
+    { prefix: "/admin", roles: ["admin"] },
+    { prefix: "/api/oms-chat/actions", roles: ["csr", "production", "admin"] },
+    { prefix: "/api/oms-chat", roles: [...USER_ROLES] },
+    { prefix: "/api/chat-sessions", roles: [...USER_ROLES] },
+    { prefix: "/api/auth", roles: [...USER_ROLES] },
+    { prefix: "/api", roles: STAFF_ROLES },
+  ];
+
+// Reachable without a session
+export const PUBLIC_PATHS = ["/login", "/api/auth/login", "/api/auth/logout"];
+
+export function isRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+export function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some((path) => matchesPrefix(pathname, path));
+}
+
+// Roles allowed on a path, or null when any signed-in user may access it
+export function getAllowedRoles(pathname: string): UserRole[] | null {
+  const rule = ROUTE_ACCESS_RULES.find((r) => matchesPrefix(pathname, r.prefix));
+  return rule ? rule.roles : null;
+}
+
+export function getSessionSecret(): string | null {
+  return process.env.AUTH_SECRET || null;
+}
+
+export async function signSessionToken(
+  user: SessionUser,
+  secret: string,
+  ttlMs: number = SESSION_TTL_MS
+): Promise<string> {
+  const payload: SessionPayload = { ...user, exp: Date.now() + ttlMs };
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const key = await importKey(secret);
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(body)
+  );
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Returns the session user, or null for a malformed, forged or expired token
+export async function verifySessionToken(
+  token: string,
+  secret: string
+): Promise<SessionUser | null> {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  try {
+    const key = await importKey(secret);
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      fromBase64Url(signature),
+      new TextEncoder().encode(body)
+    );
+    if (!valid) return null;
+
+    const payload: SessionPayload = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(body))
+    );
+    if (!payload.exp || payload.exp < Date.now() || !isRole(payload.role)) {
+      return null;
+    }
+    return {
+      id: payload.id,
+      username: payload.username,
+      displayName: payload.displayName,
+      role: payload.role,
+      customerIds: payload.customerIds,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// The signed-in user as forwarded by the middleware
+export function getRequestUser(headers: Headers): SessionUser | null {
+  const role = headers.get(USER_HEADERS.role);
+  const id = headers.get(USER_HEADERS.id);
+  if (!id || !isRole(role)) return null;
+  const customerIds = headers.get(USER_HEADERS.customerIds);
+  return {
+    id,
+    username: headers.get(USER_HEADERS.username) || id,
+    displayName: decodeURIComponent(
+      headers.get(USER_HEADERS.displayName) || id
+    ),
+    role,
+    customerIds: customerIds
+      ? customerIds.split(",").map(Number).filter(Number.isFinite)
+      : undefined,
+  };
+}
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
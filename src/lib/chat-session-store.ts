@@ -0,0 +1,266 @@
+// Chat Session Store - Persistent conversations for the OMS chat
+// Keeps each session's messages and the orders every assistant turn returned
+
+import path from "path";
+import fs from "fs";
+import { DataFileWriter } from "./data-file-writer";
+import { SessionUser } from "./auth-session";
+import type { ActionConfirmation } from "./pending-actions";
+
+export interface ChatSessionMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  orders?: any[]; // Orders the turn returned, for follow-ups and reloads
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  structuredResponse?: any;
+  type?: "confirmation"; // The user confirmed or cancelled a proposed write
+  confirmation?: ActionConfirmation;
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  ownerId?: string; // User who started the session
+  messages: ChatSessionMessage[];
+}
+
+// Who is asking for a session; everyone but admins only reaches the
+// sessions they started
+export interface SessionViewer {
+  id: string;
+  admin: boolean;
+}
+
+export function getSessionViewer(
+  user: SessionUser | null
+): SessionViewer | undefined {
+  return user ? { id: user.id, admin: user.role === "admin" } : undefined;
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  preview: string;
+}
+
+interface ChatSessionFile {
+  lastUpdate: string;
+  sessions: Record<string, ChatSession>; // sessionId -> session
+}
+
+const DEFAULT_TITLE = "New Chat";
+
+export class ChatSessionStore {
+  private sessions = new Map<string, ChatSession>();
+  private loaded = false;
+  private fileMtime = 0;
+  private readonly maxSessions = 500;
+  private readonly maxMessagesPerSession = 200;
+  private readonly maxOrdersPerTurn = 100;
+  private writer: DataFileWriter;
+
+  constructor(
+    private storePath: string = path.join(
+      process.cwd(),
+      "data",
+      "chat-sessions.json"
+    )
+  ) {
+    this.writer = new DataFileWriter(
+      storePath,
+      () => {
+        const data: ChatSessionFile = {
+          lastUpdate: new Date().toISOString(),
+          sessions: Object.fromEntries(this.sessions),
+        };
+        return JSON.stringify(data, null, 2);
+      },
+      (mtime) => (this.fileMtime = mtime),
+      "chat sessions"
+    );
+  }
+
+  // Most recently active first
+  listSessions(viewer?: SessionViewer): ChatSessionSummary[] {
+    this.ensureLoaded();
+    return [...this.sessions.values()]
+      .filter((session) => this.isVisibleTo(session, viewer))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map((session) => {
+        const firstReply = session.messages.find(
+          (message) => message.role === "assistant"
+        );
+        return {
+          id: session.id,
+          title: session.title,
+          createdAt: session.createdAt,
+          updatedAt: session.updatedAt,
+          messageCount: session.messages.length,
+          preview: firstReply
+            ? firstReply.content.slice(0, 50) + "..."
+            : "New conversation",
+        };
+      });
+  }
+
+  getSession(sessionId: string): ChatSession | null {
+    this.ensureLoaded();
+    return this.sessions.get(sessionId) || null;
+  }
+
+  // True when the session is visible to the viewer or does not exist yet
+  canAccess(sessionId: string, viewer?: SessionViewer): boolean {
+    const session = this.getSession(sessionId);
+    return !session || this.isVisibleTo(session, viewer);
+  }
+
+  createSession(
+    sessionId?: string,
+    title: string = DEFAULT_TITLE,
+    ownerId?: string
+  ): ChatSession {
+    this.ensureLoaded();
+    const existing = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (existing) return existing;
+
+    const now = new Date().toISOString();
+    const session: ChatSession = {
+      id: sessionId || Date.now().toString(),
+      title,
+      createdAt: now,
+      updatedAt: now,
+      ownerId,
+      messages: [],
+    };
+    this.sessions.set(session.id, session);
+    this.prune();
+    this.save();
+    return session;
+  }
+
+  renameSession(sessionId: string, title: string): ChatSession | null {
+    this.ensureLoaded();
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+
+    session.title = title.trim() || DEFAULT_TITLE;
+    session.updatedAt = new Date().toISOString();
+    this.save();
+    return session;
+  }
+
+  deleteSession(sessionId: string): boolean {
+    this.ensureLoaded();
+    const deleted = this.sessions.delete(sessionId);
+    if (deleted) this.save();
+    return deleted;
+  }
+
+  // Appends to the session, creating it on its first message; an untitled
+  // session is named after its first user message
+  appendMessage(
+    sessionId: string,
+    message: Omit<ChatSessionMessage, "id" | "timestamp"> &
+      Partial<Pick<ChatSessionMessage, "id" | "timestamp">>,
+    ownerId?: string
+  ): ChatSessionMessage {
+    const session = this.createSession(sessionId, DEFAULT_TITLE, ownerId);
+    const stored: ChatSessionMessage = {
+      ...message,
+      id: message.id || `${Date.now()}-${session.messages.length}`,
+      timestamp: message.timestamp || new Date().toISOString(),
+      orders: message.orders?.slice(0, this.maxOrdersPerTurn),
+    };
+
+    session.messages.push(stored);
+    if (session.messages.length > this.maxMessagesPerSession) {
+      session.messages = session.messages.slice(-this.maxMessagesPerSession);
+    }
+    if (session.title === DEFAULT_TITLE && stored.role === "user") {
+      session.title = stored.content.slice(0, 50) + "...";
+    }
+    session.updatedAt = stored.timestamp;
+    this.save();
+    return stored;
+  }
+
+  // Orders from the latest assistant turn that returned any
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  getLastOrders(sessionId: string): any[] {
+    const session = this.getSession(sessionId);
+    if (!session) return [];
+
+    for (let i = session.messages.length - 1; i >= 0; i--) {
+      const message = session.messages[i];
+      if (message.role === "assistant" && message.orders?.length) {
+        return message.orders;
+      }
+    }
+    return [];
+  }
+
+  // Last few messages joined the way the chat client sends its context
+  getRecentContext(sessionId: string, messageCount: number = 3): string {
+    const session = this.getSession(sessionId);
+    if (!session) return "";
+    return session.messages
+      .slice(-messageCount)
+      .map((message) => message.content)
+      .join(" | ");
+  }
+
+  // Without a viewer auth is off and every session is visible
+  private isVisibleTo(session: ChatSession, viewer?: SessionViewer): boolean {
+    return !viewer || viewer.admin || session.ownerId === viewer.id;
+  }
+
+  // Drop the least recently active sessions beyond the cap
+  private prune(): void {
+    if (this.sessions.size <= this.maxSessions) return;
+
+    const oldest = [...this.sessions.values()]
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+      .slice(0, this.sessions.size - this.maxSessions);
+    oldest.forEach((session) => this.sessions.delete(session.id));
+  }
+
+  // Resolves once every change so far is on disk
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  // Load on first use and again whenever another process wrote the file
+  private ensureLoaded(): void {
+    if (this.writer.busy) return; // Memory is ahead of the file
+    try {
+      if (fs.existsSync(this.storePath)) {
+        const mtime = fs.statSync(this.storePath).mtimeMs;
+        if (this.loaded && mtime === this.fileMtime) return;
+
+        const data: ChatSessionFile = JSON.parse(
+          fs.readFileSync(this.storePath, "utf8")
+        );
+        this.sessions = new Map(Object.entries(data.sessions || {}));
+        this.fileMtime = mtime;
+      }
+    } catch (error) {
+      console.warn("⚠️ Failed to load chat sessions:", error);
+    }
+    this.loaded = true;
+  }
+
+  private save(): void {
+    this.writer.save();
+  }
+}
+
+// Export singleton instance
+export const chatSessionStore = new ChatSessionStore();
@@ -0,0 +1,125 @@
+// Circuit Breaker - Stops calling a dependency that keeps failing
+// closed -> open after failureThreshold consecutive failures; open ->
+// half-open after resetTimeout, letting one probe through to decide
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  resetTimeout: number; // ms to stay open before probing
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  rejected: number; // Calls refused while open
+  openedAt?: string;
+  retryAt?: string; // When an open circuit lets a probe through
+  lastFailure?: string;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private rejected = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private lastFailure?: string;
+
+  constructor(
+    private name: string,
+    private config: () => CircuitBreakerConfig
+  ) {}
+
+  // Whether a call may go ahead; an open circuit past its timeout admits a
+  // single half-open probe
+  canRequest(): boolean {
+    if (this.state === "open") {
+      if (Date.now() - this.openedAt < this.config().resetTimeout) {
+        this.rejected++;
+        return false;
+      }
+      this.state = "half-open";
+      console.log(`🔌 Circuit ${this.name} half-open, probing`);
+    }
+
+    if (this.state === "half-open") {
+      if (this.probeInFlight) {
+        this.rejected++;
+        return false;
+      }
+      this.probeInFlight = true;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== "closed") {
+      console.log(`✅ Circuit ${this.name} closed`);
+    }
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(error?: unknown): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.probeInFlight = false;
+    if (error !== undefined) {
+      this.lastFailure = error instanceof Error ? error.message : String(error);
+    }
+
+    if (
+      this.state === "half-open" ||
+      (this.state === "closed" &&
+        this.consecutiveFailures >= this.config().failureThreshold)
+    ) {
+      this.state = "open";
+      this.openedAt = Date.now();
+      console.warn(
+        `🚫 Circuit ${this.name} open after ${this.consecutiveFailures} failures`
+      );
+    }
+  }
+
+  getState(): CircuitState {
+    // An open circuit past its timeout reports half-open before the probe
+    if (
+      this.state === "open" &&
+      Date.now() - this.openedAt >= this.config().resetTimeout
+    ) {
+      return "half-open";
+    }
+    return this.state;
+  }
+
+  // Milliseconds until an open circuit admits a probe
+  getRetryAfter(): number {
+    if (this.state !== "open") return 0;
+    return Math.max(0, this.openedAt + this.config().resetTimeout - Date.now());
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    const open = this.state === "open";
+    return {
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      rejected: this.rejected,
+      openedAt: open ? new Date(this.openedAt).toISOString() : undefined,
+      retryAt: open
+        ? new Date(this.openedAt + this.config().resetTimeout).toISOString()
+        : undefined,
+      lastFailure: this.lastFailure,
+    };
+  }
+
+  reset(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+  }
+}
@@ -1,6 +1,9 @@
 // Professional Configuration Manager - Environment-aware configuration system
 // Handles dev/prod environments with type safety, validation, and hot reloading
 
+import path from "path";
+import fs from "fs";
+
 export interface APIConfig {
   baseUrl: string;
   timeout: number;
@@ -9,7 +12,10 @@ export interface APIConfig {
   rateLimitPerMinute: number;
   connectionPoolSize: number;
   healthCheckInterval: number;
+  circuitFailureThreshold: number;
+  circuitResetTimeout: number;
   enableLogging: boolean;
+  enableWrites: boolean; // Job write endpoints, unverified against the real OMS
 }
 
 export interface VectorConfig {
@@ -63,6 +69,7 @@ export interface MonitoringConfig {
   enableHealthChecks: boolean;
   healthCheckInterval: number;
   enableMetrics: boolean;
+  metricsInterval: number;
   metricsRetention: number;
   enableAlerts: boolean;
   alertThresholds: {
@@ -85,14 +92,66 @@ export interface SystemConfig {
   monitoring: MonitoringConfig;
 }
 
+// A runtime override, recorded with the value it replaced
+export interface ConfigChange {
+  path: string;
+  oldValue: unknown;
+  newValue: unknown; // undefined when the override was removed
+  changedBy: string;
+  changedAt: string;
+}
+
+export type ConfigWatcher = (newValue: unknown, path: string) => void;
+
+interface ConfigOverridesFile {
+  lastUpdate: string;
+  overrides: Record<string, unknown>; // config path -> value
+  history: ConfigChange[]; // Oldest first
+}
+
+// Identity and endpoint settings only change through the environment
+const READONLY_PATHS = [
+  "environment",
+  "version",
+  "buildDate",
+  "api.baseUrl",
+  "api.enableWrites",
+];
+
+// No running service reads these, so a runtime change would be recorded and
+// then do nothing. The embedding model is chosen by the embedding provider
+// and has to match the vectors already stored, so it is not settable here
+const UNAPPLIED_PATHS = [
+  "vector.embeddingModel",
+  "vector.updateInterval",
+  "vector.batchSize",
+  "rag.minConfidenceThreshold",
+  "rag.maxResults",
+  "monitoring.enableHealthChecks",
+];
+
+const MAX_HISTORY = 500;
+
 class ConfigurationManager {
   private config: SystemConfig;
-  private watchers: Map<string, (newValue: any) => void> = new Map();
+  private defaults: SystemConfig;
+  private overrides: Record<string, unknown> = {};
+  private history: ConfigChange[] = [];
+  // Keyed by path or category; a watcher also hears about nested paths
+  private watchers: Map<string, ConfigWatcher[]> = new Map();
   private validationSchema: Record<string, any> = {};
 
-  constructor() {
-    this.config = this.loadConfiguration();
+  constructor(
+    private overridesPath: string = path.join(
+      process.cwd(),
+      "data",
+      "config-overrides.json"
+    )
+  ) {
+    this.defaults = this.loadConfiguration();
+    this.config = structuredClone(this.defaults);
     this.setupValidation();
+    this.loadOverrides();
     this.validateConfiguration();
   }
 
@@ -121,7 +180,14 @@ class ConfigurationManager {
         healthCheckInterval: parseInt(
           process.env.API_HEALTH_INTERVAL || "30000"
         ),
+        circuitFailureThreshold: parseInt(
+          process.env.API_CIRCUIT_FAILURE_THRESHOLD || "5"
+        ),
+        circuitResetTimeout: parseInt(
+          process.env.API_CIRCUIT_RESET_TIMEOUT || "30000"
+        ), // 30 seconds
         enableLogging: process.env.API_ENABLE_LOGGING !== "false",
+        enableWrites: process.env.API_ENABLE_WRITES === "true",
       },
 
       vector: {
@@ -205,6 +271,9 @@ class ConfigurationManager {
           process.env.MONITORING_HEALTH_INTERVAL || "60000"
         ), // 1 minute
         enableMetrics: process.env.MONITORING_METRICS !== "false",
+        metricsInterval: parseInt(
+          process.env.MONITORING_METRICS_INTERVAL || "60000"
+        ), // 1 minute
         metricsRetention: parseInt(
           process.env.MONITORING_METRICS_RETENTION || "604800000"
         ), // 7 days
@@ -261,17 +330,131 @@ class ConfigurationManager {
     };
   }
 
+  // Paths changed at runtime and their values
+  getOverrides(prefix?: string): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(this.overrides).filter(
+        ([key]) => !prefix || this.isWithin(key, prefix)
+      )
+    );
+  }
+
+  // Newest first
+  getHistory(limit: number = 50): ConfigChange[] {
+    return this.history.slice(-limit).reverse();
+  }
+
+  // Called with the new value whenever the path, or a path under it, changes
+  watch(path: string, watcher: ConfigWatcher): () => void {
+    this.watchers.set(path, [...(this.watchers.get(path) || []), watcher]);
+    return () => {
+      this.watchers.set(
+        path,
+        (this.watchers.get(path) || []).filter((w) => w !== watcher)
+      );
+    };
+  }
+
+  // The value coerced to the type of the current setting, or an error
+  validate(
+    path: string,
+    value: unknown
+  ): { valid: true; value: unknown } | { valid: false; error: string } {
+    if (READONLY_PATHS.includes(path) || UNAPPLIED_PATHS.includes(path)) {
+      return { valid: false, error: `${path} cannot be changed at runtime` };
+    }
+
+    const current = this.getNestedValue(path);
+    if (
+      !this.hasSetting(path) ||
+      (!["number", "boolean", "string"].includes(typeof current) &&
+        !Array.isArray(current))
+    ) {
+      return { valid: false, error: `Unknown configuration setting: ${path}` };
+    }
+
+    const coerced = this.coerce(current, value);
+    if (coerced === undefined) {
+      return {
+        valid: false,
+        error: `${path} must be a ${
+          Array.isArray(current) ? "list" : typeof current
+        }`,
+      };
+    }
+
+    const rule = this.validationSchema[path];
+    if (rule?.values && !rule.values.includes(coerced)) {
+      return {
+        valid: false,
+        error: `${path} must be one of: ${rule.values.join(", ")}`,
+      };
+    }
+    if (
+      typeof coerced === "number" &&
+      rule &&
+      ((rule.min !== undefined && coerced < rule.min) ||
+        (rule.max !== undefined && coerced > rule.max))
+    ) {
+      return {
+        valid: false,
+        error: `${path} must be between ${rule.min} and ${rule.max}`,
+      };
+    }
+
+    return { valid: true, value: coerced };
+  }
+
+  // Persist an override and apply it to running services
+  set(
+    path: string,
+    value: unknown,
+    changedBy: string = "system"
+  ): ConfigChange {
+    const result = this.validate(path, value);
+    if (!result.valid) throw new Error(result.error);
+
+    this.overrides[path] = result.value;
+    const change = this.applyChange(path, result.value, changedBy);
+    this.saveOverrides();
+    return change;
+  }
+
+  // Drop an override and go back to the environment value
+  reset(path: string, changedBy: string = "system"): ConfigChange | null {
+    if (!(path in this.overrides)) return null;
+
+    delete this.overrides[path];
+    const change = this.applyChange(
+      path,
+      this.getNestedValue(path, this.defaults),
+      changedBy
+    );
+    change.newValue = undefined;
+    this.saveOverrides();
+    return change;
+  }
+
   // Setup validation schema
   private setupValidation(): void {
     this.validationSchema = {
       "api.timeout": { min: 1000, max: 300000, type: "number" },
       "api.maxRetries": { min: 0, max: 10, type: "number" },
+      "api.retryDelay": { min: 0, max: 60000, type: "number" },
       "api.rateLimitPerMinute": { min: 1, max: 1000, type: "number" },
+      "api.connectionPoolSize": { min: 1, max: 50, type: "number" },
+      "api.circuitFailureThreshold": { min: 1, max: 100, type: "number" },
+      "api.circuitResetTimeout": { min: 1000, max: 600000, type: "number" },
       "vector.updateInterval": { min: 60000, max: 86400000, type: "number" },
       "vector.batchSize": { min: 1, max: 100, type: "number" },
       "vector.similarityThreshold": { min: 0, max: 1, type: "number" },
       "cache.defaultTTL": { min: 1000, max: 3600000, type: "number" },
       "cache.maxSize": { min: 1048576, max: 1073741824, type: "number" },
+      "cache.evictionPolicy": { values: ["lru", "lfu", "intelligent"] },
+      "rag.temperature": { min: 0, max: 2, type: "number" },
+      "rag.maxTokens": { min: 1, max: 16000, type: "number" },
+      "rag.minConfidenceThreshold": { min: 0, max: 1, type: "number" },
+      "logging.level": { values: ["debug", "info", "warn", "error"] },
     };
   }
 
@@ -280,9 +463,139 @@ class ConfigurationManager {
     console.log("✅ Configuration validation passed");
   }
 
+  private applyChange(
+    path: string,
+    newValue: unknown,
+    changedBy: string
+  ): ConfigChange {
+    const change: ConfigChange = {
+      path,
+      oldValue: this.getNestedValue(path),
+      newValue,
+      changedBy,
+      changedAt: new Date().toISOString(),
+    };
+
+    this.setNestedValue(path, newValue);
+    this.history = [...this.history, change].slice(-MAX_HISTORY);
+    console.log(
+      `⚙️ ${changedBy} changed ${path}: ${JSON.stringify(
+        change.oldValue
+      )} -> ${JSON.stringify(newValue)}`
+    );
+
+    this.watchers.forEach((watchers, key) => {
+      if (!this.isWithin(path, key)) return;
+      watchers.forEach((watcher) => {
+        try {
+          watcher(newValue, path);
+        } catch (error) {
+          console.error(`❌ Config watcher for ${key} failed:`, error);
+        }
+      });
+    });
+    return change;
+  }
+
+  // Text from forms and env-style values are accepted ("30", "true", "a,b")
+  private coerce(current: unknown, value: unknown): unknown {
+    if (typeof current === "number") {
+      const number = typeof value === "string" ? Number(value) : value;
+      return typeof number === "number" && Number.isFinite(number)
+        ? number
+        : undefined;
+    }
+    if (typeof current === "boolean") {
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "false") return value === "true";
+      return undefined;
+    }
+    if (Array.isArray(current)) {
+      const list =
+        typeof value === "string"
+          ? value.split(",").map((item) => item.trim())
+          : value;
+      return Array.isArray(list) && list.every((i) => typeof i === "string")
+        ? list.filter(Boolean)
+        : undefined;
+    }
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  }
+
+  private loadOverrides(): void {
+    try {
+      if (!fs.existsSync(this.overridesPath)) return;
+
+      const data: ConfigOverridesFile = JSON.parse(
+        fs.readFileSync(this.overridesPath, "utf8")
+      );
+      this.history = data.history || [];
+      Object.entries(data.overrides || {}).forEach(([key, value]) => {
+        const result = this.validate(key, value);
+        if (!result.valid) {
+          console.warn(`⚠️ Ignoring config override ${key}: ${result.error}`);
+          return;
+        }
+        this.overrides[key] = result.value;
+        this.setNestedValue(key, result.value);
+      });
+
+      const count = Object.keys(this.overrides).length;
+      if (count > 0) console.log(`🔧 Applied ${count} config overrides`);
+    } catch (error) {
+      console.warn("⚠️ Failed to load config overrides:", error);
+    }
+  }
+
+  private saveOverrides(): void {
+    try {
+      const dataDir = path.dirname(this.overridesPath);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      const data: ConfigOverridesFile = {
+        lastUpdate: new Date().toISOString(),
+        overrides: this.overrides,
+        history: this.history,
+      };
+      fs.writeFileSync(this.overridesPath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error("❌ Failed to save config overrides:", error);
+    }
+  }
+
   // Helper methods
-  private getNestedValue(path: string): any {
-    return path.split(".").reduce((obj, key) => obj?.[key], this.config as any);
+  private getNestedValue(
+    path: string,
+    source: SystemConfig = this.config
+  ): any {
+    return path.split(".").reduce((obj, key) => obj?.[key], source as any);
+  }
+
+  private setNestedValue(path: string, value: unknown): void {
+    const keys = path.split(".");
+    const parent = keys
+      .slice(0, -1)
+      .reduce((obj, key) => obj[key], this.config as any);
+    parent[keys[keys.length - 1]] = value;
+  }
+
+  // Only real settings, not properties of their values or prototypes
+  private hasSetting(path: string): boolean {
+    let node: unknown = this.config;
+    for (const key of path.split(".")) {
+      if (typeof node !== "object" || node === null || Array.isArray(node)) {
+        return false;
+      }
+      if (!Object.prototype.hasOwnProperty.call(node, key)) return false;
+      node = (node as Record<string, unknown>)[key];
+    }
+    return true;
+  }
+
+  private isWithin(path: string, prefix: string): boolean {
+    return path === prefix || path.startsWith(`${prefix}.`);
   }
 }
 
@@ -21,17 +21,28 @@ export interface QueryContext {
   followUpQueries: string[];
 }
 
+// How a follow-up narrows, reorders or re-targets the previous result set
+export interface ContextRefinement {
+  type: "filter" | "exclude" | "sort" | "customer";
+  term?: string; // Filter term or replacement customer
+  sortBy?: "dueDate" | "shipDate" | "customer" | "value" | "jobNumber";
+  descending?: boolean;
+  description: string;
+}
+
 export interface ContextualQuery {
   query: string;
   context?: QueryContext;
   isFollowUp: boolean;
   contextualKeywords: string[];
+  refinement?: ContextRefinement;
 }
 
 export class ContextManagerService {
   private contexts: Map<string, QueryContext> = new Map();
   private readonly maxContextAge = 30 * 60 * 1000; // 30 minutes
   private readonly maxContexts = 10;
+  private contextSequence = 0;
 
   private readonly contextualKeywords = {
     references: [
@@ -92,16 +103,20 @@ export class ContextManagerService {
     const contextualKeywords = this.extractContextualKeywords(query);
     const isFollowUp = this.isFollowUpQuery(query);
     const latestContext = this.getLatestContext(sessionId);
+    const refinement = isFollowUp ? this.detectRefinement(query) : null;
 
     const result: ContextualQuery = {
       query,
       context: isFollowUp ? latestContext : undefined,
       isFollowUp,
       contextualKeywords,
+      refinement: refinement || undefined,
     };
 
     console.log(
-      `🔗 [CONTEXT] Is follow-up: ${isFollowUp}, Context available: ${!!latestContext}`
+      `🔗 [CONTEXT] Is follow-up: ${isFollowUp}, Context available: ${!!latestContext}, Refinement: ${
+        refinement?.description || "none"
+      }`
     );
     return result;
   }
@@ -115,7 +130,9 @@ export class ContextManagerService {
     sessionId: string = "default",
     additionalFilters: any = {}
   ): string {
-    const contextId = `${sessionId}_${Date.now()}`;
+    // Unique even when two turns land in the same millisecond; the router
+    // keys cached follow-up answers by context id
+    const contextId = `${sessionId}_${Date.now()}_${++this.contextSequence}`;
     const userIntent = this.determineUserIntent(query);
 
     const context: QueryContext = {
@@ -166,11 +183,17 @@ export class ContextManagerService {
    * Get latest context for session
    */
   getLatestContext(sessionId: string): QueryContext | undefined {
-    const sessionContexts = Array.from(this.contexts.values())
-      .filter((ctx) => ctx.id.startsWith(sessionId))
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-
-    return sessionContexts[0];
+    // Contexts are stored in turn order; on a timestamp tie the later wins
+    let latest: QueryContext | undefined;
+    for (const ctx of this.contexts.values()) {
+      if (
+        ctx.id.startsWith(`${sessionId}_`) &&
+        (!latest || ctx.timestamp.getTime() >= latest.timestamp.getTime())
+      ) {
+        latest = ctx;
+      }
+    }
+    return latest;
   }
 
   /**
@@ -270,7 +293,84 @@ export class ContextManagerService {
       !queryLower.includes("order") &&
       !queryLower.includes("job");
 
-    return hasReferences || hasFollowUp || isStandaloneCost;
+    return (
+      hasReferences ||
+      hasFollowUp ||
+      isStandaloneCost ||
+      this.detectRefinement(query) !== null
+    );
+  }
+
+  /**
+   * Detect a follow-up that refines the previous results rather than
+   * asking something new: "only the rush ones", "sort those by due date",
+   * "what about for Acme instead"
+   */
+  detectRefinement(query: string): ContextRefinement | null {
+    const text = query.trim().replace(/[?.!]+$/, "");
+
+    const sortMatch = text.match(
+      /\b(?:sort|order|rank)\b(?:\s+(?:these|those|them|it|the\s+\w+))?\s+by\s+(.+)$/i
+    );
+    if (sortMatch) {
+      const key = sortMatch[1].toLowerCase();
+      const sortBy = /ship/.test(key)
+        ? "shipDate"
+        : /customer|client|company/.test(key)
+        ? "customer"
+        : /value|price|cost|total|amount/.test(key)
+        ? "value"
+        : /job|number/.test(key)
+        ? "jobNumber"
+        : "dueDate";
+      const descending =
+        /desc|highest|largest|most|latest|newest|furthest/.test(key);
+      return {
+        type: "sort",
+        sortBy,
+        descending,
+        description: `sorted by ${sortMatch[1]}`,
+      };
+    }
+
+    const excludeMatch = text.match(
+      /\b(?:excluding|exclude|except|without|drop|remove|hide)\s+(?:the\s+)?(.+?)\s+ones\b/i
+    );
+    if (excludeMatch) {
+      return {
+        type: "exclude",
+        term: excludeMatch[1],
+        description: `excluding ${excludeMatch[1]}`,
+      };
+    }
+
+    const filterMatch =
+      text.match(/\b(?:only|just)\s+(?:show\s+)?(?:the\s+)?(.+?)\s+ones\b/i) ||
+      text.match(
+        /\b(?:only|just)\s+(?:the\s+)?(?:ones|those|these)\s+(?:that are|which are|that have|with|tagged)\s+(.+)$/i
+      ) ||
+      text.match(/\bwhich of (?:these|those|them) (?:are|is|have)\s+(.+)$/i);
+    if (filterMatch) {
+      return {
+        type: "filter",
+        term: filterMatch[1],
+        description: `only ${filterMatch[1]}`,
+      };
+    }
+
+    const customerMatch =
+      text.match(/\bwhat about (?:for|from)\s+(.+?)(?:\s+instead)?$/i) ||
+      text.match(/\bwhat about\s+(.+?)\s+instead$/i) ||
+      text.match(/\b(?:for|from)\s+(.+?)\s+instead\b/i);
+    if (customerMatch) {
+      return {
+        type: "customer",
+        term: customerMatch[1],
+        description: `for ${customerMatch[1]} instead`,
+      };
+    }
+
+    return null;
   }
 
   /**
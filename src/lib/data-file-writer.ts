@@ -0,0 +1,78 @@
+// Data File Writer - Background saves for the JSON stores under data/
+// Writes go to a temp file and are renamed into place off the request path;
+// saves asked for while one is running fold into one write of the latest state
+
+import path from "path";
+import fs from "fs";
+
+// Writers with saves not yet on disk; written synchronously if the process
+// exits first, as scripts do right after a sync
+const pendingWriters = new Set<DataFileWriter>();
+let exitHookInstalled = false;
+
+export class DataFileWriter {
+  private writing: Promise<void> | null = null;
+  private dirty = false;
+
+  constructor(
+    private filePath: string,
+    private serialize: () => string,
+    // Called with the file's new mtime after each write
+    private onWritten: (mtimeMs: number) => void,
+    private label: string,
+    private mode?: number
+  ) {}
+
+  // True while the store holds changes that are not on disk yet; stores
+  // skip reloading from disk then so they don't lose them
+  get busy(): boolean {
+    return this.writing !== null;
+  }
+
+  save(): void {
+    this.dirty = true;
+    pendingWriters.add(this);
+    if (!exitHookInstalled) {
+      exitHookInstalled = true;
+      process.on("exit", () => pendingWriters.forEach((w) => w.writeSync()));
+    }
+    if (!this.writing) this.writing = this.drain();
+  }
+
+  // Resolves once every save asked for so far is on disk
+  async flush(): Promise<void> {
+    await this.writing;
+  }
+
+  private async drain(): Promise<void> {
+    while (this.dirty) {
+      this.dirty = false;
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), {
+          recursive: true,
+        });
+        await fs.promises.writeFile(tempPath, this.serialize(), {
+          mode: this.mode,
+        });
+        await fs.promises.rename(tempPath, this.filePath);
+        this.onWritten((await fs.promises.stat(this.filePath)).mtimeMs);
+      } catch (error) {
+        console.error(`❌ Failed to save ${this.label}:`, error);
+      }
+    }
+    this.writing = null;
+    pendingWriters.delete(this);
+  }
+
+  private writeSync(): void {
+    const tempPath = `${this.filePath}.${process.pid}.exit.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tempPath, this.serialize(), { mode: this.mode });
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      console.error(`❌ Failed to save ${this.label} on exit:`, error);
+    }
+  }
+}
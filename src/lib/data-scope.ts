@@ -0,0 +1,71 @@
+// Data Scope - Restricts a principal to the orders of specific customers
+// Applied wherever orders reach an answer: router strategies, vector filters,
+// constraint queries, function calls and the LLM context
+
+import { SessionUser } from "./auth-session";
+
+export interface DataScope {
+  customerIds: number[]; // customer.id values the principal may see
+}
+
+// Customer logins always get a scope (empty when no customers are assigned,
+// so they see nothing); staff are scoped only when customers are assigned
+export function getDataScope(
+  user: SessionUser | null | undefined
+): DataScope | undefined {
+  if (!user) return undefined;
+  if (user.role === "customer") {
+    return { customerIds: user.customerIds || [] };
+  }
+  return user.customerIds?.length
+    ? { customerIds: user.customerIds }
+    : undefined;
+}
+
+export function isCustomerInScope(
+  customerId: number | string | null | undefined,
+  scope?: DataScope
+): boolean {
+  if (!scope) return true;
+  if (customerId === null || customerId === undefined || customerId === "") {
+    return false;
+  }
+  return scope.customerIds.includes(Number(customerId));
+}
+
+export function isOrderInScope(
+  order: { customer?: { id?: number } } | null | undefined,
+  scope?: DataScope
+): boolean {
+  if (!scope) return true;
+  return !!order && isCustomerInScope(order.customer?.id, scope);
+}
+
+export function scopeOrders<T extends { customer?: { id?: number } }>(
+  orders: T[],
+  scope?: DataScope
+): T[] {
+  if (!scope) return orders;
+  const scoped = orders.filter((order) => isOrderInScope(order, scope));
+  if (scoped.length < orders.length) {
+    console.log(
+      `🔒 [SCOPE] Withheld ${orders.length - scoped.length} orders outside customers ${scope.customerIds.join(", ")}`
+    );
+  }
+  return scoped;
+}
+
+export function scopeVectorResults<T extends { metadata: { customerId?: number } }>(
+  results: T[],
+  scope?: DataScope
+): T[] {
+  if (!scope) return results;
+  return results.filter((result) =>
+    isCustomerInScope(result.metadata.customerId, scope)
+  );
+}
+
+// Distinguishes cached results computed for different scopes
+export function getScopeKey(scope?: DataScope): string {
+  return scope ? `customers-${[...scope.customerIds].sort().join("-")}` : "all";
+}
@@ -0,0 +1,173 @@
+// Embedding Providers - Pluggable text-to-vector backends for EmbeddingService
+// OpenAI for production, deterministic hashed n-grams for offline use
+
+import OpenAI from "openai";
+import { resolveVectorStoreBackend } from "./vector-store";
+
+export interface ProviderEmbeddingResult {
+  embeddings: number[][];
+  totalTokens: number;
+}
+
+export type EmbeddingProviderName = "openai" | "local";
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  embed(texts: string[], dimensions: number): Promise<ProviderEmbeddingResult>;
+}
+
+// ===== OPENAI PROVIDER =====
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai" as const;
+  private openai: OpenAI | null = null;
+
+  constructor(readonly model: string = "text-embedding-3-small") {}
+
+  // Lazy initialization of OpenAI client
+  private getOpenAI(): OpenAI {
+    if (!this.openai) {
+      const apiKey = process.env.OPENAI_API_KEY;
+      console.log("🔑 Debug: Checking OpenAI API key...");
+      console.log("🔑 Debug: OPENAI_API_KEY exists:", !!apiKey);
+      console.log(
+        "🔑 Debug: OPENAI_API_KEY length:",
+        apiKey ? apiKey.length : 0
+      );
+      console.log(
+        "🔑 Debug: OPENAI_API_KEY starts with:",
+        apiKey ? apiKey.substring(0, 7) + "..." : "undefined"
+      );
+
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY environment variable is not set");
+      }
+
+      this.openai = new OpenAI({
+        apiKey: apiKey,
+        timeout: 30000, // 30 second timeout
+        maxRetries: 2, // Built-in retries
+      });
+      console.log("✅ Debug: OpenAI client created successfully");
+    }
+    return this.openai;
+  }
+
+  async embed(
+    texts: string[],
+    dimensions: number
+  ): Promise<ProviderEmbeddingResult> {
+    const response = await this.getOpenAI().embeddings.create({
+      model: this.model,
+      input: texts,
+      dimensions, // Specify dimensions to match the vector index
+    });
+
+    return {
+      embeddings: response.data.map((item) => item.embedding),
+      totalTokens: response.usage.total_tokens,
+    };
+  }
+}
+
+// ===== LOCAL HASHED N-GRAM PROVIDER =====
+
+// Feature hashing of word unigrams/bigrams and character trigrams into a
+// fixed-size vector. Same text always yields the same vector, with no network.
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local" as const;
+  readonly model = "local-hashed-ngrams-v1";
+
+  async embed(
+    texts: string[],
+    dimensions: number
+  ): Promise<ProviderEmbeddingResult> {
+    let totalTokens = 0;
+    const embeddings = texts.map((text) => {
+      const words = this.tokenize(text);
+      totalTokens += words.length;
+      return this.embedTokens(words, dimensions);
+    });
+
+    return { embeddings, totalTokens };
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9@#\s-]/g, " ")
+      .split(/\s+/)
+      .filter(Boolean);
+  }
+
+  private embedTokens(words: string[], dimensions: number): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) =>
+      counts.set(feature, (counts.get(feature) || 0) + weight);
+
+    words.forEach((word, i) => {
+      add(`w:${word}`, 1);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`, 0.5);
+
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = this.fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      // Sublinear term frequency keeps repeated words from dominating
+      vector[hash % dimensions] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+
+  // 32-bit FNV-1a hash
+  private fnv1a(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+// ===== FACTORY =====
+
+// EMBEDDING_PROVIDER selects the provider. Without it, OpenAI is used when an
+// API key is configured or the vectors live in Pinecone, whose index holds
+// OpenAI embeddings (a missing key then fails loudly instead of mixing local
+// vectors in), and the local embedder otherwise
+export function resolveEmbeddingProvider(): EmbeddingProviderName {
+  const configured = process.env.EMBEDDING_PROVIDER?.toLowerCase();
+  if (configured === "openai" || configured === "local") return configured;
+  if (process.env.OPENAI_API_KEY) return "openai";
+  return resolveVectorStoreBackend() === "pinecone" ? "openai" : "local";
+}
+
+// Identifies the embeddings a vector was made with, e.g.
+// "openai/text-embedding-3-small"; vectors from different embedders live in
+// unrelated spaces and cannot be compared
+export function embedderId(provider: string, model: string): string {
+  return `${provider}/${model}`;
+}
+
+// Vectors stored before the embedder was recorded were made by OpenAI
+export const LEGACY_EMBEDDER = embedderId("openai", "text-embedding-3-small");
+
+export function createEmbeddingProvider(
+  name: EmbeddingProviderName = resolveEmbeddingProvider()
+): EmbeddingProvider {
+  if (name === "local") {
+    console.log("🧮 Using local hashed n-gram embeddings");
+    return new LocalHashEmbeddingProvider();
+  }
+  return new OpenAIEmbeddingProvider();
+}
@@ -1,7 +1,11 @@
-// OpenAI Embeddings Service
-// Handles text-to-vector conversion for semantic search
+// Embeddings Service
+// Handles text-to-vector conversion for semantic search via a pluggable provider
 
-import OpenAI from "openai";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+} from "./embedding-providers";
+import { tracer } from "./tracer";
 
 export interface EmbeddingResponse {
   embedding: number[];
@@ -15,48 +19,51 @@ export interface BatchEmbeddingResponse {
 }
 
 export class EmbeddingService {
-  private openai: OpenAI | null = null;
-  private model: string;
+  private provider: EmbeddingProvider | null;
   private maxTokens: number;
   private dimensions: number; // Matching user's Pinecone index
   private maxRetries: number;
   private retryDelay: number;
 
-  constructor() {
-    this.model = "text-embedding-3-small";
+  constructor(provider?: EmbeddingProvider) {
+    this.provider = provider || null;
     this.maxTokens = 8000; // Model limit
     this.dimensions = 1024; // Updated to match user's Pinecone index
     this.maxRetries = 3; // Custom retry logic
     this.retryDelay = 1000; // 1 second base delay
   }
 
-  // Lazy initialization of OpenAI client
-  private getOpenAI(): OpenAI {
-    if (!this.openai) {
-      const apiKey = process.env.OPENAI_API_KEY;
-      console.log("🔑 Debug: Checking OpenAI API key...");
-      console.log("🔑 Debug: OPENAI_API_KEY exists:", !!apiKey);
-      console.log(
-        "🔑 Debug: OPENAI_API_KEY length:",
-        apiKey ? apiKey.length : 0
-      );
-      console.log(
-        "🔑 Debug: OPENAI_API_KEY starts with:",
-        apiKey ? apiKey.substring(0, 7) + "..." : "undefined"
-      );
+  // Lazy provider resolution so env is read after dotenv has loaded
+  private getProvider(): EmbeddingProvider {
+    if (!this.provider) {
+      this.provider = createEmbeddingProvider();
+    }
+    return this.provider;
+  }
 
-      if (!apiKey) {
-        throw new Error("OPENAI_API_KEY environment variable is not set");
-      }
+  private get model(): string {
+    return this.getProvider().model;
+  }
 
-      this.openai = new OpenAI({
-        apiKey: apiKey,
-        timeout: 30000, // 30 second timeout
-        maxRetries: 2, // Built-in retries
-      });
-      console.log("✅ Debug: OpenAI client created successfully");
-    }
-    return this.openai;
+  getProviderName(): string {
+    return this.getProvider().name;
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  // One provider call, traced
+  private embed(texts: string[]) {
+    const provider = this.getProvider();
+    const attributes = {
+      "embedding.provider": provider.name,
+      "embedding.model": provider.model,
+      "embedding.inputs": texts.length,
+    };
+    return tracer.span("embedding.create", { kind: "client", attributes }, () =>
+      provider.embed(texts, this.dimensions)
+    );
   }
 
   // Create a single embedding with retry logic
@@ -72,15 +79,10 @@ export class EmbeddingService {
           `🔧 Attempt ${attempt}/${this.maxRetries} - Creating embedding...`
         );
 
-        const openai = this.getOpenAI();
-        const response = await openai.embeddings.create({
-          model: this.model,
-          input: processedText,
-          dimensions: this.dimensions, // Specify dimensions to match Pinecone index
-        });
+        const response = await this.embed([processedText]);
 
         console.log(`✅ Embedding created successfully on attempt ${attempt}`);
-        return response.data[0].embedding;
+        return response.embeddings[0];
       } catch (error: any) {
         lastError = error;
         console.error(
@@ -148,16 +150,10 @@ export class EmbeddingService {
               }, attempt ${batchAttempt}`
             );
 
-            const openai = this.getOpenAI();
-            const response = await openai.embeddings.create({
-              model: this.model,
-              input: batch,
-              dimensions: this.dimensions, // Specify dimensions
-            });
+            const response = await this.embed(batch);
 
-            const batchEmbeddings = response.data.map((item) => item.embedding);
-            allEmbeddings = allEmbeddings.concat(batchEmbeddings);
-            totalTokens += response.usage.total_tokens;
+            allEmbeddings = allEmbeddings.concat(response.embeddings);
+            totalTokens += response.totalTokens;
             batchSuccess = true;
 
             console.log(
@@ -187,7 +183,7 @@ export class EmbeddingService {
         }
 
         // Rate limiting pause between successful batches
-        if (batches.length > 1) {
+        if (batches.length > 1 && this.getProviderName() !== "local") {
           await new Promise((resolve) => setTimeout(resolve, 500)); // Increased delay
         }
       }
@@ -258,8 +254,8 @@ export class EmbeddingService {
   }
 
   // Create fresh instance (avoid singleton issues)
-  static createFreshInstance(): EmbeddingService {
-    return new EmbeddingService();
+  static createFreshInstance(provider?: EmbeddingProvider): EmbeddingService {
+    return new EmbeddingService(provider);
   }
 
   // Initialize the service
@@ -294,5 +290,5 @@ EmbeddingService.prototype.initialize = async function () {
 };
 
 // Export factory function for fresh instances
-export const createEmbeddingService = () =>
-  EmbeddingService.createFreshInstance();
+export const createEmbeddingService = (provider?: EmbeddingProvider) =>
+  EmbeddingService.createFreshInstance(provider);
@@ -1,6 +1,15 @@
 // Enhanced OMS API Client - Professional API-first data access
 // Supports all discovered endpoints with intelligent caching, retries, and health monitoring
 
+import { configManager } from "./config-manager";
+import { Span, tracer } from "./tracer";
+import { CircuitBreaker, CircuitBreakerSnapshot } from "./circuit-breaker";
+import {
+  isAuthFailure,
+  OMSAuthenticator,
+  OMSAuthStatus,
+} from "./oms-authenticator";
+
 // ===== COMPREHENSIVE API INTERFACES =====
 
 export interface APIJobListResponse {
@@ -377,6 +386,15 @@ export interface APIJobLinesCostDetails {
   error?: APIError;
 }
 
+// Envelope returned by the OMS write handlers
+export interface APIWriteResponse {
+  isSuccess: boolean;
+  isError: boolean;
+  data: unknown;
+  responseText?: string | null;
+  error?: APIError | null;
+}
+
 // ===== REQUEST INTERFACES =====
 
 export interface JobListFilters {
@@ -421,25 +439,78 @@ interface APIClientConfig {
   rateLimitPerMinute: number;
   connectionPoolSize: number;
   healthCheckInterval: number;
+  circuitFailureThreshold: number; // Consecutive failures that open a circuit
+  circuitResetTimeout: number; // ms an open circuit waits before probing
 }
 
-interface RequestOptions {
+// Runtime config paths the client honours, and the setting each one drives
+const CONFIG_OVERRIDE_PATHS: Record<string, keyof APIClientConfig> = {
+  "api.timeout": "defaultTimeout",
+  "api.maxRetries": "maxRetries",
+  "api.retryDelay": "retryDelay",
+  "api.rateLimitPerMinute": "rateLimitPerMinute",
+  "api.connectionPoolSize": "connectionPoolSize",
+  "api.circuitFailureThreshold": "circuitFailureThreshold",
+  "api.circuitResetTimeout": "circuitResetTimeout",
+};
+
+export interface RequestOptions {
   timeout?: number;
   retries?: number;
-  skipCache?: boolean;
+  skipCache?: boolean; // Also opts out of sharing an in-flight request
   priority?: "low" | "normal" | "high";
 }
 
+// Queue position for requests waiting on a connection; lower goes first
+const PRIORITY_RANK: Record<NonNullable<RequestOptions["priority"]>, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+// Parts of a job that getJobDetailsBulk can fetch
+export type JobDetailPart =
+  | "job"
+  | "lines"
+  | "costDetails"
+  | "shipments"
+  | "history"
+  | "files"
+  | "stock";
+
+export interface JobDetailsBulkOptions {
+  concurrency?: number; // Jobs fetched at once
+  priority?: RequestOptions["priority"];
+  includePriceBands?: boolean; // With "lines"
+  customerIds?: Record<string, string | undefined>; // jobNumber -> customer
+}
+
+// Requested parts only; a part that failed is missing and has an error
+export interface JobDetailsBulkEntry {
+  jobNumber: string;
+  job?: APIJob | null;
+  lines?: APIJobLine[];
+  costDetails?: APIJobLinesCostDetails;
+  shipments?: APIJobShipment[];
+  history?: APIJobHistory["data"] | null;
+  files?: APIJobFile[];
+  stockItems?: unknown;
+  errors: Partial<Record<JobDetailPart, string>>;
+}
+
 // ===== ENHANCED API CLIENT CLASS =====
 
 export class EnhancedOMSAPIClient {
   private config: APIClientConfig;
+  private baseConfig: APIClientConfig;
   private cache = new Map<string, CacheEntry<unknown>>();
   private rateLimitTokens: number;
   private lastRateLimitReset: number;
   private healthStatus = new Map<string, boolean>();
-  private authCookies = "";
-  private requestQueue: Array<() => Promise<void>> = [];
+  private circuits = new Map<string, CircuitBreaker>(); // Keyed by endpoint path
+  private authenticator: OMSAuthenticator;
+  private requestQueue: Array<{ rank: number; run: () => Promise<void> }> = [];
+  private inFlight = new Map<string, Promise<unknown>>(); // Keyed by cache key
   private activeRequests = 0;
 
   // Statistics tracking
@@ -448,6 +519,7 @@ export class EnhancedOMSAPIClient {
     totalErrors: 0,
     totalResponseTime: 0,
     averageResponseTime: 0,
+    coalescedRequests: 0,
   };
 
   // Cache for category unit mappings
@@ -465,8 +537,12 @@ export class EnhancedOMSAPIClient {
       rateLimitPerMinute: 60,
       connectionPoolSize: 5,
       healthCheckInterval: 30 * 1000, // 30 seconds
+      circuitFailureThreshold: 5,
+      circuitResetTimeout: 30 * 1000, // 30 seconds
       ...config,
     };
+    this.baseConfig = { ...this.config };
+    this.authenticator = new OMSAuthenticator({ baseUrl: this.config.baseUrl });
 
     this.rateLimitTokens = this.config.rateLimitPerMinute;
     this.lastRateLimitReset = Date.now();
@@ -488,16 +564,43 @@ export class EnhancedOMSAPIClient {
     setInterval(
       () => this.performHealthCheck(),
       this.config.healthCheckInterval
-    );
+    ).unref?.();
   }
 
   // ===== AUTHENTICATION =====
 
   setAuthCookies(cookies: string): void {
-    this.authCookies = cookies;
+    this.authenticator.setCookies(cookies);
     console.log("🔐 Authentication cookies updated");
   }
 
+  getAuthStatus(): OMSAuthStatus {
+    return this.authenticator.getStatus();
+  }
+
+  // ===== RUNTIME CONFIGURATION =====
+
+  // Apply api.* overrides; settings without one go back to the values the
+  // client was created with
+  applyConfigOverrides(overrides: Record<string, unknown>): void {
+    const previousLimit = this.config.rateLimitPerMinute;
+    const next: APIClientConfig = { ...this.baseConfig };
+    Object.entries(CONFIG_OVERRIDE_PATHS).forEach(([path, setting]) => {
+      if (typeof overrides[path] === "number") {
+        (next as unknown as Record<string, unknown>)[setting] = overrides[path];
+      }
+    });
+    this.config = next;
+
+    // Keep the tokens already spent this minute
+    const limit = this.config.rateLimitPerMinute;
+    this.rateLimitTokens = Math.max(
+      0,
+      Math.min(limit, this.rateLimitTokens + limit - previousLimit)
+    );
+    this.processQueue();
+  }
+
   // ===== RATE LIMITING =====
 
   private checkRateLimit(): boolean {
@@ -528,23 +631,38 @@ export class EnhancedOMSAPIClient {
 
   // ===== CONNECTION POOLING =====
 
-  private async acquireConnection<T>(operation: () => Promise<T>): Promise<T> {
+  private async acquireConnection<T>(
+    priority: RequestOptions["priority"],
+    operation: () => Promise<T>
+  ): Promise<T> {
     return new Promise((resolve, reject) => {
       const execute = async () => {
         if (this.activeRequests >= this.config.connectionPoolSize) {
-          // Add to queue
-          this.requestQueue.push(async () => {
-            try {
-              this.activeRequests++;
-              const result = await operation();
-              resolve(result);
-            } catch (error) {
-              reject(error);
-            } finally {
-              this.activeRequests--;
-              this.processQueue();
-            }
-          });
+          // Queue behind requests of the same or higher priority
+          const rank = PRIORITY_RANK[priority || "normal"];
+          const entry = {
+            rank,
+            run: async () => {
+              try {
+                this.activeRequests++;
+                const result = await operation();
+                resolve(result);
+              } catch (error) {
+                reject(error);
+              } finally {
+                this.activeRequests--;
+                this.processQueue();
+              }
+            },
+          };
+          const index = this.requestQueue.findIndex(
+            (queued) => queued.rank > rank
+          );
+          if (index === -1) {
+            this.requestQueue.push(entry);
+          } else {
+            this.requestQueue.splice(index, 0, entry);
+          }
         } else {
           // Execute immediately
           try {
@@ -571,7 +689,7 @@ export class EnhancedOMSAPIClient {
     ) {
       const nextRequest = this.requestQueue.shift();
       if (nextRequest) {
-        nextRequest();
+        nextRequest.run();
       }
     }
   }
@@ -612,19 +730,90 @@ export class EnhancedOMSAPIClient {
     console.log(`💾 Cached response for: ${key.substring(0, 50)}...`);
   }
 
+  // Drop cached responses for one job, and every job list page since any of
+  // them may include it. Returns how many entries were removed.
+  invalidateJob(jobNumber: string): number {
+    const jobParam = new RegExp(
+      `[:&](jobNumber|text-filter)=${encodeURIComponent(jobNumber)}(&|$)`
+    );
+    let removed = 0;
+    this.cache.forEach((_, key) => {
+      if (jobParam.test(key) || key.includes("JobStatusQueryAsync")) {
+        this.cache.delete(key);
+        removed++;
+      }
+    });
+    console.log(
+      `🗑️ Invalidated ${removed} cached responses for ${jobNumber}`
+    );
+    return removed;
+  }
+
   // ===== CORE REQUEST HANDLING =====
 
   private async makeRequest<T>(
     url: string,
     options: RequestInit = {},
     requestOptions: RequestOptions = {}
+  ): Promise<T> {
+    const attributes = {
+      "http.method": options.method || "GET",
+      "http.url": url.split("?")[0],
+    };
+
+    // Identical cacheable requests already on the wire are shared, so
+    // concurrent chats enriching the same job make one call
+    const key = this.getCacheKey(url, options);
+    const pending = requestOptions.skipCache
+      ? undefined
+      : this.inFlight.get(key);
+    if (pending) {
+      this.stats.coalescedRequests++;
+      return tracer.span(
+        "oms.makeRequest",
+        { kind: "client", attributes: { ...attributes, coalesced: true } },
+        () => pending as Promise<T>
+      );
+    }
+
+    const request = tracer.span(
+      "oms.makeRequest",
+      { kind: "client", attributes },
+      (span) => this.executeRequest<T>(url, options, requestOptions, span)
+    );
+    if (requestOptions.skipCache) return request;
+
+    this.inFlight.set(key, request);
+    return request.finally(() => this.inFlight.delete(key));
+  }
+
+  // Attributes go through the span handle: queued requests run in the
+  // async context of whichever request released the connection
+  private async executeRequest<T>(
+    url: string,
+    options: RequestInit,
+    requestOptions: RequestOptions,
+    span: Span
   ): Promise<T> {
     const cacheKey = this.getCacheKey(url, options);
 
     // Check cache first
     if (!requestOptions.skipCache) {
       const cached = this.getFromCache<T>(cacheKey);
-      if (cached) return cached;
+      if (cached) {
+        span.setAttribute("cache.hit", true);
+        return cached;
+      }
+    }
+
+    // Fail fast rather than queue behind an endpoint that is down
+    const endpoint = url.split("?")[0];
+    const circuit = this.getCircuit(endpoint);
+    span.setAttribute("circuit.state", circuit.getState());
+    if (!circuit.canRequest()) {
+      throw new Error(
+        `OMS endpoint ${endpoint} unavailable (circuit ${circuit.getState()})`
+      );
     }
 
     // Check rate limit
@@ -632,18 +821,27 @@ export class EnhancedOMSAPIClient {
       await this.waitForRateLimit();
     }
 
-    return this.acquireConnection(async () => {
+    return this.acquireConnection(requestOptions.priority, async () => {
       const retries = requestOptions.retries ?? this.config.maxRetries;
       const timeout = requestOptions.timeout ?? this.config.defaultTimeout;
+      let renewed = false; // The session is renewed at most once per request
 
       for (let attempt = 0; attempt <= retries; attempt++) {
+        let responded = false; // The endpoint answered, even if with an error
+        let authFailed = false; // Retrying with the same session won't help
         try {
+          // A login that fails counts against the circuit like any other
+          // outage, which also settles a half-open probe
+          await this.authenticator.ensureSession();
+
           console.log(`🌐 Making request to: ${url} (attempt ${attempt + 1})`);
+          span.setAttribute("http.attempts", attempt + 1);
 
           // Track request statistics
           const requestStartTime = Date.now();
           this.stats.totalRequests++;
 
+          const cookies = this.authenticator.getCookies();
           const controller = new AbortController();
           const timeoutId = setTimeout(() => controller.abort(), timeout);
 
@@ -655,13 +853,14 @@ export class EnhancedOMSAPIClient {
               "X-Requested-With": "XMLHttpRequest",
               "User-Agent":
                 "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-              Cookie: this.authCookies,
+              Cookie: cookies,
               ...options.headers,
             },
             signal: controller.signal,
           });
 
           clearTimeout(timeoutId);
+          responded = response.status < 500;
 
           // Track response time
           const responseTime = Date.now() - requestStartTime;
@@ -669,25 +868,34 @@ export class EnhancedOMSAPIClient {
           this.stats.averageResponseTime =
             this.stats.totalResponseTime / this.stats.totalRequests;
 
-          if (!response.ok) {
-            this.stats.totalErrors++;
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-          }
-
-          // Get response text first to check if it's HTML
+          // Get response text first to check for the login page
           const responseText = await response.text();
 
-          // Check if response is HTML (likely an error page)
-          if (
-            responseText.includes("<!DOCTYPE") ||
-            responseText.includes("<html")
-          ) {
+          // An expired session gets a 401 or the login page; log in again
+          // and replay the request without using up a retry
+          if (isAuthFailure(response, responseText)) {
             this.stats.totalErrors++;
+            authFailed = true;
+            if (!renewed) {
+              renewed = true; // Throws when there are no credentials
+              await this.authenticator.refresh(cookies);
+              span.setAttribute("auth.renewed", true);
+              console.log(`🔁 Replaying ${url} with the renewed session`);
+              attempt--;
+              continue;
+            }
             throw new Error(
-              `Authentication failed - received HTML response instead of JSON. Session may have expired.`
+              `Authentication failed - received ${
+                response.status === 401 ? "HTTP 401" : "the login page"
+              } instead of JSON. Session may have expired.`
             );
           }
 
+          if (!response.ok) {
+            this.stats.totalErrors++;
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+          }
+
           // Try to parse as JSON
           let data: T;
           try {
@@ -707,14 +915,33 @@ export class EnhancedOMSAPIClient {
             this.setCache(cacheKey, data);
           }
 
+          circuit.recordSuccess();
           console.log(`✅ Request successful: ${url} (${responseTime}ms)`);
           return data;
         } catch (error) {
           console.error(`❌ Request failed (attempt ${attempt + 1}): ${error}`);
 
-          if (attempt === retries) {
+          // Only outages count against the circuit; a 4xx or a bad payload
+          // still means the endpoint is up
+          if (responded) {
+            circuit.recordSuccess();
+          } else {
+            circuit.recordFailure(error);
+          }
+
+          if (attempt === retries || authFailed) {
+            throw new Error(
+              `Request failed after ${attempt + 1} attempts: ${error}`
+            );
+          }
+
+          // No point retrying once the circuit has opened
+          if (circuit.getState() === "open") {
+            span.setAttribute("circuit.state", "open");
             throw new Error(
-              `Request failed after ${retries + 1} attempts: ${error}`
+              `Request failed after ${
+                attempt + 1
+              } attempts, circuit open for ${endpoint}: ${error}`
             );
           }
 
@@ -730,7 +957,10 @@ export class EnhancedOMSAPIClient {
 
   // ===== PRIMARY API ENDPOINTS =====
 
-  async getJobList(filters: JobListFilters = {}): Promise<APIJobListResponse> {
+  async getJobList(
+    filters: JobListFilters = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<APIJobListResponse> {
     const defaultFilters: JobListFilters = {
       "machine-filter":
         "US,1,2,4,8,16,32,64,128,256,512,1024,2048,4096,8192,16384",
@@ -765,13 +995,14 @@ export class EnhancedOMSAPIClient {
         headers: { "Content-Type": "application/x-www-form-urlencoded" },
         body,
       },
-      { priority: "high" }
+      { priority: "high", ...requestOptions }
     );
   }
 
   async getJobLines(
     jobNumber: string,
-    customerId?: string
+    customerId?: string,
+    requestOptions: RequestOptions = {}
   ): Promise<APIJobLines> {
     const params = new URLSearchParams({
       jobNumber,
@@ -779,29 +1010,41 @@ export class EnhancedOMSAPIClient {
       ...(customerId && { customerId }),
     });
 
-    return this.makeRequest<APIJobLines>(`/Jobs/ajax/JobHandler.ashx`, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: params,
-    });
+    return this.makeRequest<APIJobLines>(
+      `/Jobs/ajax/JobHandler.ashx`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: params,
+      },
+      requestOptions
+    );
   }
 
-  async getJobHistory(jobNumber: string): Promise<APIJobHistory> {
+  async getJobHistory(
+    jobNumber: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<APIJobHistory> {
     const params = new URLSearchParams({
       jobNumber,
       bit: "get-job-history",
     });
 
-    return this.makeRequest<APIJobHistory>(`/Jobs/ajax/JobHandler.ashx`, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: params,
-    });
+    return this.makeRequest<APIJobHistory>(
+      `/Jobs/ajax/JobHandler.ashx`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: params,
+      },
+      requestOptions
+    );
   }
 
   async getJobShipments(
     jobNumber: string,
-    customerId?: string
+    customerId?: string,
+    requestOptions: RequestOptions = {}
   ): Promise<APIJobShipments> {
     const params = new URLSearchParams({
       jobNumber,
@@ -809,24 +1052,35 @@ export class EnhancedOMSAPIClient {
       ...(customerId && { customerId }),
     });
 
-    return this.makeRequest<APIJobShipments>(`/Jobs/ajax/JobHandler.ashx`, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: params,
-    });
+    return this.makeRequest<APIJobShipments>(
+      `/Jobs/ajax/JobHandler.ashx`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: params,
+      },
+      requestOptions
+    );
   }
 
-  async getJobFiles(jobNumber: string): Promise<APIJobFiles> {
+  async getJobFiles(
+    jobNumber: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<APIJobFiles> {
     const params = new URLSearchParams({
       jobNumber,
       bit: "get-job-files",
     });
 
-    return this.makeRequest<APIJobFiles>(`/Jobs/ajax/JobHandler.ashx`, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: params,
-    });
+    return this.makeRequest<APIJobFiles>(
+      `/Jobs/ajax/JobHandler.ashx`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: params,
+      },
+      requestOptions
+    );
   }
 
   async getCustomerById(customerId: string): Promise<unknown> {
@@ -853,21 +1107,29 @@ export class EnhancedOMSAPIClient {
     });
   }
 
-  async getAllInwardsAndStockItems(jobNumber: string): Promise<unknown> {
+  async getAllInwardsAndStockItems(
+    jobNumber: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<unknown> {
     const params = new URLSearchParams({
       jobNumber,
       bit: "get-all-inwards-and-stock-items",
     });
 
-    return this.makeRequest(`/Jobs/ajax/JobHandler.ashx`, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: params,
-    });
+    return this.makeRequest(
+      `/Jobs/ajax/JobHandler.ashx`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: params,
+      },
+      requestOptions
+    );
   }
 
   async getJobLinesCostDetails(
-    jobNumber: string
+    jobNumber: string,
+    requestOptions: RequestOptions = {}
   ): Promise<APIJobLinesCostDetails> {
     const params = new URLSearchParams({
       jobNumber,
@@ -880,18 +1142,22 @@ export class EnhancedOMSAPIClient {
         method: "POST",
         headers: { "Content-Type": "application/x-www-form-urlencoded" },
         body: params,
-      }
+      },
+      requestOptions
     );
   }
 
-  async getJobByNumber(jobNumber: string): Promise<APIJobListResponse> {
+  async getJobByNumber(
+    jobNumber: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<APIJobListResponse> {
     const filters: JobListFilters = {
       "text-filter": jobNumber, // Filter by job number
       "page-size": "1", // We only need one result
       "requested-page": "1",
     };
 
-    return this.getJobList(filters);
+    return this.getJobList(filters, requestOptions);
   }
 
   /**
@@ -1587,6 +1853,107 @@ export class EnhancedOMSAPIClient {
     }
   }
 
+  // ===== WRITE ENDPOINTS =====
+  // UNVERIFIED: these bits and the idempotency-key field are not in the
+  // Postman collection or api_knowledge.md; they follow the mock OMS
+  // (mock-oms-server.ts), so they are refused unless API_ENABLE_WRITES=true.
+  // Writes skip the cache and in-flight sharing and are never retried: a
+  // write that timed out may still have been applied.
+
+  async addJobTag(
+    jobNumber: string,
+    tag: string,
+    idempotencyKey?: string
+  ): Promise<APIWriteResponse> {
+    return this.writeJob("add-job-tag", jobNumber, { tag }, idempotencyKey);
+  }
+
+  async removeJobTag(
+    jobNumber: string,
+    tag: string,
+    idempotencyKey?: string
+  ): Promise<APIWriteResponse> {
+    return this.writeJob("remove-job-tag", jobNumber, { tag }, idempotencyKey);
+  }
+
+  // dateDue as YYYY-MM-DD
+  async updateJobDueDate(
+    jobNumber: string,
+    dateDue: string,
+    idempotencyKey?: string
+  ): Promise<APIWriteResponse> {
+    return this.writeJob(
+      "update-job-due-date",
+      jobNumber,
+      { "date-due": dateDue },
+      idempotencyKey
+    );
+  }
+
+  async addJobComment(
+    jobNumber: string,
+    comment: string,
+    idempotencyKey?: string
+  ): Promise<APIWriteResponse> {
+    return this.writeJob(
+      "add-job-comment",
+      jobNumber,
+      { comment },
+      idempotencyKey
+    );
+  }
+
+  async markJobStockReceived(
+    jobNumber: string,
+    idempotencyKey?: string
+  ): Promise<APIWriteResponse> {
+    return this.writeJob("mark-stock-received", jobNumber, {}, idempotencyKey);
+  }
+
+  // deliveryOption is the option label from getDeliveryOptions(), e.g. "NDA"
+  async updateJobDeliveryOption(
+    jobNumber: string,
+    deliveryOption: string,
+    idempotencyKey?: string
+  ): Promise<APIWriteResponse> {
+    return this.writeJob(
+      "update-job-delivery-option",
+      jobNumber,
+      { "delivery-option": deliveryOption },
+      idempotencyKey
+    );
+  }
+
+  private async writeJob(
+    bit: string,
+    jobNumber: string,
+    fields: Record<string, string>,
+    idempotencyKey?: string
+  ): Promise<APIWriteResponse> {
+    if (!configManager.getCategory("api").enableWrites) {
+      throw new Error("OMS writes are disabled (set API_ENABLE_WRITES=true)");
+    }
+
+    const params = new URLSearchParams({
+      jobNumber,
+      ...fields,
+      ...(idempotencyKey && { "idempotency-key": idempotencyKey }),
+      bit,
+    });
+
+    const response = await this.makeRequest<APIWriteResponse>(
+      `/Jobs/ajax/JobHandler.ashx`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: params,
+      },
+      { priority: "high", skipCache: true, retries: 0 }
+    );
+    this.invalidateJob(jobNumber);
+    return response;
+  }
+
   // ===== BATCH OPERATIONS =====
 
   async getJobDetails(
@@ -1640,100 +2007,7 @@ export class EnhancedOMSAPIClient {
 
         // Optionally fetch price bands for each line item
         if (options.includePriceBands && lines.length > 0) {
-          console.log(
-            `💰 Fetching price bands for ${lines.length} line items...`
-          );
-
-          // Fetch price bands in parallel for all line items
-          const priceBandPromises = lines.map(async (line) => {
-            try {
-              console.log(`🔍 [PRICE-BAND] Processing line ${line.ID}:`, {
-                program: line.Prgram,
-                quantity: line.Qty,
-                description: line.Description,
-                garment: line.Garment,
-              });
-
-              // Get the correct category unit ID for this program and quantity
-              const categoryUnitId = await this.getCategoryUnitIdForProgram(
-                line.Prgram,
-                line.Qty
-              );
-              const priceTier = await this.getPriceTierForProgram(line.Prgram);
-              const priceCode = await this.getPriceCodeForProgram(line.Prgram);
-
-              console.log(`🔍 [PRICE-BAND] Fetching for line ${line.ID}:`, {
-                categoryUnitId,
-                priceTier,
-                priceCode,
-                program: line.Prgram,
-                assetId: line.AssetId,
-              });
-
-              const priceBandResponse = (await this.getPriceQuantityBands(
-                categoryUnitId.toString(),
-                priceTier,
-                priceCode
-              )) as any; // Type assertion for now since the response type is unknown
-
-              console.log(
-                `📡 [PRICE-BAND] Raw response for line ${line.ID}:`,
-                priceBandResponse
-              );
-
-              // Check if the response indicates an error
-              if (priceBandResponse?.isError || !priceBandResponse?.isSuccess) {
-                console.warn(
-                  `⚠️ [PRICE-BAND] API error for line ${line.ID}:`,
-                  priceBandResponse?.error?.Message || "Unknown error"
-                );
-                return { lineId: line.ID, priceBand: null };
-              }
-
-              const transformedPriceBand = {
-                categoryCode: priceBandResponse?.CategoryCode,
-                unitType: priceBandResponse?.UnitType,
-                priceCode: priceBandResponse?.PriceCode,
-                humanName: priceBandResponse?.HumanName,
-                filterName: priceBandResponse?.FilterName,
-                processCode: priceBandResponse?.ProcessCode,
-                categorySetupMultiplier:
-                  priceBandResponse?.CategorySetupMultiplier,
-                priceFormulaType: priceBandResponse?.PriceFormulaType,
-                active: priceBandResponse?.Active,
-              };
-
-              console.log(
-                `✅ [PRICE-BAND] Transformed for line ${line.ID}:`,
-                transformedPriceBand
-              );
-
-              return {
-                lineId: line.ID,
-                priceBand: transformedPriceBand,
-              };
-            } catch (error) {
-              console.warn(
-                `⚠️ Failed to fetch price band for line ${line.ID}:`,
-                error
-              );
-              return { lineId: line.ID, priceBand: null };
-            }
-          });
-
-          const priceBandResults = await Promise.allSettled(priceBandPromises);
-
-          // Attach price band data to line items
-          priceBandResults.forEach((result, index) => {
-            if (result.status === "fulfilled" && result.value.priceBand) {
-              lines[index] = {
-                ...lines[index],
-                priceBand: result.value.priceBand,
-              };
-            }
-          });
-
-          console.log(`✅ Price bands fetched for ${lines.length} line items`);
+          lines = await this.attachPriceBands(lines);
         }
       }
 
@@ -1763,6 +2037,103 @@ export class EnhancedOMSAPIClient {
     }
   }
 
+  // Look up the price band of every line item, in parallel
+  private async attachPriceBands(lines: APIJobLine[]): Promise<APIJobLine[]> {
+    console.log(`💰 Fetching price bands for ${lines.length} line items...`);
+
+    // Fetch price bands in parallel for all line items
+    const priceBandPromises = lines.map(async (line) => {
+      try {
+        console.log(`🔍 [PRICE-BAND] Processing line ${line.ID}:`, {
+          program: line.Prgram,
+          quantity: line.Qty,
+          description: line.Description,
+          garment: line.Garment,
+        });
+
+        // Get the correct category unit ID for this program and quantity
+        const categoryUnitId = await this.getCategoryUnitIdForProgram(
+          line.Prgram,
+          line.Qty
+        );
+        const priceTier = await this.getPriceTierForProgram(line.Prgram);
+        const priceCode = await this.getPriceCodeForProgram(line.Prgram);
+
+        console.log(`🔍 [PRICE-BAND] Fetching for line ${line.ID}:`, {
+          categoryUnitId,
+          priceTier,
+          priceCode,
+          program: line.Prgram,
+          assetId: line.AssetId,
+        });
+
+        const priceBandResponse = (await this.getPriceQuantityBands(
+          categoryUnitId.toString(),
+          priceTier,
+          priceCode
+        )) as any; // Type assertion for now since the response type is unknown
+
+        console.log(
+          `📡 [PRICE-BAND] Raw response for line ${line.ID}:`,
+          priceBandResponse
+        );
+
+        // Check if the response indicates an error
+        if (priceBandResponse?.isError || !priceBandResponse?.isSuccess) {
+          console.warn(
+            `⚠️ [PRICE-BAND] API error for line ${line.ID}:`,
+            priceBandResponse?.error?.Message || "Unknown error"
+          );
+          return { lineId: line.ID, priceBand: null };
+        }
+
+        const transformedPriceBand = {
+          categoryCode: priceBandResponse?.CategoryCode,
+          unitType: priceBandResponse?.UnitType,
+          priceCode: priceBandResponse?.PriceCode,
+          humanName: priceBandResponse?.HumanName,
+          filterName: priceBandResponse?.FilterName,
+          processCode: priceBandResponse?.ProcessCode,
+          categorySetupMultiplier: priceBandResponse?.CategorySetupMultiplier,
+          priceFormulaType: priceBandResponse?.PriceFormulaType,
+          active: priceBandResponse?.Active,
+        };
+
+        console.log(
+          `✅ [PRICE-BAND] Transformed for line ${line.ID}:`,
+          transformedPriceBand
+        );
+
+        return {
+          lineId: line.ID,
+          priceBand: transformedPriceBand,
+        };
+      } catch (error) {
+        console.warn(
+          `⚠️ Failed to fetch price band for line ${line.ID}:`,
+          error
+        );
+        return { lineId: line.ID, priceBand: null };
+      }
+    });
+
+    const priceBandResults = await Promise.allSettled(priceBandPromises);
+
+    // Attach price band data to line items
+    const withBands = [...lines];
+    priceBandResults.forEach((result, index) => {
+      if (result.status === "fulfilled" && result.value.priceBand) {
+        withBands[index] = {
+          ...lines[index],
+          priceBand: result.value.priceBand,
+        };
+      }
+    });
+
+    console.log(`✅ Price bands fetched for ${lines.length} line items`);
+    return withBands;
+  }
+
   /**
    * Batch get job details for multiple jobs to reduce API calls
    */
@@ -1848,6 +2219,120 @@ export class EnhancedOMSAPIClient {
     return results;
   }
 
+  /**
+   * Fetch the requested parts of many jobs, at most `concurrency` jobs at a
+   * time. Each part fails on its own, and requests another caller already
+   * has in flight are shared rather than repeated.
+   */
+  async getJobDetailsBulk(
+    jobNumbers: string[],
+    parts: JobDetailPart[],
+    options: JobDetailsBulkOptions = {}
+  ): Promise<Map<string, JobDetailsBulkEntry>> {
+    const startTime = Date.now();
+    const uniqueJobs = Array.from(new Set(jobNumbers));
+    const uniqueParts = Array.from(new Set(parts));
+    const concurrency = Math.max(1, options.concurrency ?? 4);
+    // Without a priority each endpoint keeps its own default
+    const requestOptions: RequestOptions = options.priority
+      ? { priority: options.priority }
+      : {};
+    const results = new Map<string, JobDetailsBulkEntry>();
+
+    console.log(
+      `📡 Bulk fetching ${uniqueParts.join(", ")} for ${
+        uniqueJobs.length
+      } jobs (concurrency ${concurrency})...`
+    );
+
+    const fetchJob = async (jobNumber: string) => {
+      const customerId = options.customerIds?.[jobNumber];
+      const entry: JobDetailsBulkEntry = { jobNumber, errors: {} };
+      const fetchers: Record<JobDetailPart, () => Promise<void>> = {
+        job: async () => {
+          const response = await this.getJobByNumber(jobNumber, requestOptions);
+          entry.job = response.isSuccess
+            ? response.data.Entities[0] || null
+            : null;
+        },
+        lines: async () => {
+          const response = await this.getJobLines(
+            jobNumber,
+            customerId,
+            requestOptions
+          );
+          const lines = response.isSuccess ? response.data || [] : [];
+          entry.lines =
+            options.includePriceBands && lines.length > 0
+              ? await this.attachPriceBands(lines)
+              : lines;
+        },
+        costDetails: async () => {
+          entry.costDetails = await this.getJobLinesCostDetails(
+            jobNumber,
+            requestOptions
+          );
+        },
+        shipments: async () => {
+          const response = await this.getJobShipments(
+            jobNumber,
+            customerId,
+            requestOptions
+          );
+          entry.shipments = response.data?.JobShipments || [];
+        },
+        history: async () => {
+          const response = await this.getJobHistory(jobNumber, requestOptions);
+          entry.history = response.data || null;
+        },
+        files: async () => {
+          const response = await this.getJobFiles(jobNumber, requestOptions);
+          entry.files = response.Aux4?.Entities || [];
+        },
+        stock: async () => {
+          entry.stockItems = await this.getAllInwardsAndStockItems(
+            jobNumber,
+            requestOptions
+          );
+        },
+      };
+
+      await Promise.all(
+        uniqueParts.map(async (part) => {
+          try {
+            await fetchers[part]();
+          } catch (error) {
+            entry.errors[part] =
+              error instanceof Error ? error.message : String(error);
+          }
+        })
+      );
+      return entry;
+    };
+
+    // Each worker takes the next job until none are left
+    let nextJob = 0;
+    const worker = async () => {
+      while (nextJob < uniqueJobs.length) {
+        const jobNumber = uniqueJobs[nextJob++];
+        results.set(jobNumber, await fetchJob(jobNumber));
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, uniqueJobs.length) }, worker)
+    );
+
+    const failed = Array.from(results.values()).filter(
+      (entry) => Object.keys(entry.errors).length > 0
+    ).length;
+    console.log(
+      `✅ Bulk job details fetched for ${results.size} jobs in ${
+        Date.now() - startTime
+      }ms (${failed} with errors)`
+    );
+    return results;
+  }
+
   async getAllActiveJobs(): Promise<APIJob[]> {
     console.log(
       "📊 Fetching all active jobs with comprehensive filters and pagination..."
@@ -1907,6 +2392,32 @@ export class EnhancedOMSAPIClient {
 
   // ===== HEALTH & MONITORING =====
 
+  private getCircuit(endpoint: string): CircuitBreaker {
+    let circuit = this.circuits.get(endpoint);
+    if (!circuit) {
+      circuit = new CircuitBreaker(endpoint, () => ({
+        failureThreshold: this.config.circuitFailureThreshold,
+        resetTimeout: this.config.circuitResetTimeout,
+      }));
+      this.circuits.set(endpoint, circuit);
+    }
+    return circuit;
+  }
+
+  getCircuitStates(): Record<string, CircuitBreakerSnapshot> {
+    return Object.fromEntries(
+      Array.from(this.circuits.entries()).map(([endpoint, circuit]) => [
+        endpoint,
+        circuit.getSnapshot(),
+      ])
+    );
+  }
+
+  resetCircuits(): void {
+    this.circuits.forEach((circuit) => circuit.reset());
+    console.log("🔌 OMS circuits reset");
+  }
+
   private async performHealthCheck(): Promise<void> {
     const endpoints = [
       "/jobstatuslist/ajax/JobStatusQueryAsync.ashx",
@@ -1919,7 +2430,7 @@ export class EnhancedOMSAPIClient {
         // Make a lightweight test request
         const response = await fetch(`${this.config.baseUrl}${endpoint}`, {
           method: "HEAD",
-          headers: { Cookie: this.authCookies },
+          headers: { Cookie: this.authenticator.getCookies() },
         });
 
         this.healthStatus.set(endpoint, response.ok);
@@ -1932,6 +2443,8 @@ export class EnhancedOMSAPIClient {
   async getHealthStatus(): Promise<{
     healthy: boolean;
     endpoints: Record<string, boolean>;
+    circuits: Record<string, CircuitBreakerSnapshot>;
+    auth: OMSAuthStatus;
     cache: {
       size: number;
       hitRate: number;
@@ -1946,11 +2459,19 @@ export class EnhancedOMSAPIClient {
     };
   }> {
     const endpointStatus = Object.fromEntries(this.healthStatus);
-    const allHealthy = Object.values(endpointStatus).every(Boolean);
+    const circuits = this.getCircuitStates();
+    const auth = this.authenticator.getStatus();
+    const allHealthy =
+      Object.values(endpointStatus).every(Boolean) &&
+      Object.values(circuits).every((circuit) => circuit.state !== "open") &&
+      auth.state !== "expired" &&
+      auth.state !== "failed";
 
     return {
       healthy: allHealthy,
       endpoints: endpointStatus,
+      circuits,
+      auth,
       cache: {
         size: this.cache.size,
         hitRate: 0, // TODO: Implement cache hit rate tracking
@@ -1971,6 +2492,8 @@ export class EnhancedOMSAPIClient {
     healthy: boolean;
     responseTime?: number;
     endpoints?: Record<string, boolean>;
+    circuits?: Record<string, CircuitBreakerSnapshot>;
+    auth?: OMSAuthStatus;
     error?: string;
   }> {
     const startTime = Date.now();
@@ -1987,11 +2510,15 @@ export class EnhancedOMSAPIClient {
         healthy: healthStatus.healthy,
         responseTime,
         endpoints: healthStatus.endpoints,
+        circuits: healthStatus.circuits,
+        auth: healthStatus.auth,
       };
     } catch (error) {
       return {
         healthy: false,
         responseTime: Date.now() - startTime,
+        circuits: this.getCircuitStates(),
+        auth: this.authenticator.getStatus(),
         error: error instanceof Error ? error.message : "Health check failed",
       };
     }
@@ -2059,6 +2586,10 @@ function loadAuthCookiesFromEnv(): string {
     "";
 
   if (!cookieString) {
+    if (process.env.OMS_USERNAME && process.env.OMS_PASSWORD) {
+      console.log("🔐 No OMS cookies set, will log in as OMS_USERNAME");
+      return "";
+    }
     console.warn("⚠️ No authentication cookies found in environment variables");
     console.warn(
       "💡 Set OMS_AUTH_COOKIES or OMS_AUTH_COOKIE environment variable with your session cookies"
@@ -2076,15 +2607,26 @@ let _enhancedAPIClient: EnhancedOMSAPIClient | null = null;
 
 function getEnhancedAPIClient(): EnhancedOMSAPIClient {
   if (!_enhancedAPIClient) {
+    const apiConfig = configManager.getCategory("api");
     _enhancedAPIClient = new EnhancedOMSAPIClient({
       cacheEnabled: true,
       cacheTTL: 5 * 60 * 1000, // 5 minutes
       rateLimitPerMinute: 60,
       connectionPoolSize: 10,
+      circuitFailureThreshold: apiConfig.circuitFailureThreshold,
+      circuitResetTimeout: apiConfig.circuitResetTimeout,
     });
 
     // Set authentication cookies on first access
     if (typeof window === "undefined") {
+      // Admin config overrides apply now and whenever they change
+      const applyOverrides = () =>
+        _enhancedAPIClient!.applyConfigOverrides(
+          configManager.getOverrides("api")
+        );
+      applyOverrides();
+      configManager.watch("api", applyOverrides);
+
       // Server-side only - load auth cookies from environment
       const authCookies = loadAuthCookiesFromEnv();
       if (authCookies) {
@@ -2097,7 +2639,7 @@ function getEnhancedAPIClient(): EnhancedOMSAPIClient {
       if (process.env.NODE_ENV !== "production") {
         setTimeout(() => {
           _enhancedAPIClient!.warmupCache().catch(console.error);
-        }, 1000);
+        }, 1000).unref?.();
       }
     }
   }
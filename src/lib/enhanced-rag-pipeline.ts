@@ -12,14 +12,23 @@ import {
   ModernOrder,
   toModernOrder,
 } from "./api-first-data-service";
+import { orderVectorIndex } from "./order-vector-index";
+import { orderChangeHistory } from "./order-change-history";
 import { advancedCacheService } from "./advanced-cache-service";
 import { embeddingService } from "./embeddings";
 import { omsFunctionCaller, AvailableFunction } from "./oms-function-caller";
+import { configManager } from "./config-manager";
+import { tracer } from "./tracer";
 import {
   ConstraintSatisfactionService,
   Constraint,
   AggregationRequest,
 } from "./constraint-satisfaction-service";
+import {
+  DataScope,
+  scopeOrders,
+  scopeVectorResults,
+} from "./data-scope";
 
 export interface EnhancedRAGResult {
   answer: string;
@@ -91,6 +100,8 @@ export interface EnhancedRAGQuery {
     includeAnalytics?: boolean;
     maxOrders?: number;
     preferFreshData?: boolean;
+    sessionId?: string; // Lets follow-ups refine the session's last results
+    scope?: DataScope; // Customers the requesting user may see
   };
   filters?: {
     customer?: string;
@@ -101,10 +112,19 @@ export interface EnhancedRAGQuery {
   };
 }
 
+// Optional callbacks for callers that stream the answer as it is generated;
+// aborting the signal stops the query between steps and cancels the model
+// call in flight
+export interface RAGStreamHandlers {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
 export interface RAGContext {
   orders: ModernOrder[];
   vectorResults: EnhancedSearchResult[];
   routingInfo: RoutedQueryResult;
+  scope?: DataScope;
   enrichmentData: {
     totalLineItems: number;
     totalShipments: number;
@@ -172,7 +192,8 @@ export class EnhancedRAGPipeline {
    */
   public async processQuery(
     query: string,
-    context?: any
+    context?: any,
+    scope?: DataScope
   ): Promise<EnhancedRAGResult> {
     const startTime = Date.now();
 
@@ -184,7 +205,7 @@ export class EnhancedRAGPipeline {
         // First, get a basic list of orders to filter by constraints
         console.log("📊 Fetching basic order list for constraint filtering...");
         const basicOrdersData = await apiFirstDataService.getAllOrders();
-        const basicOrders = basicOrdersData.orders;
+        const basicOrders = scopeOrders(basicOrdersData.orders, scope);
         console.log(
           `📊 Found ${basicOrders.length} total orders for filtering`
         );
@@ -219,7 +240,10 @@ export class EnhancedRAGPipeline {
               includeShipments: false, // Not needed for pricing
               includeFiles: false, // Not needed for pricing
             });
-          const allEnrichedOrders = enrichedOrdersData.orders;
+          const allEnrichedOrders = scopeOrders(
+            enrichedOrdersData.orders,
+            scope
+          );
 
           // Filter enriched orders to match our basic filtered list
           const enrichedFilteredOrders = allEnrichedOrders.filter(
@@ -282,6 +306,7 @@ export class EnhancedRAGPipeline {
           includeFiles: true,
           maxOrders: 10,
           preferFreshData: true,
+          scope,
         },
       });
     } catch (error) {
@@ -312,26 +337,34 @@ export class EnhancedRAGPipeline {
   }
 
   // Main enhanced RAG query method with multi-step function calling
-  async queryWithContext(query: EnhancedRAGQuery): Promise<EnhancedRAGResult> {
+  async queryWithContext(
+    query: EnhancedRAGQuery,
+    handlers: RAGStreamHandlers = {}
+  ): Promise<EnhancedRAGResult> {
     const startTime = Date.now();
 
     try {
       console.log(`🧠 Processing enhanced RAG query: "${query.userQuery}"`);
 
       // Step 1: Use intelligent query router for smart data retrieval
-      const routingResult = await intelligentQueryRouter.routeQuery(
-        query.userQuery,
-        {
+      const routingResult = await tracer.span("router.routeQuery", () =>
+        intelligentQueryRouter.routeQuery(query.userQuery, {
           userPreferences: {
             preferFreshData: query.context?.preferFreshData,
             includeAnalytics: query.context?.includeAnalytics,
             maxResponseTime: 30000,
           },
-        }
+          sessionId: query.context?.sessionId,
+          scope: query.context?.scope,
+        })
       );
 
+      handlers.signal?.throwIfAborted();
+
       // Step 2: Build comprehensive context from routing result
-      const ragContext = await this.buildEnhancedContext(routingResult, query);
+      let ragContext = await tracer.span("rag.buildEnhancedContext", () =>
+        this.buildEnhancedContext(routingResult, query)
+      );
 
       // Step 3: Check advanced cache with context-aware key
       const cacheKey = this.generateCacheKey(query, ragContext);
@@ -375,7 +408,11 @@ export class EnhancedRAGPipeline {
         planningSteps = plan.steps.length;
 
         // Step 6: Execute multi-step function calls
-        functionCallResults = await this.executeFunctionCallPlan(plan);
+        functionCallResults = await tracer.span(
+          "rag.executeFunctionCallPlan",
+          { attributes: { steps: plan.steps.length } },
+          () => this.executeFunctionCallPlan(plan, ragContext.scope)
+        );
 
         // Step 7: Enrich context with function call results
         await this.enrichContextWithFunctionResults(
@@ -389,14 +426,23 @@ export class EnhancedRAGPipeline {
 
       if (contextQuality < 0.3) {
         console.log("⚠️ Low context quality, attempting context enrichment...");
-        await this.enrichContext(ragContext, query);
+        await tracer.span("rag.enrichContext", () =>
+          this.enrichContext(ragContext, query)
+        );
       }
 
+      // Function results and enrichment may have added orders
+      ragContext = this.scopeContext(ragContext);
+
       // Step 9: Generate enhanced response using rich context
-      const response = await this.generateEnhancedResponse(
-        query.userQuery,
-        ragContext,
-        functionCallResults
+      handlers.signal?.throwIfAborted();
+      const response = await tracer.span("rag.generateEnhancedResponse", () =>
+        this.generateEnhancedResponse(
+          query.userQuery,
+          ragContext,
+          functionCallResults,
+          handlers
+        )
       );
 
       // Step 10: Calculate final confidence and prepare result
@@ -440,6 +486,8 @@ export class EnhancedRAGPipeline {
       );
       return result;
     } catch (error) {
+      // Nobody is waiting for a fallback answer
+      if (handlers.signal?.aborted) throw error;
       console.error("❌ Enhanced RAG pipeline failed:", error);
 
       // Return fallback result
@@ -531,8 +579,8 @@ export class EnhancedRAGPipeline {
     try {
       const availableFunctions = omsFunctionCaller.getAvailableFunctions();
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o-mini",
+      const response = await this.createCompletion({
+        ...this.getModelSettings({ temperature: 0.1, max_tokens: 1000 }),
         messages: [
           {
             role: "system",
@@ -552,8 +600,6 @@ Current context has ${context.orders.length} orders and ${
 Generate a plan to answer this query using the available functions.`,
           },
         ],
-        temperature: 0.1,
-        max_tokens: 1000,
         response_format: { type: "json_object" },
       });
 
@@ -594,7 +640,8 @@ Generate a plan to answer this query using the available functions.`,
 
   // Execute multi-step function call plan
   private async executeFunctionCallPlan(
-    plan: FunctionCallPlan
+    plan: FunctionCallPlan,
+    scope?: DataScope
   ): Promise<FunctionCallResult[]> {
     console.log(`🔧 Executing ${plan.steps.length} function calls...`);
 
@@ -625,9 +672,14 @@ Generate a plan to answer this query using the available functions.`,
 
         // Execute function
         const startTime = Date.now();
-        const result = await omsFunctionCaller.executeFunction(
-          step.functionName,
-          step.parameters
+        const result = await tracer.span(
+          `function.${step.functionName}`,
+          () =>
+            omsFunctionCaller.executeFunction(
+              step.functionName,
+              step.parameters,
+              scope
+            )
         );
         const executionTime = Date.now() - startTime;
 
@@ -784,24 +836,7 @@ Generate a plan to answer this query using the available functions.`,
 
     // Recalculate enrichment data with new orders
     if (successfulResults.length > 0) {
-      context.enrichmentData = {
-        totalLineItems: context.orders.reduce(
-          (sum, order) => sum + order.lineItems.length,
-          0
-        ),
-        totalShipments: context.orders.reduce(
-          (sum, order) => sum + order.shipments.length,
-          0
-        ),
-        totalFiles: context.orders.reduce(
-          (sum, order) => sum + order.files.length,
-          0
-        ),
-        customerBreakdown: this.calculateCustomerBreakdown(context.orders),
-        statusBreakdown: this.calculateStatusBreakdown(context.orders),
-        processBreakdown: this.calculateProcessBreakdown(context.orders),
-        valueAnalysis: this.calculateValueAnalysis(context.orders),
-      };
+      context.enrichmentData = this.calculateEnrichmentData(context.orders);
     }
   }
 
@@ -810,9 +845,15 @@ Generate a plan to answer this query using the available functions.`,
     routingResult: RoutedQueryResult,
     query: EnhancedRAGQuery
   ): Promise<RAGContext> {
-    let orders: ModernOrder[] = routingResult.results.orders || [];
-    const vectorResults: EnhancedSearchResult[] =
-      routingResult.results.vectorResults || [];
+    const scope = query.context?.scope;
+    let orders: ModernOrder[] = scopeOrders(
+      routingResult.results.orders || [],
+      scope
+    );
+    const vectorResults: EnhancedSearchResult[] = scopeVectorResults(
+      routingResult.results.vectorResults || [],
+      scope
+    );
 
     // If no direct orders but we have vector results, convert vector results to orders
     console.log(
@@ -820,7 +861,10 @@ Generate a plan to answer this query using the available functions.`,
     );
     if (orders.length === 0 && vectorResults.length > 0) {
       console.log("🔄 Converting vector results to orders for RAG processing");
-      orders = await this.convertVectorResultsToOrders(vectorResults);
+      orders = scopeOrders(
+        await this.convertVectorResultsToOrders(vectorResults),
+        scope
+      );
       console.log(`✅ Converted to ${orders.length} orders for RAG processing`);
     } else if (orders.length === 0) {
       console.log(
@@ -830,8 +874,20 @@ Generate a plan to answer this query using the available functions.`,
       console.log(`✅ Using ${orders.length} direct orders for RAG processing`);
     }
 
-    // Calculate enrichment data
-    const enrichmentData = {
+    return {
+      orders,
+      vectorResults,
+      routingInfo: routingResult,
+      scope,
+      enrichmentData: this.calculateEnrichmentData(orders),
+    };
+  }
+
+  // Aggregate figures the prompt reports alongside the orders
+  private calculateEnrichmentData(
+    orders: ModernOrder[]
+  ): RAGContext["enrichmentData"] {
+    return {
       totalLineItems: orders.reduce(
         (sum, order) => sum + order.lineItems.length,
         0
@@ -846,12 +902,28 @@ Generate a plan to answer this query using the available functions.`,
       processBreakdown: this.calculateProcessBreakdown(orders),
       valueAnalysis: this.calculateValueAnalysis(orders),
     };
+  }
+
+  // Drop anything outside the context's scope. Function results and
+  // enrichment can add orders after the context is built, so this runs
+  // again right before the context reaches the model.
+  private scopeContext(context: RAGContext): RAGContext {
+    if (!context.scope) return context;
+
+    const orders = scopeOrders(context.orders, context.scope);
+    const vectorResults = scopeVectorResults(
+      context.vectorResults,
+      context.scope
+    );
 
     return {
+      ...context,
       orders,
       vectorResults,
-      routingInfo: routingResult,
-      enrichmentData,
+      enrichmentData:
+        orders.length < context.orders.length
+          ? this.calculateEnrichmentData(orders)
+          : context.enrichmentData,
     };
   }
 
@@ -883,6 +955,12 @@ Generate a plan to answer this query using the available functions.`,
 - get_price_bands: Get pricing information
 - get_category_units: Get product/material types
 
+**History Functions (no API calls, read from recorded snapshots):**
+- get_order_changes: Get recorded changes to status, due date, quantity, tags, shipments or line items since a date
+
+**Write Functions:**
+- add_job_tag / remove_job_tag, update_due_date, add_job_comment, mark_stock_received, change_delivery_option: Only when the user asks for that change; they propose it for the user to confirm and never write anything
+
 **Optimization Guidelines:**
 - Use get_job_details instead of separate get_job_cost calls when possible
 - get_job_details already includes line items with pricing
@@ -931,7 +1009,8 @@ Be strategic and efficient - don't make unnecessary function calls.`;
   private async generateEnhancedResponse(
     userQuery: string,
     context: RAGContext,
-    functionResults: FunctionCallResult[] = []
+    functionResults: FunctionCallResult[] = [],
+    handlers: RAGStreamHandlers = {}
   ): Promise<{
     answer: string;
     tokensUsed?: number;
@@ -960,29 +1039,31 @@ Be strategic and efficient - don't make unnecessary function calls.`;
               .join("\n")}`
           : "";
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: this.systemPrompt },
-          {
-            role: "user",
-            content: `Context:\n${contextText}${functionResultsContext}\n\nQuestion: ${userQuery}`,
-          },
-        ],
-        tools: availableFunctions.map((func) => ({
-          type: "function" as const,
-          function: {
-            name: func.name,
-            description: func.description,
-            parameters: func.parameters,
-          },
-        })),
-        tool_choice: "auto",
-        temperature: 0.2,
-        max_tokens: 1500,
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1,
-      });
+      const response = await this.createCompletion(
+        {
+          ...this.getModelSettings({ temperature: 0.2, max_tokens: 1500 }),
+          messages: [
+            { role: "system", content: this.systemPrompt },
+            {
+              role: "user",
+              content: `Context:\n${contextText}${functionResultsContext}\n\nQuestion: ${userQuery}`,
+            },
+          ],
+          tools: availableFunctions.map((func) => ({
+            type: "function" as const,
+            function: {
+              name: func.name,
+              description: func.description,
+              parameters: func.parameters,
+            },
+          })),
+          tool_choice: "auto",
+          presence_penalty: 0.1,
+          frequency_penalty: 0.1,
+        },
+        handlers.onToken,
+        handlers.signal
+      );
 
       const answer =
         response.choices[0]?.message?.content ||
@@ -1010,7 +1091,8 @@ Be strategic and efficient - don't make unnecessary function calls.`;
             console.log(`🔧 Calling ${functionName} with:`, parameters);
             const result = await omsFunctionCaller.executeFunction(
               functionName,
-              parameters
+              parameters,
+              context.scope
             );
             console.log(
               `✅ ${functionName} result:`,
@@ -1040,20 +1122,29 @@ Be strategic and efficient - don't make unnecessary function calls.`;
             console.log(
               "🔄 Making follow-up call with additional function results..."
             );
-            const followUpResponse = await this.openai.chat.completions.create({
-              model: "gpt-4o-mini",
-              messages: [
-                { role: "system", content: this.systemPrompt },
-                {
-                  role: "user",
-                  content: `Context:\n${contextText}${functionResultsContext}\n\nQuestion: ${userQuery}`,
-                },
-              ],
-              temperature: 0.2,
-              max_tokens: 1500,
-              presence_penalty: 0.1,
-              frequency_penalty: 0.1,
-            });
+            const followUpResponse = await this.createCompletion(
+              {
+                ...this.getModelSettings({
+                  temperature: 0.2,
+                  max_tokens: 1500,
+                }),
+                messages: [
+                  { role: "system", content: this.systemPrompt },
+                  {
+                    role: "user",
+                    content: `Context:\n${contextText}${functionResultsContext}\n\nQuestion: ${userQuery}`,
+                  },
+                ],
+                presence_penalty: 0.1,
+                frequency_penalty: 0.1,
+              },
+              // Text streamed ahead of the tool call already reached the
+              // client; the final answer replaces it when the reply is done
+              response.choices[0]?.message?.content
+                ? undefined
+                : handlers.onToken,
+              handlers.signal
+            );
 
             const finalAnswer =
               followUpResponse.choices[0]?.message?.content || answer;
@@ -1076,6 +1167,7 @@ Be strategic and efficient - don't make unnecessary function calls.`;
               structuredResponse,
             };
           } catch (followUpError) {
+            if (handlers.signal?.aborted) throw followUpError;
             console.warn(
               "⚠️ Follow-up call failed, using original response:",
               followUpError
@@ -1093,6 +1185,7 @@ Be strategic and efficient - don't make unnecessary function calls.`;
 
       return { answer, tokensUsed, structuredResponse };
     } catch (error) {
+      if (handlers.signal?.aborted) throw error;
       console.error("❌ OpenAI API call failed:", error);
       console.log("🔄 Falling back to local response generation");
 
@@ -1111,12 +1204,78 @@ Be strategic and efficient - don't make unnecessary function calls.`;
     }
   }
 
+  // Model settings for a call from the rag config, which already folds in
+  // OPENAI_MODEL / RAG_TEMPERATURE / RAG_MAX_TOKENS and any runtime override
+  // from the admin config API. The per-call defaults only apply when neither
+  // the environment nor an override sets the value
+  private getModelSettings(defaults: {
+    temperature: number;
+    max_tokens: number;
+  }): { model: string; temperature: number; max_tokens: number } {
+    const rag = configManager.getCategory("rag");
+    const overrides = configManager.getOverrides("rag");
+    const isSet = (key: string, env: string) =>
+      key in overrides || process.env[env] !== undefined;
+    return {
+      model: rag.openaiModel,
+      temperature: isSet("rag.temperature", "RAG_TEMPERATURE")
+        ? rag.temperature
+        : defaults.temperature,
+      max_tokens: isSet("rag.maxTokens", "RAG_MAX_TOKENS")
+        ? rag.maxTokens
+        : defaults.max_tokens,
+    };
+  }
+
+  // Non-streaming unless onToken is given; then content deltas are forwarded
+  // as they arrive until the model starts a tool call, and the assembled
+  // completion (tool calls included) is returned the same way. Aborting the
+  // signal cancels the request
+  private async createCompletion(
+    params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+    onToken?: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+    const attributes = { "llm.model": params.model, "llm.stream": !!onToken };
+    return tracer.span(
+      "llm.completion",
+      { kind: "client", attributes },
+      async (span) => {
+        let callingTools = false;
+        const completion = onToken
+          ? await this.openai.chat.completions
+              .stream(
+                {
+                  ...params,
+                  stream: true,
+                  stream_options: { include_usage: true },
+                },
+                { signal }
+              )
+              .on("chunk", (chunk) => {
+                if (chunk.choices[0]?.delta?.tool_calls) callingTools = true;
+              })
+              .on("content", (delta) => {
+                if (!callingTools) onToken(delta);
+              })
+              .finalChatCompletion()
+          : await this.openai.chat.completions.create(params, { signal });
+
+        if (completion.usage) {
+          span.setAttribute("llm.tokens", completion.usage.total_tokens);
+        }
+        return completion;
+      }
+    );
+  }
+
   // Format enhanced context with rich API data
   private formatEnhancedContext(
     context: RAGContext,
     userQuery: string
   ): string {
     const sections: string[] = [];
+    context = this.scopeContext(context);
 
     // Orders section
     if (context.orders.length > 0) {
@@ -1236,6 +1395,22 @@ Be strategic and efficient - don't make unnecessary function calls.`;
       }
     }
 
+    // Follow-up refinement section
+    const followUp = context.routingInfo.followUp;
+    if (followUp) {
+      sections.push("\n## Conversation Context");
+      sections.push(
+        `These orders are the results of "${followUp.basedOn}", ${followUp.description}. Answer about this refined set.`
+      );
+    }
+
+    // Recorded changes section
+    const changes = context.routingInfo.results.changes;
+    if (changes) {
+      sections.push(`\n## Recent Changes (${changes.length})`);
+      sections.push(orderChangeHistory.summarize(changes));
+    }
+
     // Vector similarity section
     if (context.vectorResults.length > 0) {
       sections.push("\n## Similar Orders Found");
@@ -1301,203 +1476,13 @@ Be strategic and efficient - don't make unnecessary function calls.`;
     vectorResults: EnhancedSearchResult[]
   ): Promise<ModernOrder[]> {
     try {
-      // Group vector results by job number to aggregate line items
-      const jobGroups = new Map<
-        string,
-        {
-          jobData: any;
-          lineItems: any[];
-          score: number;
-        }
-      >();
-
-      for (const result of vectorResults) {
-        const jobNumber = result.metadata.jobNumber;
-        if (!jobNumber) continue;
-
-        if (!jobGroups.has(jobNumber)) {
-          // Initialize job data from first result
-          jobGroups.set(jobNumber, {
-            jobData: {
-              jobNumber: result.metadata.jobNumber,
-              orderNumber: result.metadata.orderNumber,
-              customerId: (result.metadata as any).customerId,
-              customerCompany: (result.metadata as any).customerCompany,
-              status:
-                (result.metadata as any).masterStatus ||
-                (result.metadata as any).status,
-              dateEntered: result.metadata.dateEntered,
-              dateDue: result.metadata.dateDue,
-              dateDueFactory: result.metadata.dateDueFactory,
-              locationCode: result.metadata.locationCode,
-              locationName: result.metadata.locationName,
-              deliveryOption: result.metadata.deliveryOption,
-              timeSensitive: (result.metadata as any).timeSensitive,
-              mustDate: (result.metadata as any).mustDate,
-              isReprint: (result.metadata as any).isReprint,
-              hasFiles: result.metadata.hasFiles,
-              lastUpdated:
-                (result.metadata as any).lastAPIUpdate ||
-                (result.metadata as any).lastUpdated,
-              dataFreshness: (result.metadata as any).dataFreshness || "stale",
-            },
-            lineItems: [],
-            score: result.score,
-          });
-        }
-
-        const group = jobGroups.get(jobNumber)!;
-
-        // If this is a jobline result, add it as a line item with pricing
-        if ((result.metadata as any).type === "jobline") {
-          const lineItem = {
-            lineId: (result.metadata as any).lineId,
-            assetSku: (result.metadata as any).program,
-            category: (result.metadata as any).categories?.[0],
-            quantity: (result.metadata as any).lineQuantity || 0,
-            status: (result.metadata as any).status,
-            description: (result.metadata as any).description,
-            comment: (result.metadata as any).comment,
-            processCodes: (result.metadata as any).processes || [],
-            materials: (result.metadata as any).materials || [],
-            unitPrice: (result.metadata as any).unitPrice,
-            totalPrice: (result.metadata as any).totalPrice,
-          };
-          group.lineItems.push(lineItem);
-        }
-
-        // Update score to highest match
-        if (result.score > group.score) {
-          group.score = result.score;
-        }
-      }
-
-      // Convert grouped data to ModernOrder objects
-      const orders: ModernOrder[] = [];
-      for (const [jobNumber, group] of jobGroups) {
-        const order: ModernOrder = {
-          jobNumber: group.jobData.jobNumber,
-          orderNumber: group.jobData.orderNumber || "",
-          description: "", // Will be populated from line items if available
-          comments: "",
-          jobQuantity: group.lineItems.reduce(
-            (sum, item) => sum + (item.quantity || 0),
-            0
-          ),
-          customer: {
-            id: group.jobData.customerId || 0,
-            company: group.jobData.customerCompany || "",
-            contactPerson: "",
-            email: "",
-            phone: "",
-          },
-          status: {
-            master: group.jobData.status || "",
-            masterStatusId: 0,
-            stock: "",
-            stockComplete: 0,
-            statusLine: "",
-            statusLineHtml: "",
-          },
-          dates: {
-            dateEntered: group.jobData.dateEntered || new Date().toISOString(),
-            dateEnteredUtc:
-              group.jobData.dateEntered || new Date().toISOString(),
-            dateDue: group.jobData.dateDue || "",
-            dateDueUtc: group.jobData.dateDue || "",
-            dateDueFactory: group.jobData.dateDueFactory || "",
-            daysToDueDate: this.calculateDaysToDueDate(group.jobData.dateDue),
-          },
-          location: {
-            code: group.jobData.locationCode || "",
-            name: group.jobData.locationName || "",
-            deliveryOption: group.jobData.deliveryOption || "",
-          },
-          production: {
-            processes: group.lineItems.flatMap((item) =>
-              (item.processCodes || []).map((code: string) => ({
-                code,
-                displayCode: code,
-                quantity: item.quantity || 0,
-                bitVal: 0,
-              }))
-            ),
-            gangCodes: [],
-            timeSensitive: group.jobData.timeSensitive || false,
-            mustDate: group.jobData.mustDate || false,
-            isReprint: group.jobData.isReprint || false,
-            isDupe: false,
-            canSuggestMachines: false,
-            canPrintJobLineLabels: false,
-            hasScheduleableJobLines: false,
-          },
-          lineItems: group.lineItems,
-          shipments: [],
-          files: [],
-          tags: this.extractTagsFromMetadata(group.jobData).map((tag) => ({
-            tag,
-            enteredBy: "system",
-            dateEntered: new Date().toISOString(),
-          })),
-          workflow: {
-            hasScheduleableJobLines: false,
-            canPrintJobLineLabels: false,
-            hasJobFiles: group.jobData.hasFiles || false,
-            hasProof: false,
-          },
-          metadata: {
-            lastAPIUpdate:
-              group.jobData.lastUpdated || new Date().toISOString(),
-            dataSource: "api",
-            dataFreshness: group.jobData.dataFreshness || "stale",
-            bitVal: 0,
-            sortKey: jobNumber,
-          },
-        };
-
-        orders.push(order);
-      }
-
-      console.log(
-        `✅ Converted ${vectorResults.length} vector results to ${
-          orders.length
-        } orders with ${orders.reduce(
-          (sum, order) => sum + order.lineItems.length,
-          0
-        )} line items`
-      );
-      return orders;
+      return orderVectorIndex.resultsToOrders(vectorResults);
     } catch (error) {
       console.error("❌ Error converting vector results to orders:", error);
       return [];
     }
   }
 
-  // Calculate days to due date from a date string
-  private calculateDaysToDueDate(dateDue: string): number {
-    if (!dateDue) return 0;
-
-    try {
-      const dueDate = new Date(dateDue);
-      const now = new Date();
-
-      // Reset time to start of day for accurate day calculation
-      dueDate.setHours(0, 0, 0, 0);
-      now.setHours(0, 0, 0, 0);
-
-      const diffTime = dueDate.getTime() - now.getTime();
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-      return diffDays;
-    } catch (error) {
-      console.warn(
-        `⚠️ Failed to calculate days to due date for "${dateDue}":`,
-        error
-      );
-      return 0;
-    }
-  }
-
   // Calculate helper methods for enrichment data
   private calculateCustomerBreakdown(
     orders: ModernOrder[]
@@ -1694,11 +1679,13 @@ Be strategic and efficient - don't make unnecessary function calls.`;
           keyTerms.join(" "),
           {
             topK: 15,
-            filters: query.filters,
+            filters: context.scope
+              ? { ...query.filters, customerIds: context.scope.customerIds }
+              : query.filters,
           }
         );
 
-        context.vectorResults = broadResults;
+        context.vectorResults = scopeVectorResults(broadResults, context.scope);
         console.log(
           `📈 Enriched context with ${broadResults.length} additional vector results`
         );
@@ -1813,6 +1800,17 @@ You have access to optimized functions that retrieve data from the system with m
 - get_price_bands: Get pricing information
 - get_category_units: Get product/material types
 
+**History Functions (no API calls, read from recorded snapshots):**
+- get_order_changes: Get recorded changes to status, due date, quantity, tags, shipments or line items since a date
+
+**Write Functions (propose only, the user confirms in the chat):**
+- add_job_tag / remove_job_tag: Propose a tag change for one or more jobs
+- update_due_date: Propose a new due date (YYYY-MM-DD)
+- add_job_comment: Propose adding a comment
+- mark_stock_received: Propose marking a job's stock as received
+- change_delivery_option: Propose a different delivery option
+Only call these when the user asks for the change. They never modify the OMS themselves: they return a preview (before and after for each job, plus skipped jobs). Summarize it and tell the user to review and confirm the change on the card below your answer; never say the change has been made.
+
 **Optimization Strategy:**
 1. Start with get_job_list for broad searches
 2. Use get_job_details for complete job information (includes pricing)
@@ -2215,73 +2213,6 @@ You are now ready to answer complex user queries using the full power of the sys
     return response;
   }
 
-  /**
-   * Extract tags from vector metadata for better order enrichment
-   */
-  private extractTagsFromMetadata(metadata: any): string[] {
-    const tags: string[] = [];
-
-    // Add process tags
-    if (metadata.processes && Array.isArray(metadata.processes)) {
-      metadata.processes.forEach((process: string) => {
-        tags.push(`@${process.toLowerCase()}`);
-      });
-    }
-
-    // Add material tags
-    if (metadata.materials && Array.isArray(metadata.materials)) {
-      metadata.materials.forEach((material: string) => {
-        tags.push(`@${material.toLowerCase()}`);
-      });
-    }
-
-    // Add category tags
-    if (metadata.categories && Array.isArray(metadata.categories)) {
-      metadata.categories.forEach((category: string) => {
-        tags.push(`@${category.toLowerCase()}`);
-      });
-    }
-
-    // Add urgency tags
-    if (metadata.timeSensitive) {
-      tags.push("@rush");
-      tags.push("@urgent");
-    }
-
-    if (metadata.mustDate) {
-      tags.push("@must-date");
-    }
-
-    if (metadata.isReprint) {
-      tags.push("@reprint");
-    }
-
-    // Add status-based tags
-    if (metadata.status) {
-      const statusLower = metadata.status.toLowerCase();
-      if (statusLower.includes("complete")) {
-        tags.push("@completed");
-      } else if (statusLower.includes("in progress")) {
-        tags.push("@in-progress");
-      } else if (statusLower.includes("pending")) {
-        tags.push("@pending");
-      }
-    }
-
-    // Add data quality tags
-    if (metadata.completenessScore) {
-      if (metadata.completenessScore >= 90) {
-        tags.push("@high-quality");
-      } else if (metadata.completenessScore >= 70) {
-        tags.push("@medium-quality");
-      } else {
-        tags.push("@low-quality");
-      }
-    }
-
-    return tags;
-  }
-
   /**
    * Check if a query requires constraint satisfaction processing
    */
@@ -2,7 +2,12 @@
 // Based on comprehensive API knowledge base relationships
 
 import OpenAI from "openai";
-import { enhancedAPIClient } from "./enhanced-api-client";
+import {
+  enhancedAPIClient,
+  type JobDetailPart,
+  type JobDetailsBulkEntry,
+} from "./enhanced-api-client";
+import { tracer } from "./tracer";
 
 export interface QueryEndpointAnalysis {
   confidence: "high" | "medium" | "low";
@@ -31,6 +36,16 @@ export interface EnrichedOrderData {
   files?: any[];
 }
 
+// Job-level endpoints and the bulk fetch part that serves each
+const ENDPOINT_PARTS: Record<string, JobDetailPart> = {
+  "get-joblines": "lines",
+  "get-joblines-cost-details": "costDetails",
+  "get-job-shipments": "shipments",
+  "get-all-inwards-and-stock-items": "stock",
+  "get-job-history": "history",
+  "get-job-files": "files",
+};
+
 class IntelligentEndpointMapper {
   private openai: OpenAI;
   private apiClient = enhancedAPIClient;
@@ -50,12 +65,16 @@ class IntelligentEndpointMapper {
     console.log(`🧠 Analyzing query for endpoint selection: "${query}"`);
 
     try {
-      const analysis = await this.openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert API endpoint selector for an Order Management System.
+      const analysis = await tracer.span(
+        "llm.completion",
+        { kind: "client", attributes: { "llm.model": "gpt-4o-mini" } },
+        () =>
+          this.openai.chat.completions.create({
+            model: "gpt-4o-mini",
+            messages: [
+              {
+                role: "system",
+                content: `You are an expert API endpoint selector for an Order Management System.
 
 Based on a user's query, determine which API endpoints should be called:
 
@@ -84,15 +103,16 @@ Return JSON:
   "reasoning": "explanation",
   "estimatedResponseTime": 1500
 }`,
-          },
-          {
-            role: "user",
-            content: `Query: "${query}"`,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 800,
-      });
+              },
+              {
+                role: "user",
+                content: `Query: "${query}"`,
+              },
+            ],
+            temperature: 0.1,
+            max_tokens: 800,
+          })
+      );
 
       const responseText = analysis.choices[0]?.message?.content;
       if (!responseText) throw new Error("No response from GPT");
@@ -171,11 +191,40 @@ Return JSON:
       `🔧 Enriching ${orders.length} orders with ${endpointAnalysis.requiredEndpoints.length} endpoints`
     );
 
+    // Job-level endpoints are fetched for every order in one bulk call
+    const endpoints = endpointAnalysis.requiredEndpoints.map(
+      (endpoint) => endpoint.endpoint
+    );
+    const parts = endpoints
+      .map((endpoint) => ENDPOINT_PARTS[endpoint])
+      .filter((part): part is JobDetailPart => !!part);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const jobNumberOf = (order: any) =>
+      order.jobNumber || order.metadata?.jobNumber;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const customerIdOf = (order: any) =>
+      order.customer?.id || order.metadata?.customerId;
+
+    const customerIds: Record<string, string | undefined> = {};
+    orders.forEach((order) => {
+      const jobNumber = jobNumberOf(order);
+      if (jobNumber) {
+        customerIds[jobNumber] = customerIdOf(order)?.toString();
+      }
+    });
+    const jobNumbers = Object.keys(customerIds);
+    const details =
+      parts.length > 0 && jobNumbers.length > 0
+        ? await this.apiClient.getJobDetailsBulk(jobNumbers, parts, {
+            customerIds,
+          })
+        : new Map<string, JobDetailsBulkEntry>();
+
     const enrichedOrders: EnrichedOrderData[] = [];
 
     for (const order of orders) {
-      const jobNumber = order.jobNumber || order.metadata?.jobNumber;
-      const customerId = order.customer?.id || order.metadata?.customerId;
+      const jobNumber = jobNumberOf(order);
+      const customerId = customerIdOf(order);
 
       if (!jobNumber) {
         enrichedOrders.push({ baseOrder: order });
@@ -183,77 +232,60 @@ Return JSON:
       }
 
       const enrichedData: EnrichedOrderData = { baseOrder: order };
+      const entry = details.get(jobNumber);
+
+      if (entry) {
+        Object.entries(entry.errors).forEach(([part, error]) => {
+          console.warn(
+            `⚠️ Failed to fetch ${part} for job ${jobNumber}:`,
+            error
+          );
+        });
+        if (entry.lines) enrichedData.jobLines = entry.lines;
+        if (entry.costDetails) enrichedData.costDetails = entry.costDetails;
+        if (entry.shipments) enrichedData.shipments = entry.shipments;
+        if (entry.stockItems !== undefined) {
+          enrichedData.stockItems = entry.stockItems as any[];
+        }
+        if (entry.history !== undefined) {
+          enrichedData.history = entry.history ? [entry.history] : [];
+        }
+        if (entry.files) enrichedData.files = entry.files;
+      }
 
-      // Execute endpoint calls in parallel
-      const endpointPromises = endpointAnalysis.requiredEndpoints.map(
-        async (endpoint) => {
-          try {
-            switch (endpoint.endpoint) {
-              case "get-joblines":
-                const jobLinesResponse = await this.apiClient.getJobLines(
-                  jobNumber,
-                  customerId?.toString()
-                );
-                enrichedData.jobLines = jobLinesResponse.data || [];
-                break;
-              case "get-joblines-cost-details":
-                enrichedData.costDetails =
-                  await this.apiClient.getJobLinesCostDetails(jobNumber);
-                break;
-              case "get-job-shipments":
-                const shipmentsResponse = await this.apiClient.getJobShipments(
-                  jobNumber,
-                  customerId?.toString()
-                );
-                enrichedData.shipments =
-                  shipmentsResponse.data?.JobShipments || [];
-                break;
-              case "get-all-inwards-and-stock-items":
-                enrichedData.stockItems =
-                  (await this.apiClient.getAllInwardsAndStockItems(
-                    jobNumber
-                  )) as any[];
-                break;
-              case "get-job-history":
-                const historyResponse = await this.apiClient.getJobHistory(
-                  jobNumber
-                );
-                enrichedData.history = historyResponse.data
-                  ? [historyResponse.data]
-                  : [];
-                break;
-              case "get-customer-by-id":
-                if (customerId) {
-                  enrichedData.customer = await this.apiClient.getCustomerById(
-                    customerId.toString()
-                  );
-                }
-                break;
-              case "get-delivery-options":
-                if (customerId) {
-                  enrichedData.deliveryOptions =
-                    (await this.apiClient.getDeliveryOptions(
-                      customerId.toString()
-                    )) as any[];
-                }
-                break;
-              case "get-job-files":
-                const filesResponse = await this.apiClient.getJobFiles(
-                  jobNumber
-                );
-                enrichedData.files = filesResponse.Aux4?.Entities || [];
-                break;
-            }
-          } catch (error) {
+      // Customer endpoints stay per order; repeats for the same customer
+      // share the request already in flight
+      if (customerId) {
+        const customerCalls: Promise<void>[] = [];
+        if (endpoints.includes("get-customer-by-id")) {
+          customerCalls.push(
+            this.apiClient
+              .getCustomerById(customerId.toString())
+              .then((customer) => {
+                enrichedData.customer = customer;
+              })
+          );
+        }
+        if (endpoints.includes("get-delivery-options")) {
+          customerCalls.push(
+            this.apiClient
+              .getDeliveryOptions(customerId.toString())
+              .then((deliveryOptions) => {
+                enrichedData.deliveryOptions = deliveryOptions as any[];
+              })
+          );
+        }
+        const settled = await Promise.allSettled(customerCalls);
+        settled.forEach((result) => {
+          if (result.status === "rejected") {
             console.warn(
-              `⚠️ Failed to call ${endpoint.endpoint} for job ${jobNumber}:`,
-              error
+              `⚠️ Failed to fetch customer data for job ${jobNumber}:`,
+              result.reason
             );
           }
-        }
-      );
+        });
+      }
 
-      await Promise.allSettled(endpointPromises);
       enrichedOrders.push(enrichedData);
     }
 
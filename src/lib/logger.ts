@@ -0,0 +1,372 @@
+// Logger - Leveled, structured logging with per-request correlation IDs
+// Writes JSON lines to logs/app.log (rotated per LoggingConfig) and answers
+// queries from the admin logs API. File output is buffered and appended in
+// the background, so logging never blocks on disk
+
+import { AsyncLocalStorage } from "async_hooks";
+import path from "path";
+import fs from "fs";
+import { configManager, LoggingConfig } from "./config-manager";
+
+export type LogLevel = LoggingConfig["level"];
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  component: string;
+  message: string;
+  correlationId?: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  details?: any;
+}
+
+export interface LogQuery {
+  level?: LogLevel; // Exact level
+  minLevel?: LogLevel; // This level and above
+  component?: string; // Substring match
+  correlationId?: string;
+  text?: string; // Substring of the message
+  since?: Date | string;
+  until?: Date | string;
+  limit?: number;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const LOG_FILE_NAME = "app.log";
+// Buffered lines reach the file within FLUSH_INTERVAL, or as soon as
+// MAX_BUFFERED are waiting
+const FLUSH_INTERVAL = 1000;
+const MAX_BUFFERED = 500;
+
+// Logging for one component; obtained from logger.child()
+export class ComponentLogger {
+  constructor(private root: Logger, readonly component: string) {}
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  debug(message: string, details?: any): void {
+    this.root.write("debug", this.component, message, details);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  info(message: string, details?: any): void {
+    this.root.write("info", this.component, message, details);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  warn(message: string, details?: any): void {
+    this.root.write("warn", this.component, message, details);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  error(message: string, details?: any): void {
+    this.root.write("error", this.component, message, details);
+  }
+}
+
+export class Logger {
+  private correlation = new AsyncLocalStorage<string>();
+  private recent: LogEntry[] = []; // Served when file output is off
+  private readonly maxRecent = 2000;
+  private consoleCaptured = false;
+  private writing = false;
+  private buffered: LogEntry[] = []; // Not in the file yet
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private fileSize: number | null = null; // Bytes in app.log, once known
+  private exitHookInstalled = false;
+  // Untouched console methods, so output never re-enters the capture
+  private originalConsole = {
+    log: console.log,
+    warn: console.warn,
+    error: console.error,
+  };
+
+  constructor(
+    private logDir: string = path.join(process.cwd(), "logs"),
+    private config: () => LoggingConfig = () =>
+      configManager.getCategory("logging")
+  ) {}
+
+  child(component: string): ComponentLogger {
+    return new ComponentLogger(this, component);
+  }
+
+  // Everything logged inside fn carries the ID, across awaits
+  withCorrelationId<T>(correlationId: string, fn: () => T): T {
+    return this.correlation.run(correlationId, fn);
+  }
+
+  getCorrelationId(): string | undefined {
+    return this.correlation.getStore();
+  }
+
+  write(
+    level: LogLevel,
+    component: string,
+    message: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    details?: any,
+    echo: boolean = true
+  ): void {
+    const config = this.config();
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[config.level]) return;
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      component,
+      message,
+      correlationId: this.getCorrelationId(),
+      details: details instanceof Error ? serializeError(details) : details,
+    };
+
+    // A failing write must not log its own failure through the logger
+    if (this.writing) return;
+    this.writing = true;
+    try {
+      this.recent.push(entry);
+      if (this.recent.length > this.maxRecent) this.recent.shift();
+      if (echo && config.enableConsole) this.writeConsole(entry, config);
+      if (config.enableFile) this.writeFile(entry);
+    } finally {
+      this.writing = false;
+    }
+  }
+
+  // Record existing console.log/warn/error output with levels, timestamps
+  // and correlation IDs. console.log counts as debug. What reaches the
+  // terminal is unchanged.
+  captureConsole(): void {
+    if (this.consoleCaptured) return;
+    this.consoleCaptured = true;
+
+    const capture =
+      (level: LogLevel, original: typeof console.log) =>
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (...args: any[]) => {
+        original(...args);
+        const message = args
+          .map((arg) =>
+            typeof arg === "string"
+              ? arg
+              : arg instanceof Error
+              ? arg.stack || arg.message
+              : safeStringify(arg)
+          )
+          .join(" ");
+        this.write(level, "console", message, undefined, false);
+      };
+    console.log = capture("debug", this.originalConsole.log);
+    console.warn = capture("warn", this.originalConsole.warn);
+    console.error = capture("error", this.originalConsole.error);
+  }
+
+  // Newest first; reads the rotated files when file output is on
+  query(query: LogQuery = {}): LogEntry[] {
+    const since = query.since ? new Date(query.since).getTime() : -Infinity;
+    const until = query.until ? new Date(query.until).getTime() : Infinity;
+    const component = query.component?.toLowerCase();
+    const text = query.text?.toLowerCase();
+
+    // Oldest first on disk; reversed so same-millisecond lines stay ordered
+    const entries = this.config().enableFile
+      ? [...this.readFiles(), ...this.buffered]
+      : [...this.recent];
+    const matches = entries
+      .reverse()
+      .filter((entry) => {
+        const timestamp = Date.parse(entry.timestamp);
+        if (timestamp < since || timestamp > until) return false;
+        if (query.level && entry.level !== query.level) return false;
+        if (
+          query.minLevel &&
+          LEVEL_ORDER[entry.level] < LEVEL_ORDER[query.minLevel]
+        ) {
+          return false;
+        }
+        if (
+          component &&
+          !entry.component.toLowerCase().includes(component)
+        ) {
+          return false;
+        }
+        if (
+          query.correlationId &&
+          entry.correlationId !== query.correlationId
+        ) {
+          return false;
+        }
+        if (text && !entry.message.toLowerCase().includes(text)) return false;
+        return true;
+      })
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  private writeConsole(entry: LogEntry, config: LoggingConfig): void {
+    const output =
+      entry.level === "error"
+        ? this.originalConsole.error
+        : entry.level === "warn"
+        ? this.originalConsole.warn
+        : this.originalConsole.log;
+
+    if (config.enableStructuredLogging) {
+      output(safeStringify(entry));
+      return;
+    }
+    const prefix = `[${entry.component}]${
+      entry.correlationId ? ` (${entry.correlationId.slice(0, 8)})` : ""
+    } `;
+    if (entry.details !== undefined) {
+      output(`${prefix}${entry.message}`, entry.details);
+    } else {
+      output(`${prefix}${entry.message}`);
+    }
+  }
+
+  // Resolves once every line logged so far is in the file
+  flush(): Promise<void> {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+
+    const batch = this.buffered;
+    this.buffered = [];
+    this.flushing = this.flushing.then(() => this.appendLines(batch));
+    return this.flushing;
+  }
+
+  private writeFile(entry: LogEntry): void {
+    if (!this.exitHookInstalled) {
+      this.exitHookInstalled = true;
+      process.once("exit", () => this.flushSync());
+    }
+
+    this.buffered.push(entry);
+    if (this.buffered.length >= MAX_BUFFERED) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  // Sizes are counted in bytes, so non-ASCII lines rotate on time
+  private async appendLines(entries: LogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const { maxFileSize, maxFiles } = this.config();
+    const file = path.join(this.logDir, LOG_FILE_NAME);
+
+    try {
+      await fs.promises.mkdir(this.logDir, { recursive: true });
+      if (this.fileSize === null) {
+        this.fileSize = await fs.promises
+          .stat(file)
+          .then((stats) => stats.size)
+          .catch(() => 0);
+      }
+
+      let chunk = "";
+      for (const entry of entries) {
+        const line = `${safeStringify(entry)}\n`;
+        const bytes = Buffer.byteLength(line);
+        if (this.fileSize > 0 && this.fileSize + bytes > maxFileSize) {
+          await fs.promises.appendFile(file, chunk);
+          await this.rotate(maxFiles);
+          chunk = "";
+          this.fileSize = 0;
+        }
+        chunk += line;
+        this.fileSize += bytes;
+      }
+      await fs.promises.appendFile(file, chunk);
+    } catch (error) {
+      this.fileSize = null; // Re-read the size on the next flush
+      this.originalConsole.error("❌ Failed to write log file:", error);
+    }
+  }
+
+  // Lines still buffered when the process exits; rotation waits for the
+  // next start
+  private flushSync(): void {
+    if (this.buffered.length === 0) return;
+    try {
+      fs.mkdirSync(this.logDir, { recursive: true });
+      fs.appendFileSync(
+        path.join(this.logDir, LOG_FILE_NAME),
+        this.buffered.map((entry) => `${safeStringify(entry)}\n`).join("")
+      );
+      this.buffered = [];
+    } catch (error) {
+      this.originalConsole.error("❌ Failed to write log file:", error);
+    }
+  }
+
+  // app.log -> app.1.log -> ... -> app.<maxFiles - 1>.log, oldest dropped
+  private async rotate(maxFiles: number): Promise<void> {
+    await fs.promises.rm(this.rotatedPath(Math.max(maxFiles - 1, 0)), {
+      force: true,
+    });
+    for (let index = maxFiles - 2; index >= 0; index--) {
+      await fs.promises
+        .rename(this.rotatedPath(index), this.rotatedPath(index + 1))
+        .catch(() => undefined); // Not written yet
+    }
+  }
+
+  private rotatedPath(index: number): string {
+    return path.join(
+      this.logDir,
+      index === 0 ? LOG_FILE_NAME : `app.${index}.log`
+    );
+  }
+
+  private readFiles(): LogEntry[] {
+    const entries: LogEntry[] = [];
+    const { maxFiles } = this.config();
+
+    for (let index = Math.max(maxFiles - 1, 0); index >= 0; index--) {
+      const file = this.rotatedPath(index);
+      if (!fs.existsSync(file)) continue;
+
+      fs.readFileSync(file, "utf8")
+        .split("\n")
+        .filter((line) => line.trim())
+        .forEach((line) => {
+          try {
+            entries.push(JSON.parse(line));
+          } catch {
+            // Skip partial lines from a concurrent write
+          }
+        });
+    }
+    return entries;
+  }
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  return { name: error.name, message: error.message, stack: error.stack };
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+// Export singleton instance
+export const logger = new Logger();
+
+// Server-side, console output from existing code is recorded as well
+if (typeof window === "undefined") {
+  logger.captureConsole();
+}
@@ -0,0 +1,268 @@
+// Metrics Store - Time series of router, cache, OMS API and vector metrics
+// Sampled every monitoring.metricsInterval into data/metrics-history.jsonl
+// and kept for monitoring.metricsRetention
+
+import path from "path";
+import fs from "fs";
+import { configManager, MonitoringConfig } from "./config-manager";
+import { intelligentQueryRouter } from "./query-router";
+import { advancedCacheService } from "./advanced-cache-service";
+import { enhancedAPIClient } from "./enhanced-api-client";
+import { orderVectorIndex } from "./order-vector-index";
+
+// Rates and percentiles cover the interval since the previous sample
+export interface MetricSample {
+  timestamp: string;
+  routerQueries: number;
+  latencyP50: number | null; // ms; null without routed queries
+  latencyP95: number | null;
+  latencyP99: number | null;
+  cacheHitRate: number | null; // 0-1; null without cache lookups
+  cacheEntries: number;
+  omsRequests: number;
+  omsErrors: number;
+  omsErrorRate: number | null; // 0-1; null without requests
+  vectorCount: number | null; // null when the index is unreachable
+  memoryUsage: number; // bytes
+}
+
+export type MetricName = Exclude<keyof MetricSample, "timestamp">;
+
+export interface MetricRangeQuery {
+  since?: Date | string;
+  until?: Date | string;
+  maxPoints?: number; // Longer ranges are averaged into this many buckets
+}
+
+interface Counters {
+  cacheHits: number;
+  cacheMisses: number;
+  omsRequests: number;
+  omsErrors: number;
+}
+
+const COMPACT_INTERVAL = 60 * 60 * 1000; // Rewrite without expired lines hourly
+
+export class MetricsStore {
+  private samples: MetricSample[] = []; // Oldest first
+  private loaded = false;
+  private fileMtime = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastSampleAt = Date.now();
+  private lastCounters: Counters = {
+    cacheHits: 0,
+    cacheMisses: 0,
+    omsRequests: 0,
+    omsErrors: 0,
+  };
+  private lastCompaction = 0;
+
+  constructor(
+    private historyPath: string = path.join(
+      process.cwd(),
+      "data",
+      "metrics-history.jsonl"
+    ),
+    private config: () => MonitoringConfig = () =>
+      configManager.getCategory("monitoring")
+  ) {}
+
+  // Sample on the configured interval; a no-op when metrics are disabled
+  start(): void {
+    const config = this.config();
+    if (this.timer || !config.enableMetrics) return;
+
+    this.timer = setInterval(() => {
+      this.sample().catch((error) =>
+        console.error("❌ Metrics sampling failed:", error)
+      );
+    }, config.metricsInterval);
+    this.timer.unref?.();
+    console.log(
+      `📈 Sampling metrics every ${Math.round(config.metricsInterval / 1000)}s`
+    );
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async sample(): Promise<MetricSample> {
+    const now = Date.now();
+    const latencies = intelligentQueryRouter
+      .getLatencySamples(this.lastSampleAt)
+      .sort((a, b) => a - b);
+    const cacheStats = advancedCacheService.getStats();
+    const apiStats = enhancedAPIClient.getStats();
+
+    const counters: Counters = {
+      cacheHits: cacheStats.totalHits,
+      cacheMisses: cacheStats.totalMisses,
+      omsRequests: apiStats.totalRequests,
+      omsErrors: apiStats.totalErrors,
+    };
+    const delta = (key: keyof Counters) =>
+      // Counters that went down were reset, so count from zero
+      counters[key] >= this.lastCounters[key]
+        ? counters[key] - this.lastCounters[key]
+        : counters[key];
+    const cacheHits = delta("cacheHits");
+    const cacheLookups = cacheHits + delta("cacheMisses");
+    const omsRequests = delta("omsRequests");
+    const omsErrors = delta("omsErrors");
+
+    const memory = process.memoryUsage();
+    const sample: MetricSample = {
+      timestamp: new Date(now).toISOString(),
+      routerQueries: latencies.length,
+      latencyP50: percentile(latencies, 0.5),
+      latencyP95: percentile(latencies, 0.95),
+      latencyP99: percentile(latencies, 0.99),
+      cacheHitRate: cacheLookups > 0 ? cacheHits / cacheLookups : null,
+      cacheEntries: cacheStats.totalEntries,
+      omsRequests,
+      omsErrors,
+      omsErrorRate: omsRequests > 0 ? omsErrors / omsRequests : null,
+      vectorCount: await this.getVectorCount(),
+      memoryUsage: memory.heapUsed + memory.external,
+    };
+
+    this.lastSampleAt = now;
+    this.lastCounters = counters;
+    this.append(sample);
+    return sample;
+  }
+
+  // Samples in range, oldest first, averaged down to maxPoints
+  getRange(query: MetricRangeQuery = {}): MetricSample[] {
+    this.ensureLoaded();
+    const since = query.since ? new Date(query.since).getTime() : -Infinity;
+    const until = query.until ? new Date(query.until).getTime() : Infinity;
+
+    const samples = this.samples.filter((sample) => {
+      const timestamp = Date.parse(sample.timestamp);
+      return timestamp >= since && timestamp <= until;
+    });
+    return query.maxPoints && samples.length > query.maxPoints
+      ? downsample(samples, query.maxPoints)
+      : samples;
+  }
+
+  getLatest(): MetricSample | null {
+    this.ensureLoaded();
+    return this.samples[this.samples.length - 1] || null;
+  }
+
+  private async getVectorCount(): Promise<number | null> {
+    try {
+      const stats = await orderVectorIndex.getIndexStats();
+      return stats.totalRecordCount;
+    } catch {
+      return null;
+    }
+  }
+
+  private append(sample: MetricSample): void {
+    this.ensureLoaded();
+    this.samples.push(sample);
+
+    const cutoff = Date.now() - this.config().metricsRetention;
+    const expired = this.samples.findIndex(
+      (entry) => Date.parse(entry.timestamp) >= cutoff
+    );
+    if (expired > 0) this.samples = this.samples.slice(expired);
+
+    try {
+      const dataDir = path.dirname(this.historyPath);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      if (expired > 0 && Date.now() - this.lastCompaction > COMPACT_INTERVAL) {
+        fs.writeFileSync(
+          this.historyPath,
+          this.samples.map((entry) => `${JSON.stringify(entry)}\n`).join("")
+        );
+        this.lastCompaction = Date.now();
+      } else {
+        fs.appendFileSync(this.historyPath, `${JSON.stringify(sample)}\n`);
+      }
+      this.fileMtime = fs.statSync(this.historyPath).mtimeMs;
+    } catch (error) {
+      console.error("❌ Failed to save metrics history:", error);
+    }
+  }
+
+  // Load on first use and again whenever the file changed; the sampler may
+  // run in another module instance or process
+  private ensureLoaded(): void {
+    try {
+      if (!fs.existsSync(this.historyPath)) return;
+      const mtime = fs.statSync(this.historyPath).mtimeMs;
+      if (this.loaded && mtime === this.fileMtime) return;
+      this.loaded = true;
+      this.fileMtime = mtime;
+
+      const cutoff = Date.now() - this.config().metricsRetention;
+      this.samples = fs
+        .readFileSync(this.historyPath, "utf8")
+        .split("\n")
+        .filter((line) => line.trim())
+        .flatMap((line) => {
+          try {
+            return [JSON.parse(line) as MetricSample];
+          } catch {
+            return []; // Partial line from an interrupted write
+          }
+        })
+        .filter((sample) => Date.parse(sample.timestamp) >= cutoff);
+    } catch (error) {
+      console.warn("⚠️ Failed to load metrics history:", error);
+    }
+  }
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(Math.ceil(p * sorted.length) - 1, sorted.length - 1)];
+}
+
+// Average consecutive samples into at most maxPoints buckets. Counts are
+// averaged too, so they stay per-interval values.
+function downsample(samples: MetricSample[], maxPoints: number): MetricSample[] {
+  const bucketSize = Math.ceil(samples.length / maxPoints);
+  const buckets: MetricSample[] = [];
+
+  for (let start = 0; start < samples.length; start += bucketSize) {
+    const bucket = samples.slice(start, start + bucketSize);
+    const average = (name: MetricName): number | null => {
+      const values = bucket
+        .map((sample) => sample[name])
+        .filter((value): value is number => value !== null);
+      return values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : null;
+    };
+
+    buckets.push({
+      timestamp: bucket[bucket.length - 1].timestamp,
+      routerQueries: average("routerQueries") ?? 0,
+      latencyP50: average("latencyP50"),
+      latencyP95: average("latencyP95"),
+      latencyP99: average("latencyP99"),
+      cacheHitRate: average("cacheHitRate"),
+      cacheEntries: average("cacheEntries") ?? 0,
+      omsRequests: average("omsRequests") ?? 0,
+      omsErrors: average("omsErrors") ?? 0,
+      omsErrorRate: average("omsErrorRate"),
+      vectorCount: average("vectorCount"),
+      memoryUsage: average("memoryUsage") ?? 0,
+    });
+  }
+  return buckets;
+}
+
+// Export singleton instance
+export const metricsStore = new MetricsStore();
@@ -0,0 +1,761 @@
+// Mock OMS Server - Replays recorded OMS responses for offline testing
+// Point EnhancedOMSAPIClient at it with OMS_API_BASE_URL=http://localhost:4010
+
+import http from "http";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Standard OMS response envelope as recorded from the intranet handlers
+export interface OMSEnvelope {
+  isSuccess: boolean;
+  isError: boolean;
+  data: unknown;
+  responseText: string | null;
+  error: unknown;
+  Aux1?: unknown;
+  Aux2?: unknown;
+  Aux3?: unknown;
+  Aux4?: unknown;
+}
+
+// Scripted behaviour applied to matching requests before fixtures are served
+export interface MockScenarioRule {
+  id?: string;
+  bit?: string; // OMS "bit" parameter, e.g. "get-joblines"
+  path?: string; // Case-insensitive substring of the request path
+  jobNumber?: string;
+  customerId?: string;
+  latencyMs?: number;
+  status?: number; // Respond with this HTTP status instead of the fixture
+  htmlLogin?: boolean; // Respond with the intranet login page (expired session)
+  omsError?: string; // Respond with an isError envelope carrying this message
+  times?: number; // Only apply to the next N matching requests
+}
+
+export interface MockOMSServerConfig {
+  port: number;
+  host: string;
+  fixturePaths: string[];
+  defaultLatencyMs: number;
+  rules: MockScenarioRule[];
+  verbose: boolean;
+  // When set, handlers require a session from POST /login.aspx with these
+  // credentials and redirect to the login page without one
+  credentials: { username: string; password: string } | null;
+}
+
+export interface MockRequestLogEntry {
+  timestamp: string;
+  method: string;
+  path: string;
+  bit: string | null;
+  params: Record<string, string>;
+  status: number;
+  ruleId?: string;
+  durationMs: number;
+}
+
+interface RecordedResponse {
+  endpoint: string;
+  parameters?: Record<string, string>;
+  response: unknown;
+}
+
+interface MockRouteResult {
+  status: number;
+  contentType: string;
+  body: string;
+  headers?: Record<string, string | string[]>;
+}
+
+type JobEntity = Record<string, unknown>;
+
+const DEFAULT_FIXTURES = [
+  "data/direct-oms-responses.json",
+  "data/comprehensive-oms-responses.json",
+];
+
+// Handlers probed by EnhancedOMSAPIClient.performHealthCheck()
+const KNOWN_HANDLERS = [
+  "jobstatusqueryasync.ashx",
+  "jobhandler.ashx",
+  "assetbit.ashx",
+  "assethandler.ashx",
+  "generalhandler.ashx",
+];
+
+const LOGIN_PAGE_HTML = `<!DOCTYPE html>
+<html>
+<head><title>DecoPress Intranet - Login</title></head>
+<body><form action="/login.aspx" method="post"><input type="hidden" name="__VIEWSTATE" value="mock-viewstate" /><input name="username" /><input type="password" name="password" /></form></body>
+</html>`;
+
+const SESSION_COOKIE = ".ASPXAUTH";
+
+// Handler bits that change a job (see EnhancedOMSAPIClient write endpoints)
+const WRITE_BITS = [
+  "add-job-tag",
+  "remove-job-tag",
+  "update-job-due-date",
+  "add-job-comment",
+  "mark-stock-received",
+  "update-job-delivery-option",
+];
+
+export class MockOMSServer {
+  private config: MockOMSServerConfig;
+  private server: http.Server | null = null;
+  private fixtures = new Map<string, OMSEnvelope>(); // `${bit}:${id}` -> envelope
+  private jobListTemplate: OMSEnvelope | null = null;
+  private jobs: JobEntity[] = [];
+  private rules: MockScenarioRule[] = [];
+  private requestLog: MockRequestLogEntry[] = [];
+  private sessions = new Set<string>(); // Valid session cookie values
+  private appliedWrites = new Map<string, OMSEnvelope>(); // idempotency key -> response
+  private readonly MAX_LOG_ENTRIES = 500;
+
+  constructor(config: Partial<MockOMSServerConfig> = {}) {
+    this.config = {
+      port: 4010,
+      host: "127.0.0.1",
+      fixturePaths: DEFAULT_FIXTURES,
+      defaultLatencyMs: 0,
+      rules: [],
+      verbose: false,
+      credentials: null,
+      ...config,
+    };
+    this.rules = [...this.config.rules];
+    this.loadFixtures();
+  }
+
+  // ===== LIFECYCLE =====
+
+  async start(): Promise<string> {
+    if (this.server) return this.getBaseUrl();
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("❌ Mock OMS request failed:", error);
+        res.writeHead(500, { "Content-Type": "text/plain" });
+        res.end("Mock OMS internal error");
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.config.port, this.config.host, () => {
+        this.server!.off("error", reject);
+        resolve();
+      });
+    });
+
+    // Pick up the real port when started with port 0
+    const address = this.server.address();
+    if (address && typeof address === "object") {
+      this.config.port = address.port;
+    }
+
+    console.log(`🧪 Mock OMS server listening on ${this.getBaseUrl()}`);
+    return this.getBaseUrl();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    console.log("🛑 Mock OMS server stopped");
+  }
+
+  getBaseUrl(): string {
+    return `http://${this.config.host}:${this.config.port}`;
+  }
+
+  // ===== SCENARIO CONTROL =====
+
+  addRule(rule: MockScenarioRule): void {
+    this.rules.push({ ...rule, id: rule.id || `rule-${this.rules.length + 1}` });
+  }
+
+  setRules(rules: MockScenarioRule[]): void {
+    this.rules = [];
+    rules.forEach((rule) => this.addRule(rule));
+  }
+
+  clearRules(): void {
+    this.rules = [];
+  }
+
+  getRules(): MockScenarioRule[] {
+    return [...this.rules];
+  }
+
+  // Invalidate every login, as if the intranet sessions timed out
+  expireSessions(): void {
+    this.sessions.clear();
+  }
+
+  getRequestLog(): MockRequestLogEntry[] {
+    return [...this.requestLog];
+  }
+
+  clearRequestLog(): void {
+    this.requestLog = [];
+  }
+
+  getStats() {
+    const byBit: Record<string, number> = {};
+    for (const entry of this.requestLog) {
+      const key = entry.bit || entry.path;
+      byBit[key] = (byBit[key] || 0) + 1;
+    }
+
+    return {
+      fixtures: this.fixtures.size,
+      jobs: this.jobs.length,
+      rules: this.rules.length,
+      sessions: this.sessions.size,
+      totalRequests: this.requestLog.length,
+      failedRequests: this.requestLog.filter((e) => e.status >= 400).length,
+      byBit,
+    };
+  }
+
+  // ===== FIXTURE LOADING =====
+
+  private loadFixtures(): void {
+    for (const fixturePath of this.config.fixturePaths) {
+      const fullPath = path.isAbsolute(fixturePath)
+        ? fixturePath
+        : path.join(process.cwd(), fixturePath);
+
+      if (!fs.existsSync(fullPath)) {
+        console.warn(`⚠️ Mock OMS fixture not found: ${fixturePath}`);
+        continue;
+      }
+
+      const parsed = JSON.parse(fs.readFileSync(fullPath, "utf8")) as {
+        responses?: RecordedResponse[];
+      };
+
+      let loaded = 0;
+      for (const recorded of parsed.responses || []) {
+        // Some collections captured /api/oms-chat output rather than the raw
+        // OMS envelope; only raw envelopes can be replayed to the API client
+        if (!this.isOMSEnvelope(recorded.response)) continue;
+
+        const bit = recorded.parameters?.bit || recorded.endpoint;
+        if (bit === "get-job-list") {
+          this.indexJobList(recorded.response);
+        } else {
+          const id = this.getEntityId(recorded.parameters || {});
+          // First recording wins so direct captures take precedence
+          const key = `${bit}:${id}`;
+          if (!this.fixtures.has(key)) {
+            this.fixtures.set(key, recorded.response);
+          }
+        }
+        loaded++;
+      }
+
+      console.log(`📂 Mock OMS loaded ${loaded} responses from ${fixturePath}`);
+    }
+  }
+
+  private indexJobList(envelope: OMSEnvelope): void {
+    if (!this.jobListTemplate) this.jobListTemplate = envelope;
+
+    const entities = (envelope.data as { Entities?: JobEntity[] })?.Entities;
+    const known = new Set(this.jobs.map((job) => String(job.JobNumber)));
+    for (const job of entities || []) {
+      if (!known.has(String(job.JobNumber))) {
+        this.jobs.push(job);
+        known.add(String(job.JobNumber));
+      }
+    }
+  }
+
+  private isOMSEnvelope(value: unknown): value is OMSEnvelope {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      "isSuccess" in value &&
+      "isError" in value
+    );
+  }
+
+  private getEntityId(params: Record<string, string>): string {
+    return (
+      params.jobNumber ||
+      params["job-number"] ||
+      params.customerId ||
+      params["customer-id"] ||
+      params.tag ||
+      "*"
+    );
+  }
+
+  // ===== REQUEST HANDLING =====
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const startTime = Date.now();
+    const url = new URL(req.url || "/", this.getBaseUrl());
+    const method = req.method || "GET";
+
+    if (url.pathname.startsWith("/__mock")) {
+      const body = await this.readBody(req);
+      this.send(res, this.handleControlRequest(method, url.pathname, body));
+      return;
+    }
+
+    const params = await this.readParams(req, url);
+    const bit = params.bit || null;
+    const rule = this.matchRule(url.pathname, params);
+
+    const latency = rule?.latencyMs ?? this.config.defaultLatencyMs;
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+
+    let result: MockRouteResult;
+    if (url.pathname.toLowerCase() === "/login.aspx") {
+      result = this.handleLogin(method, params);
+    } else if (this.config.credentials && !this.hasSession(req)) {
+      result = {
+        status: 302,
+        contentType: "text/html",
+        body: "",
+        headers: { Location: `/login.aspx?ReturnUrl=${encodeURIComponent(url.pathname)}` },
+      };
+    } else if (rule?.status) {
+      result = {
+        status: rule.status,
+        contentType: "text/plain",
+        body: `Mock OMS scripted failure (${rule.status})`,
+      };
+    } else if (rule?.htmlLogin) {
+      result = { status: 200, contentType: "text/html", body: LOGIN_PAGE_HTML };
+    } else if (rule?.omsError) {
+      result = this.json(this.errorEnvelope(rule.omsError));
+    } else if (method === "HEAD") {
+      const known = KNOWN_HANDLERS.some((handler) =>
+        url.pathname.toLowerCase().endsWith(handler)
+      );
+      result = { status: known ? 200 : 404, contentType: "text/plain", body: "" };
+    } else {
+      result = this.route(url.pathname, params);
+    }
+
+    this.send(res, result);
+    this.logRequest({
+      timestamp: new Date().toISOString(),
+      method,
+      path: url.pathname,
+      bit,
+      params,
+      status: result.status,
+      ruleId: rule?.id,
+      durationMs: Date.now() - startTime,
+    });
+  }
+
+  private route(pathname: string, params: Record<string, string>): MockRouteResult {
+    const lowerPath = pathname.toLowerCase();
+
+    if (lowerPath.endsWith("jobstatusqueryasync.ashx")) {
+      return this.json(this.buildJobListResponse(params));
+    }
+
+    if (lowerPath.endsWith("jobhandler.ashx") || lowerPath.endsWith("assetbit.ashx")) {
+      if (!params.bit) {
+        return this.json(this.errorEnvelope("Please enter a value for bit"));
+      }
+      if (WRITE_BITS.includes(params.bit)) {
+        return this.json(this.writeJob(params.bit, params));
+      }
+      return this.json(this.lookupFixture(params.bit, params));
+    }
+
+    return { status: 404, contentType: "text/plain", body: "Not Found" };
+  }
+
+  private lookupFixture(bit: string, params: Record<string, string>): OMSEnvelope {
+    const id = this.getEntityId(params);
+    const recorded = this.fixtures.get(`${bit}:${id}`);
+    if (recorded) return recorded;
+
+    // Reads of a job the mock doesn't know fail like writes do, so tests and
+    // demos notice instead of getting empty data
+    const jobNumber = params.jobNumber || params["job-number"];
+    if (jobNumber && !this.findJob(jobNumber)) {
+      return this.errorEnvelope(`Job ${jobNumber} not found`);
+    }
+
+    const fixture = this.fixtures.get(`${bit}:*`);
+    if (fixture) return fixture;
+
+    if (bit === "get-job-files") {
+      // Job files were never recorded; mirror the live shape with no entities
+      return {
+        ...this.emptyEnvelope([]),
+        Aux4: {
+          PageSize: 0,
+          ReturnedResults: 0,
+          TotalResults: 0,
+          TotalPages: 0,
+          CurrentPage: 1,
+          HasNext: false,
+          HasPrevious: false,
+          Entities: [],
+        },
+      };
+    }
+
+    return this.emptyEnvelope(bit === "get-customer-by-id" ? null : []);
+  }
+
+  // Writes mutate the job list so later queries see the change; a repeated
+  // idempotency key gets the first response without applying it again
+  private writeJob(bit: string, params: Record<string, string>): OMSEnvelope {
+    const key = params["idempotency-key"];
+    const applied = key ? this.appliedWrites.get(key) : undefined;
+    if (applied) return applied;
+
+    const job = this.findJob(params.jobNumber);
+    if (!job) return this.errorEnvelope(`Job ${params.jobNumber} not found`);
+
+    const result = this.applyWrite(bit, job, params);
+    if (key && result.isSuccess) this.appliedWrites.set(key, result);
+    return result;
+  }
+
+  private applyWrite(bit: string, job: JobEntity, params: Record<string, string>): OMSEnvelope {
+    const now = new Date().toISOString();
+    switch (bit) {
+      case "add-job-tag":
+      case "remove-job-tag": {
+        const tag = (params.tag || "").trim();
+        if (!tag) return this.errorEnvelope("Please enter a value for tag");
+
+        const tags = (job.JobTags as { Tag: string }[] | undefined) || [];
+        const others = tags.filter((entry) => entry.Tag.toLowerCase() !== tag.toLowerCase());
+        job.JobTags =
+          bit === "remove-job-tag"
+            ? others
+            : [
+                ...others,
+                {
+                  Tag: tag,
+                  WhoEnteredUsername: "mock",
+                  WhenEntered: now,
+                  WhenEnteredUtc: now,
+                  Code: "",
+                  Meta: null,
+                },
+              ];
+        return this.emptyEnvelope(job.JobTags);
+      }
+      case "update-job-due-date": {
+        const due = params["date-due"] || "";
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(due) || isNaN(Date.parse(due))) {
+          return this.errorEnvelope("Please enter a valid due date");
+        }
+        job.DateDue = `${due}T05:00:00+00:00`;
+        job.DateDueUtc = job.DateDue;
+        job.DaysToDueDate = Math.ceil((Date.parse(due) - Date.now()) / 86400000);
+        return this.emptyEnvelope({ DateDue: job.DateDue });
+      }
+      case "add-job-comment": {
+        const comment = (params.comment || "").trim();
+        if (!comment) return this.errorEnvelope("Please enter a comment");
+        job.Comments = [job.Comments, comment].filter(Boolean).join("\n");
+        return this.emptyEnvelope({ Comments: job.Comments });
+      }
+      case "mark-stock-received":
+        job.StockComplete = 2;
+        job.StockCompleteStatus = "Stock Complete";
+        return this.emptyEnvelope({ StockCompleteStatus: job.StockCompleteStatus });
+      case "update-job-delivery-option": {
+        const option = params["delivery-option"] || "";
+        if (!option) return this.errorEnvelope("Please select a delivery option");
+        job.DeliveryOption = option;
+        return this.emptyEnvelope({ DeliveryOption: option });
+      }
+      default:
+        return this.errorEnvelope(`Unknown bit ${bit}`);
+    }
+  }
+
+  private findJob(jobNumber: string): JobEntity | undefined {
+    return this.jobs.find((entry) => String(entry.JobNumber) === jobNumber);
+  }
+
+  private buildJobListResponse(params: Record<string, string>): OMSEnvelope {
+    const textFilter = (params["text-filter"] || "").trim().toLowerCase();
+    const statusFilter = (params["job-status"] || "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+
+    const matching = this.jobs.filter((job) => {
+      if (
+        statusFilter.length > 0 &&
+        !statusFilter.includes(String(job.MasterJobStatusId))
+      ) {
+        return false;
+      }
+      if (!textFilter) return true;
+
+      return [job.JobNumber, job.OrderNumber, job.Description, job.Client]
+        .map((value) => String(value ?? "").toLowerCase())
+        .some((value) => value.includes(textFilter));
+    });
+
+    const pageSize = Math.max(1, parseInt(params["page-size"] || "200", 10) || 200);
+    const totalPages = Math.max(1, Math.ceil(matching.length / pageSize));
+    const requestedPage = parseInt(params["requested-page"] || "1", 10) || 1;
+    const currentPage = Math.min(Math.max(1, requestedPage), totalPages);
+    const entities = matching.slice(
+      (currentPage - 1) * pageSize,
+      currentPage * pageSize
+    );
+
+    const template = this.jobListTemplate;
+    return {
+      ...(template || this.emptyEnvelope(null)),
+      data: {
+        PageSize: pageSize,
+        ReturnedResults: entities.length,
+        TotalResults: matching.length,
+        TotalPages: totalPages,
+        CurrentPage: currentPage,
+        HasNext: currentPage < totalPages,
+        HasPrevious: currentPage > 1,
+        Entities: entities,
+      },
+      Aux4: {
+        ...((template?.Aux4 as Record<string, unknown>) || {}),
+        PageSize: pageSize,
+        RequestedPage: currentPage,
+        TextFilter: params["text-filter"] || "",
+        JobStatusFilter: params["job-status"] || "",
+      },
+    };
+  }
+
+  // ===== LOGIN =====
+
+  private handleLogin(method: string, params: Record<string, string>): MockRouteResult {
+    const page: MockRouteResult = {
+      status: 200,
+      contentType: "text/html",
+      body: LOGIN_PAGE_HTML,
+      headers: { "Set-Cookie": "ASP.NET_SessionId=mock-anonymous; path=/; HttpOnly" },
+    };
+    if (method !== "POST") return page;
+
+    const credentials = this.config.credentials;
+    if (
+      !credentials ||
+      params.__VIEWSTATE !== "mock-viewstate" ||
+      params.username !== credentials.username ||
+      params.password !== credentials.password
+    ) {
+      return page;
+    }
+
+    const session = crypto.randomBytes(16).toString("hex");
+    this.sessions.add(session);
+    return {
+      status: 302,
+      contentType: "text/html",
+      body: "",
+      headers: {
+        Location: "/",
+        "Set-Cookie": [
+          `ASP.NET_SessionId=${session.slice(0, 12)}; path=/; HttpOnly`,
+          `${SESSION_COOKIE}=${session}; path=/; HttpOnly`,
+        ],
+      },
+    };
+  }
+
+  private hasSession(req: http.IncomingMessage): boolean {
+    const cookies = (req.headers.cookie || "").split(";").map((c) => c.trim());
+    return cookies.some(
+      (cookie) =>
+        cookie.startsWith(`${SESSION_COOKIE}=`) &&
+        this.sessions.has(cookie.slice(SESSION_COOKIE.length + 1))
+    );
+  }
+
+  // ===== CONTROL API =====
+
+  private handleControlRequest(
+    method: string,
+    pathname: string,
+    body: string
+  ): MockRouteResult {
+    if (pathname === "/__mock/health" && method === "GET") {
+      return this.json({ status: "ok", ...this.getStats() });
+    }
+
+    if (pathname === "/__mock/sessions" && method === "DELETE") {
+      this.expireSessions();
+      return this.json({ sessions: 0 });
+    }
+
+    if (pathname === "/__mock/requests") {
+      if (method === "DELETE") this.clearRequestLog();
+      return this.json({ requests: this.getRequestLog() });
+    }
+
+    if (pathname === "/__mock/rules") {
+      if (method === "POST") {
+        try {
+          const parsed = JSON.parse(body || "[]") as
+            | MockScenarioRule
+            | MockScenarioRule[];
+          (Array.isArray(parsed) ? parsed : [parsed]).forEach((rule) =>
+            this.addRule(rule)
+          );
+        } catch (error) {
+          return {
+            status: 400,
+            contentType: "application/json",
+            body: JSON.stringify({
+              error: "Invalid rule payload",
+              details: error instanceof Error ? error.message : "Unknown error",
+            }),
+          };
+        }
+      } else if (method === "DELETE") {
+        this.clearRules();
+      }
+      return this.json({ rules: this.getRules() });
+    }
+
+    return { status: 404, contentType: "text/plain", body: "Not Found" };
+  }
+
+  // ===== HELPERS =====
+
+  private matchRule(
+    pathname: string,
+    params: Record<string, string>
+  ): MockScenarioRule | undefined {
+    const index = this.rules.findIndex((rule) => {
+      if (rule.bit && rule.bit !== params.bit) return false;
+      if (rule.path && !pathname.toLowerCase().includes(rule.path.toLowerCase())) {
+        return false;
+      }
+      if (rule.jobNumber && rule.jobNumber !== this.getEntityId(params)) {
+        return false;
+      }
+      if (rule.customerId && rule.customerId !== this.getEntityId(params)) {
+        return false;
+      }
+      return true;
+    });
+
+    if (index === -1) return undefined;
+
+    const rule = this.rules[index];
+    if (rule.times !== undefined) {
+      rule.times -= 1;
+      if (rule.times <= 0) this.rules.splice(index, 1);
+    }
+    return rule;
+  }
+
+  private async readParams(
+    req: http.IncomingMessage,
+    url: URL
+  ): Promise<Record<string, string>> {
+    const params: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => (params[key] = value));
+
+    const body = await this.readBody(req);
+    if (body) {
+      new URLSearchParams(body).forEach((value, key) => (params[key] = value));
+    }
+    return params;
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+      req.on("error", reject);
+    });
+  }
+
+  private emptyEnvelope(data: unknown): OMSEnvelope {
+    return {
+      isSuccess: true,
+      isError: false,
+      data,
+      responseText: null,
+      error: null,
+      Aux1: null,
+      Aux2: null,
+      Aux3: null,
+      Aux4: null,
+    };
+  }
+
+  private errorEnvelope(message: string): OMSEnvelope {
+    return {
+      ...this.emptyEnvelope(null),
+      isSuccess: false,
+      isError: true,
+      error: {
+        ClassName: "System.ApplicationException",
+        Message: `<ul><li>${message}</li></ul>`,
+      },
+    };
+  }
+
+  private json(payload: unknown): MockRouteResult {
+    return {
+      status: 200,
+      contentType: "application/json; charset=utf-8",
+      body: JSON.stringify(payload),
+    };
+  }
+
+  private send(res: http.ServerResponse, result: MockRouteResult): void {
+    res.writeHead(result.status, {
+      "Content-Type": result.contentType,
+      ...result.headers,
+    });
+    res.end(result.body);
+  }
+
+  private logRequest(entry: MockRequestLogEntry): void {
+    this.requestLog.push(entry);
+    if (this.requestLog.length > this.MAX_LOG_ENTRIES) {
+      this.requestLog.shift();
+    }
+
+    if (this.config.verbose) {
+      console.log(
+        `🧪 ${entry.method} ${entry.path} ${entry.bit || ""} → ${entry.status} (${entry.durationMs}ms)${
+          entry.ruleId ? ` [${entry.ruleId}]` : ""
+        }`
+      );
+    }
+  }
+}
+
+export function createMockOMSServer(
+  config: Partial<MockOMSServerConfig> = {}
+): MockOMSServer {
+  return new MockOMSServer(config);
+}
@@ -0,0 +1,200 @@
+// Mock SMTP Server - Local stand-in mail server for alert emails
+// Accepts any message and saves it as an .eml file instead of delivering it
+
+import net from "net";
+import fs from "fs";
+import path from "path";
+
+export interface MockSMTPServerConfig {
+  port: number;
+  host: string;
+  mailDir: string | null; // Where received messages are written; null keeps them in memory
+  verbose: boolean;
+}
+
+export interface ReceivedMail {
+  receivedAt: string;
+  from: string;
+  to: string[];
+  subject: string;
+  raw: string;
+}
+
+export class MockSMTPServer {
+  private config: MockSMTPServerConfig;
+  private server: net.Server | null = null;
+  private messages: ReceivedMail[] = [];
+  private readonly MAX_MESSAGES = 200;
+
+  constructor(config: Partial<MockSMTPServerConfig> = {}) {
+    this.config = {
+      port: 2525,
+      host: "127.0.0.1",
+      mailDir: path.join(process.cwd(), "data", "mock-mail"),
+      verbose: false,
+      ...config,
+    };
+  }
+
+  // ===== LIFECYCLE =====
+
+  async start(): Promise<string> {
+    if (this.server) return this.getAddress();
+
+    this.server = net.createServer((socket) => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.config.port, this.config.host, () => {
+        this.server!.off("error", reject);
+        resolve();
+      });
+    });
+
+    // Pick up the real port when started with port 0
+    const address = this.server.address();
+    if (address && typeof address === "object") {
+      this.config.port = address.port;
+    }
+
+    console.log(`📮 Mock SMTP server listening on ${this.getAddress()}`);
+    return this.getAddress();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    console.log("🛑 Mock SMTP server stopped");
+  }
+
+  getAddress(): string {
+    return `${this.config.host}:${this.config.port}`;
+  }
+
+  getPort(): number {
+    return this.config.port;
+  }
+
+  getMessages(): ReceivedMail[] {
+    return [...this.messages];
+  }
+
+  // ===== SMTP DIALOGUE =====
+
+  private handleConnection(socket: net.Socket): void {
+    let buffer = "";
+    let envelope: { from: string; to: string[] } = { from: "", to: [] };
+    let dataLines: string[] | null = null; // Set while reading DATA
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply("220 mock-smtp ESMTP ready");
+
+    socket.setEncoding("utf8");
+    socket.on("error", () => socket.destroy());
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (dataLines) {
+          if (line === ".") {
+            this.receive(envelope, dataLines);
+            envelope = { from: "", to: [] };
+            dataLines = null;
+            reply("250 OK: queued");
+          } else {
+            // Undo dot-stuffing
+            dataLines.push(line.startsWith("..") ? line.slice(1) : line);
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        switch (command) {
+          case "EHLO":
+          case "HELO":
+            reply("250 mock-smtp");
+            break;
+          case "MAIL":
+            envelope.from = extractAddress(line);
+            reply("250 OK");
+            break;
+          case "RCPT":
+            envelope.to.push(extractAddress(line));
+            reply("250 OK");
+            break;
+          case "DATA":
+            if (envelope.to.length === 0) {
+              reply("503 Need RCPT first");
+            } else {
+              dataLines = [];
+              reply("354 End data with <CR><LF>.<CR><LF>");
+            }
+            break;
+          case "RSET":
+            envelope = { from: "", to: [] };
+            reply("250 OK");
+            break;
+          case "NOOP":
+            reply("250 OK");
+            break;
+          case "QUIT":
+            reply("221 Bye");
+            socket.end();
+            break;
+          default:
+            reply("502 Command not implemented");
+        }
+      }
+    });
+  }
+
+  private receive(
+    envelope: { from: string; to: string[] },
+    lines: string[]
+  ): void {
+    const raw = lines.join("\r\n");
+    const subjectLine = lines.find((line) => /^subject:/i.test(line));
+    const mail: ReceivedMail = {
+      receivedAt: new Date().toISOString(),
+      from: envelope.from,
+      to: envelope.to,
+      subject: subjectLine ? subjectLine.slice(8).trim() : "",
+      raw,
+    };
+
+    this.messages.push(mail);
+    if (this.messages.length > this.MAX_MESSAGES) this.messages.shift();
+
+    if (this.config.mailDir) {
+      try {
+        if (!fs.existsSync(this.config.mailDir)) {
+          fs.mkdirSync(this.config.mailDir, { recursive: true });
+        }
+        const fileName = `${mail.receivedAt.replace(/[:.]/g, "-")}.eml`;
+        fs.writeFileSync(path.join(this.config.mailDir, fileName), raw);
+      } catch (error) {
+        console.error("❌ Failed to save mock mail:", error);
+      }
+    }
+
+    console.log(`📨 Mail for ${mail.to.join(", ")}: ${mail.subject}`);
+    if (this.config.verbose) console.log(raw);
+  }
+}
+
+// "MAIL FROM:<a@b>" / "RCPT TO:<a@b>" -> "a@b"
+function extractAddress(line: string): string {
+  const match = line.match(/<([^>]*)>/);
+  return match ? match[1] : line.slice(line.indexOf(":") + 1).trim();
+}
+
+export function createMockSMTPServer(
+  config: Partial<MockSMTPServerConfig> = {}
+): MockSMTPServer {
+  return new MockSMTPServer(config);
+}
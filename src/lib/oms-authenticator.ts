@@ -0,0 +1,269 @@
+// OMS Authenticator - Keeps the intranet session cookies fresh
+// Logs in with stored credentials when the session expires, or just holds
+// the static cookies from the environment when none are configured
+
+export type OMSAuthState =
+  | "unauthenticated" // No cookies yet
+  | "authenticated"
+  | "refreshing"
+  | "expired" // Session rejected and no credentials to renew it
+  | "failed"; // Last login attempt failed
+
+export interface OMSAuthenticatorConfig {
+  baseUrl: string;
+  loginPath: string;
+  username: string;
+  password: string;
+  usernameField: string;
+  passwordField: string;
+  timeoutMs: number;
+  retryInterval: number; // ms to wait after a failed login before another
+}
+
+export interface OMSAuthStatus {
+  state: OMSAuthState;
+  source: "env" | "login" | "none"; // Where the current cookies came from
+  canRefresh: boolean;
+  username?: string;
+  lastRefreshAt?: string;
+  lastFailureAt?: string;
+  lastError?: string;
+  refreshCount: number;
+  authFailures: number; // Requests rejected for an expired session
+}
+
+// A response that means the session is gone rather than the request failed:
+// 401, a redirect (followed or not) to the login page, or an HTML page where
+// the handler should have returned JSON. A 5xx is an outage even when IIS
+// renders it as an HTML error page
+export function isAuthFailure(
+  response: { status: number; redirected?: boolean; url?: string },
+  body: string = ""
+): boolean {
+  if (response.status === 401) return true;
+  if (response.status >= 300 && response.status < 400) return true;
+  if (response.redirected && /login/i.test(response.url || "")) return true;
+  if (response.status >= 500) return false;
+  return body.includes("<!DOCTYPE") || body.includes("<html");
+}
+
+export class OMSAuthenticator {
+  private config: OMSAuthenticatorConfig;
+  private cookies = new Map<string, string>(); // name -> value
+  private source: OMSAuthStatus["source"] = "none";
+  private state: OMSAuthState = "unauthenticated";
+  private refreshing: Promise<string> | null = null;
+  private lastRefreshAt = 0;
+  private lastFailureAt = 0;
+  private lastError?: string;
+  private refreshCount = 0;
+  private authFailures = 0;
+
+  constructor(config: Partial<OMSAuthenticatorConfig> = {}) {
+    this.config = {
+      baseUrl: process.env.OMS_API_BASE_URL || "https://intranet.decopress.com",
+      loginPath: process.env.OMS_LOGIN_PATH || "/login.aspx",
+      username: process.env.OMS_USERNAME || "",
+      password: process.env.OMS_PASSWORD || "",
+      usernameField: process.env.OMS_LOGIN_USERNAME_FIELD || "username",
+      passwordField: process.env.OMS_LOGIN_PASSWORD_FIELD || "password",
+      timeoutMs: 15000,
+      retryInterval: 30 * 1000, // 30 seconds
+      ...config,
+    };
+  }
+
+  // ===== COOKIES =====
+
+  getCookies(): string {
+    return serializeCookies(this.cookies);
+  }
+
+  // Static cookies, e.g. pasted from a browser into .env
+  setCookies(cookies: string): void {
+    this.cookies = parseCookieString(cookies);
+    this.source = this.cookies.size > 0 ? "env" : "none";
+    this.state = this.cookies.size > 0 ? "authenticated" : "unauthenticated";
+  }
+
+  canRefresh(): boolean {
+    return !!(this.config.username && this.config.password);
+  }
+
+  // ===== RENEWAL =====
+
+  // Log in up front when there are credentials but no cookies yet
+  async ensureSession(): Promise<string> {
+    if (this.cookies.size > 0 || !this.canRefresh()) return this.getCookies();
+    return this.refresh();
+  }
+
+  /**
+   * Get cookies for a new session. `staleCookies` are the ones the failed
+   * request was sent with: if another request already renewed the session
+   * since, its cookies are returned without logging in again. Concurrent
+   * callers share one login.
+   */
+  async refresh(staleCookies?: string): Promise<string> {
+    if (staleCookies !== undefined) {
+      this.authFailures++;
+      if (staleCookies !== this.getCookies()) return this.getCookies();
+    }
+    if (this.refreshing) return this.refreshing;
+
+    if (!this.canRefresh()) {
+      this.state = "expired";
+      throw new Error(
+        "OMS session expired and no OMS_USERNAME/OMS_PASSWORD to renew it"
+      );
+    }
+
+    // Don't hammer the login page (and risk a lockout) with bad credentials
+    const sinceFailure = Date.now() - this.lastFailureAt;
+    if (this.state === "failed" && sinceFailure < this.config.retryInterval) {
+      throw new Error(`OMS login failed recently: ${this.lastError}`);
+    }
+
+    this.refreshing = this.login().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async login(): Promise<string> {
+    this.state = "refreshing";
+    console.log(`🔐 Logging in to OMS as ${this.config.username}...`);
+
+    try {
+      const loginUrl = `${this.config.baseUrl}${this.config.loginPath}`;
+      const jar = new Map<string, string>();
+
+      // The login page carries the form's hidden fields and a pre-login
+      // session cookie that the POST must send back
+      const page = await fetch(loginUrl, {
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      mergeSetCookies(jar, page.headers);
+      const form = new URLSearchParams(getHiddenFields(await page.text()));
+      form.set(this.config.usernameField, this.config.username);
+      form.set(this.config.passwordField, this.config.password);
+
+      const response = await fetch(loginUrl, {
+        method: "POST",
+        redirect: "manual",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Cookie: serializeCookies(jar),
+        },
+        body: form,
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      const issued = mergeSetCookies(jar, response.headers);
+      const body = await response.text();
+
+      // A good login redirects away from the login page and issues cookies;
+      // a bad one renders the form again
+      const location = (response.headers.get("location") || "").toLowerCase();
+      const backToLogin =
+        response.status === 200
+          ? /type=["']?password/i.test(body)
+          : location.includes(this.config.loginPath.toLowerCase());
+      if (response.status >= 400 || backToLogin || issued === 0) {
+        throw new Error(
+          `OMS login rejected (HTTP ${response.status}${
+            backToLogin ? ", login form returned" : ""
+          })`
+        );
+      }
+
+      this.cookies = jar;
+      this.source = "login";
+      this.state = "authenticated";
+      this.lastRefreshAt = Date.now();
+      this.lastError = undefined;
+      this.refreshCount++;
+      console.log(`✅ OMS session renewed (${jar.size} cookies)`);
+      return this.getCookies();
+    } catch (error) {
+      this.state = "failed";
+      this.lastFailureAt = Date.now();
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.error("❌ OMS login failed:", this.lastError);
+      throw error;
+    }
+  }
+
+  // ===== STATUS =====
+
+  getStatus(): OMSAuthStatus {
+    return {
+      state: this.state,
+      source: this.source,
+      canRefresh: this.canRefresh(),
+      username: this.config.username || undefined,
+      lastRefreshAt: this.lastRefreshAt
+        ? new Date(this.lastRefreshAt).toISOString()
+        : undefined,
+      lastFailureAt: this.lastFailureAt
+        ? new Date(this.lastFailureAt).toISOString()
+        : undefined,
+      lastError: this.lastError,
+      refreshCount: this.refreshCount,
+      authFailures: this.authFailures,
+    };
+  }
+}
+
+// ===== HELPERS =====
+
+function parseCookieString(cookies: string): Map<string, string> {
+  const jar = new Map<string, string>();
+  cookies.split(";").forEach((pair) => {
+    const index = pair.indexOf("=");
+    if (index > 0) {
+      jar.set(pair.slice(0, index).trim(), pair.slice(index + 1).trim());
+    }
+  });
+  return jar;
+}
+
+function serializeCookies(jar: Map<string, string>): string {
+  return Array.from(jar.entries())
+    .map(([name, value]) => `${name}=${value}`)
+    .join("; ");
+}
+
+// Returns how many cookies the response set
+function mergeSetCookies(jar: Map<string, string>, headers: Headers): number {
+  const setCookies = headers.getSetCookie();
+  setCookies.forEach((header) => {
+    const [pair] = header.split(";");
+    const index = pair.indexOf("=");
+    if (index > 0) {
+      jar.set(pair.slice(0, index).trim(), pair.slice(index + 1).trim());
+    }
+  });
+  return setCookies.length;
+}
+
+// ASP.NET forms need __VIEWSTATE and friends posted back unchanged
+function getHiddenFields(html: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const inputs = html.match(/<input[^>]*type=["']?hidden["']?[^>]*>/gi) || [];
+  inputs.forEach((input) => {
+    const name = input.match(/name=["']([^"']*)["']/i)?.[1];
+    const value = input.match(/value=["']([^"']*)["']/i)?.[1] || "";
+    if (name) fields[name] = decodeHTML(value);
+  });
+  return fields;
+}
+
+function decodeHTML(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
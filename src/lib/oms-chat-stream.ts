@@ -0,0 +1,71 @@
+// OMS Chat Stream - Client-side reader for /api/oms-chat streaming responses
+// Parses the Server-Sent Events the route emits when called with stream: true
+
+export interface OMSChatStreamHandlers {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  onOrders?: (data: { orders: any[]; strategy: string }) => void;
+  onToken?: (text: string) => void;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  onDone?: (response: any) => void;
+  onError?: (data: {
+    error: string;
+    message: string;
+    details?: string;
+  }) => void;
+}
+
+// Reads the event stream until the server closes it, dispatching each event
+// to its handler in arrival order
+export async function readOMSChatStream(
+  response: Response,
+  handlers: OMSChatStreamHandlers
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Streaming response has no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+    block.split("\n").forEach((line) => {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+    });
+    if (dataLines.length === 0) return;
+
+    const data = JSON.parse(dataLines.join("\n"));
+    switch (event) {
+      case "orders":
+        handlers.onOrders?.(data);
+        break;
+      case "token":
+        handlers.onToken?.(data.text);
+        break;
+      case "done":
+        handlers.onDone?.(data);
+        break;
+      case "error":
+        handlers.onError?.(data);
+        break;
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+}
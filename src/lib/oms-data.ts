@@ -1,6 +1,6 @@
-import fs from "fs";
-import path from "path";
 import { APIJob, APIJobShipments, APIJobFiles } from "./enhanced-api-client";
+import type { ModernOrder } from "./api-first-data-service";
+import { orderStore } from "./order-store";
 
 export interface Order {
   jobNumber: string;
@@ -120,30 +120,22 @@ export interface EnhancedOrdersData {
   };
 }
 
+// Legacy scraped-shape view over the local order store
 class OMSDataService {
   private ordersData: OrdersData | null = null;
-  private dataPath: string;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private cache = new Map<string, { data: any; expiry: number }>();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-  private fileStats: fs.Stats | null = null;
-
-  constructor() {
-    this.dataPath = path.join(process.cwd(), "data", "orders.json");
-  }
+  private storeRevision = -1;
 
   private isCacheValid(key: string): boolean {
     const cached = this.cache.get(key);
     if (!cached) return false;
 
-    try {
-      const currentStats = fs.statSync(this.dataPath);
-      if (!this.fileStats || currentStats.mtime > this.fileStats.mtime) {
-        this.fileStats = currentStats;
-        this.cache.clear(); // Clear all cache if file changed
-        return false;
-      }
-    } catch {
+    const revision = orderStore.getRevision();
+    if (revision !== this.storeRevision) {
+      this.storeRevision = revision;
+      this.cache.clear(); // Clear all cache if the store changed
       return false;
     }
 
@@ -176,14 +168,20 @@ class OMSDataService {
     }
 
     try {
-      const data = fs.readFileSync(this.dataPath, "utf8");
-      this.ordersData = JSON.parse(data);
-
-      this.fileStats = fs.statSync(this.dataPath);
+      const stats = orderStore.getStats();
+      this.storeRevision = orderStore.getRevision();
+      this.ordersData = {
+        orders: orderStore.getAllOrders().map((order) => this.toOrder(order)),
+        summary: {
+          totalOrders: stats.totalOrders,
+          lastUpdated: stats.lastUpdate,
+          scrapedAt: stats.lastFullSync,
+        },
+      };
 
       this.setCache(cacheKey, this.ordersData);
 
-      return this.ordersData!;
+      return this.ordersData;
     } catch (loadError) {
       console.error("Error loading orders data:", loadError);
       throw new Error("Failed to load orders data");
@@ -196,8 +194,8 @@ class OMSDataService {
   }
 
   async getOrderByJobNumber(jobNumber: string): Promise<Order | null> {
-    const orders = await this.getOrders();
-    return orders.find((order) => order.jobNumber === jobNumber) || null;
+    const order = orderStore.getOrder(jobNumber);
+    return order ? this.toOrder(order) : null;
   }
 
   async searchOrdersByQuery(query: string): Promise<Order[]> {
@@ -226,17 +224,15 @@ class OMSDataService {
   }
 
   async getOrdersByStatus(status: string): Promise<Order[]> {
-    const orders = await this.getOrders();
-    return orders.filter(
-      (order) => order.status.toLowerCase() === status.toLowerCase()
-    );
+    return orderStore
+      .getOrdersByStatus(status)
+      .map((order) => this.toOrder(order));
   }
 
   async getOrdersByCustomer(customerName: string): Promise<Order[]> {
-    const orders = await this.getOrders();
-    return orders.filter((order) =>
-      order.customer.company.toLowerCase().includes(customerName.toLowerCase())
-    );
+    return orderStore
+      .getOrdersByCustomer(customerName)
+      .map((order) => this.toOrder(order));
   }
 
   async getOrdersByPriority(priority: string): Promise<Order[]> {
@@ -383,45 +379,106 @@ class OMSDataService {
   }
 
   async getRushOrders(): Promise<Order[]> {
-    const orders = await this.getOrders();
-    return orders.filter(
-      (order) =>
-        order.priority === "MUST" ||
-        order.workflow.isRush ||
-        order.status.toLowerCase().includes("rush")
-    );
+    return orderStore.getRushOrders().map((order) => this.toOrder(order));
   }
 
   async getLateOrders(): Promise<Order[]> {
-    const orders = await this.getOrders();
-    const today = new Date();
-
-    return orders.filter((order) => {
-      if (!order.requestedShipDate) return false;
-      try {
-        const shipDate = new Date(order.requestedShipDate);
-        if (isNaN(shipDate.getTime())) {
-          console.warn(
-            `Invalid requestedShipDate for order ${order.jobNumber}:`,
-            order.requestedShipDate
-          );
-          return false;
-        }
-        return shipDate < today && order.status !== "Closed";
-      } catch (parseError) {
-        console.warn(
-          `Error parsing requestedShipDate for order ${order.jobNumber}:`,
-          parseError
-        );
-        return false;
-      }
-    });
+    return orderStore
+      .getLateOrders()
+      .filter((order) => order.status.master !== "Closed")
+      .map((order) => this.toOrder(order));
   }
 
   clearCache(): void {
     this.cache.clear();
     this.ordersData = null;
-    this.fileStats = null;
+    this.storeRevision = -1;
+  }
+
+  // Map a stored ModernOrder onto the scraped Order shape
+  private toOrder(order: ModernOrder): Order {
+    const entered = new Date(order.dates.dateEntered).getTime();
+
+    return {
+      jobNumber: order.jobNumber,
+      orderNumber: order.orderNumber,
+      status: order.status.master,
+      priority: order.production.mustDate
+        ? "MUST"
+        : order.production.timeSensitive
+        ? "rush"
+        : "normal",
+      customer: {
+        company: order.customer.company,
+        contactPerson: order.customer.contactPerson || "",
+        phone: order.customer.phone || "",
+        email: order.customer.email || "",
+      },
+      description: order.description,
+      comment: order.comments,
+      dateEntered: order.dates.dateEntered,
+      requestedShipDate: order.dates.dateDue || null,
+      approvedBy: "",
+      approvedDate: "",
+      pricing: {
+        subtotal: order.pricing?.subtotal ?? order.pricing?.total ?? 0,
+        salesTax: order.pricing?.tax ?? 0,
+        totalDue: order.pricing?.total ?? 0,
+        currency: "USD",
+      },
+      shipments: order.shipments.map((shipment) => ({
+        shipmentNumber: shipment.id,
+        status: shipment.shipped ? "Shipped" : "Pending",
+        shippingMethod: shipment.method.label,
+        trackingNumber: shipment.trackingDetails?.trackingLink || null,
+        shipToAddress: {
+          company: shipment.address.organisation,
+          street: shipment.address.streetAddress,
+          city: shipment.address.city,
+          state: shipment.address.state,
+          zipCode: shipment.address.zipCode,
+          country: "US",
+        },
+        contactInfo: {
+          name: shipment.address.contactName,
+          phone: "",
+          email: "",
+        },
+        specialInstructions: shipment.title,
+      })),
+      lineItems: order.lineItems.map((item) => ({
+        assetSKU: item.assetSKU || item.program || "",
+        description: item.description,
+        category: item.category || "",
+        quantity: item.quantity,
+        unitPrice: item.unitPrice || 0,
+        totalPrice: item.totalPrice || 0,
+        comment: item.comment || "",
+        status: item.status || "",
+        hasImage: Boolean(item.hasImage),
+        hasPDF: Boolean(item.hasPDF || item.assetHasPDF),
+      })),
+      workflow: {
+        hasJobFiles: order.workflow.hasJobFiles,
+        hasProof: order.workflow.hasProof,
+        hasPackingSlip: false,
+        needsPanels: false,
+        isRush: order.production.timeSensitive,
+      },
+      production: {
+        daysInProduction: Number.isNaN(entered)
+          ? 0
+          : Math.max(0, Math.floor((Date.now() - entered) / 86400000)),
+        estimatedCompletionDate: order.dates.dateDueFactory || null,
+        productionNotes: [],
+      },
+      metadata: {
+        lastUpdated: order.metadata.lastAPIUpdate,
+        department: order.location.name,
+        tags: order.tags.map((tag) => tag.tag),
+        complexity: "",
+      },
+    };
   }
 }
 
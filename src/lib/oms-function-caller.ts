@@ -7,6 +7,22 @@ import {
   toModernOrder,
 } from "./api-first-data-service";
 import { enhancedAPIClient } from "./enhanced-api-client";
+import {
+  orderChangeHistory,
+  resolveChangeWindow,
+  ORDER_CHANGE_FIELDS,
+  OrderChangeField,
+  OrderFieldChange,
+} from "./order-change-history";
+import { orderStore } from "./order-store";
+import { auditLog } from "./audit-log";
+import { parseJobNumbers, writeActionService } from "./write-actions";
+import {
+  DataScope,
+  isCustomerInScope,
+  isOrderInScope,
+  scopeOrders,
+} from "./data-scope";
 
 export interface FunctionCallResult {
   success: boolean;
@@ -186,6 +202,41 @@ export class OMSFunctionCaller {
           required: ["category_unit_id", "price_tier", "price_code"],
         },
       },
+      {
+        name: "get_order_changes",
+        description:
+          "Get recorded field-level changes to orders (status, due date, quantity, tags, shipments, line items) over a time window",
+        parameters: {
+          type: "object",
+          properties: {
+            job_number: {
+              type: "string",
+              description: "Only changes to this job",
+            },
+            field: {
+              type: "string",
+              description: "Only changes to this field",
+              enum: ORDER_CHANGE_FIELDS,
+            },
+            since: {
+              type: "string",
+              description:
+                'Start of the window: ISO date or phrase such as "this week", "since Monday", "last 7 days"',
+            },
+            direction: {
+              type: "string",
+              description:
+                "Due date moves only: pushed = later, pulled = earlier",
+              enum: ["pushed", "pulled"],
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of changes to return",
+            },
+          },
+          required: [],
+        },
+      },
       {
         name: "get_category_units",
         description: "Get list of all product types/materials used across jobs",
@@ -195,13 +246,16 @@ export class OMSFunctionCaller {
           required: [],
         },
       },
+      // Writes only propose a change; see write-actions.ts
+      ...writeActionService.getFunctions(),
     ];
   }
 
   // Execute a function call
   async executeFunction(
     functionName: string,
-    parameters: any
+    parameters: any,
+    scope?: DataScope
   ): Promise<FunctionCallResult> {
     console.log(
       `🔧 [FUNCTION] Executing ${functionName} with params:`,
@@ -211,6 +265,10 @@ export class OMSFunctionCaller {
     try {
       let result: any;
 
+      if (scope) {
+        await this.assertInScope(parameters || {}, scope);
+      }
+
       switch (functionName) {
         case "get_job_list":
           result = await this.getJobList(parameters);
@@ -242,10 +300,22 @@ export class OMSFunctionCaller {
         case "get_category_units":
           result = await this.getCategoryUnits(parameters);
           break;
+        case "get_order_changes":
+          result = await this.getOrderChanges(parameters);
+          break;
         default:
-          throw new Error(`Unknown function: ${functionName}`);
+          result = await this.proposeWrite(functionName, parameters, scope);
       }
 
+      if (scope) {
+        result = this.scopeResult(functionName, result, scope);
+      }
+
+      auditLog.recordFunctionCall({
+        name: functionName,
+        parameters,
+        success: true,
+      });
       return {
         success: true,
         data: result,
@@ -254,6 +324,12 @@ export class OMSFunctionCaller {
       };
     } catch (error) {
       console.error(`❌ [FUNCTION] ${functionName} failed:`, error);
+      auditLog.recordFunctionCall({
+        name: functionName,
+        parameters,
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -263,6 +339,56 @@ export class OMSFunctionCaller {
     }
   }
 
+  // Refuse calls that name a customer or job the caller may not see
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async assertInScope(parameters: any, scope: DataScope) {
+    if (
+      parameters.customer_id !== undefined &&
+      !isCustomerInScope(parameters.customer_id, scope)
+    ) {
+      throw new Error(
+        `Customer ${parameters.customer_id} is outside your account`
+      );
+    }
+
+    if (parameters.job_number) {
+      const jobNumber = String(parameters.job_number);
+      const order =
+        orderStore.getOrder(jobNumber) ||
+        (await apiFirstDataService.getOrderByJobNumber(jobNumber));
+      if (!isOrderInScope(order, scope)) {
+        throw new Error(`Job ${jobNumber} is outside your account`);
+      }
+    }
+  }
+
+  // Functions that return many jobs are filtered rather than refused
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private scopeResult(functionName: string, result: any, scope: DataScope) {
+    switch (functionName) {
+      case "get_job_list":
+        return Array.isArray(result) ? scopeOrders(result, scope) : result;
+      case "get_order_changes": {
+        const changes = result.changes.filter((change: OrderFieldChange) =>
+          isOrderInScope(orderStore.getOrder(change.jobNumber), scope)
+        );
+        return {
+          ...result,
+          totalChanges: changes.length,
+          jobs: [
+            ...new Set(
+              changes.map((change: OrderFieldChange) => change.jobNumber)
+            ),
+          ],
+          changes,
+          summary: orderChangeHistory.summarize(changes),
+        };
+      }
+      default:
+        return result;
+    }
+  }
+
   // Individual function implementations
   private async getJobList(params: any): Promise<any> {
     const filters: any = {
@@ -372,6 +498,78 @@ export class OMSFunctionCaller {
     return priceBands;
   }
 
+  private async getOrderChanges(params: {
+    job_number?: string;
+    field?: OrderChangeField;
+    since?: string;
+    direction?: "pushed" | "pulled";
+    limit?: number;
+  }) {
+    const window = params.since
+      ? /^\d{4}-\d{2}-\d{2}/.test(params.since)
+        ? {
+            since: new Date(params.since),
+            until: null,
+            description: `since ${params.since}`,
+          }
+        : resolveChangeWindow(params.since)
+      : { since: null, until: null, description: "all recorded changes" };
+
+    const changes = orderChangeHistory.getChanges({
+      jobNumber: params.job_number,
+      field: params.field,
+      direction: params.direction,
+      since: window.since || undefined,
+      until: window.until || undefined,
+      limit: params.limit,
+    });
+
+    return {
+      window: window.description,
+      totalChanges: changes.length,
+      jobs: [...new Set(changes.map((change) => change.jobNumber))],
+      changes,
+      summary: orderChangeHistory.summarize(changes),
+    };
+  }
+
+  // Write functions only dry-run the change and create a pending action
+  // for the user to confirm; the preview is returned to the LLM
+  private async proposeWrite(
+    functionName: string,
+    params: Record<string, string>,
+    scope?: DataScope
+  ) {
+    const definition = writeActionService.getByFunction(functionName);
+    if (!definition) throw new Error(`Unknown function: ${functionName}`);
+
+    const { job_numbers, ...rest } = params;
+    const jobNumbers = parseJobNumbers(String(job_numbers || ""));
+    if (!jobNumbers) {
+      throw new Error(`Couldn't read job numbers "${job_numbers}"`);
+    }
+
+    const action = await writeActionService.propose(
+      {
+        kind: definition.kind,
+        jobNumbers,
+        params: Object.fromEntries(
+          Object.entries(rest).map(([key, value]) => [key, String(value)])
+        ),
+      },
+      scope
+    );
+    return {
+      confirmationRequired: true,
+      dryRun: true,
+      actionId: action.id,
+      summary: action.summary,
+      changes: action.changes,
+      skipped: action.skipped,
+      expiresAt: action.expiresAt,
+    };
+  }
+
   private async getCategoryUnits(params: any): Promise<any> {
     const rawCategoryUnits = await this.apiClient.getAllCategoryUnits();
     const categoryUnits = toModernOrder(rawCategoryUnits);
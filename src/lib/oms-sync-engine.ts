@@ -0,0 +1,541 @@
+// OMS Sync Engine - Incremental sync of the active job list into the order store and vector index
+// Polls JobStatusQueryAsync page by page with a durable checkpoint so interrupted syncs resume
+
+import { enhancedAPIClient, type APIJob } from "./enhanced-api-client";
+import { apiFirstDataService, type ModernOrder } from "./api-first-data-service";
+import { orderStore } from "./order-store";
+import { orderVectorIndex } from "./order-vector-index";
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+
+export type TombstoneReason = "shipped" | "closed";
+
+export interface JobTombstone {
+  jobNumber: string;
+  reason: TombstoneReason;
+  lastStatus: string;
+  lastSeen: string;
+  removedAt: string;
+  runId: string;
+}
+
+export interface SyncedJobState {
+  fingerprint: string; // Hash of the list-level fields that signal a change
+  status: string;
+  lastSeen: string;
+}
+
+export interface SyncRunState {
+  id: string;
+  startedAt: string;
+  updatedAt: string;
+  pageSize: number;
+  lastCompletedPage: number;
+  totalPages: number;
+  seen: string[]; // Job numbers listed so far in this run
+  newJobs: number;
+  changedJobs: number;
+  unchangedJobs: number;
+}
+
+interface SyncCheckpoint {
+  jobs: Record<string, SyncedJobState>; // Active jobs as of the last sync
+  lastCompletedSync: string | null;
+  run: SyncRunState | null; // Set while a run is in progress or interrupted
+  tombstones: JobTombstone[]; // Most recent last
+}
+
+export interface SyncOptions {
+  pageSize?: number;
+  maxPages?: number; // Stop after this many pages; the next sync resumes
+  fresh?: boolean; // Discard an interrupted run instead of resuming it
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+export interface SyncProgress {
+  runId: string;
+  page: number;
+  totalPages: number;
+  seenJobs: number;
+  newJobs: number;
+  changedJobs: number;
+}
+
+export interface SyncReport {
+  runId: string;
+  resumed: boolean;
+  completed: boolean; // False when stopped by maxPages or a failed page
+  pagesProcessed: number;
+  lastCompletedPage: number;
+  totalPages: number;
+  seenJobs: number;
+  newJobs: number;
+  changedJobs: number;
+  unchangedJobs: number;
+  tombstones: JobTombstone[];
+  upsertedVectors: number;
+  deletedVectors: number;
+  processingTime: number;
+  errors: string[];
+}
+
+export interface SyncStatus {
+  lastCompletedSync: string | null;
+  trackedJobs: number;
+  tombstones: number;
+  inProgress: boolean;
+  run: Omit<SyncRunState, "seen"> | null;
+}
+
+export class OMSSyncEngine {
+  private checkpoint: SyncCheckpoint;
+  private activeSync: Promise<SyncReport> | null = null;
+  private readonly defaultPageSize = 200;
+  private readonly resumeWindow = 6 * 60 * 60 * 1000; // Older runs start over
+  private readonly maxTombstones = 1000;
+  // Refuse to tombstone when a run loses more than this share of known jobs;
+  // a broken filter or truncated listing looks the same as mass closure
+  private readonly maxTombstoneRatio = 0.5;
+
+  constructor(
+    private checkpointPath: string = path.join(
+      process.cwd(),
+      "data",
+      "oms-sync-checkpoint.json"
+    )
+  ) {
+    this.checkpoint = this.loadCheckpoint();
+  }
+
+  // Concurrent callers share the in-flight run
+  async sync(options: SyncOptions = {}): Promise<SyncReport> {
+    if (!this.activeSync) {
+      this.activeSync = this.runSync(options).finally(() => {
+        this.activeSync = null;
+      });
+    }
+    return this.activeSync;
+  }
+
+  getStatus(): SyncStatus {
+    const run = this.checkpoint.run;
+    return {
+      lastCompletedSync: this.checkpoint.lastCompletedSync,
+      trackedJobs: Object.keys(this.checkpoint.jobs).length,
+      tombstones: this.checkpoint.tombstones.length,
+      inProgress: this.activeSync !== null,
+      run: run
+        ? {
+            id: run.id,
+            startedAt: run.startedAt,
+            updatedAt: run.updatedAt,
+            pageSize: run.pageSize,
+            lastCompletedPage: run.lastCompletedPage,
+            totalPages: run.totalPages,
+            newJobs: run.newJobs,
+            changedJobs: run.changedJobs,
+            unchangedJobs: run.unchangedJobs,
+          }
+        : null,
+    };
+  }
+
+  getTombstones(since?: string): JobTombstone[] {
+    if (!since) return [...this.checkpoint.tombstones];
+    return this.checkpoint.tombstones.filter(
+      (tombstone) => tombstone.removedAt > since
+    );
+  }
+
+  reset(): void {
+    this.checkpoint = this.emptyCheckpoint();
+    this.saveCheckpoint();
+    console.log("🔄 OMS sync checkpoint reset");
+  }
+
+  // ===== SYNC RUN =====
+
+  private async runSync(options: SyncOptions): Promise<SyncReport> {
+    const startTime = Date.now();
+    const { pageSize = this.defaultPageSize, maxPages, onProgress } = options;
+
+    const resumable = this.getResumableRun(pageSize, options.fresh);
+    const run = resumable || this.startRun(pageSize);
+    const report = this.emptyReport(run, Boolean(resumable));
+
+    console.log(
+      resumable
+        ? `🔄 Resuming OMS sync ${run.id} after page ${run.lastCompletedPage}/${run.totalPages}`
+        : `🔄 Starting OMS sync ${run.id}...`
+    );
+
+    // A resumed run re-reads its last completed page so jobs pushed forward
+    // by inserts since the interruption are not skipped
+    let page = Math.max(1, run.lastCompletedPage);
+    let hasNext = true;
+    let pageFailed = false;
+
+    while (
+      hasNext &&
+      (maxPages === undefined || report.pagesProcessed < maxPages)
+    ) {
+      try {
+        // Uncached: a stale page would hide changes and fake tombstones
+        const response = await enhancedAPIClient.getJobList(
+          {
+            "requested-page": page.toString(),
+            "page-size": pageSize.toString(),
+          },
+          { skipCache: true }
+        );
+
+        if (!response.isSuccess || !response.data) {
+          throw new Error(
+            response.error?.Message || `Job list page ${page} failed`
+          );
+        }
+
+        await this.processPage(response.data.Entities || [], run, report);
+
+        hasNext = response.data.HasNext;
+        run.totalPages = response.data.TotalPages || page;
+        run.lastCompletedPage = page;
+        run.updatedAt = new Date().toISOString();
+        report.pagesProcessed++;
+        this.saveCheckpoint();
+
+        onProgress?.({
+          runId: run.id,
+          page,
+          totalPages: run.totalPages,
+          seenJobs: run.seen.length,
+          newJobs: run.newJobs,
+          changedJobs: run.changedJobs,
+        });
+        page++;
+      } catch (error) {
+        const message = `Page ${page}: ${
+          error instanceof Error ? error.message : String(error)
+        }`;
+        console.error("❌ OMS sync page failed:", message);
+        report.errors.push(message);
+        pageFailed = true;
+        break;
+      }
+    }
+
+    if (!hasNext && !pageFailed) {
+      await this.completeRun(run, report);
+      report.completed = true;
+    }
+
+    this.fillReport(report, run);
+    report.processingTime = Date.now() - startTime;
+
+    console.log(
+      `✅ OMS sync ${run.id} ${
+        report.completed ? "completed" : "paused"
+      }: ${report.seenJobs} seen, +${report.newJobs} new, ~${
+        report.changedJobs
+      } changed, -${report.tombstones.length} removed (${
+        report.processingTime
+      }ms)`
+    );
+
+    return report;
+  }
+
+  private async processPage(
+    jobs: APIJob[],
+    run: SyncRunState,
+    report: SyncReport
+  ): Promise<void> {
+    const seen = new Set(run.seen);
+    const changed: Array<{ job: APIJob; state: SyncedJobState }> = [];
+    const now = new Date().toISOString();
+
+    for (const job of jobs) {
+      const jobNumber = job.JobNumber.toString();
+      const state: SyncedJobState = {
+        fingerprint: this.fingerprintJob(job),
+        status: job.MasterJobStatus,
+        lastSeen: now,
+      };
+      const previous = this.checkpoint.jobs[jobNumber];
+      const alreadySeen = seen.has(jobNumber);
+      seen.add(jobNumber);
+
+      if (previous && previous.fingerprint === state.fingerprint) {
+        previous.lastSeen = now;
+        if (!alreadySeen) run.unchangedJobs++;
+        continue;
+      }
+
+      changed.push({ job, state });
+      if (!alreadySeen) {
+        if (previous) run.changedJobs++;
+        else run.newJobs++;
+      }
+    }
+
+    run.seen = [...seen];
+    if (changed.length === 0) return;
+
+    const orders: ModernOrder[] = [];
+    for (const { job } of changed) {
+      try {
+        orders.push(
+          await apiFirstDataService.convertAPIJobToModernOrder(job, {
+            includeLineItems: true,
+            includeShipments: true,
+            includeFiles: false,
+          })
+        );
+      } catch (error) {
+        report.errors.push(
+          `Job ${job.JobNumber}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    orderStore.upsertOrders(orders, {
+      source: "api",
+      included: { lineItems: true, shipments: true, files: false },
+    });
+
+    const indexStats = await orderVectorIndex.indexOrders(orders);
+    report.upsertedVectors += indexStats.upsertedVectors;
+    report.deletedVectors += indexStats.deletedVectors;
+    report.errors.push(...indexStats.errors);
+
+    // Fingerprints only advance once a job is stored and indexed, so a
+    // failure is retried by the next sync
+    if (indexStats.errors.length > 0) return;
+    const converted = new Set(orders.map((order) => order.jobNumber));
+    for (const { job, state } of changed) {
+      const jobNumber = job.JobNumber.toString();
+      if (converted.has(jobNumber)) {
+        this.checkpoint.jobs[jobNumber] = state;
+      }
+    }
+  }
+
+  private async completeRun(
+    run: SyncRunState,
+    report: SyncReport
+  ): Promise<void> {
+    const seen = new Set(run.seen);
+    const known = Object.keys(this.checkpoint.jobs);
+    const missing = known.filter((jobNumber) => !seen.has(jobNumber));
+
+    if (
+      missing.length > 0 &&
+      missing.length > known.length * this.maxTombstoneRatio
+    ) {
+      report.errors.push(
+        `Refusing to tombstone ${missing.length}/${known.length} jobs; listing looks incomplete`
+      );
+      this.checkpoint.run = null;
+      this.saveCheckpoint();
+      return;
+    }
+
+    const removedAt = new Date().toISOString();
+    const tombstones: JobTombstone[] = missing.map((jobNumber) => {
+      const state = this.checkpoint.jobs[jobNumber];
+      return {
+        jobNumber,
+        reason: this.tombstoneReason(jobNumber, state.status),
+        lastStatus: state.status,
+        lastSeen: state.lastSeen,
+        removedAt,
+        runId: run.id,
+      };
+    });
+
+    if (tombstones.length > 0) {
+      console.log(`🪦 ${tombstones.length} jobs left the active list`);
+      try {
+        report.deletedVectors += await orderVectorIndex.removeOrders(missing);
+      } catch (error) {
+        report.errors.push(
+          `Tombstones: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      // Removal events carry the tombstone reason
+      (["shipped", "closed"] as const).forEach((reason) =>
+        orderStore.removeOrders(
+          tombstones
+            .filter((tombstone) => tombstone.reason === reason)
+            .map((tombstone) => tombstone.jobNumber),
+          reason
+        )
+      );
+      missing.forEach((jobNumber) => delete this.checkpoint.jobs[jobNumber]);
+      this.checkpoint.tombstones = [
+        ...this.checkpoint.tombstones,
+        ...tombstones,
+      ].slice(-this.maxTombstones);
+    }
+
+    // The run listed every active job, so the store can drop the rest
+    orderStore.markFullSync(run.seen);
+
+    report.tombstones = tombstones;
+    this.checkpoint.lastCompletedSync = removedAt;
+    this.checkpoint.run = null;
+    this.saveCheckpoint();
+  }
+
+  // ===== HELPERS =====
+
+  private getResumableRun(
+    pageSize: number,
+    fresh?: boolean
+  ): SyncRunState | null {
+    const run = this.checkpoint.run;
+    if (!run || fresh) return null;
+
+    const age = Date.now() - new Date(run.updatedAt).getTime();
+    if (run.pageSize !== pageSize || !(age < this.resumeWindow)) {
+      console.log(`⚠️ Discarding interrupted OMS sync ${run.id}`);
+      return null;
+    }
+    return run;
+  }
+
+  private startRun(pageSize: number): SyncRunState {
+    const now = new Date().toISOString();
+    const run: SyncRunState = {
+      id: `sync_${Date.now()}`,
+      startedAt: now,
+      updatedAt: now,
+      pageSize,
+      lastCompletedPage: 0,
+      totalPages: 0,
+      seen: [],
+      newJobs: 0,
+      changedJobs: 0,
+      unchangedJobs: 0,
+    };
+
+    this.checkpoint.run = run;
+    this.saveCheckpoint();
+    return run;
+  }
+
+  // List-level fields only; DaysToDueDate ticks daily and is left out
+  private fingerprintJob(job: APIJob): string {
+    const content = {
+      client: job.Client,
+      customerId: job.CustomerId,
+      description: job.Description,
+      orderNumber: job.OrderNumber,
+      dateDue: job.DateDue,
+      dateDueFactory: job.DateDueFactory,
+      status: job.MasterJobStatus,
+      stock: job.StockCompleteStatus,
+      deliveryOption: job.DeliveryOption,
+      quantity: job.JobQuantity,
+      location: job.JobLocationCode,
+      mustDate: job.MustDate,
+      timeSensitive: job.TimeSensitive,
+      comments: job.Comments,
+      tags: (job.JobTags || []).map((tag) => tag.Tag),
+      processes: (job.ProcessQuantities || []).map(
+        (process) => `${process.Code}:${process.Qty}`
+      ),
+      gangCodes: job.GangCodes,
+    };
+
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify(content))
+      .digest("hex");
+  }
+
+  // Jobs drop off the active list once shipped or otherwise closed
+  private tombstoneReason(jobNumber: string, status: string): TombstoneReason {
+    const order = orderStore.getOrder(jobNumber);
+    const shipped =
+      (order?.shipments.length || 0) > 0 &&
+      order!.shipments.every((shipment) => shipment.shipped);
+
+    return shipped || /dispatched|shipped|completed/i.test(status)
+      ? "shipped"
+      : "closed";
+  }
+
+  private fillReport(report: SyncReport, run: SyncRunState): void {
+    report.lastCompletedPage = run.lastCompletedPage;
+    report.totalPages = run.totalPages;
+    report.seenJobs = run.seen.length;
+    report.newJobs = run.newJobs;
+    report.changedJobs = run.changedJobs;
+    report.unchangedJobs = run.unchangedJobs;
+  }
+
+  private emptyReport(run: SyncRunState, resumed: boolean): SyncReport {
+    return {
+      runId: run.id,
+      resumed,
+      completed: false,
+      pagesProcessed: 0,
+      lastCompletedPage: run.lastCompletedPage,
+      totalPages: run.totalPages,
+      seenJobs: 0,
+      newJobs: 0,
+      changedJobs: 0,
+      unchangedJobs: 0,
+      tombstones: [],
+      upsertedVectors: 0,
+      deletedVectors: 0,
+      processingTime: 0,
+      errors: [],
+    };
+  }
+
+  private emptyCheckpoint(): SyncCheckpoint {
+    return {
+      jobs: {},
+      lastCompletedSync: null,
+      run: null,
+      tombstones: [],
+    };
+  }
+
+  private loadCheckpoint(): SyncCheckpoint {
+    try {
+      if (fs.existsSync(this.checkpointPath)) {
+        const data = JSON.parse(fs.readFileSync(this.checkpointPath, "utf8"));
+        return { ...this.emptyCheckpoint(), ...data };
+      }
+    } catch (error) {
+      console.warn("Failed to load OMS sync checkpoint:", error);
+    }
+
+    return this.emptyCheckpoint();
+  }
+
+  // Written to a temp file and renamed so a crash never leaves a torn checkpoint
+  private saveCheckpoint(): void {
+    try {
+      const dir = path.dirname(this.checkpointPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      const tempPath = `${this.checkpointPath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.checkpoint, null, 2));
+      fs.renameSync(tempPath, this.checkpointPath);
+    } catch (error) {
+      console.error("Failed to save OMS sync checkpoint:", error);
+    }
+  }
+}
+
+// Export singleton instance
+export const omsSyncEngine = new OMSSyncEngine();
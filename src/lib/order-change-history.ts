@@ -0,0 +1,526 @@
+// Order Change History - Persistent field-level diffs between successive order snapshots
+// Recorded from order.updated events; answers "what changed on job X" and "whose due date moved"
+
+import type { ModernOrder } from "./api-first-data-service";
+import { orderEventBus } from "./order-event-bus";
+import { standardizedDateParser } from "./standardized-date-parser";
+import { DataFileWriter } from "./data-file-writer";
+import path from "path";
+import fs from "fs";
+
+export type OrderChangeField =
+  | "status"
+  | "dueDate"
+  | "quantity"
+  | "tags"
+  | "shipments"
+  | "lineItems";
+
+export const ORDER_CHANGE_FIELDS: OrderChangeField[] = [
+  "status",
+  "dueDate",
+  "quantity",
+  "tags",
+  "shipments",
+  "lineItems",
+];
+
+export interface OrderFieldChange {
+  id: string;
+  jobNumber: string;
+  customer: string;
+  field: OrderChangeField;
+  from: string | number | null;
+  to: string | number | null;
+  summary: string;
+  changedAt: string;
+  source?: string;
+  deltaDays?: number; // Due date moves: positive when pushed later
+}
+
+export interface OrderChangeQuery {
+  jobNumber?: string;
+  field?: OrderChangeField;
+  since?: Date | string;
+  until?: Date | string;
+  direction?: "pushed" | "pulled"; // Due date moves only
+  limit?: number;
+}
+
+export interface ChangeWindow {
+  since: Date | null;
+  until: Date | null;
+  description: string;
+}
+
+interface ChangeHistoryFile {
+  lastUpdate: string;
+  changes: OrderFieldChange[]; // Oldest first
+}
+
+type FieldDiff = Omit<OrderFieldChange, "id" | "changedAt" | "source">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+// Field-level diff of two snapshots of the same order
+export function diffOrderFields(
+  previous: ModernOrder,
+  current: ModernOrder
+): FieldDiff[] {
+  const base = {
+    jobNumber: current.jobNumber,
+    customer: current.customer.company,
+  };
+  const diffs: FieldDiff[] = [];
+
+  if (previous.status.master !== current.status.master) {
+    diffs.push({
+      ...base,
+      field: "status",
+      from: previous.status.master,
+      to: current.status.master,
+      summary: `Status changed from ${previous.status.master} to ${current.status.master}`,
+    });
+  }
+
+  const previousDue = previous.dates.dateDue || null;
+  const currentDue = current.dates.dateDue || null;
+  if (previousDue !== currentDue) {
+    const deltaDays =
+      previousDue && currentDue
+        ? Math.round(
+            (new Date(currentDue).getTime() - new Date(previousDue).getTime()) /
+              DAY_MS
+          )
+        : undefined;
+    const movement =
+      deltaDays === undefined || Number.isNaN(deltaDays)
+        ? "changed"
+        : deltaDays > 0
+        ? `pushed ${deltaDays} day${deltaDays === 1 ? "" : "s"} later`
+        : `pulled ${-deltaDays} day${deltaDays === -1 ? "" : "s"} earlier`;
+    diffs.push({
+      ...base,
+      field: "dueDate",
+      from: previousDue,
+      to: currentDue,
+      deltaDays: Number.isNaN(deltaDays) ? undefined : deltaDays,
+      summary: `Due date ${movement} (${formatDate(previousDue)} → ${formatDate(
+        currentDue
+      )})`,
+    });
+  }
+
+  if (previous.jobQuantity !== current.jobQuantity) {
+    diffs.push({
+      ...base,
+      field: "quantity",
+      from: previous.jobQuantity,
+      to: current.jobQuantity,
+      summary: `Quantity changed from ${previous.jobQuantity} to ${current.jobQuantity}`,
+    });
+  }
+
+  const previousTags = new Set(previous.tags.map((tag) => tag.tag));
+  const currentTags = new Set(current.tags.map((tag) => tag.tag));
+  currentTags.forEach((tag) => {
+    if (!previousTags.has(tag)) {
+      diffs.push({
+        ...base,
+        field: "tags",
+        from: null,
+        to: tag,
+        summary: `Tag ${tag} added`,
+      });
+    }
+  });
+  previousTags.forEach((tag) => {
+    if (!currentTags.has(tag)) {
+      diffs.push({
+        ...base,
+        field: "tags",
+        from: tag,
+        to: null,
+        summary: `Tag ${tag} removed`,
+      });
+    }
+  });
+
+  // An order fetched without enrichment has no shipments or line items;
+  // its first enriched snapshot is not a change
+  if (previous.shipments.length > 0) {
+    diffs.push(...diffShipments(previous, current, base));
+  }
+  if (previous.lineItems.length > 0) {
+    diffs.push(...diffLineItems(previous, current, base));
+  }
+
+  return diffs;
+}
+
+function diffShipments(
+  previous: ModernOrder,
+  current: ModernOrder,
+  base: Pick<FieldDiff, "jobNumber" | "customer">
+): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+  const before = new Map(
+    previous.shipments.map((shipment) => [shipment.id, shipment])
+  );
+  const after = new Set(current.shipments.map((shipment) => shipment.id));
+
+  for (const shipment of current.shipments) {
+    const label = shipment.title || `Shipment ${shipment.id}`;
+    const old = before.get(shipment.id);
+
+    if (!old) {
+      diffs.push({
+        ...base,
+        field: "shipments",
+        from: null,
+        to: label,
+        summary: `${label} added (${shipment.method.label || "no method"})`,
+      });
+    } else if (!old.shipped && shipment.shipped) {
+      diffs.push({
+        ...base,
+        field: "shipments",
+        from: "pending",
+        to: "shipped",
+        summary: `${label} shipped`,
+      });
+    }
+  }
+
+  for (const shipment of previous.shipments) {
+    if (!after.has(shipment.id)) {
+      const label = shipment.title || `Shipment ${shipment.id}`;
+      diffs.push({
+        ...base,
+        field: "shipments",
+        from: label,
+        to: null,
+        summary: `${label} removed`,
+      });
+    }
+  }
+
+  return diffs;
+}
+
+function diffLineItems(
+  previous: ModernOrder,
+  current: ModernOrder,
+  base: Pick<FieldDiff, "jobNumber" | "customer">
+): FieldDiff[] {
+  type LineItem = ModernOrder["lineItems"][number];
+  const key = (item: LineItem, index: number) =>
+    item.lineId !== undefined ? `line:${item.lineId}` : `index:${index}`;
+  const label = (item: LineItem) =>
+    item.description || item.program || `Line ${item.lineId ?? ""}`.trim();
+
+  const diffs: FieldDiff[] = [];
+  const before = new Map(
+    previous.lineItems.map((item, index) => [key(item, index), item])
+  );
+  const after = new Set(
+    current.lineItems.map((item, index) => key(item, index))
+  );
+
+  current.lineItems.forEach((item, index) => {
+    const old = before.get(key(item, index));
+
+    if (!old) {
+      diffs.push({
+        ...base,
+        field: "lineItems",
+        from: null,
+        to: label(item),
+        summary: `Line item added: ${label(item)} (qty ${item.quantity})`,
+      });
+      return;
+    }
+    if (old.quantity !== item.quantity) {
+      diffs.push({
+        ...base,
+        field: "lineItems",
+        from: old.quantity,
+        to: item.quantity,
+        summary: `${label(item)} quantity changed from ${old.quantity} to ${item.quantity}`,
+      });
+    }
+    if ((old.status || "") !== (item.status || "")) {
+      diffs.push({
+        ...base,
+        field: "lineItems",
+        from: old.status || null,
+        to: item.status || null,
+        summary: `${label(item)} status changed from ${
+          old.status || "none"
+        } to ${item.status || "none"}`,
+      });
+    }
+  });
+
+  previous.lineItems.forEach((item, index) => {
+    if (!after.has(key(item, index))) {
+      diffs.push({
+        ...base,
+        field: "lineItems",
+        from: label(item),
+        to: null,
+        summary: `Line item removed: ${label(item)}`,
+      });
+    }
+  });
+
+  return diffs;
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return "none";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toISOString().split("T")[0];
+}
+
+// Time window of a change question: "since Monday", "since 2025-07-01",
+// or any range the standardized date parser understands ("this week", ...)
+export function resolveChangeWindow(
+  query: string,
+  now: Date = new Date()
+): ChangeWindow {
+  const queryLower = query.toLowerCase();
+
+  const weekday = queryLower.match(
+    /\bsince (sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/
+  );
+  if (weekday) {
+    const since = new Date(now);
+    since.setHours(0, 0, 0, 0);
+    const back = (since.getDay() - WEEKDAYS.indexOf(weekday[1]) + 7) % 7;
+    since.setDate(since.getDate() - back);
+    return { since, until: null, description: `since ${weekday[1]}` };
+  }
+
+  const sinceDate = queryLower.match(/\bsince (\d{4}-\d{2}-\d{2})\b/);
+  if (sinceDate) {
+    return {
+      since: new Date(`${sinceDate[1]}T00:00:00`),
+      until: null,
+      description: `since ${sinceDate[1]}`,
+    };
+  }
+
+  // Priority words parse as due windows ("rush" = today), not change windows
+  const parsed = standardizedDateParser.parseQuery(
+    query.replace(/\b(urgent|rush|asap|overdue|due soon)\b/gi, " ")
+  );
+  if (parsed.dateRange) {
+    return {
+      since: parsed.dateRange.start,
+      until: parsed.dateRange.end,
+      description: parsed.dateRange.description,
+    };
+  }
+
+  return { since: null, until: null, description: "all recorded changes" };
+}
+
+// Which field a change question is about, if any
+export function detectChangeField(query: string): OrderChangeField | undefined {
+  const queryLower = query.toLowerCase();
+  if (/due date|due-date|deadline|pushed|pulled in|moved up/.test(queryLower)) {
+    return "dueDate";
+  }
+  if (/\bstatus/.test(queryLower)) return "status";
+  if (/\btag/.test(queryLower)) return "tags";
+  if (/shipment|shipped|shipping/.test(queryLower)) return "shipments";
+  if (/line item|lines?\b/.test(queryLower)) return "lineItems";
+  if (/quantity|qty/.test(queryLower)) return "quantity";
+  return undefined;
+}
+
+export class OrderChangeHistory {
+  private changes: OrderFieldChange[] = [];
+  private loaded = false;
+  private fileMtime = 0;
+  private pending: OrderFieldChange[] = [];
+  private writer: DataFileWriter;
+  private readonly retentionDays = 90;
+  private readonly maxChanges = 20000;
+
+  constructor(
+    private historyPath: string = path.join(
+      process.cwd(),
+      "data",
+      "order-change-history.json"
+    )
+  ) {
+    this.writer = new DataFileWriter(
+      historyPath,
+      () => {
+        const data: ChangeHistoryFile = {
+          lastUpdate: new Date().toISOString(),
+          changes: this.changes,
+        };
+        return JSON.stringify(data, null, 2);
+      },
+      (mtime) => (this.fileMtime = mtime),
+      "order change history"
+    );
+    orderEventBus.on("order.updated", (event) => {
+      this.record(event.previous, event.order, event.source, event.timestamp);
+    });
+  }
+
+  // Diff two snapshots and append the changes; writes are batched per tick
+  record(
+    previous: ModernOrder,
+    current: ModernOrder,
+    source?: string,
+    changedAt: string = new Date().toISOString()
+  ): OrderFieldChange[] {
+    const changes = diffOrderFields(previous, current).map((diff, index) => ({
+      ...diff,
+      id: `${diff.jobNumber}:${Date.parse(changedAt)}:${
+        this.pending.length + index
+      }`,
+      changedAt,
+      source,
+    }));
+    if (changes.length === 0) return [];
+
+    if (this.pending.length === 0) {
+      queueMicrotask(() => this.flush());
+    }
+    this.pending.push(...changes);
+    return changes;
+  }
+
+  getChanges(query: OrderChangeQuery = {}): OrderFieldChange[] {
+    this.ensureLoaded();
+    const since = query.since ? new Date(query.since).getTime() : -Infinity;
+    const until = query.until ? new Date(query.until).getTime() : Infinity;
+
+    const matches = [...this.changes, ...this.pending]
+      .filter((change) => {
+        const changedAt = Date.parse(change.changedAt);
+        if (changedAt < since || changedAt > until) return false;
+        if (query.jobNumber && change.jobNumber !== query.jobNumber) {
+          return false;
+        }
+        if (query.field && change.field !== query.field) return false;
+        if (query.direction) {
+          if (change.field !== "dueDate" || change.deltaDays === undefined) {
+            return false;
+          }
+          return query.direction === "pushed"
+            ? change.deltaDays > 0
+            : change.deltaDays < 0;
+        }
+        return true;
+      })
+      .reverse(); // Newest first
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  // Plain-text digest grouped by job, newest changes first
+  summarize(changes: OrderFieldChange[], maxJobs: number = 20): string {
+    if (changes.length === 0) return "No recorded changes.";
+
+    const byJob = new Map<string, OrderFieldChange[]>();
+    changes.forEach((change) => {
+      byJob.set(change.jobNumber, [
+        ...(byJob.get(change.jobNumber) || []),
+        change,
+      ]);
+    });
+
+    const lines: string[] = [];
+    [...byJob.entries()].slice(0, maxJobs).forEach(([jobNumber, jobChanges]) => {
+      lines.push(`Job ${jobNumber} (${jobChanges[0].customer}):`);
+      jobChanges.forEach((change) => {
+        lines.push(`  - ${change.changedAt.split("T")[0]}: ${change.summary}`);
+      });
+    });
+    if (byJob.size > maxJobs) {
+      lines.push(`...and ${byJob.size - maxJobs} more jobs`);
+    }
+    return lines.join("\n");
+  }
+
+  getStats(): {
+    totalChanges: number;
+    jobs: number;
+    byField: Record<string, number>;
+    oldest: string | null;
+  } {
+    this.ensureLoaded();
+    const all = [...this.changes, ...this.pending];
+    const byField: Record<string, number> = {};
+    all.forEach((change) => {
+      byField[change.field] = (byField[change.field] || 0) + 1;
+    });
+
+    return {
+      totalChanges: all.length,
+      jobs: new Set(all.map((change) => change.jobNumber)).size,
+      byField,
+      oldest: all[0]?.changedAt || null,
+    };
+  }
+
+  private flush(): void {
+    this.ensureLoaded();
+    if (this.pending.length === 0) return;
+
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+    this.changes = [...this.changes, ...this.pending]
+      .filter((change) => Date.parse(change.changedAt) >= cutoff)
+      .slice(-this.maxChanges);
+    console.log(`📝 Recorded ${this.pending.length} order field changes`);
+    this.pending = [];
+    this.save();
+  }
+
+  // Load on first use and again whenever another process (e.g. the sync
+  // script) appended to the file
+  private ensureLoaded(): void {
+    if (this.writer.busy) return; // Memory is ahead of the file
+    try {
+      if (fs.existsSync(this.historyPath)) {
+        const mtime = fs.statSync(this.historyPath).mtimeMs;
+        if (this.loaded && mtime === this.fileMtime) return;
+
+        const data: ChangeHistoryFile = JSON.parse(
+          fs.readFileSync(this.historyPath, "utf8")
+        );
+        this.changes = data.changes || [];
+        this.fileMtime = mtime;
+      }
+    } catch (error) {
+      console.warn("⚠️ Failed to load order change history:", error);
+    }
+    this.loaded = true;
+  }
+
+  private save(): void {
+    this.writer.save();
+  }
+
+}
+
+// Export singleton instance
+export const orderChangeHistory = new OrderChangeHistory();
@@ -0,0 +1,246 @@
+// Order Event Bus - In-process typed change events for order updates
+// Events come from diffing successive ModernOrder snapshots as they are stored
+
+import type { ModernOrder } from "./api-first-data-service";
+
+interface OrderEventBase {
+  jobNumber: string;
+  order: ModernOrder; // Snapshot after the change (last known for removals)
+  timestamp: string;
+  source?: string; // Where the snapshot came from ("api", "scraped", ...)
+}
+
+export type OrderEvent =
+  | (OrderEventBase & { type: "order.created" })
+  | (OrderEventBase & {
+      type: "order.updated";
+      previous: ModernOrder;
+      changedFields: string[];
+    })
+  | (OrderEventBase & {
+      type: "order.statusChanged";
+      from: string;
+      to: string;
+    })
+  | (OrderEventBase & {
+      type: "order.dueDateChanged";
+      from: string | null;
+      to: string | null;
+    })
+  | (OrderEventBase & {
+      type: "order.tagAdded";
+      tag: string;
+      enteredBy: string;
+    })
+  | (OrderEventBase & { type: "order.tagRemoved"; tag: string })
+  | (OrderEventBase & {
+      type: "order.shipped";
+      shipmentId: number;
+      shipmentTitle: string;
+      method: string;
+    })
+  | (OrderEventBase & { type: "order.removed"; reason: string });
+
+export type OrderEventType = OrderEvent["type"];
+
+export type OrderEventOf<T extends OrderEventType> = Extract<
+  OrderEvent,
+  { type: T }
+>;
+
+export type OrderEventHandler<T extends OrderEventType = OrderEventType> = (
+  event: OrderEventOf<T>
+) => void | Promise<void>;
+
+// Fields compared for order.updated; volatile ones like daysToDueDate and
+// metadata are left out so a re-fetch alone is not a change
+const TRACKED_FIELDS = [
+  "orderNumber",
+  "description",
+  "comments",
+  "customer",
+  "status",
+  "dates",
+  "location",
+  "production",
+  "lineItems",
+  "shipments",
+  "files",
+  "tags",
+  "pricing",
+  "workflow",
+] as const;
+
+export function diffOrderSnapshots(
+  previous: ModernOrder | null,
+  current: ModernOrder,
+  source?: string
+): OrderEvent[] {
+  const base = {
+    jobNumber: current.jobNumber,
+    order: current,
+    timestamp: new Date().toISOString(),
+    source,
+  };
+
+  if (!previous) {
+    return [{ ...base, type: "order.created" }];
+  }
+
+  const events: OrderEvent[] = [];
+
+  if (previous.status.master !== current.status.master) {
+    events.push({
+      ...base,
+      type: "order.statusChanged",
+      from: previous.status.master,
+      to: current.status.master,
+    });
+  }
+
+  const previousDue = previous.dates.dateDue || null;
+  const currentDue = current.dates.dateDue || null;
+  if (previousDue !== currentDue) {
+    events.push({
+      ...base,
+      type: "order.dueDateChanged",
+      from: previousDue,
+      to: currentDue,
+    });
+  }
+
+  const previousTags = new Set(previous.tags.map((tag) => tag.tag));
+  const currentTags = new Set(current.tags.map((tag) => tag.tag));
+  current.tags
+    .filter((tag) => !previousTags.has(tag.tag))
+    .forEach((tag) =>
+      events.push({
+        ...base,
+        type: "order.tagAdded",
+        tag: tag.tag,
+        enteredBy: tag.enteredBy,
+      })
+    );
+  [...previousTags]
+    .filter((tag) => !currentTags.has(tag))
+    .forEach((tag) => events.push({ ...base, type: "order.tagRemoved", tag }));
+
+  const shippedBefore = new Set(
+    previous.shipments
+      .filter((shipment) => shipment.shipped)
+      .map((shipment) => shipment.id)
+  );
+  current.shipments
+    .filter((shipment) => shipment.shipped && !shippedBefore.has(shipment.id))
+    .forEach((shipment) =>
+      events.push({
+        ...base,
+        type: "order.shipped",
+        shipmentId: shipment.id,
+        shipmentTitle: shipment.title,
+        method: shipment.method.label,
+      })
+    );
+
+  const changedFields = TRACKED_FIELDS.filter((field) => {
+    if (field === "dates") {
+      return (
+        JSON.stringify({ ...previous.dates, daysToDueDate: 0 }) !==
+        JSON.stringify({ ...current.dates, daysToDueDate: 0 })
+      );
+    }
+    return JSON.stringify(previous[field]) !== JSON.stringify(current[field]);
+  });
+  if (changedFields.length > 0) {
+    events.push({
+      ...base,
+      type: "order.updated",
+      previous,
+      changedFields: [...changedFields],
+    });
+  }
+
+  return events;
+}
+
+export class OrderEventBus {
+  private handlers = new Map<
+    OrderEventType | "*",
+    Set<OrderEventHandler<OrderEventType>>
+  >();
+  private recentEvents: OrderEvent[] = [];
+  private readonly maxRecentEvents = 200;
+  private counts: Partial<Record<OrderEventType, number>> = {};
+
+  // Subscribe to one event type; returns an unsubscribe function
+  on<T extends OrderEventType>(
+    type: T,
+    handler: OrderEventHandler<T>
+  ): () => void {
+    return this.addHandler(type, (event) =>
+      handler(event as OrderEventOf<T>)
+    );
+  }
+
+  // Subscribe to every event type
+  onAny(handler: OrderEventHandler): () => void {
+    return this.addHandler("*", handler);
+  }
+
+  // Handlers run in subscription order; a failing handler is logged and
+  // does not stop delivery to the rest
+  publish(events: OrderEvent[]): void {
+    for (const event of events) {
+      this.counts[event.type] = (this.counts[event.type] || 0) + 1;
+      this.recentEvents.push(event);
+
+      const handlers = [
+        ...(this.handlers.get(event.type) || []),
+        ...(this.handlers.get("*") || []),
+      ];
+      const logFailure = (error: unknown) =>
+        console.error(`❌ Order event handler failed (${event.type}):`, error);
+      for (const handler of handlers) {
+        try {
+          Promise.resolve(handler(event)).catch(logFailure);
+        } catch (error) {
+          logFailure(error);
+        }
+      }
+    }
+
+    if (this.recentEvents.length > this.maxRecentEvents) {
+      this.recentEvents = this.recentEvents.slice(-this.maxRecentEvents);
+    }
+  }
+
+  getRecentEvents(limit: number = 50): OrderEvent[] {
+    return this.recentEvents.slice(-limit);
+  }
+
+  getStats(): {
+    subscribers: number;
+    counts: Partial<Record<OrderEventType, number>>;
+  } {
+    let subscribers = 0;
+    this.handlers.forEach((handlers) => (subscribers += handlers.size));
+    return { subscribers, counts: { ...this.counts } };
+  }
+
+  private addHandler(
+    type: OrderEventType | "*",
+    handler: OrderEventHandler<OrderEventType>
+  ): () => void {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    this.handlers.get(type)!.add(handler);
+
+    return () => {
+      this.handlers.get(type)?.delete(handler);
+    };
+  }
+}
+
+// Export singleton instance
+export const orderEventBus = new OrderEventBus();
@@ -0,0 +1,502 @@
+// Order Store - Persistent local store of ModernOrders with secondary indexes
+// Fed from APIFirstDataService conversions; indexed by job number, customer, status, due date and tag
+
+import type { ModernOrder } from "./api-first-data-service";
+import { orderVectorIndex } from "./order-vector-index";
+import {
+  diffOrderSnapshots,
+  orderEventBus,
+  type OrderEvent,
+} from "./order-event-bus";
+// Records field-level diffs of stored snapshots from order.updated events
+import "./order-change-history";
+import { DataFileWriter } from "./data-file-writer";
+import path from "path";
+import fs from "fs";
+
+export type StoredOrderSource = "api" | "scraped";
+
+export interface StoredOrderRecord {
+  order: ModernOrder;
+  source: StoredOrderSource;
+  storedAt: string;
+}
+
+export interface OrderStoreUpsertOptions {
+  source?: StoredOrderSource;
+  // Enrichments the orders were fetched with (all by default); stored line
+  // items, shipments or files are kept for the ones left out
+  included?: { lineItems?: boolean; shipments?: boolean; files?: boolean };
+  publishEvents?: boolean; // Diff against the stored snapshot (default true)
+}
+
+export interface OrderStoreStats {
+  totalOrders: number;
+  customers: number;
+  statuses: Record<string, number>;
+  tags: number;
+  rushOrders: number;
+  lastUpdate: string;
+  lastFullSync: string;
+  sources: Record<StoredOrderSource, number>;
+}
+
+interface OrderStoreFile {
+  lastUpdate: string;
+  lastFullSync: string;
+  orders: Record<string, StoredOrderRecord>; // jobNumber -> record
+}
+
+export class OrderStore {
+  private records = new Map<string, StoredOrderRecord>();
+  private lastUpdate = new Date(0).toISOString();
+  private lastFullSync = new Date(0).toISOString();
+  private loaded = false;
+  private fileMtime = 0;
+  private revision = 0;
+
+  // Secondary indexes, keyed by normalized value
+  private byCustomer = new Map<string, Set<string>>();
+  private byStatus = new Map<string, Set<string>>();
+  private byTag = new Map<string, Set<string>>();
+  private rushOrders = new Set<string>();
+  private dueDates = new Map<string, number>(); // jobNumber -> due time
+  private byDueDate: Array<{ due: number; jobNumber: string }> = [];
+  private dueDateDirty = false;
+  private writer: DataFileWriter;
+
+  constructor(
+    private storePath: string = path.join(
+      process.cwd(),
+      "data",
+      "order-store.json"
+    ),
+    private legacyPath: string | null = path.join(
+      process.cwd(),
+      "data",
+      "orders.json"
+    )
+  ) {
+    this.writer = new DataFileWriter(
+      storePath,
+      () => {
+        const data: OrderStoreFile = {
+          lastUpdate: this.lastUpdate,
+          lastFullSync: this.lastFullSync,
+          orders: Object.fromEntries(this.records),
+        };
+        return JSON.stringify(data);
+      },
+      (mtime) => (this.fileMtime = mtime),
+      "order store"
+    );
+  }
+
+  // ===== WRITES =====
+
+  upsertOrders(
+    orders: ModernOrder[],
+    options: OrderStoreUpsertOptions = {}
+  ): number {
+    this.ensureLoaded();
+    if (orders.length === 0) return 0;
+
+    const { source = "api", included = {}, publishEvents = true } = options;
+    const { lineItems = true, shipments = true, files = true } = included;
+    const storedAt = new Date().toISOString();
+    const events: OrderEvent[] = [];
+
+    for (const incoming of orders) {
+      if (!incoming.jobNumber) continue;
+      const existing = this.records.get(incoming.jobNumber)?.order;
+      const order: ModernOrder = existing
+        ? {
+            ...incoming,
+            lineItems: lineItems ? incoming.lineItems : existing.lineItems,
+            shipments: shipments ? incoming.shipments : existing.shipments,
+            files: files ? incoming.files : existing.files,
+          }
+        : incoming;
+
+      if (publishEvents) {
+        events.push(...diffOrderSnapshots(existing || null, order, source));
+      }
+      this.unindex(incoming.jobNumber);
+      this.records.set(incoming.jobNumber, { order, source, storedAt });
+      this.index(order);
+    }
+
+    this.lastUpdate = storedAt;
+    this.save();
+    orderEventBus.publish(events);
+    return orders.length;
+  }
+
+  removeOrders(jobNumbers: string[], reason: string = "removed"): number {
+    this.ensureLoaded();
+    const events: OrderEvent[] = [];
+
+    for (const jobNumber of jobNumbers) {
+      const record = this.records.get(jobNumber);
+      if (!record) continue;
+      this.unindex(jobNumber);
+      this.records.delete(jobNumber);
+      events.push(this.removedEvent(record, reason));
+    }
+
+    if (events.length > 0) {
+      this.lastUpdate = new Date().toISOString();
+      this.save();
+      orderEventBus.publish(events);
+    }
+    return events.length;
+  }
+
+  // Record a complete listing of active jobs; stored orders missing from it
+  // are no longer active and are dropped
+  markFullSync(activeJobNumbers: string[]): number {
+    this.ensureLoaded();
+    const active = new Set(activeJobNumbers);
+    const inactive = [...this.records.keys()].filter(
+      (jobNumber) => !active.has(jobNumber)
+    );
+
+    const events = inactive.map((jobNumber) => {
+      const event = this.removedEvent(this.records.get(jobNumber)!, "inactive");
+      this.unindex(jobNumber);
+      this.records.delete(jobNumber);
+      return event;
+    });
+
+    this.lastFullSync = new Date().toISOString();
+    this.lastUpdate = this.lastFullSync;
+    this.save();
+    orderEventBus.publish(events);
+
+    console.log(
+      `🗃️ Order store synced: ${this.records.size} active orders, ${inactive.length} removed`
+    );
+    return inactive.length;
+  }
+
+  clear(): void {
+    this.records.clear();
+    this.rebuildIndexes();
+    this.lastUpdate = new Date().toISOString();
+    this.lastFullSync = new Date(0).toISOString();
+    this.loaded = true;
+    this.save();
+  }
+
+  // ===== QUERIES =====
+
+  getOrder(jobNumber: string): ModernOrder | null {
+    this.ensureLoaded();
+    return this.records.get(jobNumber)?.order || null;
+  }
+
+  getRecord(jobNumber: string): StoredOrderRecord | null {
+    this.ensureLoaded();
+    return this.records.get(jobNumber) || null;
+  }
+
+  getAllOrders(): ModernOrder[] {
+    this.ensureLoaded();
+    return [...this.records.values()].map((record) => record.order);
+  }
+
+  // Exact customer match via the index, falling back to a partial match
+  // over customer names (not over orders)
+  getOrdersByCustomer(customerName: string): ModernOrder[] {
+    this.ensureLoaded();
+    const key = this.normalize(customerName);
+    if (!key) return [];
+
+    const exact = this.byCustomer.get(key);
+    if (exact) return this.lookup(exact);
+
+    const jobNumbers = new Set<string>();
+    for (const [customer, jobs] of this.byCustomer) {
+      if (customer.includes(key)) jobs.forEach((job) => jobNumbers.add(job));
+    }
+    return this.lookup(jobNumbers);
+  }
+
+  getOrdersByStatus(status: string): ModernOrder[] {
+    this.ensureLoaded();
+    return this.lookup(this.byStatus.get(this.normalize(status)));
+  }
+
+  getOrdersByTag(tag: string): ModernOrder[] {
+    this.ensureLoaded();
+    return this.lookup(this.byTag.get(this.normalizeTag(tag)));
+  }
+
+  getOrdersDueBetween(start: Date | string, end: Date | string): ModernOrder[] {
+    this.ensureLoaded();
+    const from = new Date(start).getTime();
+    const to = new Date(end).getTime();
+    if (Number.isNaN(from) || Number.isNaN(to)) return [];
+
+    const dueDates = this.getDueDateIndex();
+    const jobNumbers: string[] = [];
+    for (let i = this.lowerBound(dueDates, from); i < dueDates.length; i++) {
+      if (dueDates[i].due > to) break;
+      jobNumbers.push(dueDates[i].jobNumber);
+    }
+    return this.lookup(jobNumbers);
+  }
+
+  // Past due and not yet shipped
+  getLateOrders(asOf: Date = new Date()): ModernOrder[] {
+    this.ensureLoaded();
+    const dueDates = this.getDueDateIndex();
+    const cutoff = this.lowerBound(dueDates, asOf.getTime());
+
+    return this.lookup(
+      dueDates.slice(0, cutoff).map((entry) => entry.jobNumber)
+    ).filter((order) => !order.shipments.some((shipment) => shipment.shipped));
+  }
+
+  // Time-sensitive, must-date or tagged rush/urgent
+  getRushOrders(): ModernOrder[] {
+    this.ensureLoaded();
+    return this.lookup(this.rushOrders);
+  }
+
+  getTags(): string[] {
+    this.ensureLoaded();
+    return [...this.byTag.keys()].sort();
+  }
+
+  // ===== STATE =====
+
+  // Whether a complete listing was stored within maxAgeMs
+  isFresh(maxAgeMs: number): boolean {
+    this.ensureLoaded();
+    return Date.now() - new Date(this.lastFullSync).getTime() < maxAgeMs;
+  }
+
+  // Increments on every change, including reloads written by other processes
+  getRevision(): number {
+    this.ensureLoaded();
+    return this.revision;
+  }
+
+  getStats(): OrderStoreStats {
+    this.ensureLoaded();
+    const statuses: Record<string, number> = {};
+    const sources: Record<StoredOrderSource, number> = { api: 0, scraped: 0 };
+
+    for (const record of this.records.values()) {
+      const status = record.order.status.master || "Unknown";
+      statuses[status] = (statuses[status] || 0) + 1;
+      sources[record.source]++;
+    }
+
+    return {
+      totalOrders: this.records.size,
+      customers: this.byCustomer.size,
+      statuses,
+      tags: this.byTag.size,
+      rushOrders: this.rushOrders.size,
+      lastUpdate: this.lastUpdate,
+      lastFullSync: this.lastFullSync,
+      sources,
+    };
+  }
+
+  // ===== INDEXING =====
+
+  private index(order: ModernOrder): void {
+    const jobNumber = order.jobNumber;
+    this.addToIndex(this.byCustomer, order.customer.company, jobNumber);
+    this.addToIndex(this.byStatus, order.status.master, jobNumber);
+    order.tags.forEach((tag) =>
+      this.addToIndex(this.byTag, this.normalizeTag(tag.tag), jobNumber)
+    );
+
+    const isRush =
+      order.production.timeSensitive ||
+      order.production.mustDate ||
+      order.tags.some((tag) => /rush|urgent/i.test(tag.tag));
+    if (isRush) this.rushOrders.add(jobNumber);
+
+    const due = new Date(order.dates.dateDue).getTime();
+    if (order.dates.dateDue && !Number.isNaN(due)) {
+      this.dueDates.set(jobNumber, due);
+      this.dueDateDirty = true;
+    }
+  }
+
+  private unindex(jobNumber: string): void {
+    const existing = this.records.get(jobNumber);
+    if (!existing) return;
+
+    const order = existing.order;
+    this.removeFromIndex(this.byCustomer, order.customer.company, jobNumber);
+    this.removeFromIndex(this.byStatus, order.status.master, jobNumber);
+    order.tags.forEach((tag) =>
+      this.removeFromIndex(this.byTag, this.normalizeTag(tag.tag), jobNumber)
+    );
+    this.rushOrders.delete(jobNumber);
+    if (this.dueDates.delete(jobNumber)) this.dueDateDirty = true;
+  }
+
+  private rebuildIndexes(): void {
+    this.byCustomer.clear();
+    this.byStatus.clear();
+    this.byTag.clear();
+    this.rushOrders.clear();
+    this.dueDates.clear();
+    this.dueDateDirty = true;
+    this.records.forEach((record) => this.index(record.order));
+  }
+
+  private addToIndex(
+    index: Map<string, Set<string>>,
+    value: string,
+    jobNumber: string
+  ): void {
+    const key = this.normalize(value);
+    if (!key) return;
+    if (!index.has(key)) index.set(key, new Set());
+    index.get(key)!.add(jobNumber);
+  }
+
+  private removeFromIndex(
+    index: Map<string, Set<string>>,
+    value: string,
+    jobNumber: string
+  ): void {
+    const key = this.normalize(value);
+    const jobs = index.get(key);
+    if (!jobs) return;
+    jobs.delete(jobNumber);
+    if (jobs.size === 0) index.delete(key);
+  }
+
+  // Sorted view of dueDates, rebuilt on the first query after a change
+  private getDueDateIndex(): Array<{ due: number; jobNumber: string }> {
+    if (this.dueDateDirty) {
+      this.byDueDate = [...this.dueDates]
+        .map(([jobNumber, due]) => ({ due, jobNumber }))
+        .sort((a, b) => a.due - b.due);
+      this.dueDateDirty = false;
+    }
+    return this.byDueDate;
+  }
+
+  // First position whose due date is at or after the given time
+  private lowerBound(
+    entries: Array<{ due: number; jobNumber: string }>,
+    time: number
+  ): number {
+    let low = 0;
+    let high = entries.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (entries[mid].due < time) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  private lookup(jobNumbers: Iterable<string> | undefined): ModernOrder[] {
+    if (!jobNumbers) return [];
+    const orders: ModernOrder[] = [];
+    for (const jobNumber of jobNumbers) {
+      const record = this.records.get(jobNumber);
+      if (record) orders.push(record.order);
+    }
+    return orders;
+  }
+
+  private normalize(value: string | undefined): string {
+    return (value || "").trim().toLowerCase();
+  }
+
+  private removedEvent(record: StoredOrderRecord, reason: string): OrderEvent {
+    return {
+      type: "order.removed",
+      jobNumber: record.order.jobNumber,
+      order: record.order,
+      timestamp: new Date().toISOString(),
+      source: record.source,
+      reason,
+    };
+  }
+
+  private normalizeTag(tag: string): string {
+    return this.normalize(tag).replace(/^@/, "").replace(/\s+/g, "");
+  }
+
+  // ===== PERSISTENCE =====
+
+  // Resolves once every change so far is on disk
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  // Load on first use and again whenever another process rewrote the file
+  private ensureLoaded(): void {
+    if (this.writer.busy) return; // Memory is ahead of the file
+    try {
+      if (fs.existsSync(this.storePath)) {
+        const mtime = fs.statSync(this.storePath).mtimeMs;
+        if (this.loaded && mtime === this.fileMtime) return;
+
+        const data: OrderStoreFile = JSON.parse(
+          fs.readFileSync(this.storePath, "utf8")
+        );
+        this.records = new Map(Object.entries(data.orders || {}));
+        this.lastUpdate = data.lastUpdate || this.lastUpdate;
+        this.lastFullSync = data.lastFullSync || this.lastFullSync;
+        this.fileMtime = mtime;
+        this.loaded = true;
+        this.revision++;
+        this.rebuildIndexes();
+        console.log(`🗃️ Loaded ${this.records.size} orders from order store`);
+        return;
+      }
+    } catch (error) {
+      console.warn("⚠️ Failed to load order store:", error);
+    }
+
+    if (!this.loaded) {
+      this.loaded = true;
+      this.seedFromLegacySnapshot();
+    }
+  }
+
+  // First run: start from the scraped data/orders.json snapshot so existing
+  // installs keep their data until the first API sync
+  private seedFromLegacySnapshot(): void {
+    if (!this.legacyPath || !fs.existsSync(this.legacyPath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.legacyPath, "utf8"));
+      const legacyOrders = Array.isArray(data) ? data : data.orders || [];
+      const orders: ModernOrder[] = legacyOrders.map(
+        (order: Record<string, unknown>) => orderVectorIndex.toModernOrder(order)
+      );
+
+      console.log(
+        `🗃️ Seeding order store with ${orders.length} orders from ${path.basename(
+          this.legacyPath
+        )}`
+      );
+      this.upsertOrders(orders, { source: "scraped", publishEvents: false });
+    } catch (error) {
+      console.warn("⚠️ Failed to seed order store from legacy data:", error);
+    }
+  }
+
+  private save(): void {
+    this.revision++;
+    this.writer.save();
+  }
+}
+
+// Export singleton instance
+export const orderStore = new OrderStore();
@@ -0,0 +1,1901 @@
+// Order Vector Index - Single indexing subsystem for order embeddings
+// One metadata schema, one change tracker and one search API over the VectorStore
+
+import {
+  createVectorStore,
+  type VectorFilter,
+  type VectorListOptions,
+  type VectorListPage,
+  type VectorRecord,
+  type VectorStore,
+  type VectorStoreMetadata,
+  type VectorStoreStats,
+} from "./vector-store";
+import type { ModernOrder } from "./api-first-data-service";
+import type { APIJobHistory } from "./enhanced-api-client";
+import { embeddingService } from "./embeddings";
+import { embedderId, LEGACY_EMBEDDER } from "./embedding-providers";
+import {
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+  UNVERSIONED_SCHEMA_VERSION,
+  upgradeMetadata,
+  type RawVectorMetadata,
+} from "./vector-metadata-schema";
+import { orderEventBus } from "./order-event-bus";
+import { tracer } from "./tracer";
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+
+// ===== SCHEMA =====
+
+export type OrderDocumentType = "job" | "jobline" | "shipment" | "history";
+
+export type JobHistorySnapshot = APIJobHistory["data"];
+
+// Every vector carries the job-level fields, so customer/status/date filters
+// apply to joblines, shipments and history documents as well
+export interface OrderVectorMetadata {
+  // Schema version that wrote the vector (see vector-metadata-schema)
+  schemaVersion: number;
+
+  // Embedder that produced the vector (see embedding-providers)
+  embeddingProvider: string;
+  embeddingModel: string;
+
+  // Core identifiers
+  type: OrderDocumentType;
+  jobNumber: string;
+  orderNumber: string;
+
+  // Customer information
+  customerId: number;
+  customerCompany: string;
+
+  // Status and content
+  status: string;
+  masterStatusId: number;
+  stockStatus: string;
+  description: string;
+
+  // Dates (ISO strings, plus epoch milliseconds for range filters)
+  dateEntered: string;
+  dateDue: string;
+  dateDueFactory: string;
+  dateEnteredTs?: number;
+  dateDueTs?: number;
+
+  // Production details
+  processes: string[];
+  gangCodes: string[];
+  tags: string[];
+  timeSensitive: boolean;
+  mustDate: boolean;
+  isReprint: boolean;
+
+  // Location and delivery
+  locationCode: string;
+  locationName: string;
+  deliveryOption: string;
+
+  // Enrichment indicators
+  hasLineItems: boolean;
+  hasShipments: boolean;
+  hasFiles: boolean;
+  lineItemCount: number;
+  shipmentCount: number;
+  fileCount: number;
+  categories: string[];
+  materials: string[];
+  totalValue?: number;
+
+  // Quality and freshness
+  dataSource: "api" | "scraped";
+  completenessScore: number; // 0-100
+  lastUpdated: string;
+
+  // Jobline documents
+  lineId?: number;
+  program?: string;
+  lineQuantity?: number;
+  unitPrice?: number;
+  totalPrice?: number;
+  comment?: string;
+
+  // Shipment documents
+  shipmentId?: number;
+  shipped?: boolean;
+  shippingMethod?: string;
+}
+
+export interface OrderDocument {
+  id: string;
+  jobNumber: string;
+  text: string;
+  metadata: OrderVectorMetadata;
+}
+
+export interface OrderSearchResult {
+  id: string;
+  score: number;
+  metadata: OrderVectorMetadata;
+  highlights?: string[]; // Key matching phrases
+}
+
+export interface OrderIndexFilters {
+  types?: OrderDocumentType[];
+  jobNumber?: string;
+  customerCompany?: string;
+  customerId?: number;
+  customerIds?: number[]; // Data scope: only these customers' documents
+  status?: string;
+  locationCode?: string;
+  deliveryOption?: string;
+  dataSource?: "api" | "scraped";
+  hasLineItems?: boolean;
+  hasShipments?: boolean;
+  hasFiles?: boolean;
+  timeSensitive?: boolean;
+  mustDate?: boolean;
+  isReprint?: boolean;
+  processes?: string[]; // Process codes, e.g. EM, HW
+  materials?: string[];
+  categories?: string[];
+  tags?: string[];
+  minCompletenessScore?: number;
+  minValue?: number;
+  maxValue?: number;
+  dateRange?: { start: string; end: string }; // Date entered
+  dueDateRange?: { start: string; end: string };
+}
+
+export interface OrderIndexSearchOptions {
+  topK?: number;
+  filters?: OrderIndexFilters;
+  includeHighlights?: boolean;
+  minScore?: number;
+}
+
+export interface IndexOrdersOptions {
+  removeMissing?: boolean; // Tracked orders absent from this batch are deleted
+  force?: boolean; // Re-embed orders even when their content is unchanged
+  dataSource?: "api" | "scraped";
+  histories?: Record<string, JobHistorySnapshot | null | undefined>;
+}
+
+export interface OrderIndexChanges {
+  newOrders: ModernOrder[];
+  updatedOrders: ModernOrder[];
+  unchangedOrders: ModernOrder[];
+  deletedJobNumbers: string[];
+}
+
+export interface OrderIndexUpdateStats {
+  newOrders: number;
+  updatedOrders: number;
+  unchangedOrders: number;
+  deletedOrders: number;
+  upsertedVectors: number;
+  deletedVectors: number;
+  totalProcessed: number;
+  processingTime: number;
+  embeddingTokens: number;
+  errors: string[];
+}
+
+export interface TrackedOrder {
+  hash: string;
+  vectorIds: string[];
+  indexedAt: string;
+  customerId?: number;
+  schemaVersion?: number; // Absent for orders indexed before versioning
+}
+
+export interface StoredOrderVector {
+  id: string;
+  values: number[];
+  metadata: RawVectorMetadata; // As stored, before any schema upgrade
+}
+
+interface OrderIndexTracker {
+  lastUpdate: string;
+  lastFullRebuild: string;
+  orders: Record<string, TrackedOrder>; // jobNumber -> tracked state
+  deletedOrders: string[];
+  updateHistory: Array<{
+    timestamp: string;
+    stats: OrderIndexUpdateStats;
+  }>;
+}
+
+// Loosely-shaped order objects from scraped data or older API mappings
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type LegacyOrder = Record<string, any>;
+
+// ===== INDEX SERVICE =====
+
+export class OrderVectorIndex {
+  private store: VectorStore | null = null;
+  private indexName: string;
+  private initialized = false;
+  private tracker: OrderIndexTracker;
+  private trackerPath: string;
+  private embeddingBatchSize = 50; // Orders per embedding/upsert round
+  private upsertBatchSize = 100; // Vectors per upsert request
+  private pendingRemovals = new Set<string>();
+  // Embedder the stored vectors were made with; null while the index is empty
+  private indexEmbedder: Promise<string | null> | null = null;
+
+  constructor(
+    indexName: string = process.env.PINECONE_INDEX_NAME || "serene-laurel",
+    trackerPath: string = path.join(
+      process.cwd(),
+      "data",
+      "order-index-tracker.json"
+    )
+  ) {
+    this.indexName = indexName;
+    this.trackerPath = trackerPath;
+    this.tracker = this.loadTracker();
+    this.subscribeToOrderEvents();
+  }
+
+  // Orders that leave the order store take their vectors with them; removals
+  // from one store write are deleted together
+  private subscribeToOrderEvents(): void {
+    orderEventBus.on("order.removed", (event) => {
+      if (!this.tracker.orders[event.jobNumber]) return;
+
+      const flush = this.pendingRemovals.size === 0;
+      this.pendingRemovals.add(event.jobNumber);
+      if (!flush) return;
+
+      queueMicrotask(async () => {
+        const jobNumbers = [...this.pendingRemovals];
+        this.pendingRemovals.clear();
+        try {
+          await this.initialize();
+          const removed = await this.removeOrders(jobNumbers);
+          console.log(
+            `🗑️ Removed ${removed} vectors for ${jobNumbers.length} orders no longer active`
+          );
+        } catch (error) {
+          console.error("❌ Failed to remove vectors for removed orders:", error);
+        }
+      });
+    });
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      this.store = createVectorStore(this.indexName);
+      this.initialized = true;
+      console.log(`✅ Order vector index initialized: ${this.indexName}`);
+    } catch (error) {
+      console.error("❌ Failed to initialize order vector index:", error);
+      throw new Error("Order vector index initialization failed");
+    }
+  }
+
+  private async getStore(): Promise<VectorStore> {
+    await this.initialize();
+    if (!this.store) throw new Error("Vector store not initialized");
+    return this.store;
+  }
+
+  // ===== DOCUMENT BUILDING =====
+
+  buildDocuments(
+    order: ModernOrder,
+    options: {
+      dataSource?: "api" | "scraped";
+      history?: JobHistorySnapshot | null;
+    } = {}
+  ): OrderDocument[] {
+    const jobNumber = order.jobNumber;
+    const base = this.buildJobMetadata(order, options.dataSource || "api");
+    const documents: OrderDocument[] = [
+      {
+        id: `job_${jobNumber}`,
+        jobNumber,
+        text: this.buildSearchText(order),
+        metadata: base,
+      },
+    ];
+
+    order.lineItems.forEach((line, index) => {
+      const lineId = line.lineId ?? index + 1;
+      documents.push({
+        id: `jobline_${jobNumber}_${lineId}`,
+        jobNumber,
+        text: this.buildJoblineText(order, line, lineId),
+        metadata: {
+          ...base,
+          type: "jobline",
+          description: this.truncate(line.description, 500),
+          processes: line.processCodes?.length
+            ? line.processCodes
+            : base.processes,
+          materials: line.materials || [],
+          categories: line.category ? [line.category] : [],
+          lineId,
+          program: line.program || line.assetSKU,
+          lineQuantity: line.quantity,
+          unitPrice: line.unitPrice,
+          totalPrice: line.totalPrice,
+          comment: line.comment ? this.truncate(line.comment, 500) : undefined,
+        },
+      });
+    });
+
+    order.shipments.forEach((shipment) => {
+      documents.push({
+        id: `shipment_${jobNumber}_${shipment.id}`,
+        jobNumber,
+        text: this.buildShipmentText(order, shipment),
+        metadata: {
+          ...base,
+          type: "shipment",
+          shipmentId: shipment.id,
+          shipped: shipment.shipped,
+          shippingMethod: shipment.method.label,
+        },
+      });
+    });
+
+    if (options.history) {
+      documents.push({
+        id: `history_${jobNumber}`,
+        jobNumber,
+        text: this.buildHistoryText(order, options.history),
+        metadata: { ...base, type: "history" },
+      });
+    }
+
+    return documents;
+  }
+
+  // Comprehensive search text for the job-level document
+  buildSearchText(order: ModernOrder): string {
+    const textParts: string[] = [];
+
+    // Core order information
+    textParts.push(`Job ${order.jobNumber} Order ${order.orderNumber}`);
+    textParts.push(`Customer: ${order.customer.company}`);
+    textParts.push(`Description: ${order.description}`);
+
+    if (order.comments) {
+      textParts.push(`Comments: ${order.comments}`);
+    }
+
+    // Status information
+    textParts.push(`Status: ${order.status.master} - ${order.status.stock}`);
+    if (order.status.statusLine) {
+      textParts.push(order.status.statusLine);
+    }
+
+    // Production details
+    if (order.production.processes.length > 0) {
+      const processes = order.production.processes
+        .map((p) => `${p.displayCode} (${p.quantity})`)
+        .join(", ");
+      textParts.push(`Processes: ${processes}`);
+    }
+
+    if (order.production.gangCodes.length > 0) {
+      textParts.push(`Gang Codes: ${order.production.gangCodes.join(", ")}`);
+    }
+
+    // Priority indicators
+    const priorityFlags: string[] = [];
+    if (order.production.timeSensitive) {
+      priorityFlags.push("time sensitive rush urgent");
+    }
+    if (order.production.mustDate) priorityFlags.push("must date");
+    if (order.production.isReprint) priorityFlags.push("reprint");
+    if (priorityFlags.length > 0) {
+      textParts.push(`Priority: ${priorityFlags.join(", ")}`);
+    }
+
+    // Line items details
+    if (order.lineItems.length > 0) {
+      const lineDetails = order.lineItems.map((line) => {
+        const parts = [line.description];
+        if (line.category) parts.push(`Category: ${line.category}`);
+        if (line.materials && line.materials.length > 0) {
+          parts.push(`Materials: ${line.materials.join(", ")}`);
+        }
+        if (line.processCodes && line.processCodes.length > 0) {
+          parts.push(`Processes: ${line.processCodes.join(", ")}`);
+        }
+        if (line.comment) parts.push(`Note: ${line.comment}`);
+        return parts.join(" | ");
+      });
+
+      textParts.push(`Line Items: ${lineDetails.join(" ;; ")}`);
+    }
+
+    // Shipment information
+    if (order.shipments.length > 0) {
+      const shipmentDetails = order.shipments.map((shipment) => {
+        const parts = [
+          `Ship to: ${
+            shipment.address.organisation || shipment.address.contactName
+          }`,
+        ];
+        parts.push(`${shipment.address.city}, ${shipment.address.state}`);
+        parts.push(`Method: ${shipment.method.label}`);
+        if (shipment.shipped) parts.push("SHIPPED");
+        if (shipment.trackingDetails)
+          parts.push(`Status: ${shipment.trackingDetails.status}`);
+        return parts.join(" | ");
+      });
+
+      textParts.push(`Shipments: ${shipmentDetails.join(" ;; ")}`);
+    }
+
+    // File attachments
+    if (order.files.length > 0) {
+      const fileDetails = order.files.map(
+        (file) => `${file.fileName} (${file.fileType}, ${file.category})`
+      );
+      textParts.push(`Files: ${fileDetails.join(", ")}`);
+    }
+
+    // Tags
+    if (order.tags.length > 0) {
+      textParts.push(`Tags: ${order.tags.map((tag) => tag.tag).join(", ")}`);
+    }
+
+    // Location and delivery
+    textParts.push(`Location: ${order.location.name} (${order.location.code})`);
+    textParts.push(`Delivery: ${order.location.deliveryOption}`);
+
+    // Dates for temporal context
+    if (order.dates.dateDue) {
+      textParts.push(`Due: ${this.formatDate(order.dates.dateDue)}`);
+    }
+    if (order.dates.dateEntered) {
+      textParts.push(`Entered: ${this.formatDate(order.dates.dateEntered)}`);
+    }
+
+    return textParts.join("\n");
+  }
+
+  private buildJoblineText(
+    order: ModernOrder,
+    line: ModernOrder["lineItems"][number],
+    lineId: number
+  ): string {
+    const parts = [
+      `Jobline ID: ${lineId}`,
+      `Job Number: ${order.jobNumber}`,
+      `Customer: ${order.customer.company}`,
+      `Program: ${line.program || line.assetSKU || ""}`,
+      `Category: ${line.category || ""}`,
+      `Quantity: ${line.quantity}`,
+      `Status: ${line.status || order.status.master}`,
+    ];
+
+    if (line.unitPrice !== undefined && line.unitPrice !== null) {
+      parts.push(`Unit Price: $${line.unitPrice.toFixed(2)}`);
+    }
+    if (line.totalPrice !== undefined && line.totalPrice !== null) {
+      parts.push(`Total Price: $${line.totalPrice.toFixed(2)}`);
+    }
+    if (line.description) parts.push(`Description: ${line.description}`);
+    if (line.garment) parts.push(`Garment: ${line.garment}`);
+    if (line.comment) parts.push(`Comment: ${line.comment}`);
+    if (line.processCodes && line.processCodes.length > 0) {
+      parts.push(`Process Codes: ${line.processCodes.join(", ")}`);
+    }
+    if (line.materials && line.materials.length > 0) {
+      parts.push(`Materials: ${line.materials.join(", ")}`);
+    }
+
+    return parts.filter(Boolean).join("\n");
+  }
+
+  private buildShipmentText(
+    order: ModernOrder,
+    shipment: ModernOrder["shipments"][number]
+  ): string {
+    const parts = [
+      `Shipment ID: ${shipment.id}`,
+      `Job Number: ${order.jobNumber}`,
+      `Customer: ${order.customer.company}`,
+      `Title: ${shipment.title}`,
+      `Status: ${shipment.shipped ? "Shipped" : "Not shipped"}`,
+      `Method: ${shipment.method.label}`,
+      `Ship to: ${
+        shipment.address.organisation || shipment.address.contactName
+      }, ${shipment.address.city}, ${shipment.address.state}`,
+    ];
+
+    if (shipment.dateShipped) parts.push(`Date Shipped: ${shipment.dateShipped}`);
+    if (shipment.trackingDetails) {
+      parts.push(`Tracking: ${shipment.trackingDetails.status}`);
+      if (shipment.trackingDetails.deliveryStatus) {
+        parts.push(`Delivery: ${shipment.trackingDetails.deliveryStatus}`);
+      }
+    }
+
+    return parts.filter(Boolean).join("\n");
+  }
+
+  private buildHistoryText(
+    order: ModernOrder,
+    history: JobHistorySnapshot
+  ): string {
+    return [
+      `Job Number: ${order.jobNumber}`,
+      `Master Status: ${history.MasterStatus?.Status || order.status.master}`,
+      `Stock Status: ${history.StockStatus?.Status || order.status.stock}`,
+      `Location: ${history.Location?.Name || order.location.name}`,
+      history.StatusLineText ? `Recent Activity: ${history.StatusLineText}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  private buildJobMetadata(
+    order: ModernOrder,
+    dataSource: "api" | "scraped"
+  ): OrderVectorMetadata {
+    const categories = [
+      ...new Set(
+        order.lineItems
+          .map((item) => item.category)
+          .filter((category): category is string => Boolean(category))
+      ),
+    ];
+    const materials = [
+      ...new Set(order.lineItems.flatMap((item) => item.materials || [])),
+    ];
+
+    // Completeness over the fields search and display depend on
+    const requiredFields = [
+      order.jobNumber,
+      order.orderNumber,
+      order.description,
+      order.customer.company,
+      order.status.master,
+      order.dates.dateEntered,
+      order.dates.dateDue,
+    ];
+    const completenessScore = Math.round(
+      (requiredFields.filter(Boolean).length / requiredFields.length) * 100
+    );
+
+    const lineTotal = order.lineItems.reduce(
+      (sum, item) => sum + (item.totalPrice || 0),
+      0
+    );
+
+    return {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      ...this.embedderMetadata(),
+      type: "job",
+      jobNumber: order.jobNumber,
+      orderNumber: order.orderNumber,
+      customerId: order.customer.id,
+      customerCompany: order.customer.company,
+      status: order.status.master,
+      masterStatusId: order.status.masterStatusId,
+      stockStatus: order.status.stock,
+      description: this.truncate(order.description, 500),
+      dateEntered: order.dates.dateEntered,
+      dateDue: order.dates.dateDue,
+      dateDueFactory: order.dates.dateDueFactory,
+      dateEnteredTs: this.toTimestamp(order.dates.dateEntered),
+      dateDueTs: this.toTimestamp(order.dates.dateDue),
+      processes: order.production.processes.map((p) => p.code),
+      gangCodes: order.production.gangCodes,
+      tags: order.tags.map((tag) => tag.tag),
+      timeSensitive: order.production.timeSensitive,
+      mustDate: order.production.mustDate,
+      isReprint: order.production.isReprint,
+      locationCode: order.location.code,
+      locationName: order.location.name,
+      deliveryOption: order.location.deliveryOption,
+      hasLineItems: order.lineItems.length > 0,
+      hasShipments: order.shipments.length > 0,
+      hasFiles: order.files.length > 0 || order.workflow.hasJobFiles,
+      lineItemCount: order.lineItems.length,
+      shipmentCount: order.shipments.length,
+      fileCount: order.files.length,
+      categories,
+      materials,
+      totalValue: order.pricing?.total || lineTotal || undefined,
+      dataSource,
+      completenessScore,
+      lastUpdated: order.metadata.lastAPIUpdate || new Date().toISOString(),
+    };
+  }
+
+  // ===== CHANGE TRACKING =====
+
+  // Hash of everything that affects search text or metadata. Fetch timestamps
+  // are left out so unchanged orders are not re-embedded on every sync.
+  hashOrder(order: ModernOrder): string {
+    const hashableContent = {
+      orderNumber: order.orderNumber,
+      customer: order.customer,
+      description: order.description,
+      comments: order.comments,
+      status: order.status,
+      dates: {
+        dateEntered: order.dates.dateEntered,
+        dateDue: order.dates.dateDue,
+        dateDueFactory: order.dates.dateDueFactory,
+      },
+      location: order.location,
+      production: order.production,
+      lineItems: order.lineItems,
+      shipments: order.shipments,
+      files: order.files.map((file) => file.guid),
+      tags: order.tags.map((tag) => tag.tag),
+      workflow: order.workflow,
+      pricing: order.pricing?.total,
+    };
+
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify(hashableContent))
+      .digest("hex");
+  }
+
+  detectChanges(
+    orders: ModernOrder[],
+    options: { removeMissing?: boolean } = {}
+  ): OrderIndexChanges {
+    const changes: OrderIndexChanges = {
+      newOrders: [],
+      updatedOrders: [],
+      unchangedOrders: [],
+      deletedJobNumbers: [],
+    };
+
+    for (const order of orders) {
+      const tracked = this.tracker.orders[order.jobNumber];
+      if (!tracked) {
+        changes.newOrders.push(order);
+      } else if (
+        tracked.hash !== this.hashOrder(order) ||
+        (tracked.schemaVersion ?? UNVERSIONED_SCHEMA_VERSION) <
+          CURRENT_SCHEMA_VERSION
+      ) {
+        changes.updatedOrders.push(order);
+      } else {
+        changes.unchangedOrders.push(order);
+      }
+    }
+
+    if (options.removeMissing) {
+      const current = new Set(orders.map((order) => order.jobNumber));
+      changes.deletedJobNumbers = Object.keys(this.tracker.orders).filter(
+        (jobNumber) => !current.has(jobNumber)
+      );
+    }
+
+    console.log(
+      `📊 Change detection: ${changes.newOrders.length} new, ${changes.updatedOrders.length} updated, ${changes.unchangedOrders.length} unchanged, ${changes.deletedJobNumbers.length} deleted`
+    );
+
+    return changes;
+  }
+
+  getTrackedOrder(jobNumber: string): TrackedOrder | undefined {
+    return this.tracker.orders[jobNumber];
+  }
+
+  getTrackedOrders(): Record<string, TrackedOrder> {
+    return { ...this.tracker.orders };
+  }
+
+  // ===== INDEXING =====
+
+  async indexOrders(
+    orders: ModernOrder[],
+    options: IndexOrdersOptions = {}
+  ): Promise<OrderIndexUpdateStats> {
+    const startTime = Date.now();
+    const stats = this.emptyStats();
+    stats.totalProcessed = orders.length;
+
+    try {
+      await this.initialize();
+
+      const changes = this.detectChanges(orders, options);
+      const toIndex = options.force
+        ? [
+            ...changes.newOrders,
+            ...changes.updatedOrders,
+            ...changes.unchangedOrders,
+          ]
+        : [...changes.newOrders, ...changes.updatedOrders];
+      stats.unchangedOrders = options.force
+        ? 0
+        : changes.unchangedOrders.length;
+
+      const staleIds: string[] = [];
+
+      for (let i = 0; i < toIndex.length; i += this.embeddingBatchSize) {
+        const batch = toIndex.slice(i, i + this.embeddingBatchSize);
+        const batchNumber = Math.floor(i / this.embeddingBatchSize) + 1;
+
+        try {
+          const documents = batch.flatMap((order) =>
+            this.buildDocuments(order, {
+              dataSource: options.dataSource,
+              history: options.histories?.[order.jobNumber],
+            })
+          );
+
+          const embeddingResult = await embeddingService.createBatchEmbeddings(
+            documents.map((document) => document.text)
+          );
+          stats.embeddingTokens += embeddingResult.totalTokens;
+
+          const records: VectorRecord[] = documents.map((document, index) => ({
+            id: document.id,
+            values: embeddingResult.embeddings[index],
+            metadata: this.toStoreMetadata(document.metadata),
+          }));
+          await this.upsertRecords(records);
+          stats.upsertedVectors += records.length;
+
+          const indexedAt = new Date().toISOString();
+          for (const order of batch) {
+            const vectorIds = documents
+              .filter((document) => document.jobNumber === order.jobNumber)
+              .map((document) => document.id);
+            const previous = this.tracker.orders[order.jobNumber];
+
+            if (previous) {
+              // A re-index without a history snapshot keeps the existing one
+              const historyId = `history_${order.jobNumber}`;
+              if (
+                !options.histories?.[order.jobNumber] &&
+                previous.vectorIds.includes(historyId)
+              ) {
+                vectorIds.push(historyId);
+              }
+              staleIds.push(
+                ...previous.vectorIds.filter((id) => !vectorIds.includes(id))
+              );
+              stats.updatedOrders++;
+            } else {
+              stats.newOrders++;
+            }
+
+            this.tracker.orders[order.jobNumber] = {
+              hash: this.hashOrder(order),
+              vectorIds,
+              indexedAt,
+              customerId: order.customer.id || undefined,
+              schemaVersion: CURRENT_SCHEMA_VERSION,
+            };
+            this.tracker.deletedOrders = this.tracker.deletedOrders.filter(
+              (jobNumber) => jobNumber !== order.jobNumber
+            );
+          }
+
+          console.log(
+            `📝 Indexed batch ${batchNumber}/${Math.ceil(
+              toIndex.length / this.embeddingBatchSize
+            )} (${records.length} vectors)`
+          );
+        } catch (error) {
+          const message = `Batch ${batchNumber}: ${
+            error instanceof Error ? error.message : String(error)
+          }`;
+          console.error("❌ Failed to index batch:", message);
+          stats.errors.push(message);
+        }
+      }
+
+      if (staleIds.length > 0) {
+        await this.deleteVectors(staleIds);
+        stats.deletedVectors += staleIds.length;
+      }
+
+      if (changes.deletedJobNumbers.length > 0) {
+        const removed = await this.removeOrders(changes.deletedJobNumbers);
+        stats.deletedOrders = changes.deletedJobNumbers.length;
+        stats.deletedVectors += removed;
+      }
+    } catch (error) {
+      console.error("❌ Order indexing failed:", error);
+      stats.errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    stats.processingTime = Date.now() - startTime;
+    this.recordUpdate(stats);
+
+    console.log(
+      `✅ Order index update: +${stats.newOrders} new, ~${stats.updatedOrders} updated, -${stats.deletedOrders} deleted, ${stats.unchangedOrders} unchanged (${stats.processingTime}ms)`
+    );
+
+    return stats;
+  }
+
+  // Remove every vector belonging to the given jobs; returns vectors deleted
+  async removeOrders(jobNumbers: string[]): Promise<number> {
+    const ids: string[] = [];
+
+    for (const jobNumber of jobNumbers) {
+      const tracked = this.tracker.orders[jobNumber];
+      ids.push(...(tracked ? tracked.vectorIds : [`job_${jobNumber}`]));
+      delete this.tracker.orders[jobNumber];
+      if (!this.tracker.deletedOrders.includes(jobNumber)) {
+        this.tracker.deletedOrders.push(jobNumber);
+      }
+    }
+
+    await this.deleteVectors(ids);
+    this.saveTracker();
+    return ids.length;
+  }
+
+  // Upsert pre-embedded vectors, normalizing metadata onto the index schema
+  async upsertVectors(
+    vectors: Array<{
+      id: string;
+      values: number[];
+      metadata: object;
+    }>
+  ): Promise<void> {
+    const indexedAt = new Date().toISOString();
+    const records = vectors.map((vector) => {
+      const metadata = {
+        ...this.normalizeMetadata(vector.metadata as RawVectorMetadata),
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        ...this.embedderMetadata(),
+      };
+      const id = metadata.type === "job" ? `job_${metadata.jobNumber}` : vector.id;
+
+      const tracked = this.tracker.orders[metadata.jobNumber] || {
+        hash: "",
+        vectorIds: [],
+        indexedAt,
+      };
+      if (!tracked.vectorIds.includes(id)) tracked.vectorIds.push(id);
+      this.tracker.orders[metadata.jobNumber] = { ...tracked, indexedAt };
+
+      return { id, values: vector.values, metadata: this.toStoreMetadata(metadata) };
+    });
+
+    await this.upsertRecords(records);
+    this.saveTracker();
+  }
+
+  async deleteVectors(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const store = await this.getStore();
+
+    for (let i = 0; i < ids.length; i += this.upsertBatchSize) {
+      await store.deleteMany(ids.slice(i, i + this.upsertBatchSize));
+    }
+    console.log(`🗑️ Deleted ${ids.length} vectors`);
+  }
+
+  // Clear the index and tracker, then index every given order
+  async rebuild(
+    orders: ModernOrder[],
+    options: Omit<IndexOrdersOptions, "force" | "removeMissing"> = {}
+  ): Promise<OrderIndexUpdateStats> {
+    console.log("🔄 Rebuilding order vector index...");
+    const store = await this.getStore();
+    await store.deleteAll();
+    // Rebuilding is how an index moves to another embedder
+    this.indexEmbedder = Promise.resolve(null);
+
+    const updateHistory = this.tracker.updateHistory;
+    this.tracker = this.emptyTracker();
+    this.tracker.updateHistory = updateHistory;
+    this.tracker.lastFullRebuild = new Date().toISOString();
+
+    return this.indexOrders(orders, options);
+  }
+
+  private async upsertRecords(records: VectorRecord[]): Promise<void> {
+    const store = await this.getStore();
+    await this.assertIndexEmbedder();
+
+    for (let i = 0; i < records.length; i += this.upsertBatchSize) {
+      await store.upsert(records.slice(i, i + this.upsertBatchSize));
+    }
+    if (records.length > 0) {
+      this.indexEmbedder = Promise.resolve(this.currentEmbedder());
+    }
+  }
+
+  // ===== EMBEDDER CHECKS =====
+
+  private currentEmbedder(): string {
+    return embedderId(
+      embeddingService.getProviderName(),
+      embeddingService.getModelName()
+    );
+  }
+
+  private embedderMetadata() {
+    return {
+      embeddingProvider: embeddingService.getProviderName(),
+      embeddingModel: embeddingService.getModelName(),
+    };
+  }
+
+  private embedderOf(metadata: RawVectorMetadata): string {
+    return metadata.embeddingProvider && metadata.embeddingModel
+      ? embedderId(
+          String(metadata.embeddingProvider),
+          String(metadata.embeddingModel)
+        )
+      : LEGACY_EMBEDDER;
+  }
+
+  // Refuse to mix embedders: scores between vectors from different
+  // embedders are meaningless, and writing them corrupts the index. The
+  // index is sampled once; search results are checked as well because
+  // pod-based Pinecone indexes can't be listed.
+  private async assertIndexEmbedder(stored?: string | null): Promise<void> {
+    if (stored === undefined) {
+      this.indexEmbedder ??= this.readIndexEmbedder();
+      stored = await this.indexEmbedder;
+    }
+
+    const current = this.currentEmbedder();
+    if (stored && stored !== current) {
+      throw new Error(
+        `Vector index ${this.indexName} holds ${stored} embeddings but this process embeds with ${current}; set EMBEDDING_PROVIDER to match or rebuild the index`
+      );
+    }
+  }
+
+  private async readIndexEmbedder(): Promise<string | null> {
+    const store = await this.getStore();
+    try {
+      const page = await store.listIds({ limit: 1 });
+      const [record] = await store.fetch(page.ids);
+      return record ? this.embedderOf(record.metadata || {}) : null;
+    } catch {
+      return null; // Listing unsupported; search results are still checked
+    }
+  }
+
+  // ===== STORED VECTORS =====
+
+  async listVectorIds(options: VectorListOptions = {}): Promise<VectorListPage> {
+    await this.initialize();
+    const store = await this.getStore();
+    return store.listIds(options);
+  }
+
+  async fetchVectors(ids: string[]): Promise<StoredOrderVector[]> {
+    await this.initialize();
+    const store = await this.getStore();
+    const records = await store.fetch(ids);
+
+    return records.map((record) => ({
+      id: record.id,
+      values: record.values,
+      metadata: record.metadata || {},
+    }));
+  }
+
+  // Canonical id for a document, or null when the metadata lacks the line or
+  // shipment id needed to build one
+  vectorIdFor(metadata: OrderVectorMetadata): string | null {
+    const jobNumber = metadata.jobNumber;
+    switch (metadata.type) {
+      case "jobline":
+        return metadata.lineId === undefined
+          ? null
+          : `jobline_${jobNumber}_${metadata.lineId}`;
+      case "shipment":
+        return metadata.shipmentId === undefined
+          ? null
+          : `shipment_${jobNumber}_${metadata.shipmentId}`;
+      case "history":
+        return `history_${jobNumber}`;
+      default:
+        return `job_${jobNumber}`;
+    }
+  }
+
+  // Write metadata onto existing embeddings without re-embedding, recording
+  // the vectors against their jobs in the tracker
+  async rewriteVectors(
+    vectors: Array<{
+      id: string;
+      values: number[];
+      metadata: OrderVectorMetadata;
+    }>
+  ): Promise<void> {
+    if (vectors.length === 0) return;
+    const indexedAt = new Date().toISOString();
+
+    await this.upsertRecords(
+      vectors.map((vector) => ({
+        id: vector.id,
+        values: vector.values,
+        metadata: this.toStoreMetadata(vector.metadata),
+      }))
+    );
+
+    for (const vector of vectors) {
+      const jobNumber = vector.metadata.jobNumber;
+      const tracked = this.tracker.orders[jobNumber] || {
+        hash: "",
+        vectorIds: [],
+        indexedAt,
+      };
+      if (!tracked.vectorIds.includes(vector.id)) {
+        tracked.vectorIds.push(vector.id);
+      }
+      this.tracker.orders[jobNumber] = tracked;
+    }
+    this.saveTracker();
+  }
+
+  // ===== SEARCH =====
+
+  async search(
+    query: string,
+    options: OrderIndexSearchOptions = {}
+  ): Promise<OrderSearchResult[]> {
+    const queryEmbedding = await embeddingService.createEmbedding(query);
+    const results = await this.searchByVector(queryEmbedding, options);
+
+    if (options.includeHighlights) {
+      results.forEach((result) => {
+        result.highlights = this.generateHighlights(query, result.metadata);
+      });
+    }
+
+    console.log(`🔍 Found ${results.length} results for query: "${query}"`);
+    return results;
+  }
+
+  async searchByVector(
+    vector: number[],
+    options: OrderIndexSearchOptions = {}
+  ): Promise<OrderSearchResult[]> {
+    const { topK = 10, filters = {}, minScore } = options;
+    const store = await this.getStore();
+    await this.assertIndexEmbedder();
+
+    const response = await tracer.span(
+      "vector.query",
+      { attributes: { topK } },
+      async (span) => {
+        const result = await store.query({
+          vector,
+          topK,
+          filter: this.buildFilter(filters),
+          includeMetadata: true,
+        });
+        span.setAttribute("matches", result.matches.length);
+        return result;
+      }
+    );
+    for (const match of response.matches) {
+      await this.assertIndexEmbedder(this.embedderOf(match.metadata || {}));
+    }
+
+    return response.matches
+      .filter((match) => minScore === undefined || match.score >= minScore)
+      .map((match) => ({
+        id: match.id,
+        score: match.score,
+        metadata: this.normalizeMetadata(match.metadata || {}),
+      }));
+  }
+
+  // Exact lookup of a job's primary document
+  async findJob(jobNumber: string): Promise<OrderSearchResult | null> {
+    const results = await this.search(`Job ${jobNumber}`, {
+      topK: 1,
+      filters: { jobNumber: String(jobNumber), types: ["job"] },
+    });
+    return results[0] || null;
+  }
+
+  buildFilter(filters: OrderIndexFilters = {}): VectorFilter | undefined {
+    const filter: VectorFilter = {};
+
+    if (filters.types && filters.types.length > 0) {
+      filter.type =
+        filters.types.length === 1 ? filters.types[0] : { $in: filters.types };
+    }
+
+    const equalityKeys = [
+      "jobNumber",
+      "customerCompany",
+      "customerId",
+      "status",
+      "locationCode",
+      "deliveryOption",
+      "dataSource",
+      "hasLineItems",
+      "hasShipments",
+      "hasFiles",
+      "timeSensitive",
+      "mustDate",
+      "isReprint",
+    ] as const;
+    for (const key of equalityKeys) {
+      const value = filters[key];
+      if (value !== undefined && value !== "") {
+        filter[key] = { $eq: value };
+      }
+    }
+
+    // A scoped search never widens past its customers, even with customerId
+    if (filters.customerIds) {
+      const allowed =
+        filters.customerId !== undefined
+          ? filters.customerIds.filter((id) => id === filters.customerId)
+          : filters.customerIds;
+      filter.customerId = { $in: allowed };
+    }
+
+    const listKeys = ["processes", "materials", "categories", "tags"] as const;
+    for (const key of listKeys) {
+      const values = filters[key];
+      if (values && values.length > 0) {
+        filter[key] = { $in: values };
+      }
+    }
+
+    if (filters.minCompletenessScore !== undefined) {
+      filter.completenessScore = { $gte: filters.minCompletenessScore };
+    }
+
+    if (filters.minValue !== undefined || filters.maxValue !== undefined) {
+      filter.totalValue = {
+        ...(filters.minValue !== undefined && { $gte: filters.minValue }),
+        ...(filters.maxValue !== undefined && { $lte: filters.maxValue }),
+      };
+    }
+
+    const dateRanges = [
+      ["dateEnteredTs", filters.dateRange],
+      ["dateDueTs", filters.dueDateRange],
+    ] as const;
+    for (const [key, range] of dateRanges) {
+      if (!range) continue;
+      const start = this.toTimestamp(range.start);
+      const end = this.toTimestamp(range.end);
+      if (start === undefined && end === undefined) continue;
+      filter[key] = {
+        ...(start !== undefined && { $gte: start }),
+        ...(end !== undefined && { $lte: end }),
+      };
+    }
+
+    return Object.keys(filter).length > 0 ? filter : undefined;
+  }
+
+  // Map loosely-keyed filters from the router and older callers onto the
+  // index schema. Unknown keys are dropped rather than sent to the store.
+  filtersFromGeneric(raw: object = {}): OrderIndexFilters {
+    const filters: OrderIndexFilters = {};
+    const asList = (value: unknown): string[] =>
+      (Array.isArray(value) ? value : [value])
+        .filter((item) => item !== undefined && item !== null && item !== "")
+        .map(String);
+
+    for (const [key, value] of Object.entries(raw)) {
+      if (value === undefined || value === null || value === "") continue;
+
+      switch (key) {
+        case "type":
+        case "types":
+          filters.types = asList(value) as OrderDocumentType[];
+          break;
+        case "jobNumber":
+          filters.jobNumber = String(value);
+          break;
+        case "customer":
+        case "customerCompany":
+          filters.customerCompany = String(value);
+          break;
+        case "customerId":
+          filters.customerId = Number(value);
+          break;
+        case "customerIds":
+          filters.customerIds = asList(value).map(Number);
+          break;
+        case "status":
+        case "masterStatus":
+          filters.status = String(value);
+          break;
+        case "locationCode":
+        case "deliveryOption":
+          filters[key] = String(value);
+          break;
+        case "dataSource":
+          filters.dataSource = value === "scraped" ? "scraped" : "api";
+          break;
+        case "hasLineItems":
+        case "hasShipments":
+        case "hasFiles":
+        case "timeSensitive":
+        case "mustDate":
+        case "isReprint":
+          filters[key] = Boolean(value);
+          break;
+        case "completenessScore":
+        case "minCompletenessScore":
+          filters.minCompletenessScore = Number(value);
+          break;
+        case "minPrice":
+        case "minValue":
+          filters.minValue = Number(value);
+          break;
+        case "maxPrice":
+        case "maxValue":
+          filters.maxValue = Number(value);
+          break;
+        case "priceRange":
+          if (Array.isArray(value) && value.length === 2) {
+            filters.minValue = Number(value[0]);
+            filters.maxValue = Number(value[1]);
+          }
+          break;
+        case "dateRange":
+        case "dueDateRange":
+          filters[key] = value as { start: string; end: string };
+          break;
+        case "processes": {
+          const codes = this.mapProcessTermsToCodes(asList(value));
+          if (codes.length > 0) filters.processes = codes;
+          break;
+        }
+        case "materials":
+        case "categories":
+        case "tags":
+          filters[key] = asList(value);
+          break;
+        default:
+          console.log(`⚠️ Ignoring unsupported vector filter: ${key}`);
+      }
+    }
+
+    return filters;
+  }
+
+  // Map human-readable process terms to process codes; known codes pass through
+  mapProcessTermsToCodes(terms: string[]): string[] {
+    const processMapping: Record<string, string[]> = {
+      embroidery: ["EM"],
+      "embroidery process": ["EM"],
+      emb: ["EM"],
+      supacolor: ["SC"],
+      "supa color": ["SC"],
+      supa: ["SC"],
+      sc: ["SC"],
+      "head wear": ["HW"],
+      headwear: ["HW"],
+      head: ["HW"],
+      hw: ["HW"],
+      bagging: ["Bagging"],
+      bag: ["Bagging"],
+      dispatch: ["Dispatch"],
+      misc: ["Misc"],
+      miscellaneous: ["Misc"],
+      pa: ["PA"],
+      patch: ["PA"],
+      patches: ["PA"],
+      cr: ["CR"],
+      cutting: ["CR"],
+      cut: ["CR"],
+    };
+    const knownCodes = new Set(Object.values(processMapping).flat());
+
+    const codes: string[] = [];
+    for (const term of terms) {
+      if (knownCodes.has(term)) {
+        codes.push(term);
+        continue;
+      }
+
+      const termLower = term.toLowerCase();
+      for (const [key, codeArray] of Object.entries(processMapping)) {
+        if (termLower.includes(key)) {
+          codes.push(...codeArray);
+        }
+      }
+    }
+
+    return [...new Set(codes)];
+  }
+
+  generateHighlights(query: string, metadata: OrderVectorMetadata): string[] {
+    const queryLower = query.toLowerCase();
+    const fields = [
+      { name: "job", value: metadata.jobNumber },
+      { name: "customer", value: metadata.customerCompany },
+      { name: "description", value: metadata.description },
+      { name: "status", value: metadata.status },
+      { name: "location", value: metadata.locationName },
+      { name: "processes", value: metadata.processes.join(" ") },
+      { name: "materials", value: metadata.materials.join(" ") },
+      { name: "categories", value: metadata.categories.join(" ") },
+      { name: "tags", value: metadata.tags.join(" ") },
+    ];
+
+    return fields
+      .filter(
+        (field) => field.value && field.value.toLowerCase().includes(queryLower)
+      )
+      .map((field) => `${field.name}: ${field.value}`)
+      .slice(0, 3); // Limit to top 3 highlights
+  }
+
+  // ===== METADATA AND CONVERSION =====
+
+  // Read metadata written under any registered schema version. Older shapes
+  // are upgraded for reading, but schemaVersion keeps the stored version so
+  // callers can tell stale vectors apart.
+  normalizeMetadata(stored: RawVectorMetadata): OrderVectorMetadata {
+    const raw = upgradeMetadata(stored).metadata;
+    const text = (value: unknown) =>
+      value === undefined || value === null ? "" : String(value);
+    const num = (value: unknown) => {
+      if (value === undefined || value === null || value === "") {
+        return undefined;
+      }
+      const parsed = typeof value === "number" ? value : Number(value);
+      return Number.isFinite(parsed) ? parsed : undefined;
+    };
+    const list = (value: unknown): string[] => {
+      if (Array.isArray(value)) return value.map(String);
+      if (typeof value === "string" && value) {
+        return value
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean);
+      }
+      return [];
+    };
+    const flag = (value: unknown) => value === true || value === "true";
+
+    const types: OrderDocumentType[] = ["job", "jobline", "shipment", "history"];
+    const type = types.includes(raw.type as OrderDocumentType)
+      ? (raw.type as OrderDocumentType)
+      : "job";
+    const dateEntered = text(raw.dateEntered);
+    const dateDue = text(raw.dateDue);
+
+    return {
+      schemaVersion: getSchemaVersion(stored),
+      embeddingProvider: text(raw.embeddingProvider),
+      embeddingModel: text(raw.embeddingModel),
+      type,
+      jobNumber: text(raw.jobNumber),
+      orderNumber: text(raw.orderNumber),
+      customerId: num(raw.customerId) ?? 0,
+      customerCompany: text(raw.customerCompany),
+      status: text(raw.status),
+      masterStatusId: num(raw.masterStatusId) ?? 0,
+      stockStatus: text(raw.stockStatus),
+      description: text(raw.description),
+      dateEntered,
+      dateDue,
+      dateDueFactory: text(raw.dateDueFactory),
+      dateEnteredTs: num(raw.dateEnteredTs) ?? this.toTimestamp(dateEntered),
+      dateDueTs: num(raw.dateDueTs) ?? this.toTimestamp(dateDue),
+      processes: list(raw.processes),
+      gangCodes: list(raw.gangCodes),
+      tags: list(raw.tags),
+      timeSensitive: flag(raw.timeSensitive),
+      mustDate: flag(raw.mustDate),
+      isReprint: flag(raw.isReprint),
+      locationCode: text(raw.locationCode),
+      locationName: text(raw.locationName),
+      deliveryOption: text(raw.deliveryOption),
+      hasLineItems: flag(raw.hasLineItems),
+      hasShipments: flag(raw.hasShipments),
+      hasFiles: flag(raw.hasFiles),
+      lineItemCount: num(raw.lineItemCount) ?? 0,
+      shipmentCount: num(raw.shipmentCount) ?? 0,
+      fileCount: num(raw.fileCount) ?? 0,
+      categories: list(raw.categories),
+      materials: list(raw.materials),
+      totalValue: num(raw.totalValue),
+      dataSource: raw.dataSource === "scraped" ? "scraped" : "api",
+      completenessScore: num(raw.completenessScore) ?? 0,
+      lastUpdated: text(raw.lastUpdated),
+      lineId: num(raw.lineId),
+      program: raw.program === undefined ? undefined : text(raw.program),
+      lineQuantity: num(raw.lineQuantity),
+      unitPrice: num(raw.unitPrice),
+      totalPrice: num(raw.totalPrice),
+      comment: raw.comment === undefined ? undefined : text(raw.comment),
+      shipmentId: num(raw.shipmentId),
+      shipped: raw.shipped === undefined ? undefined : flag(raw.shipped),
+      shippingMethod:
+        raw.shippingMethod === undefined ? undefined : text(raw.shippingMethod),
+    };
+  }
+
+  // Store metadata cannot hold undefined values; empty lists are dropped too
+  private toStoreMetadata(metadata: OrderVectorMetadata): VectorStoreMetadata {
+    const cleaned: VectorStoreMetadata = {};
+
+    for (const [key, value] of Object.entries(metadata)) {
+      if (value === undefined || value === null) continue;
+      if (Array.isArray(value) && value.length === 0) continue;
+      cleaned[key] = value;
+    }
+
+    return cleaned;
+  }
+
+  // Group search results by job into partial ModernOrders; jobline results
+  // become line items and shipment results become shipments
+  resultsToOrders(results: OrderSearchResult[]): ModernOrder[] {
+    const groups = new Map<
+      string,
+      {
+        metadata: OrderVectorMetadata;
+        lines: OrderVectorMetadata[];
+        shipments: OrderVectorMetadata[];
+      }
+    >();
+
+    for (const result of results) {
+      const metadata = result.metadata;
+      if (!metadata.jobNumber) continue;
+
+      const group = groups.get(metadata.jobNumber) || {
+        metadata,
+        lines: [],
+        shipments: [],
+      };
+      if (metadata.type === "job") group.metadata = metadata;
+      if (metadata.type === "jobline") group.lines.push(metadata);
+      if (metadata.type === "shipment") group.shipments.push(metadata);
+      groups.set(metadata.jobNumber, group);
+    }
+
+    const orders: ModernOrder[] = [];
+    for (const [jobNumber, group] of groups) {
+      const job = group.metadata;
+      const lineItems = group.lines.map((line) => ({
+        lineId: line.lineId,
+        program: line.program,
+        assetSKU: line.program,
+        description: line.description,
+        comment: line.comment,
+        category: line.categories[0],
+        quantity: line.lineQuantity || 0,
+        unitPrice: line.unitPrice,
+        totalPrice: line.totalPrice,
+        status: line.status,
+        processCodes: line.processes,
+        materials: line.materials,
+      }));
+
+      orders.push({
+        jobNumber,
+        orderNumber: job.orderNumber,
+        description: job.type === "job" ? job.description : "",
+        comments: "",
+        jobQuantity: lineItems.reduce((sum, item) => sum + item.quantity, 0),
+        customer: {
+          id: job.customerId,
+          company: job.customerCompany,
+        },
+        status: {
+          master: job.status,
+          masterStatusId: job.masterStatusId,
+          stock: job.stockStatus,
+          stockComplete: 0,
+          statusLine: "",
+          statusLineHtml: "",
+        },
+        dates: {
+          dateEntered: job.dateEntered,
+          dateEnteredUtc: job.dateEntered,
+          dateDue: job.dateDue,
+          dateDueUtc: job.dateDue,
+          dateDueFactory: job.dateDueFactory,
+          daysToDueDate: this.calculateDaysToDueDate(job.dateDue),
+        },
+        location: {
+          code: job.locationCode,
+          name: job.locationName,
+          deliveryOption: job.deliveryOption,
+        },
+        production: {
+          processes: job.processes.map((code) => ({
+            code,
+            displayCode: code,
+            quantity: 0,
+            bitVal: 0,
+          })),
+          gangCodes: job.gangCodes,
+          timeSensitive: job.timeSensitive,
+          mustDate: job.mustDate,
+          isReprint: job.isReprint,
+          isDupe: false,
+          canSuggestMachines: false,
+          canPrintJobLineLabels: false,
+          hasScheduleableJobLines: false,
+        },
+        lineItems,
+        shipments: group.shipments.map((shipment, index) => ({
+          id: shipment.shipmentId || index + 1,
+          index,
+          title: "",
+          shipped: Boolean(shipment.shipped),
+          canShip: false,
+          address: {
+            contactName: "",
+            organisation: "",
+            streetAddress: "",
+            city: "",
+            state: "",
+            zipCode: "",
+            validated: false,
+          },
+          method: {
+            label: shipment.shippingMethod || "",
+            value: shipment.shippingMethod || "",
+          },
+        })),
+        files: [],
+        tags: job.tags.map((tag) => ({
+          tag,
+          enteredBy: "",
+          dateEntered: "",
+        })),
+        workflow: {
+          hasScheduleableJobLines: false,
+          canPrintJobLineLabels: false,
+          hasJobFiles: job.hasFiles,
+          hasProof: false,
+        },
+        pricing: job.totalValue
+          ? {
+              total: job.totalValue,
+              totalFormatted: this.formatCurrency(job.totalValue),
+            }
+          : undefined,
+        metadata: {
+          lastAPIUpdate: job.lastUpdated || new Date().toISOString(),
+          dataSource: "api",
+          dataFreshness: "stale",
+          bitVal: 0,
+          sortKey: jobNumber,
+        },
+      });
+    }
+
+    console.log(
+      `✅ Converted ${results.length} vector results to ${orders.length} orders`
+    );
+    return orders;
+  }
+
+  // Accept ModernOrders as-is and map scraped or loosely-shaped orders onto
+  // the ModernOrder structure so every caller indexes through one path
+  toModernOrder(input: LegacyOrder): ModernOrder {
+    if (
+      input.status &&
+      typeof input.status === "object" &&
+      input.dates &&
+      input.production
+    ) {
+      return input as ModernOrder;
+    }
+
+    const now = new Date().toISOString();
+    const jobNumber = String(input.jobNumber ?? input.JobNumber ?? "");
+    const dateEntered = input.dateInUtc || input.dateEntered || now;
+    const dateDue =
+      input.dateDueUtc || input.dateDue || input.requestedShipDate || "";
+    const tags: string[] = [
+      ...(input.metadata?.tags || []),
+      ...(input.jobTags || []).map(
+        (tag: LegacyOrder) => tag.tag ?? tag.Tag ?? ""
+      ),
+    ].filter(Boolean);
+    const totalDue = Number(input.pricing?.totalDue ?? input.pricing?.total);
+
+    return {
+      jobNumber,
+      orderNumber: String(input.orderNumber || jobNumber),
+      customer: {
+        id: Number(input.customer?.customerId ?? input.customerId) || 0,
+        company: input.customer?.company || input.client || "Unknown",
+        contactPerson: input.customer?.contactPerson,
+        phone: input.customer?.phone,
+        email: input.customer?.email,
+      },
+      description: input.description || "",
+      comments: [
+        input.comment,
+        input.comments,
+        ...(input.production?.productionNotes || []),
+      ]
+        .filter(Boolean)
+        .join(" "),
+      jobQuantity: Number(input.jobQuantity) || 0,
+      status: {
+        master:
+          input.masterJobStatus ||
+          (typeof input.status === "string" ? input.status : "") ||
+          "Unknown",
+        masterStatusId: Number(input.masterJobStatusId) || 0,
+        stock: input.stockCompleteStatus || "",
+        stockComplete: Number(input.stockComplete) || 0,
+        statusLine: input.statusLine || "",
+        statusLineHtml: input.statusLineHtml || "",
+      },
+      dates: {
+        dateEntered,
+        dateEnteredUtc: dateEntered,
+        dateDue,
+        dateDueUtc: dateDue,
+        dateDueFactory: input.dateDueFactory || "",
+        daysToDueDate:
+          Number(input.daysToDueDate) || this.calculateDaysToDueDate(dateDue),
+      },
+      location: {
+        code: input.jobLocationCode || input.locationCode || "",
+        name: input.jobLocationName || "",
+        deliveryOption: input.deliveryOption || "",
+      },
+      production: {
+        processes: (input.processQuantities || []).map(
+          (process: LegacyOrder) => ({
+            code: process.code,
+            displayCode: process.displayCode || process.code,
+            quantity: Number(process.qty ?? process.quantity) || 0,
+            bitVal: Number(process.bitVal) || 0,
+          })
+        ),
+        gangCodes: input.gangCodes || [],
+        timeSensitive: Boolean(input.timeSensitive || input.workflow?.isRush),
+        mustDate: Boolean(input.mustDate),
+        isReprint: Boolean(input.isReprint),
+        isDupe: Boolean(input.isDupe),
+        canSuggestMachines: false,
+        canPrintJobLineLabels: false,
+        hasScheduleableJobLines: false,
+      },
+      lineItems: (input.lineItems || []).map((item: LegacyOrder) => ({
+        description: item.description || "",
+        category: item.category,
+        comment: item.comment,
+        quantity: Number(item.quantity) || 0,
+        unitPrice: item.unitPrice,
+        totalPrice: item.totalPrice,
+        status: item.status,
+        program: item.assetSKU,
+        assetSKU: item.assetSKU,
+        processCodes: item.processCodes,
+        materials: item.materials,
+        hasImage: item.hasImage,
+        hasPDF: item.hasPDF,
+      })),
+      shipments: (input.shipments || []).map(
+        (shipment: LegacyOrder, index: number) => ({
+          id: Number(shipment.shipmentNumber ?? shipment.id) || index + 1,
+          index,
+          title: shipment.title || shipment.specialInstructions || "",
+          shipped:
+            Boolean(shipment.shipped) ||
+            /shipped|delivered/i.test(shipment.status || ""),
+          canShip: false,
+          address: {
+            contactName:
+              shipment.contactInfo?.name || shipment.address?.contactName || "",
+            organisation:
+              shipment.shipToAddress?.company ||
+              shipment.address?.organisation ||
+              "",
+            streetAddress:
+              shipment.shipToAddress?.street ||
+              shipment.address?.streetAddress ||
+              "",
+            city: shipment.shipToAddress?.city || shipment.address?.city || "",
+            state:
+              shipment.shipToAddress?.state || shipment.address?.state || "",
+            zipCode:
+              shipment.shipToAddress?.zipCode || shipment.address?.zipCode || "",
+            validated: false,
+          },
+          method: {
+            label:
+              shipment.shippingMethod || shipment.shipmentMethod?.label || "",
+            value:
+              shipment.shippingMethod || shipment.shipmentMethod?.value || "",
+          },
+        })
+      ),
+      files: [],
+      tags: tags.map((tag) => ({ tag, enteredBy: "", dateEntered: "" })),
+      workflow: {
+        hasScheduleableJobLines: false,
+        canPrintJobLineLabels: false,
+        hasJobFiles: Boolean(input.workflow?.hasJobFiles),
+        hasProof: Boolean(input.workflow?.hasProof),
+      },
+      pricing:
+        totalDue > 0
+          ? { total: totalDue, totalFormatted: this.formatCurrency(totalDue) }
+          : undefined,
+      metadata: {
+        lastAPIUpdate: input.metadata?.lastUpdated || input.lastAPIUpdate || now,
+        dataSource: "api",
+        dataFreshness: "stale",
+        bitVal: 0,
+        sortKey: jobNumber,
+      },
+    };
+  }
+
+  // ===== TRACKER AND HEALTH =====
+
+  getTrackerStats() {
+    const orders = Object.values(this.tracker.orders);
+    return {
+      lastUpdate: this.tracker.lastUpdate,
+      lastFullRebuild: this.tracker.lastFullRebuild,
+      trackedOrders: orders.length,
+      trackedVectors: orders.reduce(
+        (sum, order) => sum + order.vectorIds.length,
+        0
+      ),
+      deletedOrders: this.tracker.deletedOrders.length,
+      updateHistory: this.tracker.updateHistory.length,
+    };
+  }
+
+  getUpdateHistory() {
+    return [...this.tracker.updateHistory];
+  }
+
+  resetTracker(): void {
+    this.tracker = this.emptyTracker();
+    this.saveTracker();
+    console.log("🔄 Order index tracker reset");
+  }
+
+  async getIndexStats(): Promise<VectorStoreStats> {
+    const store = await this.getStore();
+    return store.describeIndexStats();
+  }
+
+  async healthCheck(): Promise<{
+    healthy: boolean;
+    stats?: VectorStoreStats;
+    tracker?: ReturnType<OrderVectorIndex["getTrackerStats"]>;
+    error?: string;
+  }> {
+    try {
+      const stats = await this.getIndexStats();
+      return { healthy: true, stats, tracker: this.getTrackerStats() };
+    } catch (error) {
+      return {
+        healthy: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  private recordUpdate(stats: OrderIndexUpdateStats): void {
+    const timestamp = new Date().toISOString();
+    this.tracker.lastUpdate = timestamp;
+    this.tracker.updateHistory.push({ timestamp, stats });
+
+    // Keep only last 50 updates in history
+    if (this.tracker.updateHistory.length > 50) {
+      this.tracker.updateHistory = this.tracker.updateHistory.slice(-50);
+    }
+
+    this.saveTracker();
+  }
+
+  private emptyStats(): OrderIndexUpdateStats {
+    return {
+      newOrders: 0,
+      updatedOrders: 0,
+      unchangedOrders: 0,
+      deletedOrders: 0,
+      upsertedVectors: 0,
+      deletedVectors: 0,
+      totalProcessed: 0,
+      processingTime: 0,
+      embeddingTokens: 0,
+      errors: [],
+    };
+  }
+
+  private emptyTracker(): OrderIndexTracker {
+    return {
+      lastUpdate: new Date(0).toISOString(),
+      lastFullRebuild: new Date(0).toISOString(),
+      orders: {},
+      deletedOrders: [],
+      updateHistory: [],
+    };
+  }
+
+  private loadTracker(): OrderIndexTracker {
+    try {
+      if (fs.existsSync(this.trackerPath)) {
+        const data = JSON.parse(fs.readFileSync(this.trackerPath, "utf8"));
+        return { ...this.emptyTracker(), ...data };
+      }
+    } catch (error) {
+      console.warn("Failed to load order index tracker:", error);
+    }
+
+    return this.emptyTracker();
+  }
+
+  private saveTracker(): void {
+    try {
+      const dir = path.dirname(this.trackerPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.trackerPath, JSON.stringify(this.tracker, null, 2));
+    } catch (error) {
+      console.error("Failed to save order index tracker:", error);
+    }
+  }
+
+  // ===== UTILITIES =====
+
+  private truncate(text: string | undefined, maxLength: number): string {
+    if (!text) return "";
+    return text.length > maxLength ? text.substring(0, maxLength) : text;
+  }
+
+  private toTimestamp(date: string | undefined): number | undefined {
+    if (!date) return undefined;
+    const time = new Date(date).getTime();
+    return Number.isNaN(time) ? undefined : time;
+  }
+
+  private formatDate(date: string): string {
+    const time = this.toTimestamp(date);
+    return time === undefined ? date : new Date(time).toLocaleDateString();
+  }
+
+  private formatCurrency(amount: number): string {
+    return `$${amount.toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  }
+
+  private calculateDaysToDueDate(dateDue: string): number {
+    const time = this.toTimestamp(dateDue);
+    if (time === undefined) return 0;
+
+    // Compare calendar days, ignoring time of day
+    const dueDate = new Date(time);
+    const now = new Date();
+    dueDate.setHours(0, 0, 0, 0);
+    now.setHours(0, 0, 0, 0);
+
+    return Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+  }
+}
+
+// Export singleton instance
+export const orderVectorIndex = new OrderVectorIndex();
@@ -0,0 +1,239 @@
+// Pending Actions - OMS writes the chat has proposed but nobody confirmed yet
+// A write only runs once the user who asked for it confirms it in the chat
+
+import path from "path";
+import fs from "fs";
+import { DataFileWriter } from "./data-file-writer";
+
+export type PendingActionStatus =
+  | "pending"
+  | "applying" // Confirmed, writes in progress
+  | "applied"
+  | "failed" // Confirmed, but at least one job could not be written
+  | "cancelled"
+  | "expired";
+
+// One job's part of a write, worked out by a dry run before anything is
+// written; this is what the confirmation card shows
+export interface PendingChange {
+  jobNumber: string;
+  field: string; // e.g. "tags", "due date"
+  before: string;
+  after: string;
+  value: string; // What is sent to the OMS for this job
+  rollback: string; // How to undo it by hand
+}
+
+export interface PendingActionResult {
+  jobNumber: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface PendingAction {
+  id: string;
+  kind: string; // e.g. "add-job-tag"
+  summary: string; // Shown on the confirmation card
+  jobNumbers: string[]; // Jobs the write will touch
+  params: Record<string, string>;
+  changes: PendingChange[]; // One per job in jobNumbers
+  fingerprint: string; // Same requester, kind, params and jobs
+  skipped: { jobNumber: string; reason: string }[]; // Left out of the write
+  requestedBy: { userId: string; username: string; role: string };
+  sessionId: string | null;
+  correlationId: string | null; // Request that proposed it
+  createdAt: string;
+  expiresAt: string;
+  status: PendingActionStatus;
+  confirmKey?: string; // Idempotency key of the confirm request that ran it
+  confirmedAt?: string; // When the writes started
+  resolvedAt?: string;
+  resolvedBy?: string; // Username that confirmed or cancelled
+  results?: PendingActionResult[];
+}
+
+// A confirm or cancel decision, shown in the chat as its own message
+export interface ActionConfirmation {
+  actionId: string;
+  decision: "confirm" | "cancel";
+  summary: string;
+  status: PendingActionStatus;
+}
+
+export interface PendingActionQuery {
+  sessionId?: string;
+  correlationId?: string;
+  status?: PendingActionStatus;
+}
+
+interface PendingActionFile {
+  lastUpdate: string;
+  actions: PendingAction[]; // Oldest first
+}
+
+export class PendingActionStore {
+  private actions: PendingAction[] = [];
+  private loaded = false;
+  private fileMtime = 0;
+  private readonly maxActions = 1000;
+  private writer: DataFileWriter;
+
+  constructor(
+    private storePath: string = path.join(
+      process.cwd(),
+      "data",
+      "pending-actions.json"
+    ),
+    // Proposals older than this can no longer be confirmed
+    readonly ttlMs: number = 15 * 60 * 1000, // 15 minutes
+    // Writes still running after this were cut off, e.g. by a restart
+    readonly applyTimeoutMs: number = 10 * 60 * 1000 // 10 minutes
+  ) {
+    this.writer = new DataFileWriter(
+      storePath,
+      () => {
+        const data: PendingActionFile = {
+          lastUpdate: new Date().toISOString(),
+          actions: this.actions,
+        };
+        return JSON.stringify(data, null, 2);
+      },
+      (mtime) => (this.fileMtime = mtime),
+      "pending actions"
+    );
+  }
+
+  create(
+    action: Omit<PendingAction, "id" | "createdAt" | "expiresAt" | "status">
+  ): PendingAction {
+    this.ensureLoaded();
+    const now = Date.now();
+    const created: PendingAction = {
+      ...action,
+      id: `act-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+      status: "pending",
+    };
+    this.actions.push(created);
+    if (this.actions.length > this.maxActions) {
+      this.actions = this.actions.slice(-this.maxActions);
+    }
+    this.save();
+    return created;
+  }
+
+  get(id: string): PendingAction | null {
+    this.ensureLoaded();
+    const action = this.actions.find((candidate) => candidate.id === id);
+    return action ? this.expire(action) : null;
+  }
+
+  // Newest first
+  list(query: PendingActionQuery = {}): PendingAction[] {
+    this.ensureLoaded();
+    return this.actions
+      .filter(
+        (action) =>
+          (!query.sessionId || action.sessionId === query.sessionId) &&
+          (!query.correlationId ||
+            action.correlationId === query.correlationId)
+      )
+      .map((action) => this.expire(action))
+      .filter((action) => !query.status || action.status === query.status)
+      .reverse();
+  }
+
+  // Claim a pending action for writing; null if it was not pending, so a
+  // second confirmation can't start the same writes again
+  begin(id: string, confirmKey: string): PendingAction | null {
+    const action = this.get(id);
+    if (!action || action.status !== "pending") return null;
+
+    action.status = "applying";
+    action.confirmKey = confirmKey;
+    action.confirmedAt = new Date().toISOString();
+    this.save();
+    return action;
+  }
+
+  // Move a pending or applying action to its final state; null otherwise.
+  // Writes that outlive the apply timeout still record their real results
+  resolve(
+    id: string,
+    update: Pick<PendingAction, "status" | "resolvedBy" | "results">
+  ): PendingAction | null {
+    const action = this.get(id);
+    const cutOff = action?.status === "failed" && !action.resolvedBy;
+    if (
+      !action ||
+      !(["pending", "applying"].includes(action.status) || cutOff)
+    ) {
+      return null;
+    }
+
+    Object.assign(action, update, { resolvedAt: new Date().toISOString() });
+    this.save();
+    return action;
+  }
+
+  // Pending actions past their deadline read as expired, and writes that
+  // never finished as failed so they can't block the action forever
+  private expire(action: PendingAction): PendingAction {
+    const overdue = Date.now() > Date.parse(action.expiresAt);
+    if (action.status === "pending" && overdue) {
+      action.status = "expired";
+      action.resolvedAt = action.expiresAt;
+      this.save();
+    }
+
+    const started = Date.parse(action.confirmedAt || action.createdAt);
+    if (
+      action.status === "applying" &&
+      Date.now() > started + this.applyTimeoutMs
+    ) {
+      // Some writes may have reached the OMS; say so rather than guess
+      action.status = "failed";
+      action.resolvedAt = new Date().toISOString();
+      action.results = action.jobNumbers.map((jobNumber) => ({
+        jobNumber,
+        success: false,
+        error: "Stopped before finishing; check the job in the OMS",
+      }));
+      this.save();
+    }
+    return action;
+  }
+
+  // Resolves once every change so far is on disk
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  // Load on first use and again whenever another process wrote the file
+  private ensureLoaded(): void {
+    if (this.writer.busy) return; // Memory is ahead of the file
+    try {
+      if (fs.existsSync(this.storePath)) {
+        const mtime = fs.statSync(this.storePath).mtimeMs;
+        if (this.loaded && mtime === this.fileMtime) return;
+
+        const data: PendingActionFile = JSON.parse(
+          fs.readFileSync(this.storePath, "utf8")
+        );
+        this.actions = data.actions || [];
+        this.fileMtime = mtime;
+      }
+    } catch (error) {
+      console.warn("⚠️ Failed to load pending actions:", error);
+    }
+    this.loaded = true;
+  }
+
+  private save(): void {
+    this.writer.save();
+  }
+}
+
+// Export singleton instance
+export const pendingActionStore = new PendingActionStore();
@@ -14,13 +14,37 @@ import {
 import { keywordDetectionService } from "./keyword-detection-service";
 import { standardizedDateParser } from "./standardized-date-parser";
 import { enhancedFilteringService } from "./enhanced-filtering-service";
-import { contextManagerService } from "./context-manager-service";
+import {
+  contextManagerService,
+  ContextualQuery,
+} from "./context-manager-service";
 import { cacheValidationService } from "./cache-validation-service";
 import { noResultsFeedbackService } from "./no-results-feedback-service";
 import { EnhancedQueryService } from "./enhanced-query-service";
+import {
+  applyStaleSchemaPolicy,
+  CURRENT_SCHEMA_VERSION,
+  resolveStaleSchemaPolicy,
+} from "./vector-metadata-schema";
+import { orderStore } from "./order-store";
+import { CircuitBreakerSnapshot } from "./circuit-breaker";
+import {
+  DataScope,
+  getScopeKey,
+  isOrderInScope,
+  scopeOrders,
+  scopeVectorResults,
+} from "./data-scope";
+import {
+  orderChangeHistory,
+  OrderFieldChange,
+  resolveChangeWindow,
+  detectChangeField,
+} from "./order-change-history";
+import { tracer } from "./tracer";
 
 export interface QueryIntent {
-  type: "search" | "filter" | "specific";
+  type: "search" | "filter" | "specific" | "changes";
   strategy: "api" | "vector" | "hybrid";
   confidence: number;
   explanation: string;
@@ -48,6 +72,8 @@ export interface QueryContext {
     cacheHealth: "healthy" | "degraded" | "offline";
   };
   previousQueries?: string[];
+  sessionId?: string; // Enables follow-ups that refine the session's last results
+  scope?: DataScope; // Restricts results to the principal's customers
 }
 
 export interface RoutedQueryResult {
@@ -61,6 +87,7 @@ export interface RoutedQueryResult {
     vectorResults?: EnhancedSearchResult[];
     analytics?: any;
     summary?: string;
+    changes?: OrderFieldChange[]; // Recorded field changes for "what changed" queries
   };
   fallbacksUsed?: string[];
   performanceMetrics: {
@@ -70,6 +97,11 @@ export interface RoutedQueryResult {
     cacheMisses: number;
   };
   recommendations?: string[];
+  followUp?: {
+    refinement: "filter" | "exclude" | "sort" | "customer";
+    description: string;
+    basedOn: string; // Query whose results were refined
+  };
   realtimePopulation?: {
     jobsAdded: number;
     jobsFailed: number;
@@ -111,11 +143,14 @@ export class IntelligentQueryRouter {
     successfulQueries: 0,
     successRate: 0,
   };
+  // Recent routing times, for latency percentiles in the metrics history
+  private latencySamples: Array<{ timestamp: number; ms: number }> = [];
+  private readonly maxLatencySamples = 5000;
   private enhancedQueryService: EnhancedQueryService;
 
   constructor() {
     // Clean up old cache entries every 10 minutes
-    setInterval(() => this.cleanupCache(), 10 * 60 * 1000);
+    setInterval(() => this.cleanupCache(), 10 * 60 * 1000).unref?.();
 
     // Initialize enhanced query service for real-time population
     this.enhancedQueryService = new EnhancedQueryService();
@@ -141,10 +176,31 @@ export class IntelligentQueryRouter {
     this.startLogCapture();
 
     try {
+      // 0. Refine the session's previous results for follow-ups like
+      // "only the rush ones" instead of starting a fresh search
+      if (context.sessionId) {
+        const followUpResult = await this.routeFollowUpQuery(
+          query,
+          context,
+          startTime
+        );
+        if (followUpResult) {
+          this.stopLogCapture();
+          return followUpResult;
+        }
+      }
+
       // 1. Check cache first
       const cacheKey = this.generateCacheKey(query, context);
       const cached = this.getCachedResult(cacheKey);
       if (cached) {
+        if (context.sessionId) {
+          contextManagerService.storeContext(
+            query,
+            cached.results.orders || [],
+            context.sessionId
+          );
+        }
         const result: RoutedQueryResult = {
           ...cached,
           processingTime: Date.now() - startTime,
@@ -160,57 +216,87 @@ export class IntelligentQueryRouter {
       }
 
       // 2. Analyze query intent
-      const intent = await this.analyzeQueryIntent(query);
+      const intent = await tracer.span("router.analyzeQueryIntent", () =>
+        this.analyzeQueryIntent(query)
+      );
       this.addToQueryHistory(query, intent);
 
       // 3. Get system health
       const systemState = await this.getSystemState();
       const contextWithState = { ...context, systemState };
 
-      // 4. Route based on strategy
+      // 4. Route based on strategy; while every OMS circuit is open, queries
+      // that need the API are answered from the vector index instead
       let result: RoutedQueryResult;
+      let strategy: QueryIntent["strategy"] | "changes" =
+        intent.type === "changes" ? "changes" : intent.strategy;
+      const omsOffline =
+        systemState?.apiHealth === "offline" &&
+        (strategy === "api" || strategy === "hybrid");
+      if (omsOffline) {
+        console.warn(
+          `⚠️ OMS unavailable, routing ${strategy} query to vector search`
+        );
+        strategy = "vector";
+      }
 
-      switch (intent.strategy) {
+      switch (strategy) {
+        case "changes":
+          // Answered from recorded change history rather than current data
+          result = await tracer.span("router.strategy.changes", () =>
+            this.executeChangeHistoryStrategy(query, intent, context)
+          );
+          this.performanceStats.apiQueries++;
+          break;
         case "api":
-          result = await this.executeAPIStrategy(
-            query,
-            intent,
-            contextWithState
+          result = await tracer.span("router.strategy.api", () =>
+            this.executeAPIStrategy(query, intent, contextWithState)
           );
           this.performanceStats.apiQueries++;
           break;
         case "vector":
-          result = await this.executeVectorStrategy(
-            query,
-            intent,
-            contextWithState
+          result = await tracer.span("router.strategy.vector", () =>
+            this.executeVectorStrategy(query, intent, contextWithState)
           );
           this.performanceStats.vectorQueries++;
           break;
         case "hybrid":
-          result = await this.executeHybridStrategy(
-            query,
-            intent,
-            contextWithState
+          result = await tracer.span("router.strategy.hybrid", () =>
+            this.executeHybridStrategy(query, intent, contextWithState)
           );
           this.performanceStats.hybridQueries++;
           break;
         default:
           // Fallback to vector search
-          result = await this.executeVectorStrategy(
-            query,
-            intent,
-            contextWithState
+          result = await tracer.span("router.strategy.vector", () =>
+            this.executeVectorStrategy(query, intent, contextWithState)
           );
           this.performanceStats.vectorQueries++;
           break;
       }
 
+      if (omsOffline) {
+        result.fallbacksUsed = [...(result.fallbacksUsed || []), "oms-offline"];
+      }
+
+      // Nothing outside the principal's customers leaves the router
+      this.applyScope(result, context.scope);
+
       // 5. Update performance metrics
       const processingTime = Date.now() - startTime;
       result.processingTime = processingTime;
       this.updatePerformanceStats(processingTime);
 
+      // Remember what this turn returned so follow-ups can refine it
+      if (context.sessionId) {
+        this.storeFollowUpContext(
+          query,
+          intent,
+          result.results.orders || [],
+          context.sessionId
+        );
+      }
+
       // 6. Cache result if appropriate
       if (this.shouldCacheResult(result, intent)) {
         this.cacheResult(cacheKey, result, this.getTTL(intent));
@@ -303,12 +389,16 @@ export class IntelligentQueryRouter {
         timeout: 10000,
       });
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert query analyzer for an Order Management System. Analyze the user's query and determine the best strategy for retrieving order data.
+      const response = await tracer.span(
+        "llm.completion",
+        { kind: "client", attributes: { "llm.model": "gpt-4o-mini" } },
+        () =>
+          openai.chat.completions.create({
+            model: "gpt-4o-mini",
+            messages: [
+              {
+                role: "system",
+                content: `You are an expert query analyzer for an Order Management System. Analyze the user's query and determine the best strategy for retrieving order data.
 
 Current Date Context: ${
               new Date().toISOString().split("T")[0]
@@ -319,6 +409,11 @@ CRITICAL SPECIFIC ORDER DETECTION:
 - Look for patterns like: "show me order 50194", "show me job 12345", "order details for 67890", "more on order 12345"
 - These queries should extract job numbers and use API strategy for complete order details including line items
 
+CRITICAL CHANGE HISTORY DETECTION:
+- When users ask what changed on orders over time, set type to "changes" and strategy to "api"
+- Look for patterns like: "what changed on job 51132 this week", "which jobs had their due date pushed since Monday", "status changes today"
+- Extract job numbers when mentioned and the time window as a date range
+
 CRITICAL DATE PARSING RULES:
 - "this week" = current week (Monday-Sunday of current week)
 - "next week" = following week (Monday-Sunday of next week) 
@@ -365,6 +460,10 @@ SPECIFIC ORDER EXAMPLES:
 - "more on order 67890" → type: "specific", strategy: "api", jobNumbers: ["67890"]
 - "order details for x" → type: "specific", strategy: "api", jobNumbers: ["x"]
 
+CHANGE HISTORY EXAMPLES:
+- "what changed on job 51132 this week" → type: "changes", strategy: "api", jobNumbers: ["51132"]
+- "which jobs had their due date pushed since Monday" → type: "changes", strategy: "api", jobNumbers: []
+
 TAG EXTRACTION EXAMPLES:
 - "tagged @laser" → tags: ["@laser"]
 - "tagged production" → tags: ["production"]
@@ -374,7 +473,7 @@ TAG EXTRACTION EXAMPLES:
 
 Return a JSON object with this exact structure:
 {
-  "type": "search|filter|specific",
+  "type": "search|filter|specific|changes",
   "strategy": "api|vector|hybrid",
   "confidence": 0.0-1.0,
   "extractedEntities": {
@@ -389,15 +488,16 @@ Return a JSON object with this exact structure:
   },
   "explanation": "Brief explanation of why this strategy was chosen"
 }`,
-          },
-          {
-            role: "user",
-            content: `Analyze this query: "${query}"`,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 1000,
-      });
+              },
+              {
+                role: "user",
+                content: `Analyze this query: "${query}"`,
+              },
+            ],
+            temperature: 0.1,
+            max_tokens: 1000,
+          })
+      );
 
       const content = response.choices[0]?.message?.content;
       if (!content) {
@@ -434,6 +534,18 @@ Return a JSON object with this exact structure:
   private fallbackPatternAnalysis(query: string): QueryIntent {
     const queryLower = query.toLowerCase();
 
+    if (this.isChangeHistoryRequest(query)) {
+      return {
+        type: "changes",
+        strategy: "api",
+        confidence: 0.8,
+        explanation: "Fallback: Change history request detected",
+        extractedEntities: {
+          jobNumbers: query.match(/\b\d{5,}\b/g) || [],
+        },
+      };
+    }
+
     // Use the consolidated specific order detection method
     if (this.isSpecificOrderDetailRequest(query)) {
       // Extract job numbers using the same logic as the frontend
@@ -490,6 +602,339 @@ Return a JSON object with this exact structure:
     };
   }
 
+  // Resolve a follow-up against the session's last results. Returns null
+  // when the query is not a refinement so normal routing takes over.
+  private async routeFollowUpQuery(
+    query: string,
+    context: QueryContext,
+    startTime: number
+  ): Promise<RoutedQueryResult | null> {
+    const sessionId = context.sessionId!;
+
+    // The RAG pipeline routes the same message again while answering it.
+    // The first pass stores its results as the session's latest context, so
+    // the answer is cached under that context's id and a later turn, which
+    // refines a different result set, never picks it up
+    const cacheKeyFor = (contextId: string) =>
+      `followup:${contextId}:${getScopeKey(context.scope)}:${query
+        .toLowerCase()
+        .trim()
+        .replace(/\s+/g, " ")}`;
+    const latest = contextManagerService.getLatestContext(sessionId);
+    const cached = latest && this.getCachedResult(cacheKeyFor(latest.id));
+    if (cached) {
+      return {
+        ...cached,
+        processingTime: Date.now() - startTime,
+        dataFreshness: "cached",
+        debugLogs: this.getCapturedLogs(),
+      };
+    }
+
+    const contextualQuery = contextManagerService.analyzeQuery(
+      query,
+      sessionId
+    );
+    if (!contextualQuery.context || !contextualQuery.refinement) {
+      return null;
+    }
+
+    const systemState = await this.getSystemState();
+    const result = await this.executeFollowUpStrategy(contextualQuery, {
+      ...context,
+      systemState,
+    });
+    this.applyScope(result, context.scope);
+
+    const processingTime = Date.now() - startTime;
+    result.processingTime = processingTime;
+    this.updatePerformanceStats(processingTime);
+    this.performanceStats.apiQueries++;
+
+    // Later follow-ups refine this turn's results
+    const previous = contextualQuery.context;
+    contextManagerService.updateContext(previous.id, query);
+    const contextId = contextManagerService.storeContext(
+      previous.originalQuery,
+      result.results.orders || [],
+      sessionId,
+      {
+        ...previous.filters,
+        customers:
+          contextualQuery.refinement.type === "customer"
+            ? [contextualQuery.refinement.term]
+            : previous.filters.customers,
+      }
+    );
+
+    this.cacheResult(cacheKeyFor(contextId), result, 60 * 1000);
+    result.debugLogs = this.getCapturedLogs();
+    return result;
+  }
+
+  // Narrow, reorder or re-target the orders from the previous turn
+  private async executeFollowUpStrategy(
+    contextualQuery: ContextualQuery,
+    context: QueryContext
+  ): Promise<RoutedQueryResult> {
+    const previous = contextualQuery.context!;
+    const refinement = contextualQuery.refinement!;
+    console.log(
+      `🔗 Executing follow-up strategy: ${refinement.description} (based on "${previous.originalQuery}")`
+    );
+
+    let orders = [...previous.orders];
+    let apiCalls = 0;
+    const term = (refinement.term || "").toLowerCase();
+
+    switch (refinement.type) {
+      case "filter":
+        orders = orders.filter((order) => this.orderMatchesTerm(order, term));
+        break;
+      case "exclude":
+        orders = orders.filter((order) => !this.orderMatchesTerm(order, term));
+        break;
+      case "sort":
+        orders = this.sortOrders(
+          orders,
+          refinement.sortBy || "dueDate",
+          refinement.descending || false
+        );
+        break;
+      case "customer": {
+        // Re-run the previous query's filters with the customer swapped
+        const previousIntent = await tracer.span(
+          "router.analyzeQueryIntent",
+          () => this.analyzeQueryIntent(previous.originalQuery)
+        );
+        const intent: QueryIntent = {
+          ...previousIntent,
+          type: previousIntent.type === "search" ? "search" : "filter",
+          strategy: "api",
+          extractedEntities: {
+            ...previousIntent.extractedEntities,
+            jobNumbers: undefined,
+            customers: [refinement.term || ""],
+          },
+        };
+        const rerun = await this.executeAPIStrategy(
+          previous.originalQuery,
+          intent,
+          context
+        );
+        orders = rerun.results.orders || [];
+        apiCalls = rerun.performanceMetrics.apiCalls;
+        break;
+      }
+    }
+
+    return {
+      strategy: "api",
+      processingTime: 0, // Will be set by caller
+      dataFreshness: refinement.type === "customer" ? "fresh" : "cached",
+      confidence: 0.8,
+      sources: ["conversation-context"],
+      results: {
+        orders,
+        summary: `Found ${orders.length} of ${previous.orders.length} orders from "${previous.originalQuery}" ${refinement.description}`,
+      },
+      followUp: {
+        refinement: refinement.type,
+        description: refinement.description,
+        basedOn: previous.originalQuery,
+      },
+      performanceMetrics: {
+        apiCalls,
+        vectorQueries: 0,
+        cacheHits: 0,
+        cacheMisses: 1,
+      },
+    };
+  }
+
+  private orderMatchesTerm(order: ModernOrder, term: string): boolean {
+    if (/rush|urgent|time.?sensitive/.test(term)) {
+      return (
+        order.production.timeSensitive ||
+        order.production.mustDate ||
+        order.tags.some((tag) => /rush/i.test(tag.tag))
+      );
+    }
+    if (/overdue|late|past due/.test(term)) {
+      return order.dates.daysToDueDate < 0;
+    }
+
+    const searchable = [
+      order.description,
+      order.customer.company,
+      order.status.master,
+      order.status.statusLine,
+      order.location?.name,
+      ...order.tags.map((tag) => tag.tag),
+      ...order.production.processes.map((process) => process.code),
+    ]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    return searchable.includes(term);
+  }
+
+  private sortOrders(
+    orders: ModernOrder[],
+    sortBy: "dueDate" | "shipDate" | "customer" | "value" | "jobNumber",
+    descending: boolean
+  ): ModernOrder[] {
+    const direction = descending ? -1 : 1;
+    const timeOf = (date?: string) =>
+      date ? new Date(date).getTime() : Infinity;
+
+    return [...orders].sort((a, b) => {
+      switch (sortBy) {
+        case "shipDate":
+          return (
+            direction *
+            (timeOf(a.shipments?.[0]?.dateShipped || a.dates.dateOut) -
+              timeOf(b.shipments?.[0]?.dateShipped || b.dates.dateOut))
+          );
+        case "customer":
+          return (
+            direction * a.customer.company.localeCompare(b.customer.company)
+          );
+        case "value":
+          return (
+            direction * ((a.pricing?.total || 0) - (b.pricing?.total || 0))
+          );
+        case "jobNumber":
+          return direction * a.jobNumber.localeCompare(b.jobNumber, "en", {
+            numeric: true,
+          });
+        default:
+          return direction * (a.dates.daysToDueDate - b.dates.daysToDueDate);
+      }
+    });
+  }
+
+  private storeFollowUpContext(
+    query: string,
+    intent: QueryIntent,
+    orders: ModernOrder[],
+    sessionId: string
+  ): void {
+    const dateRange = intent.extractedEntities.dateRanges?.[0];
+    contextManagerService.storeContext(query, orders, sessionId, {
+      statuses: intent.extractedEntities.statuses,
+      tags: intent.extractedEntities.tags,
+      customers: intent.extractedEntities.customers,
+      dateRange: dateRange
+        ? { start: new Date(dateRange.start), end: new Date(dateRange.end) }
+        : undefined,
+    });
+  }
+
+  // Drop orders, vector matches and changes outside the principal's customers
+  private applyScope(result: RoutedQueryResult, scope?: DataScope): void {
+    if (!scope) return;
+
+    if (result.results.orders) {
+      result.results.orders = scopeOrders(result.results.orders, scope);
+    }
+    if (result.results.vectorResults) {
+      result.results.vectorResults = scopeVectorResults(
+        result.results.vectorResults,
+        scope
+      );
+    }
+    if (result.results.changes) {
+      result.results.changes = result.results.changes.filter((change) =>
+        isOrderInScope(orderStore.getOrder(change.jobNumber), scope)
+      );
+    }
+  }
+
+  // Vector filters carry the scope so every search, including the broadened
+  // fallbacks, stays within the principal's customers
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private withScopeFilter(filters: any, context: QueryContext): any {
+    return context.scope
+      ? { ...filters, customerIds: context.scope.customerIds }
+      : filters;
+  }
+
+  private isChangeHistoryRequest(query: string): boolean {
+    return /what(?:'s| has)? changed|changes? (?:on|to|for)|(?:pushed|pulled|moved|changed) since|(?:pushed|pulled) (?:back|out|in)|had (?:its|their) .+ (?:pushed|pulled|moved|changed)/i.test(
+      query
+    );
+  }
+
+  // Answer "what changed" questions from the recorded order change history
+  private executeChangeHistoryStrategy(
+    query: string,
+    intent: QueryIntent,
+    context: QueryContext = {}
+  ): RoutedQueryResult {
+    console.log("📝 Executing change history strategy for query:", query);
+
+    const queryLower = query.toLowerCase();
+    let window = resolveChangeWindow(query);
+    const dateRange = intent.extractedEntities.dateRanges?.[0];
+    if (!window.since && dateRange) {
+      window = {
+        since: new Date(dateRange.start),
+        until: dateRange.end ? new Date(`${dateRange.end}T23:59:59`) : null,
+        description: dateRange.description || dateRange.start,
+      };
+    }
+
+    const field = detectChangeField(query);
+    const direction =
+      field !== "dueDate"
+        ? undefined
+        : /pushed|delayed|later/.test(queryLower)
+        ? "pushed"
+        : /pulled in|moved up|earlier/.test(queryLower)
+        ? "pulled"
+        : undefined;
+
+    const jobNumbers = intent.extractedEntities.jobNumbers || [];
+    const changes = orderChangeHistory
+      .getChanges({
+        field,
+        direction,
+        since: window.since || undefined,
+        until: window.until || undefined,
+      })
+      .filter(
+        (change) =>
+          (jobNumbers.length === 0 || jobNumbers.includes(change.jobNumber)) &&
+          (!context.scope ||
+            isOrderInScope(orderStore.getOrder(change.jobNumber), context.scope))
+      );
+
+    const affectedJobs = [...new Set(changes.map((change) => change.jobNumber))];
+    const orders = affectedJobs
+      .map((jobNumber) => orderStore.getOrder(jobNumber))
+      .filter((order): order is ModernOrder => order !== null);
+
+    return {
+      strategy: "api",
+      processingTime: 0, // Will be set by caller
+      dataFreshness: "fresh",
+      confidence: intent.confidence,
+      sources: ["change-history"],
+      results: {
+        orders,
+        changes,
+        summary: `Found ${changes.length} changes across ${affectedJobs.length} jobs (${window.description})`,
+      },
+      performanceMetrics: {
+        apiCalls: 0,
+        vectorQueries: 0,
+        cacheHits: 0,
+        cacheMisses: 1,
+      },
+    };
+  }
+
   // Execute API-first strategy
   private async executeAPIStrategy(
     query: string,
@@ -523,6 +968,7 @@ Return a JSON object with this exact structure:
             orders.push(order);
           }
         }
+        orders = scopeOrders(orders, context.scope);
         performanceMetrics.apiCalls++;
       } else {
         // Search orders by query - FETCH DATA FIRST, then filter
@@ -550,7 +996,7 @@ Return a JSON object with this exact structure:
               pageSize: 500,
               // No enrichment - just basic order data
             });
-        orders = ordersData.orders || [];
+        orders = scopeOrders(ordersData.orders || [], context.scope);
         performanceMetrics.apiCalls++;
 
         // Apply filtering based on GPT intent analysis AFTER fetching
@@ -660,16 +1106,22 @@ Return a JSON object with this exact structure:
       // Enhanced dynamic result count based on query intent and content
       let topK = this.calculateDynamicTopK(query, intent);
 
+      // Real-time population fetches jobs from the OMS, so skip it while down
+      const realtime = context.systemState?.apiHealth !== "offline";
+
       // Execute vector search with fallback mechanism
       let searchResult = await this.enhancedQueryService.search({
         query,
         topK,
-        filters,
-        enableRealtimePopulation: true, // Enable real-time job population
+        filters: this.withScopeFilter(filters, context),
+        enableRealtimePopulation: realtime, // Enable real-time job population
         maxRealtimeJobs: 3, // Limit jobs added per search
       });
 
-      let vectorResults = searchResult.results;
+      let vectorResults = scopeVectorResults(
+        searchResult.results,
+        context.scope
+      );
       let fallbacksUsed: string[] = [];
 
       // If no results with strict filters, try with broader criteria
@@ -684,8 +1136,8 @@ Return a JSON object with this exact structure:
         const fallbackResult = await this.enhancedQueryService.search({
           query,
           topK: Math.min(topK * 2, 50), // Increase topK for broader search
-          filters: broaderFilters,
-          enableRealtimePopulation: true,
+          filters: this.withScopeFilter(broaderFilters, context),
+          enableRealtimePopulation: realtime,
           maxRealtimeJobs: 5, // Allow more real-time jobs for broader search
         });
 
@@ -694,7 +1146,10 @@ Return a JSON object with this exact structure:
             `✅ Found ${fallbackResult.results.length} results with broader filters`
           );
           searchResult = fallbackResult;
-          vectorResults = fallbackResult.results;
+          vectorResults = scopeVectorResults(
+            fallbackResult.results,
+            context.scope
+          );
           fallbacksUsed.push("broader-filters");
         } else {
           console.log(
@@ -705,8 +1160,8 @@ Return a JSON object with this exact structure:
           const unfilteredResult = await this.enhancedQueryService.search({
             query,
             topK: Math.min(topK * 3, 75), // Even more results for unfiltered search
-            filters: {},
-            enableRealtimePopulation: true,
+            filters: this.withScopeFilter({}, context),
+            enableRealtimePopulation: realtime,
             maxRealtimeJobs: 8,
           });
 
@@ -715,12 +1170,31 @@ Return a JSON object with this exact structure:
               `✅ Found ${unfilteredResult.results.length} results with unfiltered search`
             );
             searchResult = unfilteredResult;
-            vectorResults = unfilteredResult.results;
+            vectorResults = scopeVectorResults(
+              unfilteredResult.results,
+              context.scope
+            );
             fallbacksUsed.push("unfiltered-search");
           }
         }
       }
 
+      // Vectors written under an older metadata schema are down-ranked or
+      // dropped according to VECTOR_SCHEMA_POLICY
+      const schemaCheck = applyStaleSchemaPolicy(vectorResults);
+      vectorResults = schemaCheck.results;
+      const recommendations: string[] = [];
+      if (schemaCheck.staleCount > 0) {
+        console.log(
+          `⚠️ ${
+            schemaCheck.staleCount
+          } vector results predate schema v${CURRENT_SCHEMA_VERSION} (policy: ${resolveStaleSchemaPolicy()})`
+        );
+        recommendations.push(
+          "Run `npm run migrate-vector-schema migrate` to upgrade stale vectors"
+        );
+      }
+
       // 🎯 FIXED: Calculate confidence based on actual vector search results
       let resultConfidence = intent.confidence; // Start with intent confidence
 
@@ -786,6 +1260,8 @@ Return a JSON object with this exact structure:
         },
         performanceMetrics,
         fallbacksUsed, // Add fallback information
+        recommendations:
+          recommendations.length > 0 ? recommendations : undefined,
         // Add real-time population metrics
         realtimePopulation: {
           jobsAdded: searchResult.stats.realtimeJobsAdded,
@@ -951,8 +1427,8 @@ Return a JSON object with this exact structure:
 
       return {
         apiHealth:
-          apiHealth.status === "fulfilled" && apiHealth.value.healthy
-            ? "healthy"
+          apiHealth.status === "fulfilled" && apiHealth.value.circuits
+            ? getAPIHealthFromCircuits(Object.values(apiHealth.value.circuits))
             : "degraded",
         vectorHealth:
           vectorHealth.status === "fulfilled" && vectorHealth.value.healthy
@@ -1053,7 +1529,9 @@ Return a JSON object with this exact structure:
       ? `${context.systemState.apiHealth}-${context.systemState.vectorHealth}`
       : "unknown";
 
-    return `query:${normalizedQuery}:${contextKey}:${complexityKey}:${systemState}`;
+    return `query:${normalizedQuery}:${contextKey}:${complexityKey}:${systemState}:${getScopeKey(
+      context.scope
+    )}`;
   }
 
   private isComplexQuery(query: string): boolean {
@@ -1111,6 +1589,8 @@ Return a JSON object with this exact structure:
     switch (intent.type) {
       case "specific":
         return 2 * 60 * 1000; // 2 minutes for specific queries (fresher data)
+      case "changes":
+        return 60 * 1000; // 1 minute; new changes are recorded on every sync
       case "filter":
         return 5 * 60 * 1000; // 5 minutes for filter queries
       case "search":
@@ -1141,6 +1621,11 @@ Return a JSON object with this exact structure:
 
   // Performance tracking
   private updatePerformanceStats(processingTime: number): void {
+    this.latencySamples.push({ timestamp: Date.now(), ms: processingTime });
+    if (this.latencySamples.length > this.maxLatencySamples) {
+      this.latencySamples.shift();
+    }
+
     this.performanceStats.averageResponseTime =
       (this.performanceStats.averageResponseTime *
         (this.performanceStats.totalQueries - 1) +
@@ -1173,7 +1658,8 @@ Return a JSON object with this exact structure:
     result: RoutedQueryResult,
     intent: QueryIntent
   ): string[] {
-    const recommendations: string[] = [];
+    // Keep recommendations raised by the strategy itself
+    const recommendations: string[] = [...(result.recommendations || [])];
 
     if (result.confidence < 0.5) {
       recommendations.push(
@@ -1211,6 +1697,13 @@ Return a JSON object with this exact structure:
     return { ...this.performanceStats };
   }
 
+  // Routing times (ms) of queries finished after the given epoch ms
+  getLatencySamples(since: number): number[] {
+    return this.latencySamples
+      .filter((sample) => sample.timestamp > since)
+      .map((sample) => sample.ms);
+  }
+
   getQueryHistory(limit = 10) {
     return this.queryHistory.slice(-limit);
   }
@@ -1553,5 +2046,17 @@ Return a JSON object with this exact structure:
   }
 }
 
+// Offline once every OMS endpoint seen so far has its circuit open; any
+// open or probing circuit means degraded
+function getAPIHealthFromCircuits(
+  circuits: CircuitBreakerSnapshot[]
+): NonNullable<QueryContext["systemState"]>["apiHealth"] {
+  const open = circuits.filter((circuit) => circuit.state === "open").length;
+  if (open > 0 && open === circuits.length) return "offline";
+  return open > 0 || circuits.some((circuit) => circuit.state === "half-open")
+    ? "degraded"
+    : "healthy";
+}
+
 // Export singleton instance
 export const intelligentQueryRouter = new IntelligentQueryRouter();
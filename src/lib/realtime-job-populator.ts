@@ -3,7 +3,10 @@
 
 import { PineconePopulationStrategy } from "./pinecone-population-strategy";
 import { EnhancedOMSAPIClient } from "./enhanced-api-client";
-import { embeddingService } from "./embeddings";
+import {
+  orderVectorIndex,
+  type OrderVectorMetadata,
+} from "./order-vector-index";
 
 export interface JobNotFoundResult {
   jobNumber: string;
@@ -127,22 +130,13 @@ export class RealtimeJobPopulator {
    */
   private async findJobInVectorDB(
     jobNumber: string
-  ): Promise<{ found: boolean; vectorId?: string; metadata?: any }> {
+  ): Promise<
+    | { found: true; vectorId: string; metadata: OrderVectorMetadata }
+    | { found: false }
+  > {
     try {
-      // Create a query to search for the specific job
-      const query = `Job ${jobNumber}`;
-      const queryEmbedding = await embeddingService.createEmbedding(query);
-
-      const searchResults = await this.populationStrategy.searchSimilarOrders(
-        queryEmbedding,
-        5,
-        { jobNumber: parseInt(jobNumber) }
-      );
-
-      // Look for exact job number match
-      const exactMatch = searchResults.find(
-        (result) => result.metadata.jobNumber === parseInt(jobNumber)
-      );
+      // Exact lookup of the job's primary document
+      const exactMatch = await orderVectorIndex.findJob(jobNumber);
 
       if (exactMatch) {
         return {
@@ -186,21 +180,16 @@ export class RealtimeJobPopulator {
    */
   private async addJobToVectorDB(jobDetails: any): Promise<boolean> {
     try {
-      // Use the existing population strategy to create vectors
-      const vectors = await this.populationStrategy.createJobVectors(
-        jobDetails.job
-      );
+      // Index the job with its lines, shipments and history
+      const stats = await this.populationStrategy.indexJob(jobDetails.job);
 
-      if (vectors.length === 0) {
+      if (stats.upsertedVectors === 0) {
         console.error(
           `❌ No vectors created for job ${jobDetails.job.JobNumber}`
         );
         return false;
       }
 
-      // Upsert the vectors
-      await this.populationStrategy.upsertVectors(vectors);
-
       console.log(
         `✅ Successfully added job ${jobDetails.job.JobNumber} to vector database`
       );
@@ -3,6 +3,7 @@
 
 import OpenAI from "openai";
 import { temporalUtils } from "./temporal-utils";
+import { tracer } from "./tracer";
 
 export interface SemanticFilters {
   // Temporal filters
@@ -72,16 +73,21 @@ TEMPORAL MEANINGS:
 
 Return JSON with: dateRange, urgencyLevel, includeUrgentOrders, includeOverdueOrders, statusIncludes, minValue, revenueTarget, searchTerms, confidence, explanation`;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: `Query: "${query}"` },
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.1,
-        max_tokens: 400,
-      });
+      const response = await tracer.span(
+        "llm.completion",
+        { kind: "client", attributes: { "llm.model": "gpt-4o-mini" } },
+        () =>
+          this.openai.chat.completions.create({
+            model: "gpt-4o-mini",
+            messages: [
+              { role: "system", content: systemPrompt },
+              { role: "user", content: `Query: "${query}"` },
+            ],
+            response_format: { type: "json_object" },
+            temperature: 0.1,
+            max_tokens: 400,
+          })
+      );
 
       const result = response.choices[0]?.message?.content;
       if (!result) return this.getFallbackFilters(query);
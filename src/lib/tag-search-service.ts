@@ -1,6 +1,9 @@
 // Tag Search Service - Optimized for exact tag matching
 // Handles queries like @laser, @gamma, etc. with literal text filtering
 
+import { orderStore } from "./order-store";
+import type { ModernOrder } from "./api-first-data-service";
+
 export interface TagSearchOptions {
   tag: string;
   exactMatch?: boolean;
@@ -22,24 +25,24 @@ export interface TaggedOrder {
 export class TagSearchService {
   private tagIndex: Map<string, Set<string>> = new Map(); // tag -> job numbers
   private orderIndex: Map<string, TaggedOrder> = new Map(); // job number -> order
-  private lastIndexUpdate = 0;
-  private readonly INDEX_TTL = 5 * 60 * 1000; // 5 minutes
-
-  constructor() {
-    this.buildTagIndex();
-  }
+  private indexedRevision = -1; // Order store revision the index was built from
 
   // 🎯 Main tag search method
   async searchByTag(options: TagSearchOptions): Promise<TaggedOrder[]> {
     console.log(`🏷️ Searching for tag: ${options.tag}`);
 
     // Refresh index if needed
-    if (Date.now() - this.lastIndexUpdate > this.INDEX_TTL) {
-      await this.buildTagIndex();
-    }
+    await this.refreshIndex();
 
+    // OMS job tags come from the order store's tag index; tags found in
+    // descriptions come from this service's own index
     const normalizedTag = this.normalizeTag(options.tag);
-    const matchingJobNumbers = this.tagIndex.get(normalizedTag) || new Set();
+    const matchingJobNumbers = new Set([
+      ...(this.tagIndex.get(normalizedTag) || []),
+      ...orderStore
+        .getOrdersByTag(normalizedTag)
+        .map((order) => order.jobNumber),
+    ]);
 
     const results: TaggedOrder[] = [];
     for (const jobNumber of matchingJobNumbers) {
@@ -72,30 +75,32 @@ export class TagSearchService {
       this.tagIndex.clear();
       this.orderIndex.clear();
 
-      // Load orders from data source
-      const ordersData = await this.loadOrdersData();
+      // Load orders from the local order store
+      const revision = orderStore.getRevision();
+      const orders = orderStore.getAllOrders();
 
-      for (const order of ordersData) {
+      for (const order of orders) {
         // Extract tags from description and other fields
-        const tags = this.extractTagsFromOrder(order);
+        const descriptionTags = this.extractTagsFromOrder(order);
+        const jobTags = order.tags.map((tag) => this.normalizeTag(tag.tag));
 
         // Build tagged order object
         const taggedOrder: TaggedOrder = {
           jobNumber: order.jobNumber,
           orderNumber: order.orderNumber,
           description: order.description || "",
-          tags,
-          customerCompany: order.customerCompany || "",
-          status: order.status || "",
-          dateEntered: order.dateEntered || "",
-          totalDue: order.totalDue || 0,
+          tags: [...new Set([...jobTags, ...descriptionTags])],
+          customerCompany: order.customer.company || "",
+          status: order.status.master || "",
+          dateEntered: order.dates.dateEntered || "",
+          totalDue: order.pricing?.total || 0,
         };
 
         // Index the order
         this.orderIndex.set(order.jobNumber, taggedOrder);
 
-        // Index each tag
-        for (const tag of tags) {
+        // Index each description tag
+        for (const tag of descriptionTags) {
           const normalizedTag = this.normalizeTag(tag);
           if (!this.tagIndex.has(normalizedTag)) {
             this.tagIndex.set(normalizedTag, new Set());
@@ -104,7 +109,7 @@ export class TagSearchService {
         }
       }
 
-      this.lastIndexUpdate = Date.now();
+      this.indexedRevision = revision;
       console.log(
         `🏷️ Tag index built: ${this.tagIndex.size} unique tags, ${this.orderIndex.size} orders`
       );
@@ -114,7 +119,7 @@ export class TagSearchService {
   }
 
   // 🏷️ Extract tags from order description and fields
-  private extractTagsFromOrder(order: any): string[] {
+  private extractTagsFromOrder(order: ModernOrder): string[] {
     const tags: string[] = [];
     const description = order.description || "";
 
@@ -149,36 +154,31 @@ export class TagSearchService {
       .trim();
   }
 
-  // 📊 Load orders data (replace with your actual data source)
-  private async loadOrdersData(): Promise<any[]> {
-    try {
-      // This would connect to your actual data source
-      // For now, assuming you have a data service
-      const fs = require("fs").promises;
-      const data = await fs.readFile("./data/orders.json", "utf8");
-      return JSON.parse(data);
-    } catch (error) {
-      console.error("❌ Failed to load orders data:", error);
-      return [];
+  // Rebuild when the order store has changed since the last build
+  private async refreshIndex(): Promise<void> {
+    if (orderStore.getRevision() !== this.indexedRevision) {
+      await this.buildTagIndex();
     }
   }
 
   // 🔍 Get all available tags
   async getAllTags(): Promise<string[]> {
-    if (Date.now() - this.lastIndexUpdate > this.INDEX_TTL) {
-      await this.buildTagIndex();
-    }
-    return Array.from(this.tagIndex.keys()).sort();
+    await this.refreshIndex();
+    return [
+      ...new Set([...this.tagIndex.keys(), ...orderStore.getTags()]),
+    ].sort();
   }
 
   // 📊 Get tag statistics
   async getTagStats(): Promise<Record<string, number>> {
-    if (Date.now() - this.lastIndexUpdate > this.INDEX_TTL) {
-      await this.buildTagIndex();
-    }
+    await this.refreshIndex();
 
     const stats: Record<string, number> = {};
-    for (const [tag, jobNumbers] of this.tagIndex.entries()) {
+    for (const tag of await this.getAllTags()) {
+      const jobNumbers = new Set([
+        ...(this.tagIndex.get(tag) || []),
+        ...orderStore.getOrdersByTag(tag).map((order) => order.jobNumber),
+      ]);
       stats[tag] = jobNumbers.size;
     }
     return stats;
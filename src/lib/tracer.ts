@@ -0,0 +1,377 @@
+// Tracer - Span-based timing of chat requests across router, RAG and OMS calls
+// Finished traces are kept in data/traces.json and export as OTLP JSON
+
+import { AsyncLocalStorage } from "async_hooks";
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+import { DataFileWriter } from "./data-file-writer";
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+export type SpanKind = "server" | "client" | "internal";
+
+export interface SpanRecord {
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTime: number; // Epoch ms with sub-ms precision
+  endTime?: number;
+  durationMs?: number;
+  status: "ok" | "error";
+  error?: string;
+  attributes: SpanAttributes;
+}
+
+export interface TraceSummary {
+  traceId: string;
+  name: string; // Root span name
+  startTime: string;
+  durationMs: number;
+  spanCount: number;
+  droppedSpans: number;
+  status: "ok" | "error";
+}
+
+export interface TraceRecord extends TraceSummary {
+  spans: SpanRecord[]; // Start order; the root span comes first
+}
+
+export interface TraceQuery {
+  name?: string; // Substring of the root span name
+  status?: "ok" | "error";
+  minDurationMs?: number;
+  since?: Date | string;
+  limit?: number;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+}
+
+type SpanFn<T> = (span: Span) => T | Promise<T>;
+
+interface ActiveTrace {
+  traceId: string;
+  spans: SpanRecord[];
+  open: number;
+  dropped: number;
+  finished: boolean;
+}
+
+interface SpanContext {
+  trace: ActiveTrace;
+  span: SpanRecord;
+}
+
+interface TraceStoreFile {
+  lastUpdate: string;
+  traces: TraceRecord[]; // Oldest first
+}
+
+const OTLP_SPAN_KIND: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+};
+
+// Handle passed to traced work for attributes only known once it runs
+export class Span {
+  constructor(private record: SpanRecord) {}
+
+  setAttribute(key: string, value: SpanAttributeValue): void {
+    this.record.attributes[key] = value;
+  }
+
+  setAttributes(attributes: SpanAttributes): void {
+    Object.assign(this.record.attributes, attributes);
+  }
+}
+
+export class Tracer {
+  private traces: TraceRecord[] = [];
+  private loaded = false;
+  private fileMtime = 0;
+  private pending: TraceRecord[] = [];
+  private current = new AsyncLocalStorage<SpanContext>();
+  private writer: DataFileWriter;
+  private readonly maxSpansPerTrace = 500;
+
+  constructor(
+    private storePath: string = path.join(process.cwd(), "data", "traces.json"),
+    readonly maxTraces: number = parseInt(
+      process.env.TRACE_MAX_TRACES || "500",
+      10
+    ),
+    readonly serviceName: string = "oms-chat-assistant"
+  ) {
+    this.writer = new DataFileWriter(
+      storePath,
+      () => {
+        const data: TraceStoreFile = {
+          lastUpdate: new Date().toISOString(),
+          traces: this.traces,
+        };
+        // Compact; span lists make this file large
+        return JSON.stringify(data);
+      },
+      (mtime) => (this.fileMtime = mtime),
+      "traces"
+    );
+  }
+
+  // Start a new trace with fn as its root span. The trace is stored once
+  // every span in it has ended, so work that outlives fn (a streamed
+  // response) is still included.
+  async trace<T>(
+    name: string,
+    options: SpanOptions & { traceId?: string },
+    fn: SpanFn<T>
+  ): Promise<T> {
+    const trace: ActiveTrace = {
+      traceId: options.traceId || crypto.randomBytes(16).toString("hex"),
+      spans: [],
+      open: 0,
+      dropped: 0,
+      finished: false,
+    };
+    return this.run(trace, undefined, name, fn, options);
+  }
+
+  // A child of the current span; outside a trace fn just runs
+  async span<T>(name: string, fn: SpanFn<T>): Promise<T>;
+  async span<T>(name: string, options: SpanOptions, fn: SpanFn<T>): Promise<T>;
+  async span<T>(
+    name: string,
+    optionsOrFn: SpanOptions | SpanFn<T>,
+    maybeFn?: SpanFn<T>
+  ): Promise<T> {
+    const [options, fn] =
+      typeof optionsOrFn === "function"
+        ? [{}, optionsOrFn]
+        : [optionsOrFn, maybeFn as SpanFn<T>];
+    const parent = this.current.getStore();
+    if (
+      !parent ||
+      parent.trace.finished ||
+      parent.trace.spans.length >= this.maxSpansPerTrace
+    ) {
+      if (parent && !parent.trace.finished) parent.trace.dropped++;
+      return fn(new Span(this.createSpan(name, options)));
+    }
+    return this.run(parent.trace, parent.span, name, fn, options);
+  }
+
+  // Attributes for the current span, e.g. a cache hit found mid-request
+  setAttributes(attributes: SpanAttributes): void {
+    const context = this.current.getStore();
+    if (context) Object.assign(context.span.attributes, attributes);
+  }
+
+  getTraceId(): string | undefined {
+    return this.current.getStore()?.trace.traceId;
+  }
+
+  // Newest first
+  listTraces(query: TraceQuery = {}): TraceSummary[] {
+    this.ensureLoaded();
+    const since = query.since ? new Date(query.since).getTime() : -Infinity;
+    const name = query.name?.toLowerCase();
+
+    const matches = [...this.traces, ...this.pending]
+      .filter((trace) => {
+        if (Date.parse(trace.startTime) < since) return false;
+        if (name && !trace.name.toLowerCase().includes(name)) return false;
+        if (query.status && trace.status !== query.status) return false;
+        return (
+          query.minDurationMs === undefined ||
+          trace.durationMs >= query.minDurationMs
+        );
+      })
+      .reverse()
+      .map((trace) => toSummary(trace));
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  getTrace(traceId: string): TraceRecord | null {
+    this.ensureLoaded();
+    return (
+      [...this.traces, ...this.pending].find(
+        (trace) => trace.traceId === traceId
+      ) || null
+    );
+  }
+
+  // OTLP/JSON ExportTraceServiceRequest, accepted by OTLP HTTP collectors
+  toOtlp(traces: TraceRecord[]): object {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toOtlpAttributes({ "service.name": this.serviceName }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: "oms-tracer" },
+              spans: traces.flatMap((trace) =>
+                trace.spans.map((span) => ({
+                  traceId: trace.traceId,
+                  spanId: span.spanId,
+                  parentSpanId: span.parentSpanId || "",
+                  name: span.name,
+                  kind: OTLP_SPAN_KIND[span.kind],
+                  startTimeUnixNano: toUnixNano(span.startTime),
+                  endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+                  attributes: toOtlpAttributes(span.attributes),
+                  status:
+                    span.status === "error"
+                      ? { code: 2, message: span.error || "" }
+                      : { code: 1 },
+                }))
+              ),
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  private async run<T>(
+    trace: ActiveTrace,
+    parent: SpanRecord | undefined,
+    name: string,
+    fn: SpanFn<T>,
+    options: SpanOptions
+  ): Promise<T> {
+    const span = this.createSpan(name, options, parent);
+    trace.spans.push(span);
+    trace.open++;
+
+    try {
+      return await this.current.run({ trace, span }, () => fn(new Span(span)));
+    } catch (error) {
+      span.status = "error";
+      span.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      span.endTime = now();
+      span.durationMs = span.endTime - span.startTime;
+      if (--trace.open === 0) this.finish(trace);
+    }
+  }
+
+  private createSpan(
+    name: string,
+    options: SpanOptions,
+    parent?: SpanRecord
+  ): SpanRecord {
+    return {
+      spanId: crypto.randomBytes(8).toString("hex"),
+      parentSpanId: parent?.spanId,
+      name,
+      kind: options.kind || (parent ? "internal" : "server"),
+      startTime: now(),
+      status: "ok",
+      attributes: { ...options.attributes },
+    };
+  }
+
+  private finish(trace: ActiveTrace): void {
+    trace.finished = true;
+    const [root] = trace.spans;
+    const endTime = Math.max(...trace.spans.map((span) => span.endTime || 0));
+
+    // Writes are batched per tick
+    if (this.pending.length === 0) {
+      queueMicrotask(() => this.flush());
+    }
+    this.pending.push({
+      traceId: trace.traceId,
+      name: root.name,
+      startTime: new Date(root.startTime).toISOString(),
+      durationMs: endTime - root.startTime,
+      spanCount: trace.spans.length,
+      droppedSpans: trace.dropped,
+      status: trace.spans.some((span) => span.status === "error")
+        ? "error"
+        : "ok",
+      spans: trace.spans,
+    });
+  }
+
+  private flush(): void {
+    this.ensureLoaded();
+    if (this.pending.length === 0) return;
+
+    this.traces = [...this.traces, ...this.pending].slice(-this.maxTraces);
+    this.pending = [];
+    this.save();
+  }
+
+  // Load on first use and again whenever another process wrote the file
+  private ensureLoaded(): void {
+    if (this.writer.busy) return; // Memory is ahead of the file
+    try {
+      if (fs.existsSync(this.storePath)) {
+        const mtime = fs.statSync(this.storePath).mtimeMs;
+        if (this.loaded && mtime === this.fileMtime) return;
+
+        const data: TraceStoreFile = JSON.parse(
+          fs.readFileSync(this.storePath, "utf8")
+        );
+        this.traces = data.traces || [];
+        this.fileMtime = mtime;
+      }
+    } catch (error) {
+      console.warn("⚠️ Failed to load traces:", error);
+    }
+    this.loaded = true;
+  }
+
+  private save(): void {
+    this.writer.save();
+  }
+
+}
+
+function toSummary(trace: TraceRecord): TraceSummary {
+  return {
+    traceId: trace.traceId,
+    name: trace.name,
+    startTime: trace.startTime,
+    durationMs: trace.durationMs,
+    spanCount: trace.spanCount,
+    droppedSpans: trace.droppedSpans,
+    status: trace.status,
+  };
+}
+
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+// Nanosecond strings without losing precision past 2^53
+function toUnixNano(ms: number): string {
+  const fraction = Math.min(Math.round((ms % 1) * 1e6), 999999);
+  return `${Math.floor(ms)}${String(fraction).padStart(6, "0")}`;
+}
+
+function toOtlpAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "boolean"
+        ? { boolValue: value }
+        : typeof value === "number"
+        ? Number.isInteger(value)
+          ? { intValue: String(value) }
+          : { doubleValue: value }
+        : { stringValue: value },
+  }));
+}
+
+// Export singleton instance
+export const tracer = new Tracer();
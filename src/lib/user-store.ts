@@ -0,0 +1,194 @@
+// User Store - Local accounts for signing in to the OMS assistant
+// Passwords are kept only as salted scrypt hashes in data/users.json
+
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+import { SessionUser, UserRole } from "./auth-session";
+
+export interface StoredUser extends SessionUser {
+  passwordHash: string; // scrypt:<salt hex>:<hash hex>
+  createdAt: string;
+  updatedAt: string;
+  disabled?: boolean;
+}
+
+interface UserStoreFile {
+  lastUpdate: string;
+  users: Record<string, StoredUser>; // username -> user
+}
+
+const HASH_KEY_LENGTH = 64;
+
+export class UserStore {
+  private users = new Map<string, StoredUser>();
+  private loaded = false;
+  private fileMtime = 0;
+
+  constructor(
+    private storePath: string = path.join(process.cwd(), "data", "users.json")
+  ) {}
+
+  listUsers(): SessionUser[] {
+    this.ensureLoaded();
+    return [...this.users.values()].map((user) => this.toSessionUser(user));
+  }
+
+  getUser(username: string): StoredUser | null {
+    this.ensureLoaded();
+    return this.users.get(username.toLowerCase()) || null;
+  }
+
+  // The account as a session user, or null when it is missing or disabled
+  getActiveUser(username: string): SessionUser | null {
+    const user = this.getUser(username);
+    return user && !user.disabled ? this.toSessionUser(user) : null;
+  }
+
+  createUser(
+    username: string,
+    password: string,
+    role: UserRole,
+    displayName?: string,
+    customerIds?: number[]
+  ): SessionUser {
+    this.ensureLoaded();
+    const key = username.trim().toLowerCase();
+    if (!key) throw new Error("Username is required");
+    if (this.users.has(key)) throw new Error(`User ${key} already exists`);
+    if (password.length < 8) {
+      throw new Error("Password must be at least 8 characters");
+    }
+
+    const now = new Date().toISOString();
+    const user: StoredUser = {
+      id: crypto.randomUUID(),
+      username: key,
+      displayName: displayName || username.trim(),
+      role,
+      customerIds: customerIds?.length ? customerIds : undefined,
+      passwordHash: this.hashPassword(password),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.users.set(key, user);
+    this.save();
+    console.log(`👤 Created ${role} user ${key}`);
+    return this.toSessionUser(user);
+  }
+
+  setRole(username: string, role: UserRole): SessionUser | null {
+    return this.update(username, { role });
+  }
+
+  // An empty list lifts the restriction for staff; customer logins with no
+  // customers see nothing
+  setCustomerIds(username: string, customerIds: number[]): SessionUser | null {
+    return this.update(username, {
+      customerIds: customerIds.length > 0 ? customerIds : undefined,
+    });
+  }
+
+  setPassword(username: string, password: string): SessionUser | null {
+    if (password.length < 8) {
+      throw new Error("Password must be at least 8 characters");
+    }
+    return this.update(username, { passwordHash: this.hashPassword(password) });
+  }
+
+  setDisabled(username: string, disabled: boolean): SessionUser | null {
+    return this.update(username, { disabled });
+  }
+
+  deleteUser(username: string): boolean {
+    this.ensureLoaded();
+    const deleted = this.users.delete(username.toLowerCase());
+    if (deleted) this.save();
+    return deleted;
+  }
+
+  // The user for valid credentials, or null; disabled accounts never match
+  verifyCredentials(username: string, password: string): SessionUser | null {
+    const user = this.getUser(username);
+    if (!user || user.disabled) return null;
+
+    const [scheme, salt, hash] = user.passwordHash.split(":");
+    if (scheme !== "scrypt" || !salt || !hash) return null;
+
+    const expected = Buffer.from(hash, "hex");
+    const actual = crypto.scryptSync(password, salt, expected.length);
+    return crypto.timingSafeEqual(expected, actual)
+      ? this.toSessionUser(user)
+      : null;
+  }
+
+  private update(
+    username: string,
+    updates: Partial<StoredUser>
+  ): SessionUser | null {
+    const user = this.getUser(username);
+    if (!user) return null;
+
+    Object.assign(user, updates, { updatedAt: new Date().toISOString() });
+    this.save();
+    return this.toSessionUser(user);
+  }
+
+  private hashPassword(password: string): string {
+    const salt = crypto.randomBytes(16).toString("hex");
+    const hash = crypto.scryptSync(password, salt, HASH_KEY_LENGTH);
+    return `scrypt:${salt}:${hash.toString("hex")}`;
+  }
+
+  private toSessionUser(user: StoredUser): SessionUser {
+    return {
+      id: user.id,
+      username: user.username,
+      displayName: user.displayName,
+      role: user.role,
+      customerIds: user.customerIds,
+    };
+  }
+
+  // Load on first use and again whenever another process wrote the file
+  private ensureLoaded(): void {
+    try {
+      if (fs.existsSync(this.storePath)) {
+        const mtime = fs.statSync(this.storePath).mtimeMs;
+        if (this.loaded && mtime === this.fileMtime) return;
+
+        const data: UserStoreFile = JSON.parse(
+          fs.readFileSync(this.storePath, "utf8")
+        );
+        this.users = new Map(Object.entries(data.users || {}));
+        this.fileMtime = mtime;
+      }
+    } catch (error) {
+      console.warn("⚠️ Failed to load users:", error);
+    }
+    this.loaded = true;
+  }
+
+  private save(): void {
+    try {
+      const dataDir = path.dirname(this.storePath);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      const data: UserStoreFile = {
+        lastUpdate: new Date().toISOString(),
+        users: Object.fromEntries(this.users),
+      };
+      fs.writeFileSync(this.storePath, JSON.stringify(data, null, 2), {
+        mode: 0o600,
+      });
+      this.fileMtime = fs.statSync(this.storePath).mtimeMs;
+    } catch (error) {
+      console.error("❌ Failed to save users:", error);
+    }
+  }
+}
+
+// Export singleton instance
+export const userStore = new UserStore();
@@ -0,0 +1,227 @@
+// Vector Metadata Schema - Versioned registry of order vector metadata shapes
+// Every vector is stamped with the version that wrote it so old shapes can be found and upgraded
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// Vectors written before versioning carry no stamp
+export const UNVERSIONED_SCHEMA_VERSION = 1;
+
+export type RawVectorMetadata = Record<string, unknown>;
+
+export interface MetadataSchemaDefinition {
+  version: number;
+  description: string;
+  requiredFields: string[];
+  // Re-shape metadata written under the previous version. Returns null when
+  // the record cannot be upgraded in place and must be re-derived from the API.
+  upgrade?: (metadata: RawVectorMetadata) => RawVectorMetadata | null;
+}
+
+export interface SchemaUpgradeResult {
+  metadata: RawVectorMetadata;
+  fromVersion: number;
+  toVersion: number;
+  complete: boolean; // False when an upgrade step needs re-derivation
+}
+
+// ===== REGISTRY =====
+
+export const METADATA_SCHEMAS: MetadataSchemaDefinition[] = [
+  {
+    version: 1,
+    description:
+      "Per-pipeline metadata from vector-db, the enhanced pipeline and the population strategy: numeric job numbers, comma-joined lists, masterStatus/dueDate/totalDue keys",
+    requiredFields: ["jobNumber"],
+  },
+  {
+    version: 2,
+    description:
+      "Unified OrderVectorMetadata: document type, string job numbers, list fields as arrays, epoch date fields for range filters",
+    requiredFields: [
+      "type",
+      "jobNumber",
+      "customerCompany",
+      "status",
+      "dataSource",
+    ],
+    upgrade: upgradeUnversionedMetadata,
+  },
+  {
+    version: 3,
+    description:
+      "Adds embeddingProvider/embeddingModel: the embedder that produced the vector, so an index is never queried or written with another embedder's vectors",
+    requiredFields: [
+      "type",
+      "jobNumber",
+      "customerCompany",
+      "status",
+      "dataSource",
+      "embeddingProvider",
+      "embeddingModel",
+    ],
+    // Which embedder made an unstamped vector can't be told from its
+    // metadata, so it is re-embedded from the API
+    upgrade: () => null,
+  },
+];
+
+export function getMetadataSchema(
+  version: number
+): MetadataSchemaDefinition | undefined {
+  return METADATA_SCHEMAS.find((schema) => schema.version === version);
+}
+
+export function getSchemaVersion(metadata: RawVectorMetadata): number {
+  const version = Number(metadata.schemaVersion);
+  return Number.isInteger(version) && version > 0
+    ? version
+    : UNVERSIONED_SCHEMA_VERSION;
+}
+
+export function isStaleSchema(metadata: RawVectorMetadata): boolean {
+  return getSchemaVersion(metadata) < CURRENT_SCHEMA_VERSION;
+}
+
+export function getMissingFields(
+  metadata: RawVectorMetadata,
+  version: number = CURRENT_SCHEMA_VERSION
+): string[] {
+  const schema = getMetadataSchema(version);
+  if (!schema) return [];
+
+  return schema.requiredFields.filter((field) => {
+    const value = metadata[field];
+    return value === undefined || value === null || value === "";
+  });
+}
+
+// Apply each registered upgrade from the stored version up to the current
+// one. A step that leaves required fields empty still returns its best-effort
+// shape for reading, but stops the chain and marks the result incomplete.
+export function upgradeMetadata(
+  metadata: RawVectorMetadata
+): SchemaUpgradeResult {
+  const fromVersion = getSchemaVersion(metadata);
+  let current = metadata;
+  let toVersion = fromVersion;
+
+  for (const schema of METADATA_SCHEMAS) {
+    if (schema.version <= toVersion) continue;
+
+    const upgraded = schema.upgrade ? schema.upgrade(current) : current;
+    if (!upgraded) {
+      return { metadata: current, fromVersion, toVersion, complete: false };
+    }
+    if (getMissingFields(upgraded, schema.version).length > 0) {
+      return { metadata: upgraded, fromVersion, toVersion, complete: false };
+    }
+
+    current = { ...upgraded, schemaVersion: schema.version };
+    toVersion = schema.version;
+  }
+
+  return { metadata: current, fromVersion, toVersion, complete: true };
+}
+
+// ===== UPGRADES =====
+
+function upgradeUnversionedMetadata(
+  metadata: RawVectorMetadata
+): RawVectorMetadata | null {
+  if (metadata.jobNumber === undefined || metadata.jobNumber === "") {
+    return null;
+  }
+
+  const list = (value: unknown): string[] | undefined => {
+    if (Array.isArray(value)) return value.map(String);
+    if (typeof value === "string") {
+      return value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+    }
+    return undefined;
+  };
+  const timestamp = (value: unknown): number | undefined => {
+    if (!value) return undefined;
+    const time = new Date(String(value)).getTime();
+    return Number.isNaN(time) ? undefined : time;
+  };
+
+  const { masterStatus, dueDate, totalDue, lastAPIUpdate, ...rest } = metadata;
+  const dateDue = rest.dateDue ?? dueDate;
+
+  const upgraded: RawVectorMetadata = {
+    ...rest,
+    type: rest.type ?? "job",
+    jobNumber: String(metadata.jobNumber),
+    status: rest.status ?? masterStatus,
+    dateDue,
+    totalValue: rest.totalValue ?? totalDue,
+    lastUpdated: rest.lastUpdated ?? lastAPIUpdate,
+    dataSource: rest.dataSource === "scraped" ? "scraped" : "api",
+    dateEnteredTs: rest.dateEnteredTs ?? timestamp(rest.dateEntered),
+    dateDueTs: rest.dateDueTs ?? timestamp(dateDue),
+  };
+
+  for (const field of [
+    "processes",
+    "gangCodes",
+    "tags",
+    "categories",
+    "materials",
+  ]) {
+    const value = list(rest[field]);
+    if (value) upgraded[field] = value;
+  }
+
+  return upgraded;
+}
+
+// ===== SEARCH POLICY =====
+
+// How search treats results whose metadata predates the current schema
+export type StaleSchemaPolicy = "allow" | "downrank" | "refuse";
+
+export const STALE_SCHEMA_SCORE_FACTOR = 0.85;
+
+// VECTOR_SCHEMA_POLICY selects the policy; stale results are down-ranked by default
+export function resolveStaleSchemaPolicy(): StaleSchemaPolicy {
+  const configured = process.env.VECTOR_SCHEMA_POLICY?.toLowerCase();
+  if (configured === "allow" || configured === "refuse") return configured;
+  return "downrank";
+}
+
+export function applyStaleSchemaPolicy<
+  T extends { score: number; metadata: { schemaVersion?: number } }
+>(
+  results: T[],
+  policy: StaleSchemaPolicy = resolveStaleSchemaPolicy()
+): { results: T[]; staleCount: number } {
+  const isStale = (result: T) =>
+    (result.metadata.schemaVersion ?? UNVERSIONED_SCHEMA_VERSION) <
+    CURRENT_SCHEMA_VERSION;
+  const staleCount = results.filter(isStale).length;
+
+  if (staleCount === 0 || policy === "allow") {
+    return { results, staleCount };
+  }
+
+  if (policy === "refuse") {
+    return {
+      results: results.filter((result) => !isStale(result)),
+      staleCount,
+    };
+  }
+
+  return {
+    results: results
+      .map((result) =>
+        isStale(result)
+          ? { ...result, score: result.score * STALE_SCHEMA_SCORE_FACTOR }
+          : result
+      )
+      .sort((a, b) => b.score - a.score),
+    staleCount,
+  };
+}
@@ -0,0 +1,276 @@
+// Vector Schema Migration - Brings stored order vectors up to the current metadata schema
+// Re-shapes upgradable records in place and re-derives the rest from the API
+
+import { apiFirstDataService, ModernOrder } from "./api-first-data-service";
+import {
+  orderVectorIndex,
+  type OrderVectorMetadata,
+  type StoredOrderVector,
+} from "./order-vector-index";
+import {
+  CURRENT_SCHEMA_VERSION,
+  getSchemaVersion,
+  upgradeMetadata,
+} from "./vector-metadata-schema";
+
+export interface SchemaMigrationOptions {
+  dryRun?: boolean; // Report what would change without writing
+  rederive?: boolean; // Re-fetch every stale job instead of re-shaping in place
+  prune?: boolean; // Delete vectors whose job is gone from the API or unknown
+  pageSize?: number; // Ids listed and fetched per scan page
+  rederiveBatchSize?: number; // Jobs fetched and re-indexed per round
+  onProgress?: (progress: SchemaMigrationProgress) => void;
+}
+
+export interface SchemaMigrationProgress {
+  phase: "scan" | "rederive" | "cleanup";
+  scanned: number;
+  jobsRederived: number;
+  jobsToRederive: number;
+}
+
+export interface SchemaMigrationReport {
+  targetVersion: number;
+  dryRun: boolean;
+  scanned: number;
+  versions: Record<string, number>; // Stored schema version -> vector count
+  current: number;
+  reshaped: number;
+  rekeyed: number; // Re-shaped records moved to their canonical id
+  staleJobs: number; // Jobs needing re-derivation from the API
+  rederivedJobs: number;
+  missingJobs: string[]; // Stale jobs the API no longer returns
+  orphaned: number; // Records with no job number to re-derive from
+  deletedVectors: number;
+  processingTime: number;
+  errors: string[];
+}
+
+export class VectorSchemaMigrator {
+  async migrate(
+    options: SchemaMigrationOptions = {}
+  ): Promise<SchemaMigrationReport> {
+    const {
+      dryRun = false,
+      rederive = false,
+      prune = false,
+      pageSize = 100,
+      rederiveBatchSize = 10,
+      onProgress,
+    } = options;
+    const startTime = Date.now();
+    const report = this.emptyReport(dryRun);
+
+    // Stale ids per job; legacy ids left over after re-derivation are deleted
+    const staleJobs = new Map<string, string[]>();
+    // Deletions wait until the scan finishes so paging is not disturbed
+    const pendingDeletes: string[] = [];
+
+    console.log(
+      `🔄 Migrating vector metadata to schema v${CURRENT_SCHEMA_VERSION}${
+        dryRun ? " (dry run)" : ""
+      }...`
+    );
+
+    // 1. Scan the index page by page
+    let paginationToken: string | undefined;
+    do {
+      try {
+        const page = await orderVectorIndex.listVectorIds({
+          limit: pageSize,
+          paginationToken,
+        });
+        paginationToken = page.nextToken;
+
+        const vectors = await orderVectorIndex.fetchVectors(page.ids);
+        const rewrites = this.processPage(
+          vectors,
+          { rederive, prune },
+          report,
+          staleJobs,
+          pendingDeletes
+        );
+
+        if (!dryRun) {
+          await orderVectorIndex.rewriteVectors(rewrites);
+        }
+      } catch (error) {
+        report.errors.push(
+          `Scan: ${error instanceof Error ? error.message : String(error)}`
+        );
+        break;
+      }
+
+      onProgress?.({
+        phase: "scan",
+        scanned: report.scanned,
+        jobsRederived: 0,
+        jobsToRederive: staleJobs.size,
+      });
+    } while (paginationToken);
+
+    // 2. Re-derive stale jobs from the API
+    const jobNumbers = [...staleJobs.keys()];
+    report.staleJobs = jobNumbers.length;
+    for (let i = 0; i < jobNumbers.length && !dryRun; i += rederiveBatchSize) {
+      const batch = jobNumbers.slice(i, i + rederiveBatchSize);
+      await this.rederiveJobs(batch, staleJobs, report, prune, pendingDeletes);
+
+      onProgress?.({
+        phase: "rederive",
+        scanned: report.scanned,
+        jobsRederived: Math.min(i + rederiveBatchSize, jobNumbers.length),
+        jobsToRederive: jobNumbers.length,
+      });
+    }
+
+    // 3. Remove superseded and pruned vectors
+    const deletes = [...new Set(pendingDeletes)];
+    if (!dryRun && deletes.length > 0) {
+      try {
+        await orderVectorIndex.deleteVectors(deletes);
+        report.deletedVectors = deletes.length;
+      } catch (error) {
+        report.errors.push(
+          `Cleanup: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    onProgress?.({
+      phase: "cleanup",
+      scanned: report.scanned,
+      jobsRederived: dryRun ? 0 : jobNumbers.length,
+      jobsToRederive: jobNumbers.length,
+    });
+
+    report.processingTime = Date.now() - startTime;
+    console.log(
+      `✅ Schema migration: ${report.scanned} scanned, ${report.current} current, ${report.reshaped} re-shaped, ${report.rederivedJobs} jobs re-derived, ${report.deletedVectors} deleted (${report.processingTime}ms)`
+    );
+
+    return report;
+  }
+
+  // Count stored versions without changing anything
+  async scan(
+    options: Pick<SchemaMigrationOptions, "pageSize" | "onProgress"> = {}
+  ): Promise<SchemaMigrationReport> {
+    return this.migrate({ ...options, dryRun: true });
+  }
+
+  private processPage(
+    vectors: StoredOrderVector[],
+    options: { rederive: boolean; prune: boolean },
+    report: SchemaMigrationReport,
+    staleJobs: Map<string, string[]>,
+    pendingDeletes: string[]
+  ): Array<{ id: string; values: number[]; metadata: OrderVectorMetadata }> {
+    const rewrites: Array<{
+      id: string;
+      values: number[];
+      metadata: OrderVectorMetadata;
+    }> = [];
+
+    for (const vector of vectors) {
+      report.scanned++;
+      const version = getSchemaVersion(vector.metadata);
+      report.versions[version] = (report.versions[version] || 0) + 1;
+
+      if (version >= CURRENT_SCHEMA_VERSION) {
+        report.current++;
+        continue;
+      }
+
+      const upgrade = upgradeMetadata(vector.metadata);
+      const jobNumber = vector.metadata.jobNumber
+        ? String(vector.metadata.jobNumber)
+        : "";
+
+      if (upgrade.complete && !options.rederive) {
+        const metadata = {
+          ...orderVectorIndex.normalizeMetadata(upgrade.metadata),
+          schemaVersion: CURRENT_SCHEMA_VERSION,
+        };
+        const id = orderVectorIndex.vectorIdFor(metadata) || vector.id;
+
+        rewrites.push({ id, values: vector.values, metadata });
+        report.reshaped++;
+        if (id !== vector.id) {
+          pendingDeletes.push(vector.id);
+          report.rekeyed++;
+        }
+      } else if (jobNumber) {
+        staleJobs.set(jobNumber, [
+          ...(staleJobs.get(jobNumber) || []),
+          vector.id,
+        ]);
+      } else {
+        report.orphaned++;
+        // Orphans are only removed on request
+        if (options.prune) pendingDeletes.push(vector.id);
+      }
+    }
+
+    return rewrites;
+  }
+
+  private async rederiveJobs(
+    jobNumbers: string[],
+    staleJobs: Map<string, string[]>,
+    report: SchemaMigrationReport,
+    prune: boolean,
+    pendingDeletes: string[]
+  ): Promise<void> {
+    const orders: ModernOrder[] = [];
+
+    for (const jobNumber of jobNumbers) {
+      const order = await apiFirstDataService.getOrderByJobNumber(jobNumber);
+      if (order) {
+        orders.push(order);
+      } else {
+        report.missingJobs.push(jobNumber);
+        if (prune) pendingDeletes.push(...(staleJobs.get(jobNumber) || []));
+      }
+    }
+
+    if (orders.length === 0) return;
+
+    const stats = await orderVectorIndex.indexOrders(orders, { force: true });
+    report.errors.push(...stats.errors);
+
+    for (const order of orders) {
+      const tracked = orderVectorIndex.getTrackedOrder(order.jobNumber);
+      if (!tracked) continue;
+
+      report.rederivedJobs++;
+      // Legacy ids the re-indexed job no longer uses
+      pendingDeletes.push(
+        ...(staleJobs.get(order.jobNumber) || []).filter(
+          (id) => !tracked.vectorIds.includes(id)
+        )
+      );
+    }
+  }
+
+  private emptyReport(dryRun: boolean): SchemaMigrationReport {
+    return {
+      targetVersion: CURRENT_SCHEMA_VERSION,
+      dryRun,
+      scanned: 0,
+      versions: {},
+      current: 0,
+      reshaped: 0,
+      rekeyed: 0,
+      staleJobs: 0,
+      rederivedJobs: 0,
+      missingJobs: [],
+      orphaned: 0,
+      deletedVectors: 0,
+      processingTime: 0,
+      errors: [],
+    };
+  }
+}
+
+// Export singleton instance
+export const vectorSchemaMigrator = new VectorSchemaMigrator();
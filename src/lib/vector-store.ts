@@ -0,0 +1,424 @@
+// Vector Store - Pluggable backend for vector upsert, search and deletion
+// Wraps Pinecone, or keeps vectors in-process (optionally on disk) for offline use
+
+import { Pinecone } from "@pinecone-database/pinecone";
+import fs from "fs";
+import path from "path";
+
+export type VectorMetadataValue = string | number | boolean | string[];
+export type VectorStoreMetadata = Record<string, VectorMetadataValue>;
+
+// Pinecone metadata filter syntax: implicit equality, $eq/$ne/$gt/$gte/$lt/$lte,
+// $in/$nin, $exists and the $and/$or combinators
+export type VectorFilter = Record<string, unknown>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata?: VectorStoreMetadata;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: VectorFilter;
+  includeMetadata?: boolean;
+  includeValues?: boolean;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  values?: number[];
+  metadata?: VectorStoreMetadata;
+}
+
+export interface VectorStoreStats {
+  backend: VectorStoreBackend;
+  totalRecordCount: number;
+  dimension?: number;
+  indexFullness?: number;
+  namespaces?: Record<string, { recordCount: number }>;
+}
+
+export type VectorStoreBackend = "pinecone" | "local";
+
+export interface VectorListOptions {
+  prefix?: string;
+  limit?: number;
+  paginationToken?: string;
+}
+
+export interface VectorListPage {
+  ids: string[];
+  nextToken?: string; // Absent on the last page
+}
+
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+  readonly indexName: string;
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(query: VectorQuery): Promise<{ matches: VectorMatch[] }>;
+  listIds(options?: VectorListOptions): Promise<VectorListPage>;
+  fetch(ids: string[]): Promise<VectorRecord[]>;
+  deleteMany(ids: string[]): Promise<void>;
+  deleteAll(): Promise<void>;
+  describeIndexStats(): Promise<VectorStoreStats>;
+}
+
+export interface VectorStoreOptions {
+  backend?: VectorStoreBackend;
+  persistPath?: string | null; // Local backend only; null keeps it in memory
+}
+
+// ===== PINECONE BACKEND =====
+
+export class PineconeVectorStore implements VectorStore {
+  readonly backend = "pinecone" as const;
+  private pinecone: Pinecone;
+
+  constructor(readonly indexName: string, apiKey?: string) {
+    this.pinecone = new Pinecone({
+      apiKey: apiKey || process.env.PINECONE_API_KEY || "",
+    });
+  }
+
+  private get index() {
+    return this.pinecone.index(this.indexName);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.index.upsert(records);
+  }
+
+  async query(query: VectorQuery): Promise<{ matches: VectorMatch[] }> {
+    const response = await this.index.query({
+      vector: query.vector,
+      topK: query.topK,
+      filter:
+        query.filter && Object.keys(query.filter).length > 0
+          ? query.filter
+          : undefined,
+      includeMetadata: query.includeMetadata ?? true,
+      includeValues: query.includeValues ?? false,
+    });
+
+    return {
+      matches: (response.matches || []).map((match) => ({
+        id: match.id,
+        score: match.score || 0,
+        values: match.values,
+        metadata: match.metadata as VectorStoreMetadata | undefined,
+      })),
+    };
+  }
+
+  // Listing is only supported on serverless indexes
+  async listIds(options: VectorListOptions = {}): Promise<VectorListPage> {
+    const response = await this.index.listPaginated({
+      prefix: options.prefix,
+      limit: options.limit,
+      paginationToken: options.paginationToken,
+    });
+
+    return {
+      ids: (response.vectors || [])
+        .map((vector) => vector.id)
+        .filter((id): id is string => Boolean(id)),
+      nextToken: response.pagination?.next,
+    };
+  }
+
+  async fetch(ids: string[]): Promise<VectorRecord[]> {
+    if (ids.length === 0) return [];
+    const response = await this.index.fetch(ids);
+
+    return Object.values(response.records).map((record) => ({
+      id: record.id,
+      values: record.values,
+      metadata: record.metadata as VectorStoreMetadata | undefined,
+    }));
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.index.deleteMany(ids);
+  }
+
+  async deleteAll(): Promise<void> {
+    await this.index.deleteAll();
+  }
+
+  async describeIndexStats(): Promise<VectorStoreStats> {
+    const stats = await this.index.describeIndexStats();
+    return {
+      backend: this.backend,
+      totalRecordCount: stats.totalRecordCount || 0,
+      dimension: stats.dimension,
+      indexFullness: stats.indexFullness,
+      namespaces: stats.namespaces,
+    };
+  }
+}
+
+// ===== LOCAL BACKEND =====
+
+export class LocalVectorStore implements VectorStore {
+  readonly backend = "local" as const;
+  private records = new Map<string, VectorRecord>();
+  private persistPath: string | null;
+
+  constructor(readonly indexName: string, persistPath?: string | null) {
+    this.persistPath =
+      persistPath === undefined
+        ? path.join(process.cwd(), "data", "vector-store", `${indexName}.json`)
+        : persistPath;
+    this.load();
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const record of records) {
+      this.records.set(record.id, {
+        id: record.id,
+        values: [...record.values],
+        metadata: record.metadata ? { ...record.metadata } : undefined,
+      });
+    }
+    this.save();
+  }
+
+  async query(query: VectorQuery): Promise<{ matches: VectorMatch[] }> {
+    const queryNorm = this.norm(query.vector);
+    const matches: VectorMatch[] = [];
+
+    for (const record of this.records.values()) {
+      if (query.filter && !matchesFilter(record.metadata || {}, query.filter)) {
+        continue;
+      }
+
+      matches.push({
+        id: record.id,
+        score: this.cosineSimilarity(query.vector, queryNorm, record.values),
+        values: query.includeValues ? record.values : undefined,
+        metadata: query.includeMetadata === false ? undefined : record.metadata,
+      });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return { matches: matches.slice(0, query.topK) };
+  }
+
+  // Ids in insertion order; the pagination token is the next offset
+  async listIds(options: VectorListOptions = {}): Promise<VectorListPage> {
+    const { prefix = "", limit = 100 } = options;
+    const offset = Number(options.paginationToken) || 0;
+    const ids = [...this.records.keys()].filter((id) => id.startsWith(prefix));
+    const page = ids.slice(offset, offset + limit);
+
+    return {
+      ids: page,
+      nextToken:
+        offset + limit < ids.length ? String(offset + limit) : undefined,
+    };
+  }
+
+  async fetch(ids: string[]): Promise<VectorRecord[]> {
+    return ids
+      .map((id) => this.records.get(id))
+      .filter((record): record is VectorRecord => Boolean(record))
+      .map((record) => ({
+        id: record.id,
+        values: [...record.values],
+        metadata: record.metadata ? { ...record.metadata } : undefined,
+      }));
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    ids.forEach((id) => this.records.delete(id));
+    this.save();
+  }
+
+  async deleteAll(): Promise<void> {
+    this.records.clear();
+    this.save();
+  }
+
+  async describeIndexStats(): Promise<VectorStoreStats> {
+    const first = this.records.values().next().value as VectorRecord | undefined;
+    return {
+      backend: this.backend,
+      totalRecordCount: this.records.size,
+      dimension: first?.values.length,
+      indexFullness: 0,
+      namespaces: { "": { recordCount: this.records.size } },
+    };
+  }
+
+  private cosineSimilarity(
+    query: number[],
+    queryNorm: number,
+    values: number[]
+  ): number {
+    const length = Math.min(query.length, values.length);
+    let dot = 0;
+    for (let i = 0; i < length; i++) {
+      dot += query[i] * values[i];
+    }
+
+    const denominator = queryNorm * this.norm(values);
+    return denominator === 0 ? 0 : dot / denominator;
+  }
+
+  private norm(values: number[]): number {
+    let sum = 0;
+    for (const value of values) sum += value * value;
+    return Math.sqrt(sum);
+  }
+
+  private load(): void {
+    if (!this.persistPath || !fs.existsSync(this.persistPath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.persistPath, "utf8")) as {
+        records?: VectorRecord[];
+      };
+      for (const record of data.records || []) {
+        this.records.set(record.id, record);
+      }
+      console.log(
+        `📂 Loaded ${this.records.size} vectors from local store: ${this.indexName}`
+      );
+    } catch (error) {
+      console.warn("⚠️ Failed to load local vector store:", error);
+    }
+  }
+
+  private save(): void {
+    if (!this.persistPath) return;
+
+    try {
+      const dir = path.dirname(this.persistPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(
+        this.persistPath,
+        JSON.stringify({
+          indexName: this.indexName,
+          savedAt: new Date().toISOString(),
+          records: Array.from(this.records.values()),
+        })
+      );
+    } catch (error) {
+      console.warn("⚠️ Failed to save local vector store:", error);
+    }
+  }
+}
+
+// ===== FILTER EVALUATION =====
+
+function compareValues(
+  actual: VectorMetadataValue | undefined,
+  operator: string,
+  expected: unknown
+): boolean {
+  switch (operator) {
+    case "$eq":
+      return Array.isArray(actual)
+        ? actual.includes(expected as string)
+        : actual === expected;
+    case "$ne":
+      return Array.isArray(actual)
+        ? !actual.includes(expected as string)
+        : actual !== expected;
+    case "$gt":
+      return typeof actual === "number" && actual > (expected as number);
+    case "$gte":
+      return typeof actual === "number" && actual >= (expected as number);
+    case "$lt":
+      return typeof actual === "number" && actual < (expected as number);
+    case "$lte":
+      return typeof actual === "number" && actual <= (expected as number);
+    case "$in": {
+      const list = expected as unknown[];
+      return Array.isArray(actual)
+        ? actual.some((value) => list.includes(value))
+        : list.includes(actual);
+    }
+    case "$nin": {
+      const list = expected as unknown[];
+      return Array.isArray(actual)
+        ? !actual.some((value) => list.includes(value))
+        : !list.includes(actual);
+    }
+    case "$exists":
+      return (actual !== undefined) === Boolean(expected);
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+// Evaluate a Pinecone-style metadata filter against a record's metadata
+export function matchesFilter(
+  metadata: VectorStoreMetadata,
+  filter: VectorFilter
+): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === "$and") {
+      return (condition as VectorFilter[]).every((sub) =>
+        matchesFilter(metadata, sub)
+      );
+    }
+    if (key === "$or") {
+      return (condition as VectorFilter[]).some((sub) =>
+        matchesFilter(metadata, sub)
+      );
+    }
+
+    const actual = metadata[key];
+    if (
+      condition !== null &&
+      typeof condition === "object" &&
+      !Array.isArray(condition)
+    ) {
+      return Object.entries(condition as Record<string, unknown>).every(
+        ([operator, expected]) => compareValues(actual, operator, expected)
+      );
+    }
+
+    // Bare values are shorthand for $eq
+    return compareValues(actual, "$eq", condition);
+  });
+}
+
+// ===== FACTORY =====
+
+// VECTOR_STORE_BACKEND selects the backend; without it, Pinecone is used when
+// an API key is configured and the local store otherwise
+export function resolveVectorStoreBackend(): VectorStoreBackend {
+  const configured = process.env.VECTOR_STORE_BACKEND?.toLowerCase();
+  if (configured === "pinecone" || configured === "local") return configured;
+  if (configured === "memory") return "local";
+  return process.env.PINECONE_API_KEY ? "pinecone" : "local";
+}
+
+export function createVectorStore(
+  indexName: string,
+  options: VectorStoreOptions = {}
+): VectorStore {
+  const backend = options.backend || resolveVectorStoreBackend();
+
+  if (backend === "local") {
+    const persistPath =
+      options.persistPath !== undefined
+        ? options.persistPath
+        : process.env.VECTOR_STORE_PATH
+        ? path.join(process.env.VECTOR_STORE_PATH, `${indexName}.json`)
+        : undefined;
+    console.log(`🗄️ Using local vector store: ${indexName}`);
+    return new LocalVectorStore(indexName, persistPath);
+  }
+
+  return new PineconeVectorStore(indexName);
+}
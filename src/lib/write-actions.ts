@@ -0,0 +1,679 @@
+// Write Actions - Guarded OMS changes the chat assistant can propose
+// Every write is a dry run first: the preview becomes a pending action, and
+// only the requester's explicit confirmation applies it. Each action declares
+// the roles allowed to run it and how to roll each change back by hand.
+
+import crypto from "crypto";
+import { apiFirstDataService, ModernOrder } from "./api-first-data-service";
+import { APIWriteResponse, enhancedAPIClient } from "./enhanced-api-client";
+import { orderStore } from "./order-store";
+import { orderVectorIndex } from "./order-vector-index";
+import { auditLog } from "./audit-log";
+import { SessionUser, UserRole } from "./auth-session";
+import { DataScope, isOrderInScope } from "./data-scope";
+import { logger } from "./logger";
+import { configManager } from "./config-manager";
+import {
+  pendingActionStore,
+  PendingAction,
+  PendingActionResult,
+  PendingChange,
+} from "./pending-actions";
+import type { AvailableFunction } from "./oms-function-caller";
+
+export type WriteParams = Record<string, string>;
+
+// What a dry run decides for one job
+export type WritePreview =
+  | Omit<PendingChange, "jobNumber">
+  | { skip: string }; // Why the job is left out
+
+export interface WriteActionDefinition {
+  kind: string; // Pending action kind, e.g. "update-due-date"
+  functionName: string; // Offered to the LLM, e.g. "update_due_date"
+  description: string;
+  // Function parameters besides job_numbers
+  parameters: Record<string, { type: "string"; description: string }>;
+  required: string[];
+  roles: UserRole[]; // Who may propose and confirm it
+  // Check and normalize the arguments; throws on bad input
+  validate(params: WriteParams): WriteParams;
+  summarize(params: WriteParams, jobs: string): string;
+  preview(order: ModernOrder, params: WriteParams): Promise<WritePreview>;
+  apply(
+    change: PendingChange,
+    idempotencyKey: string
+  ): Promise<APIWriteResponse>;
+}
+
+export interface WriteCommand {
+  kind: string;
+  jobNumbers: string[];
+  params: WriteParams;
+}
+
+export const MAX_JOBS_PER_ACTION = 100;
+
+const apiClient = enhancedAPIClient;
+
+// The write endpoints follow the mock OMS and are unverified against the
+// real one, so the chat neither offers nor proposes writes until enabled
+function writesEnabled(): boolean {
+  return configManager.getCategory("api").enableWrites;
+}
+
+// ===== BUILT-IN ACTIONS =====
+
+export const builtInWriteActions: WriteActionDefinition[] = [
+  {
+    kind: "add-job-tag",
+    functionName: "add_job_tag",
+    description: "Add a tag to one or more jobs",
+    parameters: {
+      tag: { type: "string", description: "The tag to add, e.g. rush" },
+    },
+    required: ["tag"],
+    roles: ["csr", "production", "admin"],
+    validate: (params) => ({ tag: requireText(params.tag, "tag", 50) }),
+    summarize: (params, jobs) => `Add tag "${params.tag}" to ${jobs}`,
+    preview: async (order, params) => {
+      const tags = order.tags.map((tag) => tag.tag);
+      const existing = tags.find(
+        (tag) => normalizeTag(tag) === normalizeTag(params.tag)
+      );
+      if (existing) return { skip: `already tagged "${existing}"` };
+      return {
+        field: "tags",
+        before: tags.join(", ") || "(none)",
+        after: [...tags, params.tag].join(", "),
+        value: params.tag,
+        rollback: `Remove tag "${params.tag}"`,
+      };
+    },
+    apply: (change, key) =>
+      apiClient.addJobTag(change.jobNumber, change.value, key),
+  },
+  {
+    kind: "remove-job-tag",
+    functionName: "remove_job_tag",
+    description: "Remove a tag from one or more jobs",
+    parameters: {
+      tag: { type: "string", description: "The tag to remove" },
+    },
+    required: ["tag"],
+    roles: ["csr", "production", "admin"],
+    validate: (params) => ({ tag: requireText(params.tag, "tag", 50) }),
+    summarize: (params, jobs) => `Remove tag "${params.tag}" from ${jobs}`,
+    preview: async (order, params) => {
+      const tags = order.tags.map((tag) => tag.tag);
+      const wanted = normalizeTag(params.tag);
+      // "the gamma tag" names "PS Done - Gamma" when it is the only match
+      const exact = tags.find((tag) => normalizeTag(tag) === wanted);
+      const partial = tags.filter((tag) => normalizeTag(tag).includes(wanted));
+      const match = exact || (partial.length === 1 ? partial[0] : undefined);
+      if (!match) {
+        return {
+          skip:
+            partial.length > 1
+              ? `several tags match: ${partial.join(", ")}`
+              : `no "${params.tag}" tag`,
+        };
+      }
+      return {
+        field: "tags",
+        before: tags.join(", "),
+        after: tags.filter((tag) => tag !== match).join(", ") || "(none)",
+        value: match,
+        rollback: `Add tag "${match}" back`,
+      };
+    },
+    apply: (change, key) =>
+      apiClient.removeJobTag(change.jobNumber, change.value, key),
+  },
+  {
+    kind: "update-due-date",
+    functionName: "update_due_date",
+    description: "Change the due date of one or more jobs",
+    parameters: {
+      due_date: {
+        type: "string",
+        description: "New due date as YYYY-MM-DD",
+      },
+    },
+    required: ["due_date"],
+    roles: ["csr", "admin"],
+    validate: (params) => {
+      const dueDate = requireText(params.due_date, "due_date", 10);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(dueDate) || isNaN(Date.parse(dueDate))) {
+        throw new Error(`"${dueDate}" is not a date in YYYY-MM-DD form`);
+      }
+      if (dueDate < new Date().toISOString().slice(0, 10)) {
+        throw new Error(`${dueDate} is in the past`);
+      }
+      return { due_date: dueDate };
+    },
+    summarize: (params, jobs) =>
+      `Change the due date of ${jobs} to ${params.due_date}`,
+    preview: async (order, params) => {
+      const before = (order.dates.dateDue || "").slice(0, 10);
+      if (before === params.due_date) {
+        return { skip: `already due ${before}` };
+      }
+      return {
+        field: "due date",
+        before: before || "(none)",
+        after: params.due_date,
+        value: params.due_date,
+        rollback: before
+          ? `Set the due date back to ${before}`
+          : "Clear the due date",
+      };
+    },
+    apply: (change, key) =>
+      apiClient.updateJobDueDate(change.jobNumber, change.value, key),
+  },
+  {
+    kind: "add-job-comment",
+    functionName: "add_job_comment",
+    description: "Add a comment to one or more jobs",
+    parameters: {
+      comment: { type: "string", description: "The comment text" },
+    },
+    required: ["comment"],
+    roles: ["csr", "production", "admin"],
+    validate: (params) => ({
+      comment: requireText(params.comment, "comment", 500),
+    }),
+    summarize: (params, jobs) =>
+      `Add the comment "${truncate(params.comment, 60)}" to ${jobs}`,
+    preview: async (order, params) => ({
+      field: "comments",
+      before: order.comments || "(none)",
+      after: [order.comments, params.comment].filter(Boolean).join("\n"),
+      value: params.comment,
+      rollback: `Delete the comment "${truncate(
+        params.comment,
+        60
+      )}" from the job's comments`,
+    }),
+    apply: (change, key) =>
+      apiClient.addJobComment(change.jobNumber, change.value, key),
+  },
+  {
+    kind: "mark-stock-received",
+    functionName: "mark_stock_received",
+    description: "Mark the stock for one or more jobs as received",
+    parameters: {},
+    required: [],
+    roles: ["production", "admin"],
+    validate: () => ({}),
+    summarize: (params, jobs) => `Mark stock received for ${jobs}`,
+    preview: async (order) => {
+      const before = order.status.stock || "Unknown";
+      if (order.status.stockComplete === 2) {
+        return { skip: `stock already "${before}"` };
+      }
+      return {
+        field: "stock",
+        before,
+        after: "Stock Complete",
+        value: "",
+        rollback: `Set the stock status back to "${before}"`,
+      };
+    },
+    apply: (change, key) =>
+      apiClient.markJobStockReceived(change.jobNumber, key),
+  },
+  {
+    kind: "update-delivery-option",
+    functionName: "change_delivery_option",
+    description: "Change the delivery option of one or more jobs",
+    parameters: {
+      delivery_option: {
+        type: "string",
+        description:
+          'Delivery option code or name, e.g. "NDA" or "Next Day Air"',
+      },
+    },
+    required: ["delivery_option"],
+    roles: ["csr", "admin"],
+    validate: (params) => ({
+      delivery_option: requireText(
+        params.delivery_option,
+        "delivery_option",
+        50
+      ),
+    }),
+    summarize: (params, jobs) =>
+      `Change the delivery option of ${jobs} to ${params.delivery_option}`,
+    preview: async (order, params) => {
+      // Options differ per customer; codes are what the OMS stores
+      const response = (await apiClient.getDeliveryOptions(
+        String(order.customer.id)
+      )) as { data?: Array<{ label: string; value: string }> } | null;
+      const options = response?.data || [];
+      const wanted = params.delivery_option.toLowerCase();
+      const option = options.find(
+        (candidate) =>
+          candidate.label.toLowerCase() === wanted ||
+          candidate.value.toLowerCase() === wanted
+      );
+      if (!option) {
+        return {
+          skip: `"${params.delivery_option}" isn't offered to ${
+            order.customer.company
+          } (${options.map((candidate) => candidate.label).join(", ")})`,
+        };
+      }
+
+      const before = order.location.deliveryOption || "";
+      if (before === option.label) {
+        return { skip: `already ${before}` };
+      }
+      return {
+        field: "delivery option",
+        before: before || "(none)",
+        after: option.label,
+        value: option.label,
+        rollback: before
+          ? `Set the delivery option back to ${before}`
+          : "Clear the delivery option",
+      };
+    },
+    apply: (change, key) =>
+      apiClient.updateJobDeliveryOption(change.jobNumber, change.value, key),
+  },
+];
+
+// ===== CHAT COMMANDS =====
+
+// "tag 51132 as rush", "tag jobs 51132 and 51140 with rush"
+const TAG_AS_PATTERN =
+  /^tag\s+(?:jobs?\s+|orders?\s+)?(.+?)\s+(?:as|with)\s+(.+?)$/i;
+// "add the rush tag to 51132", "remove tag gamma from jobs 51200–51210";
+// without the word "tag" it is left to the LLM ("add a comment to 51132")
+const ADD_REMOVE_PATTERN =
+  /^(add|remove|delete)\s+(?:the\s+)?(?:tag\s+(.+?)|(.+?)\s+tag)\s+(?:to|on|from)\s+(?:jobs?\s+|orders?\s+)?(.+?)$/i;
+
+/**
+ * Recognize a request to change tags, which the chat proposes without
+ * asking the LLM. Other writes are proposed through function calls.
+ * Returns null for anything else so the message is answered as a question.
+ */
+export function parseTagCommand(message: string): WriteCommand | null {
+  const text = message
+    .trim()
+    .replace(/^please\s+/i, "")
+    .replace(/[.!]+$/, "");
+
+  const tagAs = text.match(TAG_AS_PATTERN);
+  const addRemove = tagAs ? null : text.match(ADD_REMOVE_PATTERN);
+  const [jobText, tagText, kind]: [string, string, string] | [] = tagAs
+    ? [tagAs[1], tagAs[2], "add-job-tag"]
+    : addRemove
+    ? [
+        addRemove[4],
+        addRemove[2] || addRemove[3],
+        /^add$/i.test(addRemove[1]) ? "add-job-tag" : "remove-job-tag",
+      ]
+    : [];
+  if (!jobText || !tagText || !kind) return null;
+
+  const jobNumbers = parseJobNumbers(jobText);
+  const tag = tagText.replace(/^["'@]+|["']+$/g, "").trim();
+  if (!jobNumbers || !tag || tag.length > 50) return null;
+
+  return { kind, jobNumbers, params: { tag } };
+}
+
+// Expands "51132, 51140 and 51200–51210"; null unless it is only job numbers.
+// Stops one past the limit so oversized requests can be refused.
+export function parseJobNumbers(text: string): string[] | null {
+  const tokens = text
+    .replace(/\s*(?:-|–|—|\bto\b|\bthrough\b|\bthru\b)\s*/gi, "-")
+    .split(/\s*(?:,|&|\band\b|\s)\s*/i)
+    .filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  const jobNumbers = new Set<string>();
+  for (const token of tokens) {
+    const match = token.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) return null;
+
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    if (end < start) return null;
+    for (let job = start; job <= end; job++) {
+      if (jobNumbers.size > MAX_JOBS_PER_ACTION) break;
+      jobNumbers.add(String(job));
+    }
+  }
+  return [...jobNumbers];
+}
+
+// ===== SERVICE =====
+
+export class WriteActionService {
+  private definitions = new Map<string, WriteActionDefinition>(); // kind ->
+
+  constructor(definitions: WriteActionDefinition[] = builtInWriteActions) {
+    definitions.forEach((definition) => this.addAction(definition));
+  }
+
+  addAction(definition: WriteActionDefinition): void {
+    this.definitions.set(definition.kind, definition);
+  }
+
+  getActions(): WriteActionDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  // Whether the role may propose and confirm this kind of change
+  isAllowed(kind: string, role?: string): boolean {
+    const definition = this.definitions.get(kind);
+    return (
+      writesEnabled() &&
+      !!definition &&
+      definition.roles.includes(role as UserRole)
+    );
+  }
+
+  getByFunction(functionName: string): WriteActionDefinition | undefined {
+    return this.getActions().find(
+      (definition) => definition.functionName === functionName
+    );
+  }
+
+  // Function definitions for the LLM; calling one only proposes the write
+  getFunctions(): AvailableFunction[] {
+    if (!writesEnabled()) return [];
+    return this.getActions().map((definition) => ({
+      name: definition.functionName,
+      description: `${definition.description}. Only call this when the user asks for the change. Nothing is written: this returns a preview the user must confirm in the chat before it is applied`,
+      parameters: {
+        type: "object",
+        properties: {
+          job_numbers: {
+            type: "string",
+            description:
+              'Job numbers, listed or as ranges, e.g. "51132" or "51200-51210, 51300"',
+          },
+          ...definition.parameters,
+        },
+        required: ["job_numbers", ...definition.required],
+      },
+    }));
+  }
+
+  /**
+   * Dry-run a write against the current orders and store it for
+   * confirmation. Jobs that can't or needn't change are listed as skipped;
+   * throws when that leaves nothing to do. Asking again for the same change
+   * while it is still pending returns the existing action.
+   * Runs inside the audit entry of the chat request that asked for it.
+   */
+  async propose(
+    command: WriteCommand,
+    scope?: DataScope
+  ): Promise<PendingAction> {
+    const definition = this.getDefinition(command.kind);
+    const entry = auditLog.getCurrentEntry();
+    if (!entry?.userId || !entry.username || !entry.role) {
+      throw new Error("Changes to jobs need a signed-in user");
+    }
+    this.assertRole(definition, entry.role);
+    if (command.jobNumbers.length > MAX_JOBS_PER_ACTION) {
+      throw new Error(
+        `Changes are limited to ${MAX_JOBS_PER_ACTION} jobs at a time`
+      );
+    }
+    const params = definition.validate(command.params);
+
+    const fingerprint = crypto
+      .createHash("sha256")
+      .update(
+        JSON.stringify([entry.userId, command.kind, params, command.jobNumbers])
+      )
+      .digest("hex")
+      .slice(0, 16);
+    const duplicate = pendingActionStore
+      .list({ status: "pending" })
+      .find((action) => action.fingerprint === fingerprint);
+    if (duplicate) return duplicate;
+
+    const changes: PendingChange[] = [];
+    const skipped: PendingAction["skipped"] = [];
+    for (const jobNumber of command.jobNumbers) {
+      const order = await this.loadOrder(jobNumber);
+      if (!order || !isOrderInScope(order, scope)) {
+        skipped.push({ jobNumber, reason: "job not found" });
+        continue;
+      }
+
+      const preview = await definition.preview(order, params);
+      if ("skip" in preview) {
+        skipped.push({ jobNumber, reason: preview.skip });
+      } else {
+        changes.push({ jobNumber, ...preview });
+      }
+    }
+
+    if (changes.length === 0) {
+      throw new Error(
+        `Nothing to change: ${skipped
+          .map((skip) => `${skip.jobNumber} ${skip.reason}`)
+          .join("; ")}`
+      );
+    }
+
+    const jobNumbers = changes.map((change) => change.jobNumber);
+    const action = pendingActionStore.create({
+      kind: command.kind,
+      summary: definition.summarize(
+        params,
+        jobNumbers.length === 1
+          ? `job ${jobNumbers[0]}`
+          : `${jobNumbers.length} jobs`
+      ),
+      jobNumbers,
+      params,
+      changes,
+      fingerprint,
+      skipped,
+      requestedBy: {
+        userId: entry.userId,
+        username: entry.username,
+        role: entry.role,
+      },
+      sessionId: entry.sessionId,
+      correlationId: logger.getCorrelationId() || null,
+    });
+    auditLog.annotate({ jobNumbers });
+    console.log(
+      `📝 Proposed ${action.kind} for ${jobNumbers.length} jobs (${skipped.length} skipped): ${action.id}`
+    );
+    return action;
+  }
+
+  /**
+   * Apply a pending action. Only the requester (or an admin) with a role
+   * the action allows may confirm. A repeated confirmation with the same
+   * idempotency key returns the action instead of writing again. Jobs are
+   * written one at a time; a failure doesn't stop the rest.
+   * Call inside auditLog.track() so each write is recorded.
+   */
+  async confirm(
+    id: string,
+    user: SessionUser,
+    confirmKey: string = crypto.randomUUID()
+  ): Promise<PendingAction> {
+    // A retried confirmation gets the outcome of the first, but only for
+    // someone who could have confirmed it
+    const existing = this.getOwnAction(id, user);
+    if (existing.confirmKey === confirmKey) return existing;
+
+    const action = this.getOwnPending(id, user);
+    const definition = this.getDefinition(action.kind);
+    this.assertRole(definition, user.role);
+    if (!pendingActionStore.begin(action.id, confirmKey)) {
+      throw new Error(`Action ${id} is already being applied`);
+    }
+
+    const results: PendingActionResult[] = [];
+    for (const change of action.changes) {
+      // Per job, so the OMS can ignore a write it already applied
+      const idempotencyKey = `${action.id}:${change.jobNumber}`;
+      let result: PendingActionResult;
+      try {
+        const response = await definition.apply(change, idempotencyKey);
+        if (response.isError || !response.isSuccess) {
+          throw new Error(
+            stripHTML(String(response.error?.Message || "OMS rejected it"))
+          );
+        }
+        result = { jobNumber: change.jobNumber, success: true };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(
+          `❌ ${action.kind} failed for ${change.jobNumber}:`,
+          message
+        );
+        result = {
+          jobNumber: change.jobNumber,
+          success: false,
+          error: message,
+        };
+      }
+
+      results.push(result);
+      auditLog.recordWrite({
+        actionId: action.id,
+        kind: action.kind,
+        jobNumber: change.jobNumber,
+        parameters: { ...action.params, value: change.value },
+        success: result.success,
+        error: result.error,
+        rollback: change.rollback,
+        idempotencyKey,
+      });
+    }
+    auditLog.annotate({ strategy: "write-confirmed" });
+
+    await this.refreshOrders(
+      results.filter((result) => result.success).map((r) => r.jobNumber)
+    );
+
+    const failed = results.filter((result) => !result.success).length;
+    console.log(
+      `✅ Applied ${action.kind} ${action.id}: ${results.length - failed} written, ${failed} failed`
+    );
+    return pendingActionStore.resolve(action.id, {
+      status: failed > 0 ? "failed" : "applied",
+      resolvedBy: user.username,
+      results,
+    }) as PendingAction;
+  }
+
+  async cancel(id: string, user: SessionUser): Promise<PendingAction> {
+    const action = this.getOwnPending(id, user);
+    auditLog.annotate({ strategy: "write-cancelled" });
+    return pendingActionStore.resolve(action.id, {
+      status: "cancelled",
+      resolvedBy: user.username,
+    }) as PendingAction;
+  }
+
+  private getDefinition(kind: string): WriteActionDefinition {
+    if (!writesEnabled()) {
+      throw new Error("Changes to jobs are turned off for this OMS");
+    }
+    const definition = this.definitions.get(kind);
+    if (!definition) throw new Error(`Unknown write action: ${kind}`);
+    return definition;
+  }
+
+  private assertRole(definition: WriteActionDefinition, role: string): void {
+    if (!definition.roles.includes(role as UserRole)) {
+      throw new Error(`The ${role} role can't ${definition.functionName}`);
+    }
+  }
+
+  private getOwnAction(id: string, user: SessionUser): PendingAction {
+    const action = pendingActionStore.get(id);
+    if (!action) throw new Error(`Action ${id} not found`);
+    if (action.requestedBy.userId !== user.id && user.role !== "admin") {
+      throw new Error("Only the user who asked for this change can confirm it");
+    }
+    return action;
+  }
+
+  private getOwnPending(id: string, user: SessionUser): PendingAction {
+    const action = this.getOwnAction(id, user);
+    if (action.status !== "pending") {
+      throw new Error(`Action ${id} is already ${action.status}`);
+    }
+    return action;
+  }
+
+  private async loadOrder(jobNumber: string): Promise<ModernOrder | null> {
+    return (
+      orderStore.getOrder(jobNumber) ||
+      (await apiFirstDataService.getOrderByJobNumber(jobNumber))
+    );
+  }
+
+  // Refetch the written jobs: storing them invalidates cached answers
+  // through the order events, and re-embedding replaces their vectors
+  private async refreshOrders(jobNumbers: string[]): Promise<void> {
+    if (jobNumbers.length === 0) return;
+
+    const refreshed: ModernOrder[] = [];
+    for (const jobNumber of jobNumbers) {
+      const order = await apiFirstDataService.getOrderByJobNumber(jobNumber);
+      if (order) refreshed.push(order);
+    }
+
+    try {
+      const stats = await orderVectorIndex.indexOrders(refreshed);
+      console.log(
+        `🔄 Re-indexed ${stats.updatedOrders + stats.newOrders} of ${refreshed.length} written orders`
+      );
+    } catch (error) {
+      console.warn("⚠️ Failed to re-index written orders:", error);
+    }
+  }
+}
+
+// ===== HELPERS =====
+
+function requireText(
+  value: string | undefined,
+  name: string,
+  maxLength: number
+): string {
+  const text = String(value ?? "")
+    .replace(/^["'@]+|["']+$/g, "")
+    .trim();
+  if (!text) throw new Error(`${name} is required`);
+  if (text.length > maxLength) {
+    throw new Error(`${name} is longer than ${maxLength} characters`);
+  }
+  return text;
+}
+
+// Same comparison as the order store's tag index
+function normalizeTag(tag: string): string {
+  return tag.toLowerCase().trim().replace(/^@/, "").replace(/\s+/g, "");
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+// OMS error messages arrive as "<ul><li>...</li></ul>"
+function stripHTML(text: string): string {
+  return text.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+}
+
+// Export singleton instance
+export const writeActionService = new WriteActionService();
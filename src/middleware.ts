@@ -0,0 +1,81 @@
+// Auth Middleware - Requires a signed-in user on every page and API route
+// and enforces the role rules in ROUTE_ACCESS_RULES
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getAllowedRoles,
+  getSessionSecret,
+  isPublicPath,
+  SESSION_COOKIE,
+  USER_HEADERS,
+  verifySessionToken,
+} from "./lib/auth-session";
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith("/api/");
+
+  // Never trust identity headers sent by the client
+  const headers = new Headers(request.headers);
+  Object.values(USER_HEADERS).forEach((name) => headers.delete(name));
+
+  // Files served from public/ need no session
+  const isPublicFile = !isApi && /\.[a-z0-9]+$/i.test(pathname);
+  if (isPublicPath(pathname) || isPublicFile) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const secret = getSessionSecret();
+  if (!secret) {
+    console.error("❌ AUTH_SECRET is not set; refusing all requests");
+    return NextResponse.json(
+      {
+        error: "Authentication is not configured",
+        details: "Set AUTH_SECRET in the environment",
+      },
+      { status: 500 }
+    );
+  }
+
+  // Browsers send the cookie; scripts may send the token as a bearer token
+  const bearer = request.headers.get("authorization")?.match(/^Bearer (.+)$/i);
+  const token = request.cookies.get(SESSION_COOKIE)?.value || bearer?.[1];
+  const user = token ? await verifySessionToken(token, secret) : null;
+
+  if (!user) {
+    if (isApi) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("next", pathname);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  const allowedRoles = getAllowedRoles(pathname);
+  if (allowedRoles && !allowedRoles.includes(user.role)) {
+    if (isApi) {
+      return NextResponse.json(
+        {
+          error: "Forbidden",
+          details: `Requires role: ${allowedRoles.join(" or ")}`,
+        },
+        { status: 403 }
+      );
+    }
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  headers.set(USER_HEADERS.id, user.id);
+  headers.set(USER_HEADERS.username, user.username);
+  headers.set(USER_HEADERS.displayName, encodeURIComponent(user.displayName));
+  headers.set(USER_HEADERS.role, user.role);
+  if (user.customerIds) {
+    headers.set(USER_HEADERS.customerIds, user.customerIds.join(","));
+  }
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  // Everything except Next.js build assets
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};